@@ -0,0 +1,490 @@
+/**
+ * Mock backend for demo mode
+ *
+ * Serves every route in the OpenAPI `paths` from the in-memory store in
+ * `@/constants/mock-backend`, so the dashboard runs without the FastAPI
+ * service. `GET /api/mock/ws` streams `analysis_start`/`analysis_complete`
+ * events as Server-Sent Events for `MockWebSocket`.
+ */
+
+import { NextRequest } from 'next/server';
+import { mockDb } from '@/constants/mock-backend';
+import type { HttpMethod, PathsWithMethod } from '@/lib/api-client';
+import type { components } from '@/lib/generated/api-types';
+import { isValidSolanaAddress } from '@/lib/solana';
+
+export const dynamic = 'force-dynamic';
+
+type Schemas = components['schemas'];
+
+interface MockContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  // Parsed JSON, unchecked - read it through `jsonBody()`
+  body: unknown;
+}
+
+type MockHandler = (ctx: MockContext) => unknown;
+
+// Every path/method pair in the schema must have a handler
+type MockRoutes = {
+  [M in HttpMethod]: Record<PathsWithMethod<M>, MockHandler>;
+};
+
+// A request body as the schema object, or an empty one when it isn't an
+// object; each field is still checked by the handler
+function jsonBody<T>(body: unknown): Partial<T> {
+  return body && typeof body === 'object' && !Array.isArray(body)
+    ? (body as Partial<T>)
+    : {};
+}
+
+function arrayField<T>(value: T[] | null | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function detail(status: number, message: string) {
+  return Response.json({ detail: message }, { status });
+}
+
+function validationError(field: string, message: string) {
+  return Response.json(
+    {
+      detail: [{ loc: ['body', field], msg: message, type: 'value_error' }]
+    },
+    { status: 422 }
+  );
+}
+
+function tokenOr404(id: string) {
+  return mockDb.findToken(Number(id)) ?? detail(404, 'Token not found');
+}
+
+function jobOr404(id: string) {
+  return (
+    mockDb.jobs.find((job) => job.job_id === id) ??
+    detail(404, 'Analysis job not found')
+  );
+}
+
+const routes: MockRoutes = {
+  get: {
+    '/': () => ({
+      message: 'Gun Del Sol API (demo mode)',
+      version: 'mock'
+    }),
+    '/health': () => ({
+      status: 'healthy',
+      websocket_connections: mockDb.listeners.size
+    }),
+    '/api/debug-mode': () => ({ debug_mode: false }),
+    '/api/debug/config': () => ({ debug_mode: false, mock: true }),
+    '/api/settings': () => mockDb.settings,
+    '/metrics': () =>
+      new Response(mockDb.metricsText(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4' }
+      }),
+    '/metrics/health': () => ({
+      status: 'healthy',
+      database: 'ok',
+      websocket_connections: mockDb.listeners.size,
+      active_jobs: mockDb.jobs.filter(
+        (job) => job.status === 'queued' || job.status === 'processing'
+      ).length
+    }),
+    '/addresses': () => ({
+      total: mockDb.watchlist.length,
+      addresses: mockDb.watchlist
+    }),
+    '/address/{address}': ({ params }) =>
+      mockDb.watchlist.find((entry) => entry.address === params.address) ??
+      detail(404, 'Address not found'),
+    '/api/tokens/history': () => mockDb.getTokens(false),
+    '/api/tokens/trash': () => mockDb.getTokens(true),
+    '/api/tokens/{token_id}': ({ params }) => {
+      const token = tokenOr404(params.token_id);
+      return token instanceof Response ? token : mockDb.toTokenDetail(token);
+    },
+    '/api/tokens/{token_id}/history': ({ params }) => {
+      const token = tokenOr404(params.token_id);
+      if (token instanceof Response) return token;
+      return {
+        token_id: token.id,
+        total_runs: token.runs.length,
+        runs: token.runs
+      };
+    },
+    '/analysis': () => ({
+      total: mockDb.jobs.length,
+      jobs: mockDb.jobs
+    }),
+    '/analysis/{job_id}': ({ params }) => {
+      const job = jobOr404(params.job_id);
+      return job instanceof Response ? job : mockDb.toAnalysisJob(job);
+    },
+    '/analysis/{job_id}/csv': ({ params }) => {
+      const job = jobOr404(params.job_id);
+      if (job instanceof Response) return job;
+      if (job.status !== 'completed') return detail(404, 'Results not ready');
+      return new Response(mockDb.jobCsv(job), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="analysis_${job.job_id}.csv"`
+        }
+      });
+    },
+    '/analysis/{job_id}/axiom': ({ params }) => {
+      const job = jobOr404(params.job_id);
+      if (job instanceof Response) return job;
+      const token = job.token_id ? mockDb.findToken(job.token_id) : undefined;
+      if (!token) return detail(404, 'Axiom export not found');
+      return new Response(JSON.stringify(mockDb.axiomJson(token), null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${token.acronym}_axiom.json"`
+        }
+      });
+    },
+    '/multi-token-wallets': ({ query }) =>
+      mockDb.multiTokenWallets(Number(query.get('min_tokens')) || 2),
+    '/wallets/{wallet_address}/tags': ({ params }) => ({
+      tags: mockDb.walletTags[params.wallet_address] || []
+    }),
+    '/tags': () => ({ tags: mockDb.allTags() }),
+    '/codex': () => ({
+      wallets: Object.entries(mockDb.walletTags).map(([address, tags]) => ({
+        wallet_address: address,
+        tags
+      }))
+    }),
+    '/tags/{tag}/wallets': ({ params }) => ({
+      tag: params.tag,
+      wallets: Object.entries(mockDb.walletTags)
+        .filter(([, tags]) => tags.some((t) => t.tag === params.tag))
+        .map(([address]) => address)
+    }),
+    '/webhooks/list': () => mockDb.webhooks,
+    '/webhooks/{webhook_id}': ({ params }) =>
+      mockDb.webhooks.find((w) => w.webhookID === params.webhook_id) ??
+      detail(404, 'Webhook not found')
+  },
+
+  post: {
+    '/api/settings': ({ body }) => {
+      const updates = jsonBody<Schemas['UpdateSettingsRequest']>(body);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== null && value !== undefined) {
+          mockDb.settings[key as keyof typeof mockDb.settings] = value;
+        }
+      });
+      return { status: 'success', settings: mockDb.settings };
+    },
+    '/register': ({ body }) => {
+      const request = jsonBody<Schemas['RegisterAddressRequest']>(body);
+      if (
+        typeof request.address !== 'string' ||
+        !isValidSolanaAddress(request.address)
+      ) {
+        return validationError('address', 'Invalid Solana address');
+      }
+      if (mockDb.watchlist.some((e) => e.address === request.address)) {
+        return detail(400, 'Address already registered');
+      }
+      mockDb.watchlist.push({
+        address: request.address,
+        registered_at: new Date().toISOString(),
+        threshold: 100,
+        total_notifications: 0,
+        last_notification: null,
+        note: request.note ?? null
+      });
+      return { status: 'success', message: 'Address registered' };
+    },
+    '/import': ({ body }) => {
+      const request = jsonBody<Schemas['ImportAddressesRequest']>(body);
+      let added = 0;
+      arrayField(request.addresses).forEach((entry) => {
+        if (mockDb.watchlist.some((e) => e.address === entry.address)) return;
+        mockDb.watchlist.push({
+          ...entry,
+          registered_at: entry.registered_at ?? new Date().toISOString()
+        });
+        added++;
+      });
+      return {
+        message: `Imported ${added} addresses`,
+        added,
+        skipped: arrayField(request.addresses).length - added
+      };
+    },
+    '/clear': () => {
+      mockDb.watchlist = [];
+      return { status: 'success', message: 'All addresses cleared' };
+    },
+    '/api/tokens/{token_id}/restore': ({ params }) => {
+      const token = tokenOr404(params.token_id);
+      if (token instanceof Response) return token;
+      token.deleted_at = null;
+      return { message: 'Token restored' };
+    },
+    '/api/tokens/refresh-market-caps': ({ body }) =>
+      mockDb.refreshMarketCaps(
+        arrayField(
+          jsonBody<Schemas['RefreshMarketCapsRequest']>(body).token_ids
+        )
+      ),
+    '/analyze/token': ({ body }) => {
+      const request = jsonBody<Schemas['AnalyzeTokenRequest']>(body);
+      if (
+        typeof request.address !== 'string' ||
+        !isValidSolanaAddress(request.address)
+      ) {
+        return validationError('address', 'Invalid Solana token address');
+      }
+      return Response.json(
+        mockDb.queueAnalysis(
+          request.address,
+          request.api_settings || mockDb.settings
+        ),
+        { status: 202 }
+      );
+    },
+    '/wallets/refresh-balances': ({ body }) =>
+      mockDb.refreshBalances(
+        arrayField(
+          jsonBody<Schemas['RefreshBalancesRequest']>(body).wallet_addresses
+        )
+      ),
+    '/wallets/{wallet_address}/tags': ({ params, body }) => {
+      const request = jsonBody<Schemas['AddTagRequest']>(body);
+      if (typeof request.tag !== 'string' || !request.tag.trim()) {
+        return validationError('tag', 'Tag is required');
+      }
+      mockDb.addTag(
+        params.wallet_address,
+        request.tag.trim(),
+        request.is_kol === true
+      );
+      return { message: 'Tag added' };
+    },
+    '/wallets/batch-tags': ({ body }) => {
+      const request = jsonBody<Schemas['BatchTagsRequest']>(body);
+      return Object.fromEntries(
+        arrayField(request.addresses).map((address) => [
+          address,
+          mockDb.walletTags[address] || []
+        ])
+      );
+    },
+    '/webhooks/create': ({ body }) => {
+      const request = jsonBody<Schemas['CreateWebhookRequest']>(body);
+      const token = tokenOr404(String(request.token_id));
+      if (token instanceof Response) return token;
+      const webhook = mockDb.createWebhook(token, request.webhook_url ?? null);
+      return {
+        status: 'success',
+        webhook_id: webhook.webhookID,
+        webhook_url: webhook.webhookURL,
+        monitoring_wallets: webhook.accountAddresses.length
+      };
+    },
+    '/webhooks/callback': () => ({ status: 'received' }),
+    '/notify/analysis_complete': ({ body }) => {
+      mockDb.emit('analysis_complete', jsonBody<Record<string, unknown>>(body));
+      return { status: 'notification sent', clients: mockDb.listeners.size };
+    },
+    '/notify/analysis_start': ({ body }) => {
+      mockDb.emit('analysis_start', jsonBody<Record<string, unknown>>(body));
+      return { status: 'notification sent', clients: mockDb.listeners.size };
+    }
+  },
+
+  put: {
+    '/address/{address}/note': ({ params, body }) => {
+      const entry = mockDb.watchlist.find((e) => e.address === params.address);
+      if (!entry) return detail(404, 'Address not found');
+      entry.note = jsonBody<Schemas['AddressNoteRequest']>(body).note ?? null;
+      return { status: 'success', message: 'Note updated' };
+    }
+  },
+
+  delete: {
+    '/address/{address}': ({ params }) => {
+      const before = mockDb.watchlist.length;
+      mockDb.watchlist = mockDb.watchlist.filter(
+        (e) => e.address !== params.address
+      );
+      if (mockDb.watchlist.length === before) {
+        return detail(404, 'Address not found');
+      }
+      return { status: 'success', message: 'Address removed' };
+    },
+    '/api/tokens/{token_id}': ({ params }) => {
+      const token = tokenOr404(params.token_id);
+      if (token instanceof Response) return token;
+      token.deleted_at = new Date().toISOString();
+      return { message: 'Token moved to trash' };
+    },
+    '/api/tokens/{token_id}/permanent': ({ params }) => {
+      const token = tokenOr404(params.token_id);
+      if (token instanceof Response) return token;
+      mockDb.tokens = mockDb.tokens.filter((t) => t.id !== token.id);
+      return { message: 'Token permanently deleted' };
+    },
+    '/wallets/{wallet_address}/tags': ({ params, body }) => {
+      const request = jsonBody<Schemas['RemoveTagRequest']>(body);
+      if (typeof request.tag !== 'string' || !request.tag) {
+        return validationError('tag', 'Tag is required');
+      }
+      mockDb.removeTag(params.wallet_address, request.tag);
+      return { message: 'Tag removed' };
+    },
+    '/webhooks/{webhook_id}': ({ params }) => {
+      const before = mockDb.webhooks.length;
+      mockDb.webhooks = mockDb.webhooks.filter(
+        (w) => w.webhookID !== params.webhook_id
+      );
+      if (mockDb.webhooks.length === before) {
+        return detail(404, 'Webhook not found');
+      }
+      return { status: 'success', message: 'Webhook deleted' };
+    }
+  }
+};
+
+/**
+ * Find the route whose `{param}` pattern matches the request path
+ */
+function matchRoute(method: HttpMethod, path: string) {
+  // Literal paths win over parameterized ones (`/api/tokens/trash` vs `{token_id}`)
+  const entries = Object.entries(routes[method]).sort(
+    ([a], [b]) => Number(a.includes('{')) - Number(b.includes('{'))
+  );
+  for (const [pattern, handler] of entries) {
+    const names: string[] = [];
+    const regex = new RegExp(
+      '^' +
+        pattern.replace(/\{(\w+)\}/g, (_, name: string) => {
+          names.push(name);
+          return '([^/]+)';
+        }) +
+        '$'
+    );
+    const match = path.match(regex);
+    if (match) {
+      try {
+        const params = Object.fromEntries(
+          names.map((name, i) => [name, decodeURIComponent(match[i + 1])])
+        );
+        return { pattern, handler: handler as MockHandler, params };
+      } catch {
+        // A malformed escape (`%E0%A4`) can't name anything we have
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Server-Sent Events stream standing in for the backend WebSocket
+ */
+function eventStream(req: NextRequest) {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          unsubscribe();
+        }
+      };
+      unsubscribe = mockDb.subscribe((message) =>
+        send(`data: ${JSON.stringify(message)}\n\n`)
+      );
+      keepAlive = setInterval(() => send(': ping\n\n'), 15000);
+      send(': connected\n\n');
+
+      req.signal.addEventListener('abort', () => {
+        unsubscribe();
+        clearInterval(keepAlive);
+        controller.close();
+      });
+    },
+    cancel() {
+      unsubscribe();
+      clearInterval(keepAlive);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+async function handle(
+  req: NextRequest,
+  method: HttpMethod,
+  { params }: RouteContext
+) {
+  // Optional catch-all, so the bare `/api/mock` reaches the `/` route
+  const segments = (await params).path ?? [];
+  const path = `/${segments.join('/')}`;
+
+  if (method === 'get' && path === '/ws') {
+    return eventStream(req);
+  }
+
+  const started = performance.now();
+  const route = matchRoute(method, path);
+  if (!route) {
+    return detail(404, 'Not Found');
+  }
+
+  let body: unknown;
+  if (method !== 'get') {
+    body = await req.json().catch(() => undefined);
+  }
+
+  const result = await route.handler({
+    params: route.params,
+    query: req.nextUrl.searchParams,
+    body
+  });
+  const response =
+    result instanceof Response ? result : Response.json(result ?? null);
+
+  mockDb.recordRequest(
+    method.toUpperCase(),
+    route.pattern,
+    response.status,
+    (performance.now() - started) / 1000
+  );
+  return response;
+}
+
+type RouteContext = { params: Promise<{ path?: string[] }> };
+
+export function GET(req: NextRequest, ctx: RouteContext) {
+  return handle(req, 'get', ctx);
+}
+
+export function POST(req: NextRequest, ctx: RouteContext) {
+  return handle(req, 'post', ctx);
+}
+
+export function PUT(req: NextRequest, ctx: RouteContext) {
+  return handle(req, 'put', ctx);
+}
+
+export function DELETE(req: NextRequest, ctx: RouteContext) {
+  return handle(req, 'delete', ctx);
+}
@@ -0,0 +1,387 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { formatTimestamp, getTokens } from '@/lib/api';
+import {
+  BUDGET_WARNING_RATIO,
+  CREDIT_LEDGER_EVENT,
+  CREDIT_SOURCES,
+  CreditEntry,
+  getCreditEntries,
+  getMonthlyCreditBudget,
+  monthToDate,
+  setMonthlyCreditBudget
+} from '@/lib/credit-ledger';
+import {
+  CreditBucket,
+  dailyTotals,
+  totalsSince,
+  weeklyTotals
+} from '@/lib/credit-stats';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const MAX_ENTRIES = 100;
+
+const chartConfig = Object.fromEntries(
+  CREDIT_SOURCES.map((source) => [
+    source.key,
+    { label: source.label, color: source.color }
+  ])
+) satisfies ChartConfig;
+
+function sourceLabel(source: CreditEntry['source']) {
+  return CREDIT_SOURCES.find((s) => s.key === source)?.label ?? source;
+}
+
+function describeSubject(entry: CreditEntry) {
+  if (entry.source === 'analysis') {
+    return entry.token_name || entry.token_address || '-';
+  }
+  if (entry.wallet_addresses.length === 1) {
+    return (
+      <Link
+        href={`/dashboard/wallets/${entry.wallet_addresses[0]}`}
+        className='font-mono text-xs hover:underline'
+      >
+        {entry.wallet_addresses[0]}
+      </Link>
+    );
+  }
+  if (entry.wallet_addresses.length > 0) {
+    return `${entry.wallet_addresses.length} wallets`;
+  }
+  if (entry.token_ids.length === 1) {
+    return (
+      <Link
+        href={`/dashboard/tokens/${entry.token_ids[0]}`}
+        className='hover:underline'
+      >
+        Token #{entry.token_ids[0]}
+      </Link>
+    );
+  }
+  return `${entry.token_ids.length} tokens`;
+}
+
+function CreditChart({
+  title,
+  description,
+  data
+}: {
+  title: string;
+  description: string;
+  data: CreditBucket[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className='px-2 sm:px-6'>
+        <ChartContainer
+          config={chartConfig}
+          className='aspect-auto h-[240px] w-full'
+        >
+          <BarChart data={data} margin={{ left: 0, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey='label'
+              tickLine={false}
+              axisLine={false}
+              minTickGap={16}
+            />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {CREDIT_SOURCES.map((source) => (
+              <Bar
+                key={source.key}
+                dataKey={source.key}
+                stackId='credits'
+                fill={`var(--color-${source.key})`}
+                isAnimationActive={false}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CreditsPage() {
+  const [entries, setEntries] = useState<CreditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [budget, setBudget] = useState(getMonthlyCreditBudget);
+  const [budgetInput, setBudgetInput] = useState(String(budget));
+  const [tokenCredits, setTokenCredits] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getCreditEntries()
+        .then((data) => {
+          if (cancelled) return;
+          setEntries(data);
+          setBudget(getMonthlyCreditBudget());
+        })
+        .catch(() => {
+          if (!cancelled) {
+            setError(
+              'The credit ledger is stored in this browser (IndexedDB), which is unavailable here'
+            );
+          }
+        });
+    };
+
+    load();
+    window.addEventListener(CREDIT_LEDGER_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CREDIT_LEDGER_EVENT, load);
+    };
+  }, []);
+
+  // Backend-side lifetime totals, to compare against what this browser saw
+  useEffect(() => {
+    getTokens()
+      .then((data) =>
+        setTokenCredits(
+          data.tokens.reduce((sum, token) => sum + (token.credits_used || 0), 0)
+        )
+      )
+      .catch(() => setTokenCredits(null));
+  }, []);
+
+  const daily = useMemo(() => dailyTotals(entries ?? []), [entries]);
+  const weekly = useMemo(() => weeklyTotals(entries ?? []), [entries]);
+  const today = useMemo(() => totalsSince(entries ?? [], 1), [entries]);
+  const week = useMemo(() => totalsSince(entries ?? [], 7), [entries]);
+  const month = useMemo(() => monthToDate(entries ?? []), [entries]);
+
+  const ratio = budget > 0 ? month / budget : 0;
+  const overBudget = ratio >= 1;
+  const nearBudget = ratio >= BUDGET_WARNING_RATIO;
+
+  const saveBudget = () => {
+    const value = Number(budgetInput);
+    if (Number.isFinite(value) && value > 0) {
+      setMonthlyCreditBudget(value);
+      setBudget(Math.floor(value));
+    } else {
+      setBudgetInput(String(budget));
+    }
+  };
+
+  if (error) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!entries) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading credit ledger...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Reading recorded API credit usage
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex h-full flex-col space-y-6'>
+      <div>
+        <h1 className='text-3xl font-bold tracking-tight'>API Credits</h1>
+        <p className='text-muted-foreground'>
+          Credits spent on analyses and refreshes, as recorded by this browser
+        </p>
+      </div>
+
+      {nearBudget && (
+        <div
+          className={cn(
+            'flex items-center gap-2 rounded-lg border p-3 text-sm',
+            overBudget
+              ? 'border-destructive/50 text-destructive'
+              : 'border-amber-500/50 text-amber-600'
+          )}
+          data-testid='credit-budget-warning'
+        >
+          <AlertTriangle className='h-4 w-4' />
+          {overBudget
+            ? `Monthly budget exceeded: ${month} of ${budget} credits used`
+            : `${Math.round(ratio * 100)}% of the monthly budget used (${month} of ${budget} credits)`}
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className='grid gap-4 md:grid-cols-2 lg:grid-cols-4'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm'>Today</div>
+          <div className='mt-2 text-3xl font-bold'>{today.total}</div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm'>Last 7 days</div>
+          <div className='mt-2 text-3xl font-bold'>{week.total}</div>
+          <div className='text-muted-foreground mt-1 text-xs'>
+            {CREDIT_SOURCES.map(
+              (source) => `${source.label}: ${week[source.key]}`
+            ).join(' · ')}
+          </div>
+        </div>
+        <div className='bg-card space-y-2 rounded-lg border p-6'>
+          <div className='flex items-center justify-between'>
+            <div className='text-muted-foreground text-sm'>This month</div>
+            <div className='flex items-center gap-1'>
+              <Label htmlFor='monthly-budget' className='text-xs'>
+                Budget
+              </Label>
+              <Input
+                id='monthly-budget'
+                type='number'
+                min={1}
+                className='h-7 w-24 text-xs'
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onBlur={saveBudget}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveBudget();
+                }}
+              />
+            </div>
+          </div>
+          <div
+            className={cn(
+              'text-3xl font-bold',
+              overBudget && 'text-destructive',
+              !overBudget && nearBudget && 'text-amber-600'
+            )}
+            data-testid='credits-month'
+          >
+            {month}
+            <span className='text-muted-foreground text-base font-normal'>
+              {' '}
+              / {budget}
+            </span>
+          </div>
+          <Progress value={Math.min(100, ratio * 100)} />
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm'>
+            Analysis credits (all tokens)
+          </div>
+          <div className='mt-2 text-3xl font-bold'>{tokenCredits ?? '-'}</div>
+          <div className='text-muted-foreground mt-1 text-xs'>
+            Lifetime total from the backend, including runs before this ledger
+          </div>
+        </div>
+      </div>
+
+      <div className='grid gap-4 lg:grid-cols-2'>
+        <CreditChart
+          title='Daily'
+          description='Credits per day over the last 30 days'
+          data={daily}
+        />
+        <CreditChart
+          title='Weekly'
+          description='Credits per week over the last 12 weeks'
+          data={weekly}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+          <CardDescription>
+            Most recent {Math.min(entries.length, MAX_ENTRIES)} of{' '}
+            {entries.length} recorded actions
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table data-testid='credit-ledger'>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Token / Wallet</TableHead>
+                <TableHead className='text-right'>Credits</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={4}
+                    className='text-muted-foreground py-8 text-center text-sm'
+                  >
+                    No credit usage recorded yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.slice(0, MAX_ENTRIES).map((entry) => (
+                  <TableRow key={entry.id} data-testid='credit-entry'>
+                    <TableCell className='text-muted-foreground text-xs'>
+                      {formatTimestamp(entry.recorded_at)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant='outline'>
+                        {sourceLabel(entry.source)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className='text-sm'>
+                      {describeSubject(entry)}
+                    </TableCell>
+                    <TableCell className='text-right font-semibold'>
+                      {entry.credits}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
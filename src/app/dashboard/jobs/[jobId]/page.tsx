@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import {
+  getAnalysisJob,
+  downloadAnalysisCsv,
+  downloadAnalysisAxiom,
+  AnalysisJob,
+  formatTimestamp
+} from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { JobStatusBadge } from '@/components/job-status-badge';
+import { ArrowLeft, Copy, Download, Table2 } from 'lucide-react';
+import { CsvResultsViewer } from '../csv-results-viewer';
+import { toast } from 'sonner';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
+
+function FileRow({ label, path }: { label: string; path?: string | null }) {
+  return (
+    <div className='space-y-1'>
+      <div className='text-muted-foreground text-sm font-medium'>{label}</div>
+      {path ? (
+        <div className='flex items-center gap-2'>
+          <code className='bg-muted rounded px-2 py-1 text-xs break-all'>
+            {path}
+          </code>
+          <Button
+            variant='ghost'
+            size='icon'
+            className='h-7 w-7 shrink-0'
+            onClick={() => {
+              navigator.clipboard.writeText(path);
+              toast.success('Path copied to clipboard');
+            }}
+            title='Copy path'
+          >
+            <Copy className='h-3 w-3' />
+          </Button>
+        </div>
+      ) : (
+        <div className='text-muted-foreground text-sm'>-</div>
+      )}
+    </div>
+  );
+}
+
+export default function JobDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const jobId = params.jobId as string;
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showCsv, setShowCsv] = useState(false);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    getAnalysisJob(jobId)
+      .then(setJob)
+      .catch(() => {
+        setError('Failed to load analysis job');
+      })
+      .finally(() => setLoading(false));
+  }, [jobId]);
+
+  // Re-fetch whenever the realtime store reports a change to this job
+  useRealtimeEvents((event) => {
+    if (event.data.job_id !== jobId) return;
+    getAnalysisJob(jobId)
+      .then(setJob)
+      .catch(() => {});
+  });
+
+  const handleDownload = async (kind: 'csv' | 'axiom') => {
+    try {
+      if (kind === 'csv') {
+        await downloadAnalysisCsv(jobId);
+      } else {
+        await downloadAnalysisAxiom(jobId);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Download failed');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading analysis job...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching job status
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !job) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Job not found'}
+          </div>
+          <button
+            onClick={() => router.push('/dashboard/jobs')}
+            className='bg-primary text-primary-foreground hover:bg-primary/90 mt-4 rounded-md px-4 py-2'
+          >
+            Back to Jobs
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <div className='flex items-center gap-3'>
+            <h1 className='text-3xl font-bold tracking-tight'>Analysis Job</h1>
+            <JobStatusBadge status={job.status} />
+          </div>
+          <p className='text-muted-foreground font-mono text-sm'>
+            {job.job_id}
+          </p>
+        </div>
+        <div className='flex items-center gap-2'>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => handleDownload('csv')}
+            disabled={job.status !== 'completed'}
+          >
+            <Download className='mr-2 h-4 w-4' />
+            CSV
+          </Button>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => handleDownload('axiom')}
+            disabled={job.status !== 'completed'}
+          >
+            <Download className='mr-2 h-4 w-4' />
+            Axiom JSON
+          </Button>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => router.push('/dashboard/jobs')}
+          >
+            <ArrowLeft className='mr-2 h-4 w-4' />
+            All Jobs
+          </Button>
+        </div>
+      </div>
+
+      {job.error && (
+        <div className='border-destructive/50 bg-destructive/5 rounded-lg border p-4'>
+          <div className='text-destructive mb-1 text-sm font-semibold'>
+            Error
+          </div>
+          <pre className='text-destructive text-xs whitespace-pre-wrap'>
+            {job.error}
+          </pre>
+        </div>
+      )}
+
+      <div className='bg-card grid gap-6 rounded-lg border p-6 md:grid-cols-2'>
+        <div className='space-y-1'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Token Address
+          </div>
+          <a
+            href={`https://solscan.io/token/${job.token_address}`}
+            target='_blank'
+            rel='noopener noreferrer'
+            className='text-primary font-mono text-sm break-all hover:underline'
+          >
+            {job.token_address}
+          </a>
+        </div>
+        <div className='space-y-1'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Created
+          </div>
+          <div className='text-sm'>{formatTimestamp(job.created_at)}</div>
+        </div>
+        <FileRow label='Axiom File' path={job.axiom_file} />
+        <FileRow label='Result File' path={job.result_file} />
+      </div>
+
+      {job.status === 'completed' && (
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='mb-3 flex items-center justify-between'>
+            <h3 className='text-sm font-semibold'>CSV Results</h3>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => setShowCsv((prev) => !prev)}
+            >
+              <Table2 className='mr-2 h-4 w-4' />
+              {showCsv ? 'Hide Results' : 'View Results'}
+            </Button>
+          </div>
+          {showCsv && <CsvResultsViewer jobId={job.job_id} />}
+        </div>
+      )}
+
+      {job.result && (
+        <div className='bg-card rounded-lg border p-6'>
+          <h3 className='mb-3 text-sm font-semibold'>Result</h3>
+          <pre className='bg-muted max-h-[400px] overflow-auto rounded p-4 text-xs'>
+            {JSON.stringify(job.result, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
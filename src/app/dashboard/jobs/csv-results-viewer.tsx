@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ColumnDef,
+  SortingFn,
+  SortingState,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable
+} from '@tanstack/react-table';
+import { getAnalysisCsv } from '@/lib/api';
+import { parseCsv, ParsedCsv } from '@/lib/csv';
+import { isValidSolanaAddress } from '@/lib/solana';
+import { DataTable } from '@/components/ui/table/data-table';
+import { DataTableColumnHeader } from '@/components/ui/table/data-table-column-header';
+import { DataTableToolbar } from '@/components/ui/table/data-table-toolbar';
+import { Input } from '@/components/ui/input';
+
+type CsvRow = Record<string, string>;
+
+// Compare numerically when both cells are numbers, otherwise as text
+const numericAwareSort: SortingFn<CsvRow> = (rowA, rowB, columnId) => {
+  const a = rowA.getValue<string>(columnId);
+  const b = rowB.getValue<string>(columnId);
+  const numA = Number(a);
+  const numB = Number(b);
+  if (a !== '' && b !== '' && !isNaN(numA) && !isNaN(numB)) {
+    return numA - numB;
+  }
+  return a.localeCompare(b);
+};
+
+export function CsvResultsViewer({ jobId }: { jobId: string }) {
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [globalFilter, setGlobalFilter] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    getAnalysisCsv(jobId)
+      .then((text) => setCsv(parseCsv(text)))
+      .catch(() => setError('Failed to load CSV results for this job'))
+      .finally(() => setLoading(false));
+  }, [jobId]);
+
+  const columns = useMemo<ColumnDef<CsvRow>[]>(
+    () =>
+      (csv?.headers ?? []).map((header) => ({
+        id: header,
+        accessorFn: (row) => row[header],
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} title={header} />
+        ),
+        cell: ({ getValue }) => {
+          const value = getValue<string>();
+          return (
+            <span
+              className={
+                isValidSolanaAddress(value) ? 'font-mono text-xs' : 'text-sm'
+              }
+            >
+              {value || '-'}
+            </span>
+          );
+        },
+        sortingFn: numericAwareSort,
+        enableColumnFilter: false
+      })),
+    [csv]
+  );
+
+  const table = useReactTable({
+    data: csv?.rows ?? [],
+    columns,
+    state: { sorting, globalFilter },
+    onSortingChange: setSorting,
+    onGlobalFilterChange: setGlobalFilter,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    initialState: { pagination: { pageIndex: 0, pageSize: 20 } }
+  });
+
+  if (loading) {
+    return (
+      <div className='text-muted-foreground py-8 text-center text-sm'>
+        Loading CSV results...
+      </div>
+    );
+  }
+
+  if (error || !csv) {
+    return (
+      <div className='text-destructive py-8 text-center text-sm'>
+        {error || 'No CSV results available'}
+      </div>
+    );
+  }
+
+  if (csv.rows.length === 0) {
+    return (
+      <div className='text-muted-foreground py-8 text-center text-sm'>
+        CSV export is empty
+      </div>
+    );
+  }
+
+  return (
+    // DataTable fills its parent absolutely, so give it a fixed height
+    <div className='flex h-[560px] flex-col' data-testid='csv-results-viewer'>
+      <DataTable table={table}>
+        <DataTableToolbar table={table}>
+          <Input
+            placeholder='Search results...'
+            value={globalFilter}
+            onChange={(e) => setGlobalFilter(e.target.value)}
+            className='h-8 w-40 lg:w-56'
+          />
+        </DataTableToolbar>
+      </DataTable>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  downloadAnalysisCsv,
+  downloadAnalysisAxiom,
+  formatTimestamp
+} from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { useRealtimeStore } from '@/lib/realtime-store';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { JobStatusBadge } from '@/components/job-status-badge';
+import { Download, FileJson, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+
+const STATUS_FILTERS = [
+  'all',
+  'queued',
+  'processing',
+  'completed',
+  'failed'
+] as const;
+type StatusFilter = (typeof STATUS_FILTERS)[number];
+
+export default function JobsPage() {
+  // The realtime store keeps `/analysis` current (pushed events, or polling
+  // while the socket is down)
+  const connection = useRealtimeEvents();
+  const data = useRealtimeStore((state) => state.jobs);
+  const fetchError = useRealtimeStore((state) => state.jobsError);
+  const refreshing = useRealtimeStore((state) => state.refreshing);
+  const refreshJobs = useRealtimeStore((state) => state.refreshJobs);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const loading = !data && !fetchError;
+  const error = fetchError
+    ? `Failed to load analysis jobs. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+    : null;
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    data?.jobs.forEach((job) => {
+      counts[job.status] = (counts[job.status] || 0) + 1;
+    });
+    return counts;
+  }, [data]);
+
+  const filteredJobs = useMemo(() => {
+    if (!data) return [];
+    if (statusFilter === 'all') return data.jobs;
+    return data.jobs.filter((job) => job.status === statusFilter);
+  }, [data, statusFilter]);
+
+  const handleDownload = async (jobId: string, kind: 'csv' | 'axiom') => {
+    try {
+      if (kind === 'csv') {
+        await downloadAnalysisCsv(jobId);
+      } else {
+        await downloadAnalysisAxiom(jobId);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Download failed');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading analysis jobs...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching job queue
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Failed to load analysis jobs'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h1 className='text-3xl font-bold tracking-tight'>Analysis Jobs</h1>
+          <p className='text-muted-foreground'>
+            Track queued, running, completed and failed analyses
+          </p>
+        </div>
+        <div className='flex items-center gap-2'>
+          <Badge
+            variant='outline'
+            data-testid='realtime-status'
+            title={
+              connection === 'connected'
+                ? 'Receiving live updates'
+                : 'Live updates unavailable - polling for changes'
+            }
+          >
+            {connection === 'connected' ? 'Live' : 'Polling'}
+          </Badge>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => refreshJobs()}
+            disabled={refreshing}
+          >
+            <RefreshCw
+              className={`mr-2 h-4 w-4 ${refreshing ? 'animate-spin' : ''}`}
+            />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className='border-destructive/50 text-destructive rounded-lg border p-3 text-sm'>
+          {error}
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className='grid gap-4 md:grid-cols-4'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Total Jobs
+          </div>
+          <div className='text-3xl font-bold'>{data.total}</div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Active
+          </div>
+          <div className='text-3xl font-bold'>
+            {(statusCounts.queued || 0) + (statusCounts.processing || 0)}
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Completed
+          </div>
+          <div className='text-3xl font-bold'>
+            {statusCounts.completed || 0}
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Failed
+          </div>
+          <div className='text-destructive text-3xl font-bold'>
+            {statusCounts.failed || 0}
+          </div>
+        </div>
+      </div>
+
+      {/* Status Filter */}
+      <div className='flex flex-wrap gap-2'>
+        {STATUS_FILTERS.map((status) => (
+          <Button
+            key={status}
+            variant={statusFilter === status ? 'default' : 'outline'}
+            size='sm'
+            className='h-8 capitalize'
+            onClick={() => setStatusFilter(status)}
+          >
+            {status}
+            {status !== 'all' && statusCounts[status] ? (
+              <Badge variant='secondary' className='ml-2 px-1.5 text-xs'>
+                {statusCounts[status]}
+              </Badge>
+            ) : null}
+          </Button>
+        ))}
+      </div>
+
+      {/* Jobs Table */}
+      {filteredJobs.length === 0 ? (
+        <div className='bg-card rounded-lg border p-12 text-center'>
+          <div className='text-muted-foreground'>
+            {data.jobs.length === 0
+              ? 'No analysis jobs yet. Queued analyses will appear here.'
+              : `No ${statusFilter} jobs.`}
+          </div>
+        </div>
+      ) : (
+        <div className='overflow-hidden rounded-md border'>
+          <div className='max-h-[calc(100vh-420px)] max-w-full overflow-auto'>
+            <Table className='w-full' data-testid='jobs-table'>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead className='text-right'>Wallets Found</TableHead>
+                  <TableHead className='text-right'>Credits Used</TableHead>
+                  <TableHead>Timestamp</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Downloads</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredJobs.map((job) => (
+                  <TableRow key={job.job_id} data-testid='job-row'>
+                    <TableCell>
+                      <JobStatusBadge status={job.status} />
+                    </TableCell>
+                    <TableCell>
+                      <div className='min-w-[120px]'>
+                        <div className='text-sm font-medium'>
+                          {job.token_name || 'Unknown'}
+                        </div>
+                        <div className='text-muted-foreground text-xs uppercase'>
+                          {job.token_symbol || '-'}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className='flex items-center gap-2'>
+                        <a
+                          href={`https://solscan.io/token/${job.token_address}`}
+                          target='_blank'
+                          rel='noopener noreferrer'
+                          className='text-primary font-mono text-sm hover:underline'
+                        >
+                          {job.token_address.slice(0, 8)}...
+                          {job.token_address.slice(-6)}
+                        </a>
+                        {job.acronym && (
+                          <Badge
+                            variant='secondary'
+                            className='font-mono text-xs'
+                          >
+                            {job.acronym}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className='text-right font-mono text-sm'>
+                      {job.wallets_found ?? '-'}
+                    </TableCell>
+                    <TableCell className='text-right font-mono text-sm'>
+                      {job.credits_used ?? '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className='text-muted-foreground text-xs'>
+                        {job.timestamp ? formatTimestamp(job.timestamp) : '-'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/dashboard/jobs/${job.job_id}`}
+                        className='text-primary font-mono text-xs hover:underline'
+                      >
+                        {job.job_id}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {job.status === 'completed' ? (
+                        <div className='flex gap-1'>
+                          <Button
+                            variant='ghost'
+                            size='icon'
+                            className='h-8 w-8'
+                            onClick={() => handleDownload(job.job_id, 'csv')}
+                            title='Download CSV'
+                          >
+                            <Download className='h-4 w-4' />
+                          </Button>
+                          <Button
+                            variant='ghost'
+                            size='icon'
+                            className='h-8 w-8'
+                            onClick={() => handleDownload(job.job_id, 'axiom')}
+                            title='Download Axiom JSON'
+                          >
+                            <FileJson className='h-4 w-4' />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className='text-muted-foreground text-xs'>-</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
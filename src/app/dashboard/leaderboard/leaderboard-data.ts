@@ -0,0 +1,98 @@
+import {
+  Token,
+  WalletTag,
+  getMarketCapMultiple,
+  parseUtcTimestamp
+} from '@/lib/api';
+
+export type LeaderboardPeriod = '24h' | '7d' | '30d' | '90d' | 'all';
+
+export const LEADERBOARD_PERIODS: {
+  key: LeaderboardPeriod;
+  label: string;
+  // Analyzed within this many hours (null = any time)
+  hours: number | null;
+}[] = [
+  { key: '24h', label: 'Last 24 hours', hours: 24 },
+  { key: '7d', label: 'Last 7 days', hours: 24 * 7 },
+  { key: '30d', label: 'Last 30 days', hours: 24 * 30 },
+  { key: '90d', label: 'Last 90 days', hours: 24 * 90 },
+  { key: 'all', label: 'All time', hours: null }
+];
+
+// At or above this multiple a token counts as a winner
+export const WINNER_MULTIPLE = 10;
+// At or below this multiple (down 80%+) a token is a likely rug
+export const RUG_MULTIPLE = 0.2;
+
+export type TokenOutcome = 'winner' | 'rug' | null;
+
+export interface LeaderboardEntry {
+  rank: number;
+  token: Token;
+  multiple: number;
+  outcome: TokenOutcome;
+  // Early buyers tagged KOL / whale (null while tags are unknown)
+  kolBuyers: number | null;
+  whaleBuyers: number | null;
+}
+
+export function tokenOutcome(multiple: number): TokenOutcome {
+  if (multiple >= WINNER_MULTIPLE) return 'winner';
+  if (multiple <= RUG_MULTIPLE) return 'rug';
+  return null;
+}
+
+function countBuyers(
+  token: Token,
+  tagsByWallet: Record<string, WalletTag[]>,
+  matches: (tag: WalletTag) => boolean
+) {
+  return (token.wallet_addresses ?? []).filter((address) =>
+    (tagsByWallet[address] ?? []).some(matches)
+  ).length;
+}
+
+/**
+ * Rank tokens analyzed within the period by current/original market cap
+ *
+ * Tokens without both market caps can't be ranked and are left out. Pass
+ * `tagsByWallet` as null to skip the KOL / whale counts.
+ */
+export function buildLeaderboard(
+  tokens: Token[],
+  tagsByWallet: Record<string, WalletTag[]> | null,
+  period: LeaderboardPeriod,
+  now = new Date()
+): LeaderboardEntry[] {
+  const hours = LEADERBOARD_PERIODS.find((p) => p.key === period)?.hours;
+  const since = hours ? now.getTime() - hours * 60 * 60 * 1000 : null;
+
+  return tokens
+    .filter(
+      (token) =>
+        since === null ||
+        parseUtcTimestamp(token.analysis_timestamp).getTime() >= since
+    )
+    .flatMap((token) => {
+      const multiple = getMarketCapMultiple(token);
+      return multiple === null ? [] : [{ token, multiple }];
+    })
+    .sort((a, b) => b.multiple - a.multiple)
+    .map(({ token, multiple }, i) => ({
+      rank: i + 1,
+      token,
+      multiple,
+      outcome: tokenOutcome(multiple),
+      kolBuyers: tagsByWallet
+        ? countBuyers(token, tagsByWallet, (tag) => tag.is_kol)
+        : null,
+      whaleBuyers: tagsByWallet
+        ? countBuyers(
+            token,
+            tagsByWallet,
+            (tag) => tag.tag.toLowerCase() === 'whale'
+          )
+        : null
+    }));
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Token,
+  WalletTag,
+  formatTimestamp,
+  getBatchWalletTags,
+  getTokens
+} from '@/lib/api';
+import { formatMarketCap } from '@/lib/format';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Rocket, Skull } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  LEADERBOARD_PERIODS,
+  LeaderboardPeriod,
+  RUG_MULTIPLE,
+  WINNER_MULTIPLE,
+  buildLeaderboard
+} from './leaderboard-data';
+
+function formatMultiple(multiple: number) {
+  return multiple >= 100
+    ? `${multiple.toFixed(0)}x`
+    : `${multiple.toFixed(2)}x`;
+}
+
+export default function LeaderboardPage() {
+  const [tokens, setTokens] = useState<Token[] | null>(null);
+  const [tags, setTags] = useState<Record<string, WalletTag[]> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<LeaderboardPeriod>('30d');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getTokens()
+      .then(async (data) => {
+        if (cancelled) return;
+        setTokens(data.tokens);
+        const addresses = Array.from(
+          new Set(data.tokens.flatMap((token) => token.wallet_addresses ?? []))
+        );
+        // Tags only add the KOL / whale counts - rank without them on failure
+        const tagData = await getBatchWalletTags(addresses).catch(() => null);
+        if (!cancelled) setTags(tagData);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setError(
+            `Failed to load tokens. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const entries = useMemo(
+    () => (tokens ? buildLeaderboard(tokens, tags, period) : []),
+    [tokens, tags, period]
+  );
+  const winners = entries.filter((entry) => entry.outcome === 'winner');
+  const rugs = entries.filter((entry) => entry.outcome === 'rug');
+  const kolBacked = entries.filter((entry) => (entry.kolBuyers ?? 0) > 0);
+  const kolWinRate =
+    kolBacked.length > 0
+      ? kolBacked.filter((entry) => entry.multiple >= 1).length /
+        kolBacked.length
+      : null;
+
+  if (error) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!tokens) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading leaderboard...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching analyzed tokens
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div>
+        <h1 className='text-3xl font-bold tracking-tight'>Leaderboard</h1>
+        <p className='text-muted-foreground'>
+          Analyzed tokens ranked by current market cap against the market cap at
+          analysis time
+        </p>
+      </div>
+
+      {/* Period */}
+      <div className='flex flex-wrap gap-2'>
+        {LEADERBOARD_PERIODS.map((option) => (
+          <Button
+            key={option.key}
+            variant={period === option.key ? 'default' : 'outline'}
+            size='sm'
+            className='h-8'
+            onClick={() => setPeriod(option.key)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Stats Cards */}
+      <div className='grid gap-4 md:grid-cols-4'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Ranked tokens
+          </div>
+          <div className='text-3xl font-bold'>{entries.length}</div>
+          <div className='text-muted-foreground mt-1 text-xs'>
+            With both market caps known
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Winners ({WINNER_MULTIPLE}x+)
+          </div>
+          <div
+            className='text-3xl font-bold text-green-600'
+            data-testid='leaderboard-winners'
+          >
+            {winners.length}
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Likely rugs (down {Math.round((1 - RUG_MULTIPLE) * 100)}%+)
+          </div>
+          <div
+            className='text-destructive text-3xl font-bold'
+            data-testid='leaderboard-rugs'
+          >
+            {rugs.length}
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            KOL-backed tokens up
+          </div>
+          <div className='text-3xl font-bold'>
+            {kolWinRate === null ? '-' : `${Math.round(kolWinRate * 100)}%`}
+          </div>
+          <div className='text-muted-foreground mt-1 text-xs'>
+            {tags
+              ? `Of ${kolBacked.length} tokens with a KOL early buyer`
+              : 'Wallet tags not loaded'}
+          </div>
+        </div>
+      </div>
+
+      {/* Leaderboard */}
+      {entries.length === 0 ? (
+        <div className='bg-card rounded-lg border p-12 text-center'>
+          <div className='text-muted-foreground'>
+            No tokens with a current market cap were analyzed in this period.
+            Refresh market caps from the tokens page to rank them.
+          </div>
+        </div>
+      ) : (
+        <div className='rounded-lg border'>
+          <Table data-testid='leaderboard-table'>
+            <TableHeader>
+              <TableRow>
+                <TableHead className='w-12'>#</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Analyzed</TableHead>
+                <TableHead className='text-right'>At analysis</TableHead>
+                <TableHead className='text-right'>Current</TableHead>
+                <TableHead className='text-right'>Multiple</TableHead>
+                <TableHead className='text-right'>Early buyers</TableHead>
+                <TableHead className='text-right'>KOLs</TableHead>
+                <TableHead className='text-right'>Whales</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow
+                  key={entry.token.id}
+                  data-testid='leaderboard-row'
+                  data-outcome={entry.outcome ?? undefined}
+                  className={cn(
+                    entry.outcome === 'winner' &&
+                      'bg-green-500/5 hover:bg-green-500/10',
+                    entry.outcome === 'rug' &&
+                      'bg-destructive/5 hover:bg-destructive/10'
+                  )}
+                >
+                  <TableCell className='text-muted-foreground font-mono'>
+                    {entry.rank}
+                  </TableCell>
+                  <TableCell>
+                    <div className='flex items-center gap-2'>
+                      <Link
+                        href={`/dashboard/tokens/${entry.token.id}`}
+                        className='font-medium hover:underline'
+                      >
+                        {entry.token.token_name || entry.token.token_address}
+                      </Link>
+                      {entry.token.token_symbol && (
+                        <span className='text-muted-foreground text-xs'>
+                          {entry.token.token_symbol}
+                        </span>
+                      )}
+                      {entry.outcome === 'winner' && (
+                        <Badge
+                          variant='outline'
+                          className='border-green-500/50 text-green-600'
+                        >
+                          <Rocket className='mr-1 h-3 w-3' />
+                          Winner
+                        </Badge>
+                      )}
+                      {entry.outcome === 'rug' && (
+                        <Badge
+                          variant='outline'
+                          className='border-destructive/50 text-destructive'
+                        >
+                          <Skull className='mr-1 h-3 w-3' />
+                          Likely rug
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className='text-muted-foreground text-xs'>
+                    {formatTimestamp(entry.token.analysis_timestamp)}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {entry.token.market_cap_usd
+                      ? formatMarketCap(entry.token.market_cap_usd)
+                      : '-'}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {entry.token.market_cap_usd_current
+                      ? formatMarketCap(entry.token.market_cap_usd_current)
+                      : '-'}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right font-semibold',
+                      entry.multiple >= 1 ? 'text-green-600' : 'text-red-600'
+                    )}
+                    data-testid='leaderboard-multiple'
+                  >
+                    {formatMultiple(entry.multiple)}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {entry.token.wallets_found}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {entry.kolBuyers ?? '-'}
+                  </TableCell>
+                  <TableCell className='text-right'>
+                    {entry.whaleBuyers ?? '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { MultiTokenWallet, WalletTag } from '@/lib/api';
+import { ForceLink } from '@/lib/force-layout';
+import { TagCategory, walletCategories } from '@/lib/tag-taxonomy';
+
+export interface WalletCategory {
+  key: string;
+  label: string;
+  color: string;
+}
+
+const KOL_CATEGORY: WalletCategory = {
+  key: 'kol',
+  label: 'KOL',
+  color: '#f59e0b'
+};
+const TAGGED_CATEGORY: WalletCategory = {
+  key: 'tagged',
+  label: 'Other tag',
+  color: '#14b8a6'
+};
+const UNTAGGED_CATEGORY: WalletCategory = {
+  key: 'untagged',
+  label: 'Untagged',
+  color: '#94a3b8'
+};
+
+/**
+ * Legend entries, highest priority first - a wallet is coloured by its first
+ * match. KOLs lead, then the tag taxonomy in order.
+ */
+export function walletCategoryLegend(
+  taxonomy: TagCategory[]
+): WalletCategory[] {
+  return [
+    KOL_CATEGORY,
+    ...taxonomy.map((category) => ({
+      key: category.id,
+      label: category.tag,
+      color: category.color
+    })),
+    TAGGED_CATEGORY,
+    UNTAGGED_CATEGORY
+  ];
+}
+
+export const TOKEN_COLOR = '#22c55e';
+
+interface BaseNode {
+  id: string;
+  label: string;
+  radius: number;
+  degree: number;
+}
+
+export interface TokenNode extends BaseNode {
+  kind: 'token';
+  tokenId: number;
+  tokenAddress: string;
+}
+
+export interface WalletNode extends BaseNode {
+  kind: 'wallet';
+  address: string;
+  balanceUsd: number | null;
+  category: WalletCategory;
+  tags: WalletTag[];
+}
+
+export type NetworkNode = TokenNode | WalletNode;
+
+export interface NetworkData {
+  nodes: NetworkNode[];
+  links: ForceLink[];
+}
+
+export function walletCategory(
+  tags: WalletTag[],
+  taxonomy: TagCategory[]
+): WalletCategory {
+  if (tags.some((t) => t.is_kol)) return KOL_CATEGORY;
+  const [first] = walletCategories(taxonomy, tags);
+  if (first) {
+    return { key: first.id, label: first.tag, color: first.color };
+  }
+  return tags.length > 0 ? TAGGED_CATEGORY : UNTAGGED_CATEGORY;
+}
+
+/**
+ * Turn multi-token wallets into a bipartite token/wallet graph
+ */
+export function buildNetwork(
+  wallets: MultiTokenWallet[],
+  tagsByWallet: Record<string, WalletTag[]>,
+  taxonomy: TagCategory[]
+): NetworkData {
+  const tokens = new Map<number, TokenNode>();
+  const nodes: NetworkNode[] = [];
+  const links: ForceLink[] = [];
+
+  wallets.forEach((wallet) => {
+    const tags = tagsByWallet[wallet.wallet_address] ?? [];
+    const balance = wallet.wallet_balance_usd;
+    nodes.push({
+      kind: 'wallet',
+      id: `wallet:${wallet.wallet_address}`,
+      label: `${wallet.wallet_address.slice(0, 4)}…${wallet.wallet_address.slice(-4)}`,
+      address: wallet.wallet_address,
+      balanceUsd: balance,
+      category: walletCategory(tags, taxonomy),
+      tags,
+      degree: wallet.token_ids.length,
+      // Log scale so one whale doesn't dwarf the graph
+      radius: 3 + Math.min(9, Math.log10(Math.max(balance ?? 0, 1)) * 1.5)
+    });
+
+    wallet.token_ids.forEach((tokenId, index) => {
+      let token = tokens.get(tokenId);
+      if (!token) {
+        token = {
+          kind: 'token',
+          id: `token:${tokenId}`,
+          label: wallet.token_names[index] || `#${tokenId}`,
+          tokenId,
+          tokenAddress: wallet.token_addresses[index] ?? '',
+          degree: 0,
+          radius: 0
+        };
+        tokens.set(tokenId, token);
+      }
+      token.degree++;
+      links.push({
+        source: `wallet:${wallet.wallet_address}`,
+        target: token.id
+      });
+    });
+  });
+
+  // Tokens sized by how many of these wallets bought them
+  tokens.forEach((token) => {
+    token.radius = 8 + Math.min(16, Math.sqrt(token.degree) * 3);
+  });
+
+  return { nodes: [...Array.from(tokens.values()), ...nodes], links };
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ForceNode,
+  createForceSimulation,
+  seedPositions
+} from '@/lib/force-layout';
+import { Button } from '@/components/ui/button';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { NetworkData, NetworkNode, TOKEN_COLOR } from './network-data';
+
+type PositionedNode = NetworkNode & ForceNode;
+
+interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 5;
+const TICKS_PER_FRAME = 3;
+
+interface NetworkGraphProps {
+  data: NetworkData;
+  // Node ids matching the search; null when not searching
+  highlighted: Set<string> | null;
+  // Node to centre on (e.g. the first search match)
+  focusNodeId: string | null;
+  onNodeClick: (node: NetworkNode) => void;
+}
+
+export function NetworkGraph({
+  data,
+  highlighted,
+  focusNodeId,
+  onNodeClick
+}: NetworkGraphProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const nodesRef = useRef<PositionedNode[]>([]);
+  const dragRef = useRef<{
+    x: number;
+    y: number;
+    moved: boolean;
+    nodeId: string | null;
+  } | null>(null);
+  const [size, setSize] = useState({ width: 800, height: 600 });
+  const [view, setView] = useState<ViewTransform>({ x: 0, y: 0, k: 1 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // Bumped every animation frame so React re-reads node positions
+  const [, setFrame] = useState(0);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height
+      });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Restart the layout whenever the graph changes
+  useEffect(() => {
+    const nodes = seedPositions(data.nodes);
+    nodesRef.current = nodes;
+    const sim = createForceSimulation(nodes, data.links);
+
+    let frameId = 0;
+    const step = () => {
+      let running = true;
+      for (let i = 0; i < TICKS_PER_FRAME && running; i++) {
+        running = sim.tick();
+      }
+      setFrame((frame) => frame + 1);
+      if (running) frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [data]);
+
+  useEffect(() => {
+    if (!focusNodeId) return;
+    const node = nodesRef.current.find((n) => n.id === focusNodeId);
+    if (!node) return;
+    setView((prev) => ({
+      k: Math.max(prev.k, 1.5),
+      x: -node.x * Math.max(prev.k, 1.5),
+      y: -node.y * Math.max(prev.k, 1.5)
+    }));
+  }, [focusNodeId]);
+
+  const neighbors = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    data.links.forEach(({ source, target }) => {
+      if (!map.has(source)) map.set(source, new Set());
+      if (!map.has(target)) map.set(target, new Set());
+      map.get(source)?.add(target);
+      map.get(target)?.add(source);
+    });
+    return map;
+  }, [data]);
+
+  const zoomBy = (factor: number, originX = 0, originY = 0) => {
+    setView((prev) => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.k * factor));
+      const scale = k / prev.k;
+      // Keep the point under the cursor fixed
+      return {
+        k,
+        x: originX - (originX - prev.x) * scale,
+        y: originY - (originY - prev.y) * scale
+      };
+    });
+  };
+
+  // React's wheel listener is passive, so the page would scroll as well
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomBy(
+        event.deltaY < 0 ? 1.15 : 1 / 1.15,
+        event.clientX - rect.left - rect.width / 2,
+        event.clientY - rect.top - rect.height / 2
+      );
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const target = (event.target as Element).closest('[data-node-id]');
+    dragRef.current = {
+      x: event.clientX,
+      y: event.clientY,
+      moved: false,
+      nodeId: target?.getAttribute('data-node-id') ?? null
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    if (!drag.moved) {
+      if (Math.abs(dx) + Math.abs(dy) < 3) return;
+      // Only capture once it's a pan, so plain clicks still reach nodes
+      drag.moved = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+    setView((prev) => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (drag.moved) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+      return;
+    }
+
+    // A click (not a pan) on a node
+    const node = nodesRef.current.find((n) => n.id === drag.nodeId);
+    if (node) onNodeClick(node);
+  };
+
+  const nodes = nodesRef.current;
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const hoverSet = hoveredId
+    ? new Set([hoveredId, ...Array.from(neighbors.get(hoveredId) ?? [])])
+    : null;
+  const isActive = (id: string) =>
+    (!highlighted || highlighted.has(id)) && (!hoverSet || hoverSet.has(id));
+
+  return (
+    <div
+      ref={containerRef}
+      className='bg-card relative h-[600px] overflow-hidden rounded-lg border'
+    >
+      <svg
+        ref={svgRef}
+        width={size.width}
+        height={size.height}
+        className='cursor-grab touch-none select-none active:cursor-grabbing'
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        data-testid='network-graph'
+      >
+        <g
+          transform={`translate(${size.width / 2 + view.x},${size.height / 2 + view.y}) scale(${view.k})`}
+        >
+          {data.links.map((link) => {
+            const source = byId.get(link.source);
+            const target = byId.get(link.target);
+            if (!source || !target) return null;
+            const active = isActive(link.source) && isActive(link.target);
+            return (
+              <line
+                key={`${link.source}-${link.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke='currentColor'
+                strokeWidth={1 / view.k}
+                className={active ? 'text-border' : 'text-border/20'}
+              />
+            );
+          })}
+          {nodes.map((node) => {
+            const active = isActive(node.id);
+            const showLabel =
+              node.kind === 'token' ||
+              hoveredId === node.id ||
+              (highlighted?.has(node.id) ?? false);
+            return (
+              <g
+                key={node.id}
+                data-node-id={node.id}
+                transform={`translate(${node.x},${node.y})`}
+                className='cursor-pointer'
+                opacity={active ? 1 : 0.15}
+                onPointerEnter={() => setHoveredId(node.id)}
+                onPointerLeave={() => setHoveredId(null)}
+              >
+                <circle
+                  r={node.radius}
+                  fill={
+                    node.kind === 'token' ? TOKEN_COLOR : node.category.color
+                  }
+                  stroke={
+                    highlighted?.has(node.id) ? 'currentColor' : 'transparent'
+                  }
+                  strokeWidth={2 / view.k}
+                  className='text-foreground'
+                />
+                {node.kind === 'token' && (
+                  <rect
+                    x={-node.radius / 2.5}
+                    y={-node.radius / 2.5}
+                    width={node.radius / 1.25}
+                    height={node.radius / 1.25}
+                    fill='white'
+                    opacity={0.35}
+                    pointerEvents='none'
+                  />
+                )}
+                {showLabel && (
+                  <text
+                    y={node.radius + 10 / view.k}
+                    textAnchor='middle'
+                    fontSize={(node.kind === 'token' ? 11 : 9) / view.k}
+                    className='fill-foreground'
+                    pointerEvents='none'
+                  >
+                    {node.label}
+                  </text>
+                )}
+                <title>
+                  {node.kind === 'token'
+                    ? `${node.label} - ${node.degree} shared wallet(s)`
+                    : `${node.address}\n${node.degree} token(s)${
+                        node.balanceUsd != null
+                          ? ` · $${Math.round(node.balanceUsd).toLocaleString()}`
+                          : ''
+                      }${
+                        node.tags.length > 0
+                          ? `\n${node.tags.map((t) => t.tag).join(', ')}`
+                          : ''
+                      }`}
+                </title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className='absolute top-3 right-3 flex flex-col gap-1'>
+        <Button
+          variant='outline'
+          size='icon'
+          className='h-8 w-8'
+          onClick={() => zoomBy(1.3)}
+          title='Zoom in'
+        >
+          <ZoomIn className='h-4 w-4' />
+        </Button>
+        <Button
+          variant='outline'
+          size='icon'
+          className='h-8 w-8'
+          onClick={() => zoomBy(1 / 1.3)}
+          title='Zoom out'
+        >
+          <ZoomOut className='h-4 w-4' />
+        </Button>
+        <Button
+          variant='outline'
+          size='icon'
+          className='h-8 w-8'
+          onClick={() => setView({ x: 0, y: 0, k: 1 })}
+          title='Reset view'
+        >
+          <Maximize className='h-4 w-4' />
+        </Button>
+      </div>
+    </div>
+  );
+}
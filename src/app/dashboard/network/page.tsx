@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  MultiTokenWallet,
+  WalletTag,
+  getBatchWalletTags,
+  getMultiTokenWallets
+} from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { useTagTaxonomy } from '@/lib/tag-taxonomy';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Search } from 'lucide-react';
+import { NetworkGraph } from './network-graph';
+import {
+  NetworkNode,
+  TOKEN_COLOR,
+  buildNetwork,
+  walletCategoryLegend
+} from './network-data';
+
+const MIN_TOKEN_OPTIONS = [2, 3, 4, 5];
+
+export default function NetworkPage() {
+  const router = useRouter();
+  const [minTokens, setMinTokens] = useState(2);
+  const [wallets, setWallets] = useState<MultiTokenWallet[] | null>(null);
+  const [tags, setTags] = useState<Record<string, WalletTag[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const taxonomy = useTagTaxonomy((state) => state.categories);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getMultiTokenWallets(minTokens)
+      .then(async (data) => {
+        // Tags only colour the nodes - draw the graph even if they fail
+        const tagData = await getBatchWalletTags(
+          data.wallets.map((wallet) => wallet.wallet_address)
+        ).catch(() => ({}));
+        if (cancelled) return;
+        setWallets(data.wallets);
+        setTags(tagData);
+        setError(null);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setError(
+          `Failed to load wallet network. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [minTokens]);
+
+  const network = useMemo(
+    () => (wallets ? buildNetwork(wallets, tags, taxonomy) : null),
+    [wallets, tags, taxonomy]
+  );
+
+  const matches = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query || !network) return null;
+    return network.nodes.filter((node) =>
+      node.kind === 'token'
+        ? node.label.toLowerCase().includes(query) ||
+          node.tokenAddress.toLowerCase().includes(query)
+        : node.address.toLowerCase().includes(query) ||
+          node.tags.some((t) => t.tag.toLowerCase().includes(query))
+    );
+  }, [network, search]);
+
+  const highlighted = useMemo(
+    () => (matches ? new Set(matches.map((node) => node.id)) : null),
+    [matches]
+  );
+
+  const handleNodeClick = (node: NetworkNode) => {
+    if (node.kind === 'token') {
+      router.push(`/dashboard/tokens/${node.tokenId}`);
+    } else {
+      router.push(`/dashboard/wallets/${node.address}`);
+    }
+  };
+
+  if (loading && !network) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading wallet network...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching multi-token wallets
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!network) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Failed to load wallet network'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const tokenCount = network.nodes.filter((n) => n.kind === 'token').length;
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex flex-wrap items-center justify-between gap-4'>
+        <div>
+          <h1 className='text-3xl font-bold tracking-tight'>Wallet Network</h1>
+          <p className='text-muted-foreground'>
+            {network.nodes.length - tokenCount} wallets across {tokenCount}{' '}
+            tokens. Click a node to open it; scroll to zoom, drag to pan.
+          </p>
+        </div>
+        <div className='flex items-center gap-2'>
+          <span className='text-muted-foreground text-xs'>Min tokens</span>
+          {MIN_TOKEN_OPTIONS.map((count) => (
+            <Button
+              key={count}
+              variant={minTokens === count ? 'default' : 'outline'}
+              size='sm'
+              className='h-7 px-2 text-xs'
+              onClick={() => setMinTokens(count)}
+              disabled={loading}
+            >
+              {count}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className='border-destructive/50 text-destructive rounded-lg border p-3 text-sm'>
+          {error}
+        </div>
+      )}
+
+      <div className='flex flex-wrap items-center gap-4'>
+        <div className='relative w-80'>
+          <Search className='text-muted-foreground absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2' />
+          <Input
+            placeholder='Search wallet, token or tag...'
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className='pl-10'
+          />
+        </div>
+        {matches && (
+          <span className='text-muted-foreground text-sm'>
+            {matches.length} match{matches.length !== 1 ? 'es' : ''}
+          </span>
+        )}
+
+        {/* Legend */}
+        <div className='ml-auto flex flex-wrap items-center gap-3 text-xs'>
+          <span className='flex items-center gap-1'>
+            <span
+              className='inline-block h-3 w-3 rounded-full'
+              style={{ backgroundColor: TOKEN_COLOR }}
+            />
+            Token
+          </span>
+          {walletCategoryLegend(taxonomy).map((category) => (
+            <span key={category.key} className='flex items-center gap-1'>
+              <span
+                className='inline-block h-2.5 w-2.5 rounded-full'
+                style={{ backgroundColor: category.color }}
+              />
+              {category.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {network.nodes.length === 0 ? (
+        <div className='bg-card text-muted-foreground rounded-lg border py-24 text-center text-sm'>
+          No wallets appear in {minTokens} or more analyzed tokens
+        </div>
+      ) : (
+        <NetworkGraph
+          data={network}
+          highlighted={highlighted}
+          focusNodeId={matches?.length === 1 ? matches[0].id : null}
+          onNodeClick={handleNodeClick}
+        />
+      )}
+    </div>
+  );
+}
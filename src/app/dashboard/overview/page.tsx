@@ -0,0 +1,5 @@
+import OverViewPage from '@/features/overview/components/overview';
+
+export default function OverviewPage() {
+  return <OverViewPage />;
+}
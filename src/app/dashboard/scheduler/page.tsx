@@ -0,0 +1,342 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  INTERVAL_OPTIONS,
+  RefreshSchedule,
+  describeSchedule,
+  nextRunAt,
+  useRefreshScheduler
+} from '@/lib/refresh-scheduler';
+import { formatTimestamp } from '@/lib/api';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Play, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+function formatInterval(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) return `${minutes / 60}h`;
+  return `${minutes / 1440}d`;
+}
+
+function formatRelative(ms: number) {
+  const diff = ms - Date.now();
+  if (diff <= 0) return 'due now';
+  const minutes = Math.round(diff / 60000);
+  if (minutes < 60) return `in ${minutes} min`;
+  return `in ${(minutes / 60).toFixed(1)}h`;
+}
+
+interface ScheduleRowProps {
+  schedule: RefreshSchedule;
+  budgetReached: boolean;
+}
+
+function ScheduleRow({ schedule, budgetReached }: ScheduleRowProps) {
+  const lastRun = useRefreshScheduler((state) => state.lastRuns[schedule.id]);
+  const runningId = useRefreshScheduler((state) => state.runningId);
+  const updateSchedule = useRefreshScheduler((state) => state.updateSchedule);
+  const removeSchedule = useRefreshScheduler((state) => state.removeSchedule);
+  const runNow = useRefreshScheduler((state) => state.runNow);
+  const savedTarget =
+    schedule.kind === 'market_caps'
+      ? String(schedule.maxAgeHours)
+      : schedule.tag;
+  const [target, setTarget] = useState(savedTarget);
+
+  // Follow changes saved from another tab
+  useEffect(() => {
+    setTarget(savedTarget);
+  }, [savedTarget]);
+
+  const isRunning = runningId === schedule.id;
+  const next = nextRunAt(schedule, lastRun);
+
+  const saveTarget = () => {
+    if (schedule.kind === 'market_caps') {
+      const hours = Number(target);
+      if (Number.isFinite(hours) && hours > 0) {
+        updateSchedule(schedule.id, { maxAgeHours: hours });
+      } else {
+        setTarget(savedTarget);
+      }
+    } else if (target.trim()) {
+      updateSchedule(schedule.id, { tag: target.trim() });
+    } else {
+      setTarget(savedTarget);
+    }
+  };
+
+  return (
+    <div
+      className='bg-card space-y-3 rounded-lg border p-4'
+      data-testid='refresh-schedule'
+    >
+      <div className='flex flex-wrap items-center justify-between gap-3'>
+        <div className='flex items-center gap-3'>
+          <Switch
+            checked={schedule.enabled}
+            onCheckedChange={(enabled) =>
+              updateSchedule(schedule.id, { enabled })
+            }
+            aria-label='Enable schedule'
+          />
+          <div>
+            <div className='font-medium'>{describeSchedule(schedule)}</div>
+            <div className='text-muted-foreground text-xs'>
+              Every {formatInterval(schedule.intervalMinutes)}
+            </div>
+          </div>
+        </div>
+        <div className='flex items-center gap-2'>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => runNow(schedule.id)}
+            disabled={runningId !== null || budgetReached}
+          >
+            {isRunning ? (
+              <RefreshCw className='mr-2 h-4 w-4 animate-spin' />
+            ) : (
+              <Play className='mr-2 h-4 w-4' />
+            )}
+            {isRunning ? 'Running...' : 'Run now'}
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={() => removeSchedule(schedule.id)}
+            disabled={isRunning}
+            title='Remove schedule'
+          >
+            <Trash2 className='h-4 w-4' />
+          </Button>
+        </div>
+      </div>
+
+      <div className='flex flex-wrap items-end gap-4'>
+        <div className='space-y-1'>
+          <Label className='text-xs'>Interval</Label>
+          <Select
+            value={String(schedule.intervalMinutes)}
+            onValueChange={(value) =>
+              updateSchedule(schedule.id, { intervalMinutes: Number(value) })
+            }
+          >
+            <SelectTrigger className='h-8 w-28'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INTERVAL_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {formatInterval(minutes)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className='space-y-1'>
+          <Label className='text-xs'>
+            {schedule.kind === 'market_caps'
+              ? 'Analyzed within (hours)'
+              : 'Wallet tag ("kol" for KOLs)'}
+          </Label>
+          <Input
+            className='h-8 w-40'
+            type={schedule.kind === 'market_caps' ? 'number' : 'text'}
+            min={1}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            onBlur={saveTarget}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveTarget();
+            }}
+          />
+        </div>
+      </div>
+
+      <div className='grid gap-3 text-sm md:grid-cols-3'>
+        <div>
+          <div className='text-muted-foreground text-xs'>Next run</div>
+          <div data-testid='schedule-next-run'>
+            {next === null
+              ? 'Disabled'
+              : budgetReached
+                ? 'Paused - budget reached'
+                : formatRelative(next)}
+          </div>
+        </div>
+        <div>
+          <div className='text-muted-foreground text-xs'>Last result</div>
+          {lastRun ? (
+            <div className='flex flex-wrap items-center gap-2'>
+              <span>
+                {lastRun.refreshed}/{lastRun.total} refreshed
+              </span>
+              {lastRun.error && (
+                <Badge variant='destructive' title={lastRun.error}>
+                  Failed
+                </Badge>
+              )}
+              {lastRun.budgetReached && (
+                <Badge variant='outline' className='text-amber-600'>
+                  Stopped at budget
+                </Badge>
+              )}
+            </div>
+          ) : (
+            <div className='text-muted-foreground'>Never run</div>
+          )}
+          {lastRun && (
+            <div className='text-muted-foreground text-xs'>
+              {formatTimestamp(lastRun.startedAt)}
+            </div>
+          )}
+        </div>
+        <div>
+          <div className='text-muted-foreground text-xs'>Credits spent</div>
+          <div>{lastRun ? lastRun.creditsUsed : '-'}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SchedulerPage() {
+  const schedules = useRefreshScheduler((state) => state.schedules);
+  const creditsUsed = useRefreshScheduler((state) => state.creditsUsed);
+  const budget = useRefreshScheduler((state) => state.dailyCreditBudget);
+  const setBudget = useRefreshScheduler((state) => state.setDailyCreditBudget);
+  const addSchedule = useRefreshScheduler((state) => state.addSchedule);
+  const [budgetInput, setBudgetInput] = useState(String(budget));
+  // Re-render every so often so "next run" stays current
+  const [, setNow] = useState(0);
+
+  useEffect(() => {
+    setBudgetInput(String(budget));
+  }, [budget]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const budgetReached = creditsUsed >= budget;
+  const percent =
+    budget > 0 ? Math.min(100, (creditsUsed / budget) * 100) : 100;
+
+  const saveBudget = () => {
+    const value = Number(budgetInput);
+    if (Number.isFinite(value) && value >= 0) {
+      setBudget(value);
+    } else {
+      setBudgetInput(String(budget));
+    }
+  };
+
+  return (
+    <div className='flex h-full flex-col space-y-6'>
+      <div>
+        <h1 className='text-3xl font-bold tracking-tight'>Auto Refresh</h1>
+        <p className='text-muted-foreground'>
+          Refresh market caps and wallet balances on a schedule while the
+          dashboard is open in this browser
+        </p>
+      </div>
+
+      {/* Daily budget */}
+      <div className='bg-card space-y-3 rounded-lg border p-6'>
+        <div className='flex flex-wrap items-end justify-between gap-4'>
+          <div>
+            <div className='text-muted-foreground text-sm'>
+              Credits spent today
+            </div>
+            <div
+              className={cn(
+                'text-2xl font-bold',
+                budgetReached && 'text-destructive'
+              )}
+              data-testid='scheduler-credits'
+            >
+              {creditsUsed} / {budget}
+            </div>
+          </div>
+          <div className='space-y-1'>
+            <Label htmlFor='daily-budget' className='text-xs'>
+              Daily credit budget
+            </Label>
+            <Input
+              id='daily-budget'
+              type='number'
+              min={0}
+              className='h-8 w-32'
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              onBlur={saveBudget}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveBudget();
+              }}
+            />
+          </div>
+        </div>
+        <Progress value={percent} />
+        {budgetReached && (
+          <div className='text-destructive text-sm'>
+            Budget reached - scheduled refreshes are paused until tomorrow.
+            Raise the budget to resume.
+          </div>
+        )}
+      </div>
+
+      <div className='flex items-center justify-between'>
+        <h2 className='text-lg font-semibold'>Schedules</h2>
+        <div className='flex gap-2'>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => addSchedule('market_caps')}
+          >
+            <Plus className='mr-2 h-4 w-4' />
+            Market caps
+          </Button>
+          <Button
+            variant='outline'
+            size='sm'
+            onClick={() => addSchedule('balances')}
+          >
+            <Plus className='mr-2 h-4 w-4' />
+            Wallet balances
+          </Button>
+        </div>
+      </div>
+
+      {schedules.length === 0 ? (
+        <div className='bg-card text-muted-foreground rounded-lg border py-12 text-center text-sm'>
+          No schedules - add one above
+        </div>
+      ) : (
+        <div className='space-y-3'>
+          {schedules.map((schedule) => (
+            <ScheduleRow
+              key={schedule.id}
+              schedule={schedule}
+              budgetReached={budgetReached}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { getMetricsText, getMetricsHealth, MetricsHealth } from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { parsePrometheusText } from '@/lib/prometheus';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Pause, Play } from 'lucide-react';
+import {
+  MetricsPoint,
+  MetricsSnapshot,
+  jobCounterRows,
+  takeSnapshot,
+  toPoint
+} from './system-metrics';
+
+const POLL_INTERVAL_MS = 10000;
+const MAX_POINTS = 60; // 10 minutes at the default poll rate
+
+const requestChartConfig = {
+  requestRate: { label: 'Requests/s', color: 'var(--primary)' },
+  errorRate: { label: '5xx/s', color: 'var(--destructive)' }
+} satisfies ChartConfig;
+
+const latencyChartConfig = {
+  avgLatencyMs: { label: 'Avg (ms)', color: 'var(--primary)' },
+  p95LatencyMs: { label: 'p95 (ms)', color: 'var(--chart-2)' }
+} satisfies ChartConfig;
+
+const jobChartConfig = {
+  value: { label: 'Value', color: 'var(--primary)' }
+} satisfies ChartConfig;
+
+function formatNumber(value: number | null | undefined, digits = 1) {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return '-';
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+export default function SystemPage() {
+  const [snapshot, setSnapshot] = useState<MetricsSnapshot | null>(null);
+  const [points, setPoints] = useState<MetricsPoint[]>([]);
+  const [health, setHealth] = useState<MetricsHealth | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [paused, setPaused] = useState(false);
+  const previousRef = useRef<MetricsSnapshot | null>(null);
+
+  const poll = async () => {
+    const [metricsResult, healthResult] = await Promise.allSettled([
+      getMetricsText(),
+      getMetricsHealth()
+    ]);
+
+    if (healthResult.status === 'fulfilled') {
+      setHealth(healthResult.value);
+    } else {
+      setHealth({ status: 'unreachable' });
+    }
+
+    if (metricsResult.status === 'fulfilled') {
+      try {
+        const next = takeSnapshot(parsePrometheusText(metricsResult.value));
+        const previous = previousRef.current;
+        if (previous) {
+          const point = toPoint(next, previous);
+          setPoints((prev) => [...prev, point].slice(-MAX_POINTS));
+        }
+        previousRef.current = next;
+        setSnapshot(next);
+        setError(null);
+      } catch {
+        setError('Failed to parse metrics output');
+      }
+    } else {
+      setError(
+        `Failed to load metrics. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+      );
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (paused) return;
+    poll();
+    const interval = setInterval(() => {
+      if (!document.hidden) poll();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [paused]);
+
+  const latest = points[points.length - 1];
+
+  const endpointRows = useMemo(() => {
+    if (!snapshot) return [];
+    return Object.entries(snapshot.requestsByHandler)
+      .map(([handler, count]) => {
+        const latency = snapshot.latencyByHandler[handler];
+        return {
+          handler,
+          count,
+          avgLatencyMs:
+            latency && latency.count > 0
+              ? (latency.sum / latency.count) * 1000
+              : null
+        };
+      })
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+  }, [snapshot]);
+
+  const jobRows = useMemo(
+    () => (snapshot ? jobCounterRows(snapshot.jobFamilies) : []),
+    [snapshot]
+  );
+
+  if (loading) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading metrics...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Reading backend /metrics
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const healthy = health?.status === 'healthy' || health?.status === 'ok';
+  const healthDetails = health
+    ? Object.entries(health).filter(
+        ([key, value]) =>
+          key !== 'status' && (typeof value !== 'object' || value === null)
+      )
+    : [];
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h1 className='text-3xl font-bold tracking-tight'>System</h1>
+          <p className='text-muted-foreground'>
+            Backend health, request rates, latencies and job counters
+          </p>
+        </div>
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={() => setPaused((prev) => !prev)}
+        >
+          {paused ? (
+            <Play className='mr-2 h-4 w-4' />
+          ) : (
+            <Pause className='mr-2 h-4 w-4' />
+          )}
+          {paused ? 'Resume' : 'Pause'}
+        </Button>
+      </div>
+
+      {error && (
+        <div className='border-destructive/50 text-destructive rounded-lg border p-3 text-sm'>
+          {error}
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className='grid gap-4 md:grid-cols-4'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Health
+          </div>
+          <div className='mt-2'>
+            <Badge
+              variant={healthy ? 'default' : 'destructive'}
+              className='text-sm capitalize'
+              data-testid='health-status'
+            >
+              {health?.status ?? 'unknown'}
+            </Badge>
+          </div>
+          {healthDetails.length > 0 && (
+            <div className='text-muted-foreground mt-2 space-y-0.5 text-xs'>
+              {healthDetails.slice(0, 4).map(([key, value]) => (
+                <div key={key}>
+                  {key}: {String(value)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Requests/s
+          </div>
+          <div className='text-3xl font-bold'>
+            {formatNumber(latest?.requestRate, 2)}
+          </div>
+          <div className='text-muted-foreground text-xs'>
+            {formatNumber(snapshot?.requestsTotal, 0)} total
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            p95 Latency
+          </div>
+          <div className='text-3xl font-bold'>
+            {formatNumber(latest?.p95LatencyMs, 0)}
+            <span className='text-muted-foreground ml-1 text-sm'>ms</span>
+          </div>
+          <div className='text-muted-foreground text-xs'>
+            avg {formatNumber(latest?.avgLatencyMs, 0)} ms
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Server Errors
+          </div>
+          <div
+            className={`text-3xl font-bold ${latest && latest.errorRate > 0 ? 'text-destructive' : ''}`}
+          >
+            {formatNumber(snapshot?.errorsTotal, 0)}
+          </div>
+          <div className='text-muted-foreground text-xs'>
+            {formatNumber(latest?.errorRate, 2)} /s
+          </div>
+        </div>
+      </div>
+
+      {points.length < 2 && (
+        <div className='text-muted-foreground text-xs'>
+          Collecting samples - rates appear after a few polls (every{' '}
+          {POLL_INTERVAL_MS / 1000}s)
+        </div>
+      )}
+
+      <div className='grid gap-4 lg:grid-cols-2'>
+        <Card>
+          <CardHeader>
+            <CardTitle>Request Rate</CardTitle>
+            <CardDescription>
+              Requests and 5xx responses per second
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='px-2 sm:px-6'>
+            <ChartContainer
+              config={requestChartConfig}
+              className='aspect-auto h-[220px] w-full'
+            >
+              <AreaChart data={points} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey='time' tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Area
+                  dataKey='requestRate'
+                  type='monotone'
+                  fill='var(--color-requestRate)'
+                  fillOpacity={0.2}
+                  stroke='var(--color-requestRate)'
+                  isAnimationActive={false}
+                />
+                <Area
+                  dataKey='errorRate'
+                  type='monotone'
+                  fill='var(--color-errorRate)'
+                  fillOpacity={0.3}
+                  stroke='var(--color-errorRate)'
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Latency</CardTitle>
+            <CardDescription>
+              Average and p95 request duration per poll window
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='px-2 sm:px-6'>
+            <ChartContainer
+              config={latencyChartConfig}
+              className='aspect-auto h-[220px] w-full'
+            >
+              <LineChart data={points} margin={{ left: 0, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey='time' tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey='avgLatencyMs'
+                  type='monotone'
+                  stroke='var(--color-avgLatencyMs)'
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+                <Line
+                  dataKey='p95LatencyMs'
+                  type='monotone'
+                  stroke='var(--color-p95LatencyMs)'
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className='grid gap-4 lg:grid-cols-2'>
+        <Card>
+          <CardHeader>
+            <CardTitle>Job Counters</CardTitle>
+            <CardDescription>
+              Analysis and queue metrics exported by the backend
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='px-2 sm:px-6'>
+            {jobRows.length === 0 ? (
+              <div className='text-muted-foreground py-8 text-center text-sm'>
+                No job metrics exported
+              </div>
+            ) : (
+              <ChartContainer
+                config={jobChartConfig}
+                className='aspect-auto w-full'
+                style={{ height: Math.max(160, jobRows.length * 28) }}
+              >
+                <BarChart
+                  data={jobRows}
+                  layout='vertical'
+                  margin={{ left: 0, right: 12 }}
+                >
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type='number' tickLine={false} axisLine={false} />
+                  <YAxis
+                    type='category'
+                    dataKey='name'
+                    tickLine={false}
+                    axisLine={false}
+                    width={220}
+                    tick={{ fontSize: 10 }}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar
+                    dataKey='value'
+                    fill='var(--color-value)'
+                    radius={4}
+                    isAnimationActive={false}
+                  />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Endpoints</CardTitle>
+            <CardDescription>
+              Request totals and average latency since backend start
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {endpointRows.length === 0 ? (
+              <div className='text-muted-foreground py-8 text-center text-sm'>
+                No request metrics exported
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Endpoint</TableHead>
+                    <TableHead className='text-right'>Requests</TableHead>
+                    <TableHead className='text-right'>Avg (ms)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {endpointRows.map((row) => (
+                    <TableRow key={row.handler}>
+                      <TableCell className='font-mono text-xs'>
+                        {row.handler}
+                      </TableCell>
+                      <TableCell className='text-right font-mono text-sm'>
+                        {formatNumber(row.count, 0)}
+                      </TableCell>
+                      <TableCell className='text-right font-mono text-sm'>
+                        {formatNumber(row.avgLatencyMs, 0)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import {
+  HistogramSeries,
+  MetricFamilies,
+  MetricFamily,
+  MetricSample,
+  diffHistogram,
+  getHistogramSeries,
+  histogramQuantile,
+  labelKey,
+  mergeHistogramSeries,
+  sumSamples
+} from '@/lib/prometheus';
+
+/**
+ * Point-in-time view of the backend metrics we chart
+ */
+export interface MetricsSnapshot {
+  takenAt: number;
+  requestsTotal: number;
+  errorsTotal: number;
+  latency: HistogramSeries | null;
+  latencyByHandler: Record<string, HistogramSeries>;
+  requestsByHandler: Record<string, number>;
+  jobFamilies: MetricFamily[];
+}
+
+/**
+ * One chart point derived from two consecutive snapshots
+ */
+export interface MetricsPoint {
+  time: string;
+  requestRate: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+const HANDLER_LABELS = ['handler', 'path', 'endpoint', 'route'];
+const STATUS_LABELS = ['status', 'status_code', 'code'];
+
+function findFamily(
+  families: MetricFamilies,
+  type: MetricFamily['type'],
+  pattern: RegExp
+): MetricFamily | undefined {
+  return Object.values(families).find(
+    (family) => family.type === type && pattern.test(family.name)
+  );
+}
+
+function getLabel(labels: Record<string, string>, names: string[]) {
+  for (const name of names) {
+    if (labels[name] !== undefined) return labels[name];
+  }
+  return undefined;
+}
+
+function isServerError(sample: MetricSample) {
+  const status = getLabel(sample.labels, STATUS_LABELS);
+  return status !== undefined && status.startsWith('5');
+}
+
+/**
+ * Pick out request, latency and job metrics from a parsed /metrics payload
+ */
+export function takeSnapshot(families: MetricFamilies): MetricsSnapshot {
+  const requests =
+    findFamily(families, 'counter', /http_requests?(_total)?$/) ??
+    findFamily(families, 'counter', /request/);
+  const latencyFamily = findFamily(
+    families,
+    'histogram',
+    /(request|http).*(duration|latency)/
+  );
+
+  const requestsByHandler: Record<string, number> = {};
+  requests?.samples
+    .filter((sample) => !sample.name.endsWith('_created'))
+    .forEach((sample) => {
+      const handler = getLabel(sample.labels, HANDLER_LABELS) ?? 'all';
+      requestsByHandler[handler] =
+        (requestsByHandler[handler] || 0) + sample.value;
+    });
+
+  const latencySeries = getHistogramSeries(latencyFamily);
+  const latencyByHandler: Record<string, HistogramSeries[]> = {};
+  latencySeries.forEach((series) => {
+    const handler = getLabel(series.labels, HANDLER_LABELS) ?? 'all';
+    (latencyByHandler[handler] ||= []).push(series);
+  });
+
+  const jobFamilies = Object.values(families).filter(
+    (family) =>
+      /job|analysis|queue/i.test(family.name) &&
+      family !== requests &&
+      family !== latencyFamily &&
+      !family.name.endsWith('_created')
+  );
+
+  return {
+    takenAt: Date.now(),
+    requestsTotal: sumSamples(requests),
+    errorsTotal: sumSamples(requests, isServerError),
+    latency: latencySeries.length ? mergeHistogramSeries(latencySeries) : null,
+    latencyByHandler: Object.fromEntries(
+      Object.entries(latencyByHandler).map(([handler, series]) => [
+        handler,
+        mergeHistogramSeries(series)
+      ])
+    ),
+    requestsByHandler,
+    jobFamilies
+  };
+}
+
+/**
+ * Rates and latency for the window between two snapshots
+ */
+export function toPoint(
+  current: MetricsSnapshot,
+  previous: MetricsSnapshot
+): MetricsPoint {
+  const seconds = Math.max((current.takenAt - previous.takenAt) / 1000, 1);
+  // Counters reset when the backend restarts; treat the new total as the delta
+  const delta = (now: number, before: number) =>
+    now >= before ? now - before : now;
+
+  let avgLatencyMs: number | null = null;
+  let p95LatencyMs: number | null = null;
+  if (current.latency) {
+    const window = diffHistogram(
+      current.latency,
+      previous.latency ?? undefined
+    );
+    if (window.count > 0) {
+      avgLatencyMs = (window.sum / window.count) * 1000;
+      p95LatencyMs = histogramQuantile(0.95, window.buckets) * 1000;
+    }
+  }
+
+  return {
+    time: new Date(current.takenAt).toLocaleTimeString(),
+    requestRate: delta(current.requestsTotal, previous.requestsTotal) / seconds,
+    errorRate: delta(current.errorsTotal, previous.errorsTotal) / seconds,
+    avgLatencyMs,
+    p95LatencyMs
+  };
+}
+
+/**
+ * Flatten job metric families into bar chart rows
+ */
+export function jobCounterRows(families: MetricFamily[]) {
+  return families.flatMap((family) =>
+    family.samples
+      .filter(
+        (sample) =>
+          !sample.name.endsWith('_created') &&
+          !sample.name.endsWith('_bucket') &&
+          Number.isFinite(sample.value)
+      )
+      .map((sample) => {
+        const labels = labelKey(sample.labels);
+        return {
+          name: labels ? `${sample.name} {${labels}}` : sample.name,
+          type: family.type,
+          value: sample.value
+        };
+      })
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TagInventory, loadTagInventory } from '@/lib/tag-admin';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { TagCategory, findCategory, useTagTaxonomy } from '@/lib/tag-taxonomy';
+import { TagCategoryBadge } from '@/components/tag-category';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { GitMerge, Pencil, Star, Trash2 } from 'lucide-react';
+import { TagCategories } from './tag-categories';
+import { TagOperationDialog, TagOperationKind } from './tag-operation-dialog';
+
+function TagName({
+  tag,
+  categories
+}: {
+  tag: string;
+  categories: TagCategory[];
+}) {
+  const category = findCategory(categories, tag);
+  // Show the tag as stored, which may differ in case from the category
+  return category ? <TagCategoryBadge category={{ ...category, tag }} /> : tag;
+}
+
+export default function TagsPage() {
+  const [inventory, setInventory] = useState<TagInventory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [request, setRequest] = useState<{
+    kind: TagOperationKind;
+    tag: string;
+  } | null>(null);
+  const categories = useTagTaxonomy((state) => state.categories);
+
+  const fetchData = () => {
+    loadTagInventory()
+      .then((data) => {
+        setInventory(data);
+        setError(null);
+      })
+      .catch(() => {
+        setError(
+          `Failed to load tags. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        );
+      });
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  if (error) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!inventory) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading tags...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching tagged wallets
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const query = search.trim().toLowerCase();
+  const tags = inventory.tags
+    .filter((t) => !query || t.tag.toLowerCase().includes(query))
+    .sort((a, b) => b.wallets.length - a.wallets.length);
+  const taggedWallets = Object.keys(inventory.tagsByWallet).length;
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div>
+        <h1 className='text-3xl font-bold tracking-tight'>Tags</h1>
+        <p className='text-muted-foreground'>
+          Rename, merge and delete wallet tags across every wallet, and choose
+          which tags get their own colour and icon
+        </p>
+      </div>
+
+      <TagCategories />
+
+      {/* Stats Cards */}
+      <div className='grid gap-4 md:grid-cols-2'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>Tags</div>
+          <div className='text-3xl font-bold'>{inventory.tags.length}</div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Tagged wallets
+          </div>
+          <div className='text-3xl font-bold'>{taggedWallets}</div>
+        </div>
+      </div>
+
+      <Input
+        placeholder='Search tags...'
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className='max-w-sm'
+      />
+
+      {/* Tags Table */}
+      {tags.length === 0 ? (
+        <div className='bg-card rounded-lg border p-12 text-center'>
+          <div className='text-muted-foreground'>
+            {inventory.tags.length === 0
+              ? 'No wallets are tagged yet. Tags added on the tokens page will appear here.'
+              : 'No tags match your search.'}
+          </div>
+        </div>
+      ) : (
+        <div className='overflow-hidden rounded-md border'>
+          <div className='max-h-[calc(100vh-400px)] max-w-full overflow-auto'>
+            <Table className='w-full' data-testid='tags-table'>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tag</TableHead>
+                  <TableHead className='text-right'>Wallets</TableHead>
+                  <TableHead className='text-right'>KOL</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tags.map((summary) => (
+                  <TableRow
+                    key={summary.tag}
+                    data-testid='tag-row'
+                    data-tag={summary.tag}
+                  >
+                    <TableCell className='font-medium'>
+                      <TagName tag={summary.tag} categories={categories} />
+                    </TableCell>
+                    <TableCell
+                      className='text-right font-mono text-sm'
+                      data-testid='tag-wallet-count'
+                    >
+                      {summary.wallets.length}
+                    </TableCell>
+                    <TableCell className='text-right font-mono text-sm'>
+                      {summary.kolWallets}
+                    </TableCell>
+                    <TableCell>
+                      <div className='flex gap-2'>
+                        <Button
+                          variant='outline'
+                          size='sm'
+                          className='h-8'
+                          onClick={() =>
+                            setRequest({ kind: 'rename', tag: summary.tag })
+                          }
+                        >
+                          <Pencil className='mr-1 h-4 w-4' />
+                          Rename
+                        </Button>
+                        <Button
+                          variant='outline'
+                          size='sm'
+                          className='h-8'
+                          onClick={() =>
+                            setRequest({ kind: 'merge', tag: summary.tag })
+                          }
+                          disabled={inventory.tags.length < 2}
+                        >
+                          <GitMerge className='mr-1 h-4 w-4' />
+                          Merge
+                        </Button>
+                        <Button
+                          variant='outline'
+                          size='sm'
+                          className='h-8'
+                          onClick={() =>
+                            setRequest({ kind: 'set_kol', tag: summary.tag })
+                          }
+                        >
+                          <Star className='mr-1 h-4 w-4' />
+                          KOL
+                        </Button>
+                        <Button
+                          variant='destructive'
+                          size='sm'
+                          className='h-8'
+                          onClick={() =>
+                            setRequest({ kind: 'delete', tag: summary.tag })
+                          }
+                        >
+                          <Trash2 className='mr-1 h-4 w-4' />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      <TagOperationDialog
+        inventory={inventory}
+        request={request}
+        onClose={() => setRequest(null)}
+        onApplied={fetchData}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import {
+  CATEGORY_ICONS,
+  CategoryIcon,
+  TagCategory,
+  findCategory,
+  useTagTaxonomy
+} from '@/lib/tag-taxonomy';
+import {
+  CATEGORY_ICON_COMPONENTS,
+  TagCategoryBadge
+} from '@/components/tag-category';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from 'lucide-react';
+
+const NEW_CATEGORY_COLOR = '#14b8a6';
+
+function CategoryRow({
+  category,
+  index,
+  count
+}: {
+  category: TagCategory;
+  index: number;
+  count: number;
+}) {
+  const categories = useTagTaxonomy((state) => state.categories);
+  const updateCategory = useTagTaxonomy((state) => state.updateCategory);
+  const removeCategory = useTagTaxonomy((state) => state.removeCategory);
+  const moveCategory = useTagTaxonomy((state) => state.moveCategory);
+  const CurrentIcon = CATEGORY_ICON_COMPONENTS[category.icon];
+
+  const saveTag = (input: HTMLInputElement) => {
+    const tag = input.value.trim();
+    const clash = findCategory(categories, tag);
+    if (clash && clash.id !== category.id) {
+      toast.error(`"${tag}" already has a category`);
+    }
+    if (!tag || (clash && clash.id !== category.id)) {
+      input.value = category.tag;
+      return;
+    }
+    if (tag !== category.tag) updateCategory(category.id, { tag });
+  };
+
+  return (
+    <TableRow data-testid='tag-category-row'>
+      <TableCell>
+        <TagCategoryBadge category={category} />
+      </TableCell>
+      <TableCell>
+        <Input
+          key={category.tag}
+          defaultValue={category.tag}
+          onBlur={(e) => saveTag(e.target)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className='h-8 w-32'
+          aria-label='Tag'
+        />
+      </TableCell>
+      <TableCell>
+        <input
+          type='color'
+          value={category.color}
+          onChange={(e) =>
+            updateCategory(category.id, { color: e.target.value })
+          }
+          className='h-8 w-10 cursor-pointer rounded border bg-transparent'
+          aria-label='Colour'
+        />
+      </TableCell>
+      <TableCell>
+        <Select
+          value={category.icon}
+          onValueChange={(icon) =>
+            updateCategory(category.id, { icon: icon as CategoryIcon })
+          }
+        >
+          <SelectTrigger className='h-8 w-16' aria-label='Icon'>
+            <CurrentIcon className='h-4 w-4' />
+          </SelectTrigger>
+          <SelectContent>
+            {CATEGORY_ICONS.map((icon) => {
+              const Icon = CATEGORY_ICON_COMPONENTS[icon];
+              return (
+                <SelectItem key={icon} value={icon}>
+                  <Icon className='h-4 w-4' />
+                  {icon}
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Input
+          key={category.description}
+          defaultValue={category.description}
+          onBlur={(e) =>
+            updateCategory(category.id, { description: e.target.value.trim() })
+          }
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          placeholder='What this tag means'
+          className='h-8 min-w-[200px]'
+          aria-label='Description'
+        />
+      </TableCell>
+      <TableCell>
+        <div className='flex gap-1'>
+          <Button
+            variant='ghost'
+            size='sm'
+            className='h-8 w-8 p-0'
+            onClick={() => moveCategory(category.id, -1)}
+            disabled={index === 0}
+            title='Move up'
+          >
+            <ArrowUp className='h-4 w-4' />
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            className='h-8 w-8 p-0'
+            onClick={() => moveCategory(category.id, 1)}
+            disabled={index === count - 1}
+            title='Move down'
+          >
+            <ArrowDown className='h-4 w-4' />
+          </Button>
+          <Button
+            variant='ghost'
+            size='sm'
+            className='text-destructive h-8 w-8 p-0'
+            onClick={() => removeCategory(category.id)}
+            title='Remove category'
+          >
+            <Trash2 className='h-4 w-4' />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Edit the tag taxonomy - which tags get a colour, icon and checkbox
+ */
+export function TagCategories() {
+  const categories = useTagTaxonomy((state) => state.categories);
+  const addCategory = useTagTaxonomy((state) => state.addCategory);
+  const resetCategories = useTagTaxonomy((state) => state.resetCategories);
+  const [newTag, setNewTag] = useState('');
+
+  const handleAdd = () => {
+    const tag = newTag.trim();
+    if (!tag) return;
+    if (findCategory(categories, tag)) {
+      toast.error(`"${tag}" already has a category`);
+      return;
+    }
+    addCategory({
+      tag,
+      color: NEW_CATEGORY_COLOR,
+      icon: 'tag',
+      description: ''
+    });
+    setNewTag('');
+  };
+
+  return (
+    <div className='bg-card space-y-4 rounded-lg border p-6'>
+      <div className='flex flex-wrap items-start justify-between gap-2'>
+        <div>
+          <h2 className='text-lg font-semibold'>Categories</h2>
+          <p className='text-muted-foreground text-sm'>
+            Categorised tags get a checkbox in the tags popover and an icon next
+            to wallet addresses. Earlier categories take priority when a wallet
+            has several. Saved in this browser.
+          </p>
+        </div>
+        <Button
+          variant='outline'
+          size='sm'
+          className='h-8'
+          onClick={resetCategories}
+        >
+          <RotateCcw className='mr-1 h-4 w-4' />
+          Reset
+        </Button>
+      </div>
+
+      {categories.length > 0 && (
+        <div className='overflow-x-auto rounded-md border'>
+          <Table data-testid='tag-categories-table'>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Preview</TableHead>
+                <TableHead>Tag</TableHead>
+                <TableHead>Colour</TableHead>
+                <TableHead>Icon</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map((category, index) => (
+                <CategoryRow
+                  key={category.id}
+                  category={category}
+                  index={index}
+                  count={categories.length}
+                />
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className='flex gap-2'>
+        <Input
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder='Tag name, e.g. Sniper'
+          className='h-8 max-w-xs'
+          aria-label='New category tag'
+        />
+        <Button
+          size='sm'
+          className='h-8'
+          onClick={handleAdd}
+          disabled={!newTag.trim()}
+        >
+          <Plus className='mr-1 h-4 w-4' />
+          Add Category
+        </Button>
+      </div>
+    </div>
+  );
+}
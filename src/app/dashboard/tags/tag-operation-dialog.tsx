@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  TagInventory,
+  TagOperation,
+  TagRunProgress,
+  planTagOperation,
+  runTagPlan
+} from '@/lib/tag-admin';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+
+export type TagOperationKind = TagOperation['kind'];
+
+const TITLES: Record<TagOperationKind, string> = {
+  rename: 'Rename Tag',
+  merge: 'Merge Tag',
+  delete: 'Delete Tag',
+  set_kol: 'Set KOL Flag'
+};
+
+// How many planned changes to list in the preview
+const PREVIEW_LIMIT = 50;
+
+interface TagOperationDialogProps {
+  inventory: TagInventory;
+  // null when closed
+  request: { kind: TagOperationKind; tag: string } | null;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export function TagOperationDialog({
+  inventory,
+  request,
+  onClose,
+  onApplied
+}: TagOperationDialogProps) {
+  const [target, setTarget] = useState('');
+  const [isKol, setIsKol] = useState(true);
+  const [progress, setProgress] = useState<TagRunProgress | null>(null);
+  const running = progress !== null && progress.done < progress.total;
+
+  useEffect(() => {
+    setTarget('');
+    setIsKol(true);
+    setProgress(null);
+  }, [request]);
+
+  const otherTags = useMemo(
+    () =>
+      inventory.tags.map((t) => t.tag).filter((tag) => tag !== request?.tag),
+    [inventory, request]
+  );
+
+  // Build the operation, or explain why it can't run yet
+  const operation = useMemo<TagOperation | { error: string } | null>(() => {
+    if (!request) return null;
+    const { kind, tag } = request;
+    const to = target.trim();
+    switch (kind) {
+      case 'rename':
+        if (!to || to === tag) return { error: 'Enter a new name' };
+        if (otherTags.includes(to)) {
+          return { error: `"${to}" already exists - merge into it instead` };
+        }
+        return { kind, tag, to };
+      case 'merge':
+        if (!to) return { error: 'Choose a tag to merge into' };
+        return { kind, tag, into: to };
+      case 'delete':
+        return { kind, tag };
+      case 'set_kol':
+        return { kind, tag, isKol };
+    }
+  }, [request, target, isKol, otherTags]);
+
+  const plan = useMemo(
+    () =>
+      operation && !('error' in operation)
+        ? planTagOperation(inventory, operation)
+        : null,
+    [inventory, operation]
+  );
+
+  const handleApply = async () => {
+    if (!plan || plan.steps.length === 0) return;
+    const result = await runTagPlan(plan, setProgress);
+    if (result.partial.length > 0) {
+      toast.error(
+        `${result.partial.length} wallet(s) left half-changed - check their tags`
+      );
+    } else if (result.failed > 0) {
+      toast.error(
+        `${result.failed} of ${result.total} wallet(s) failed to update and were left unchanged`
+      );
+    } else {
+      toast.success(`Updated ${result.total} wallet(s)`);
+    }
+    onApplied();
+  };
+
+  const finished = progress !== null && !running;
+
+  return (
+    <Dialog
+      open={request !== null}
+      onOpenChange={(open) => !open && !running && onClose()}
+    >
+      <DialogContent className='sm:max-w-lg' data-testid='tag-operation-dialog'>
+        <DialogHeader>
+          <DialogTitle>{request && TITLES[request.kind]}</DialogTitle>
+          <DialogDescription>
+            {request?.kind === 'rename' &&
+              `Rename "${request.tag}" on every wallet that has it`}
+            {request?.kind === 'merge' &&
+              `Move every wallet tagged "${request.tag}" to another tag, then remove "${request.tag}"`}
+            {request?.kind === 'delete' &&
+              `Remove "${request.tag}" from every wallet`}
+            {request?.kind === 'set_kol' &&
+              `Mark or unmark every "${request.tag}" tag as KOL`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request?.kind === 'rename' && (
+          <div className='space-y-2'>
+            <Label htmlFor='tag-rename'>New name</Label>
+            <Input
+              id='tag-rename'
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              disabled={progress !== null}
+              autoFocus
+            />
+          </div>
+        )}
+        {request?.kind === 'merge' && (
+          <div className='space-y-2'>
+            <Label>Merge into</Label>
+            <Select
+              value={target}
+              onValueChange={setTarget}
+              disabled={progress !== null}
+            >
+              <SelectTrigger className='w-full'>
+                <SelectValue placeholder='Choose a tag' />
+              </SelectTrigger>
+              <SelectContent>
+                {otherTags.map((tag) => (
+                  <SelectItem key={tag} value={tag}>
+                    {tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {request?.kind === 'set_kol' && (
+          <div className='flex gap-2'>
+            <Button
+              variant={isKol ? 'default' : 'outline'}
+              size='sm'
+              className='h-8'
+              onClick={() => setIsKol(true)}
+              disabled={progress !== null}
+            >
+              Mark as KOL
+            </Button>
+            <Button
+              variant={!isKol ? 'default' : 'outline'}
+              size='sm'
+              className='h-8'
+              onClick={() => setIsKol(false)}
+              disabled={progress !== null}
+            >
+              Unmark KOL
+            </Button>
+          </div>
+        )}
+
+        {/* Dry run */}
+        {operation && 'error' in operation && (
+          <p className='text-muted-foreground text-xs'>{operation.error}</p>
+        )}
+        {plan && (
+          <div className='space-y-2' data-testid='tag-operation-preview'>
+            <p className='text-sm'>
+              <span className='font-semibold'>{plan.steps.length}</span>{' '}
+              wallet(s) will change
+              {plan.unchanged > 0 && (
+                <span className='text-muted-foreground'>
+                  {' '}
+                  · {plan.unchanged} already up to date
+                </span>
+              )}
+            </p>
+            {plan.steps.length > 0 && (
+              <div className='max-h-48 overflow-y-auto rounded-md border text-xs'>
+                {plan.steps.slice(0, PREVIEW_LIMIT).map((step) => (
+                  <div
+                    key={step.wallet_address}
+                    className='flex justify-between gap-2 border-b px-2 py-1 last:border-0'
+                  >
+                    <span className='truncate font-mono'>
+                      {step.wallet_address}
+                    </span>
+                    <span className='text-muted-foreground shrink-0'>
+                      {step.note}
+                    </span>
+                  </div>
+                ))}
+                {plan.steps.length > PREVIEW_LIMIT && (
+                  <div className='text-muted-foreground px-2 py-1'>
+                    and {plan.steps.length - PREVIEW_LIMIT} more
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {progress && (
+          <div className='space-y-1' data-testid='tag-operation-progress'>
+            <Progress
+              value={
+                progress.total > 0
+                  ? (progress.done / progress.total) * 100
+                  : 100
+              }
+            />
+            <p className='text-muted-foreground text-xs'>
+              {progress.done} / {progress.total} wallet(s)
+              {progress.failed > 0 && (
+                <span className='text-destructive'>
+                  {' '}
+                  · {progress.failed} failed
+                </span>
+              )}
+            </p>
+            {progress.partial.length > 0 && (
+              <div
+                className='text-destructive text-xs'
+                data-testid='tag-operation-partial'
+              >
+                <p>
+                  {progress.partial.length} wallet(s) couldn&apos;t be restored
+                  after a failed change - check their tags:
+                </p>
+                <ul className='mt-1 max-h-24 space-y-0.5 overflow-y-auto font-mono'>
+                  {progress.partial.map((address) => (
+                    <li key={address} className='truncate'>
+                      {address}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant='outline' onClick={onClose} disabled={running}>
+            {finished ? 'Close' : 'Cancel'}
+          </Button>
+          {!finished && (
+            <Button
+              variant={request?.kind === 'delete' ? 'destructive' : 'default'}
+              onClick={handleApply}
+              disabled={running || !plan || plan.steps.length === 0}
+            >
+              {running ? 'Applying...' : 'Apply'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,6 +16,9 @@ import {
   TableRow
 } from '@/components/ui/table';
 import { WalletTags } from '@/components/wallet-tags';
+import { WalletBalance } from '@/components/wallet-balance';
+import { useMarketCapHistory } from '@/hooks/use-market-cap-history';
+import { MarketCapChart } from '../market-cap-chart';
 
 interface TokenDetailsViewProps {
   token: TokenDetail;
@@ -23,6 +26,7 @@ interface TokenDetailsViewProps {
 
 export function TokenDetailsView({ token }: TokenDetailsViewProps) {
   const [copied, setCopied] = useState(false);
+  const marketCapHistory = useMarketCapHistory(token.id);
 
   const copyAddress = (address: string) => {
     navigator.clipboard.writeText(address);
@@ -118,6 +122,16 @@ export function TokenDetailsView({ token }: TokenDetailsViewProps) {
         </Card>
       </div>
 
+      {/* Market Cap History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Market Cap History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MarketCapChart token={token} snapshots={marketCapHistory} />
+        </CardContent>
+      </Card>
+
       {/* Early Buyer Wallets Table */}
       <Card>
         <CardHeader>
@@ -155,9 +169,12 @@ export function TokenDetailsView({ token }: TokenDetailsViewProps) {
                     </TableCell>
                     <TableCell>
                       <div className='flex flex-col gap-1'>
-                        <div className='font-mono text-sm'>
+                        <Link
+                          href={`/dashboard/wallets/${wallet.wallet_address}`}
+                          className='font-mono text-sm hover:underline'
+                        >
                           {wallet.wallet_address}
-                        </div>
+                        </Link>
                         <WalletTags
                           walletAddress={wallet.wallet_address}
                           compact
@@ -165,10 +182,10 @@ export function TokenDetailsView({ token }: TokenDetailsViewProps) {
                       </div>
                     </TableCell>
                     <TableCell className='text-right font-mono text-sm'>
-                      {wallet.wallet_balance_usd !== null &&
-                      wallet.wallet_balance_usd !== undefined
-                        ? `$${Math.round(wallet.wallet_balance_usd)}`
-                        : 'N/A'}
+                      <WalletBalance
+                        walletAddress={wallet.wallet_address}
+                        balanceUsd={wallet.wallet_balance_usd}
+                      />
                     </TableCell>
                     <TableCell className='text-sm'>
                       {formatTimestamp(wallet.first_buy_timestamp)}
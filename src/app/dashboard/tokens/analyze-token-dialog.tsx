@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { toast } from 'sonner';
+import { Search } from 'lucide-react';
+import {
+  analyzeToken,
+  DEFAULT_TIME_WINDOW_HOURS,
+  QueueTokenResponse
+} from '@/lib/api';
+import { isValidSolanaAddress } from '@/lib/solana';
+import { setApiFieldErrors } from '@/lib/form-errors';
+import { useApiSettings } from '@/contexts/ApiSettingsContext';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Form } from '@/components/ui/form';
+import { FormInput } from '@/components/forms/form-input';
+import { FormSwitch } from '@/components/forms/form-switch';
+
+const analyzeFormSchema = z.object({
+  address: z
+    .string()
+    .trim()
+    .min(1, 'Token address is required')
+    .refine(isValidSolanaAddress, 'Not a valid Solana (base58) address'),
+  // '' (or cleared) leaves it to the backend default
+  minUsd: z
+    .union([z.number().min(0, 'Must be 0 or greater'), z.literal('')])
+    .optional(),
+  timeWindowHours: z
+    .number({ error: 'Time window is required' })
+    .int('Must be a whole number of hours')
+    .min(1, 'Must be at least 1 hour'),
+  overrideSettings: z.boolean(),
+  transactionLimit: z.number().int().min(100).max(2000),
+  minUsdFilter: z.number().min(10).max(500),
+  walletCount: z.number().int().min(5).max(50),
+  apiRateDelay: z.number().int().min(0),
+  maxCreditsPerAnalysis: z.number().int().min(1),
+  maxRetries: z.number().int().min(0)
+});
+
+type AnalyzeFormData = z.infer<typeof analyzeFormSchema>;
+
+// AnalyzeTokenRequest fields -> form fields, for backend validation errors
+const REQUEST_FIELDS: Record<string, keyof AnalyzeFormData> = {
+  address: 'address',
+  min_usd: 'minUsd',
+  time_window_hours: 'timeWindowHours'
+};
+
+const SETTINGS_FIELDS = [
+  'transactionLimit',
+  'minUsdFilter',
+  'walletCount',
+  'apiRateDelay',
+  'maxCreditsPerAnalysis',
+  'maxRetries'
+] as const;
+
+interface AnalyzeTokenDialogProps {
+  onQueued: (job: QueueTokenResponse) => void;
+}
+
+export function AnalyzeTokenDialog({ onQueued }: AnalyzeTokenDialogProps) {
+  const { apiSettings } = useApiSettings();
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<AnalyzeFormData>({
+    resolver: zodResolver(analyzeFormSchema),
+    defaultValues: {
+      address: '',
+      minUsd: '',
+      timeWindowHours: DEFAULT_TIME_WINDOW_HOURS,
+      overrideSettings: false,
+      ...apiSettings
+    }
+  });
+
+  const overrideSettings = useWatch({
+    control: form.control,
+    name: 'overrideSettings'
+  });
+
+  // Start every run from the current global settings
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        address: '',
+        minUsd: '',
+        timeWindowHours: DEFAULT_TIME_WINDOW_HOURS,
+        overrideSettings: false,
+        ...apiSettings
+      });
+    }
+  }, [open, apiSettings, form]);
+
+  const onSubmit = async (values: AnalyzeFormData) => {
+    // Overrides apply to this run only - global settings are left untouched
+    const settings = values.overrideSettings
+      ? {
+          transactionLimit: values.transactionLimit,
+          minUsdFilter: values.minUsdFilter,
+          walletCount: values.walletCount,
+          apiRateDelay: values.apiRateDelay,
+          maxCreditsPerAnalysis: values.maxCreditsPerAnalysis,
+          maxRetries: values.maxRetries
+        }
+      : apiSettings;
+
+    setSubmitting(true);
+    try {
+      const job = await analyzeToken(values.address, settings, {
+        min_usd: typeof values.minUsd === 'number' ? values.minUsd : undefined,
+        time_window_hours: values.timeWindowHours
+      });
+      toast.success(`Analysis queued (job ${job.job_id})`);
+      onQueued(job);
+      setOpen(false);
+    } catch (error: any) {
+      // Settings errors can only be shown inline when the override fields are visible
+      const fieldMap: Record<string, keyof AnalyzeFormData> = {
+        ...REQUEST_FIELDS
+      };
+      if (values.overrideSettings) {
+        SETTINGS_FIELDS.forEach((field) => {
+          fieldMap[`api_settings.${field}`] = field;
+        });
+      }
+      if (!setApiFieldErrors(form.setError, error, fieldMap)) {
+        toast.error(error.message || 'Failed to queue analysis');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size='sm'>
+          <Search className='mr-2 h-4 w-4' />
+          Analyze Token
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='max-h-[90vh] overflow-y-auto sm:max-w-lg'>
+        <DialogHeader>
+          <DialogTitle>Analyze Token</DialogTitle>
+          <DialogDescription>
+            Queue an early-bidder analysis for a Solana token
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form
+          form={form}
+          onSubmit={form.handleSubmit(onSubmit)}
+          className='space-y-4'
+        >
+          <FormInput
+            control={form.control}
+            name='address'
+            label='Token Address'
+            placeholder='e.g. EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+            required
+          />
+
+          <div className='grid grid-cols-2 gap-4'>
+            <FormInput
+              control={form.control}
+              name='minUsd'
+              label='Min USD'
+              type='number'
+              min={0}
+              placeholder='Backend default'
+            />
+            <FormInput
+              control={form.control}
+              name='timeWindowHours'
+              label='Time Window (hours)'
+              type='number'
+              min={1}
+              required
+            />
+          </div>
+
+          <FormSwitch
+            control={form.control}
+            name='overrideSettings'
+            label='Override API settings'
+            description='Use custom settings for this run only'
+            showDescription
+          />
+
+          {overrideSettings && (
+            <div className='grid grid-cols-2 gap-4 rounded-lg border p-4'>
+              <FormInput
+                control={form.control}
+                name='transactionLimit'
+                label='Transaction Limit'
+                type='number'
+                min={100}
+                max={2000}
+                step={100}
+              />
+              <FormInput
+                control={form.control}
+                name='minUsdFilter'
+                label='Min USD Filter ($)'
+                type='number'
+                min={10}
+                max={500}
+                step={10}
+              />
+              <FormInput
+                control={form.control}
+                name='walletCount'
+                label='Wallet Count'
+                type='number'
+                min={5}
+                max={50}
+              />
+              <FormInput
+                control={form.control}
+                name='apiRateDelay'
+                label='API Rate Delay (ms)'
+                type='number'
+                min={0}
+              />
+              <FormInput
+                control={form.control}
+                name='maxCreditsPerAnalysis'
+                label='Max Credits'
+                type='number'
+                min={1}
+              />
+              <FormInput
+                control={form.control}
+                name='maxRetries'
+                label='Max Retries'
+                type='number'
+                min={0}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => setOpen(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button type='submit' disabled={submitting}>
+              {submitting ? 'Queueing...' : 'Queue Analysis'}
+            </Button>
+          </DialogFooter>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
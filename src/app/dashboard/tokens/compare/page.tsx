@@ -0,0 +1,386 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  TokenDetail,
+  addWalletTag,
+  formatTimestamp,
+  getTokenById
+} from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger
+} from '@/components/ui/tooltip';
+import { ArrowLeft, Tags } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  MAX_COMPARE_TOKENS,
+  MIN_COMPARE_TOKENS,
+  computeTokenOverlap,
+  formatBuyDelay,
+  parseCompareIds
+} from './token-overlap';
+
+function tokenLabel(token: TokenDetail) {
+  return token.token_symbol || token.acronym || token.token_name || '?';
+}
+
+export default function CompareTokensPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const idsParam = searchParams.get('ids');
+  const ids = useMemo(() => parseCompareIds(idsParam), [idsParam]);
+  const [tokens, setTokens] = useState<TokenDetail[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [minShared, setMinShared] = useState(MIN_COMPARE_TOKENS);
+  const [tag, setTag] = useState('');
+  const [isKol, setIsKol] = useState(false);
+  const [tagging, setTagging] = useState(false);
+
+  const validCount =
+    ids.length >= MIN_COMPARE_TOKENS && ids.length <= MAX_COMPARE_TOKENS;
+
+  useEffect(() => {
+    if (!validCount) {
+      setError(
+        `Select between ${MIN_COMPARE_TOKENS} and ${MAX_COMPARE_TOKENS} tokens to compare`
+      );
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    Promise.all(ids.map((id) => getTokenById(id)))
+      .then(setTokens)
+      .catch(() => {
+        setError(
+          `Failed to load tokens. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        );
+      })
+      .finally(() => setLoading(false));
+  }, [ids, validCount]);
+
+  const overlap = useMemo(
+    () => (tokens ? computeTokenOverlap(tokens) : null),
+    [tokens]
+  );
+
+  const visibleWallets = useMemo(
+    () =>
+      overlap?.sharedWallets.filter(
+        (wallet) => wallet.tokenCount >= minShared
+      ) ?? [],
+    [overlap, minShared]
+  );
+
+  const handleTagShared = async () => {
+    const trimmed = tag.trim();
+    if (!trimmed || visibleWallets.length === 0) return;
+
+    setTagging(true);
+    const results = await Promise.allSettled(
+      visibleWallets.map((wallet) =>
+        addWalletTag(wallet.address, trimmed, isKol)
+      )
+    );
+    setTagging(false);
+
+    // Let mounted WalletTags components pick up the change
+    visibleWallets.forEach((wallet) => {
+      window.dispatchEvent(
+        new CustomEvent('walletTagsChanged', {
+          detail: { walletAddress: wallet.address }
+        })
+      );
+    });
+
+    const failCount = results.filter((r) => r.status === 'rejected').length;
+    if (failCount === 0) {
+      toast.success(
+        `Tagged ${visibleWallets.length} wallet(s) as "${trimmed}"`
+      );
+      setTag('');
+    } else {
+      toast.warning(
+        `Tagged ${visibleWallets.length - failCount} wallet(s), ${failCount} failed`
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading tokens...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching early buyers for {ids.length} tokens
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !tokens || !overlap) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Failed to compare tokens'}
+          </div>
+          <button
+            onClick={() => router.push('/dashboard/tokens')}
+            className='bg-primary text-primary-foreground hover:bg-primary/90 mt-4 rounded-md px-4 py-2'
+          >
+            Back to Tokens
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const maxOffDiagonal = Math.max(
+    1,
+    ...overlap.matrix.flatMap((row, i) => row.filter((_, j) => i !== j))
+  );
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h1 className='text-3xl font-bold tracking-tight'>Compare Tokens</h1>
+          <p className='text-muted-foreground'>
+            Early buyers shared across {tokens.length} tokens
+          </p>
+        </div>
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={() => router.push('/dashboard/tokens')}
+        >
+          <ArrowLeft className='mr-2 h-4 w-4' />
+          Back to Tokens
+        </Button>
+      </div>
+
+      {/* Overlap Matrix */}
+      <div className='bg-card rounded-lg border p-4'>
+        <h2 className='mb-3 text-lg font-semibold'>Overlap Matrix</h2>
+        <TooltipProvider>
+          <Table data-testid='overlap-matrix'>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {tokens.map((token) => (
+                  <TableHead key={token.id} className='text-center'>
+                    {tokenLabel(token)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((rowToken, i) => (
+                <TableRow key={rowToken.id}>
+                  <TableCell className='font-medium'>
+                    <Link
+                      href={`/dashboard/tokens/${rowToken.id}`}
+                      className='hover:underline'
+                    >
+                      {rowToken.token_name || tokenLabel(rowToken)}
+                    </Link>
+                  </TableCell>
+                  {overlap.matrix[i].map((count, j) => {
+                    const colToken = tokens[j];
+                    if (i === j) {
+                      return (
+                        <TableCell
+                          key={colToken.id}
+                          className='text-muted-foreground text-center font-mono'
+                        >
+                          {count}
+                        </TableCell>
+                      );
+                    }
+                    return (
+                      <TableCell
+                        key={colToken.id}
+                        className='text-center font-mono'
+                        style={{
+                          backgroundColor:
+                            count > 0
+                              ? `rgba(var(--primary-rgb, 59 130 246) / ${(0.1 + (0.5 * count) / maxOffDiagonal).toFixed(2)})`
+                              : undefined
+                        }}
+                      >
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className='cursor-default'>{count}</span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {count} wallet(s) bought both {tokenLabel(rowToken)}{' '}
+                            and {tokenLabel(colToken)}
+                          </TooltipContent>
+                        </Tooltip>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TooltipProvider>
+      </div>
+
+      {/* Shared Wallets */}
+      <div className='bg-card rounded-lg border'>
+        <div className='flex flex-wrap items-end justify-between gap-4 border-b p-4'>
+          <div>
+            <h2 className='text-lg font-semibold'>Shared Wallets</h2>
+            <p className='text-muted-foreground text-sm'>
+              Buy size and delay after each token&apos;s first buy
+            </p>
+          </div>
+          <div className='flex flex-wrap items-center gap-2'>
+            <span className='text-muted-foreground text-xs'>In at least</span>
+            {Array.from(
+              { length: tokens.length - MIN_COMPARE_TOKENS + 1 },
+              (_, index) => index + MIN_COMPARE_TOKENS
+            ).map((count) => (
+              <Button
+                key={count}
+                variant={minShared === count ? 'default' : 'outline'}
+                size='sm'
+                className='h-7 px-2 text-xs'
+                onClick={() => setMinShared(count)}
+              >
+                {count}
+              </Button>
+            ))}
+            <span className='text-muted-foreground text-xs'>tokens</span>
+          </div>
+        </div>
+
+        {/* Tag the shared set */}
+        <div className='flex flex-wrap items-center gap-3 border-b p-4'>
+          <Input
+            placeholder='Tag for these wallets...'
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleTagShared();
+            }}
+            className='h-8 w-56 text-sm'
+            disabled={tagging}
+          />
+          <div className='flex items-center gap-2'>
+            <Checkbox
+              id='compare-tag-kol'
+              checked={isKol}
+              onCheckedChange={(checked) => setIsKol(checked === true)}
+              disabled={tagging}
+            />
+            <Label htmlFor='compare-tag-kol' className='text-sm'>
+              KOL
+            </Label>
+          </div>
+          <Button
+            size='sm'
+            onClick={handleTagShared}
+            disabled={tagging || !tag.trim() || visibleWallets.length === 0}
+          >
+            <Tags className='mr-2 h-4 w-4' />
+            {tagging
+              ? 'Tagging...'
+              : `Tag ${visibleWallets.length} wallet${visibleWallets.length !== 1 ? 's' : ''}`}
+          </Button>
+        </div>
+
+        {visibleWallets.length === 0 ? (
+          <div className='text-muted-foreground py-12 text-center text-sm'>
+            No wallets bought {minShared} or more of these tokens
+          </div>
+        ) : (
+          <Table data-testid='shared-wallets-table'>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Wallet</TableHead>
+                <TableHead className='text-center'>Tokens</TableHead>
+                {tokens.map((token) => (
+                  <TableHead key={token.id} className='text-right'>
+                    {tokenLabel(token)}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleWallets.map((wallet) => (
+                <TableRow key={wallet.address} data-testid='shared-wallet-row'>
+                  <TableCell className='font-mono text-xs'>
+                    <Link
+                      href={`/dashboard/wallets/${wallet.address}`}
+                      className='hover:underline'
+                    >
+                      {wallet.address}
+                    </Link>
+                  </TableCell>
+                  <TableCell className='text-center font-semibold'>
+                    {wallet.tokenCount}
+                  </TableCell>
+                  {tokens.map((token) => {
+                    const buy = wallet.buys[token.id];
+                    if (!buy) {
+                      return (
+                        <TableCell
+                          key={token.id}
+                          className='text-muted-foreground text-right'
+                        >
+                          -
+                        </TableCell>
+                      );
+                    }
+                    const delay = formatBuyDelay(token, buy);
+                    return (
+                      <TableCell
+                        key={token.id}
+                        className='text-right font-mono text-xs'
+                        title={formatTimestamp(buy.first_buy_timestamp)}
+                      >
+                        <div>
+                          {buy.total_usd != null
+                            ? `$${Math.round(buy.total_usd)}`
+                            : 'N/A'}
+                        </div>
+                        {delay && (
+                          <div className='text-muted-foreground'>{delay}</div>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { TokenDetail, Wallet, parseUtcTimestamp } from '@/lib/api';
+
+export const MIN_COMPARE_TOKENS = 2;
+export const MAX_COMPARE_TOKENS = 6;
+
+/**
+ * A wallet that was an early buyer in more than one compared token
+ */
+export interface SharedWallet {
+  address: string;
+  // Keyed by token id; missing when the wallet didn't buy that token
+  buys: Record<number, Wallet>;
+  tokenCount: number;
+  totalUsd: number;
+}
+
+export interface TokenOverlap {
+  // matrix[i][j] = wallets shared by tokens i and j (diagonal = wallet count)
+  matrix: number[][];
+  sharedWallets: SharedWallet[];
+}
+
+/**
+ * Cross-reference the early buyers of several tokens
+ */
+export function computeTokenOverlap(tokens: TokenDetail[]): TokenOverlap {
+  const addressSets = tokens.map(
+    (token) => new Set(token.wallets.map((wallet) => wallet.wallet_address))
+  );
+
+  const matrix = addressSets.map((a, i) =>
+    addressSets.map((b, j) => {
+      if (i === j) return a.size;
+      let shared = 0;
+      a.forEach((address) => {
+        if (b.has(address)) shared++;
+      });
+      return shared;
+    })
+  );
+
+  const byAddress = new Map<string, SharedWallet>();
+  tokens.forEach((token) => {
+    token.wallets.forEach((wallet) => {
+      const entry = byAddress.get(wallet.wallet_address) ?? {
+        address: wallet.wallet_address,
+        buys: {},
+        tokenCount: 0,
+        totalUsd: 0
+      };
+      // A wallet appears once per token, but guard against duplicate rows
+      if (!entry.buys[token.id]) {
+        entry.buys[token.id] = wallet;
+        entry.tokenCount++;
+        entry.totalUsd += wallet.total_usd ?? 0;
+      }
+      byAddress.set(wallet.wallet_address, entry);
+    });
+  });
+
+  const sharedWallets = Array.from(byAddress.values())
+    .filter((wallet) => wallet.tokenCount > 1)
+    .sort((a, b) => b.tokenCount - a.tokenCount || b.totalUsd - a.totalUsd);
+
+  return { matrix, sharedWallets };
+}
+
+/**
+ * How long after the token's first recorded buy this wallet bought,
+ * e.g. "+45s", "+12m", "+3h" (null when either timestamp is missing)
+ */
+export function formatBuyDelay(
+  token: TokenDetail,
+  wallet: Wallet
+): string | null {
+  if (!token.first_buy_timestamp || !wallet.first_buy_timestamp) return null;
+
+  const seconds = Math.round(
+    (parseUtcTimestamp(wallet.first_buy_timestamp).getTime() -
+      parseUtcTimestamp(token.first_buy_timestamp).getTime()) /
+      1000
+  );
+  const sign = seconds < 0 ? '-' : '+';
+  const abs = Math.abs(seconds);
+
+  if (abs < 60) return `${sign}${abs}s`;
+  if (abs < 3600) return `${sign}${Math.round(abs / 60)}m`;
+  if (abs < 86400) return `${sign}${Math.round(abs / 3600)}h`;
+  return `${sign}${Math.round(abs / 86400)}d`;
+}
+
+/**
+ * Parse `?ids=1,2,3` into unique positive token ids
+ */
+export function parseCompareIds(value: string | null): number[] {
+  if (!value) return [];
+  const ids = value
+    .split(',')
+    .map((part) => parseInt(part, 10))
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Token } from '@/lib/api';
+import { formatMarketCap } from '@/lib/format';
+import { MarketCapSnapshot } from '@/lib/market-cap-history';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { cn } from '@/lib/utils';
+
+const chartConfig = {
+  marketCap: { label: 'Market Cap', color: 'var(--primary)' }
+} satisfies ChartConfig;
+
+type TokenMarketCap = Pick<Token, 'analysis_timestamp' | 'market_cap_usd'>;
+
+interface MarketCapPoint {
+  time: number;
+  marketCap: number;
+}
+
+function formatTime(time: number) {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * The market cap at analysis time followed by every recorded refresh
+ */
+function toPoints(
+  token: TokenMarketCap,
+  snapshots: MarketCapSnapshot[]
+): MarketCapPoint[] {
+  const points = snapshots.map((snapshot) => ({
+    time: new Date(snapshot.recorded_at).getTime(),
+    marketCap: snapshot.market_cap_usd
+  }));
+  if (token.market_cap_usd) {
+    points.unshift({
+      time: new Date(token.analysis_timestamp).getTime(),
+      marketCap: token.market_cap_usd
+    });
+  }
+  return points;
+}
+
+interface MarketCapChartProps {
+  token: TokenMarketCap;
+  snapshots: MarketCapSnapshot[];
+}
+
+/**
+ * Market cap over time, with the market cap at analysis as a baseline
+ */
+export function MarketCapChart({ token, snapshots }: MarketCapChartProps) {
+  const points = toPoints(token, snapshots);
+  const baseline = token.market_cap_usd;
+
+  if (snapshots.length === 0) {
+    return (
+      <div className='text-muted-foreground py-8 text-center text-sm'>
+        No market cap refreshes recorded in this browser yet. Use the refresh
+        button in the tokens table to start tracking.
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className='aspect-auto h-[220px] w-full'
+      data-testid='market-cap-chart'
+    >
+      <LineChart data={points} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey='time'
+          type='number'
+          scale='time'
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatTime}
+          tickLine={false}
+          axisLine={false}
+          minTickGap={32}
+        />
+        <YAxis
+          tickFormatter={formatMarketCap}
+          tickLine={false}
+          axisLine={false}
+          width={64}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                payload[0] ? formatTime(payload[0].payload.time) : ''
+              }
+              formatter={(value) => formatMarketCap(Number(value))}
+            />
+          }
+        />
+        {baseline ? (
+          <ReferenceLine
+            y={baseline}
+            stroke='var(--muted-foreground)'
+            strokeDasharray='4 4'
+            label={{
+              value: 'At analysis',
+              position: 'insideTopLeft',
+              fontSize: 10,
+              fill: 'var(--muted-foreground)'
+            }}
+          />
+        ) : null}
+        <Line
+          dataKey='marketCap'
+          type='monotone'
+          stroke='var(--color-marketCap)'
+          strokeWidth={2}
+          dot={{ r: 2 }}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+interface MarketCapSparklineProps {
+  token: TokenMarketCap;
+  snapshots: MarketCapSnapshot[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Tiny inline trend for table cells - green when above the analysis baseline
+ */
+export function MarketCapSparkline({
+  token,
+  snapshots,
+  width = 80,
+  height = 24
+}: MarketCapSparklineProps) {
+  const points = toPoints(token, snapshots);
+  if (points.length < 2) {
+    return <span className='text-muted-foreground text-xs'>-</span>;
+  }
+
+  const values = points.map((point) => point.marketCap);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const start = points[0].time;
+  const span = points[points.length - 1].time - start || 1;
+  const range = max - min || 1;
+  const coords = points
+    .map((point) => {
+      const x = ((point.time - start) / span) * (width - 2) + 1;
+      const y = height - 1 - ((point.marketCap - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const change = first ? ((last - first) / first) * 100 : 0;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className={cn(
+        last >= first ? 'text-green-600' : 'text-red-600',
+        'overflow-visible'
+      )}
+      data-testid='market-cap-sparkline'
+    >
+      <title>
+        {`${formatMarketCap(first)} → ${formatMarketCap(last)} (${
+          change >= 0 ? '+' : ''
+        }${change.toFixed(1)}%, ${snapshots.length} refresh${
+          snapshots.length !== 1 ? 'es' : ''
+        })`}
+      </title>
+      <polyline
+        points={coords}
+        fill='none'
+        stroke='currentColor'
+        strokeWidth={1.5}
+        strokeLinejoin='round'
+      />
+    </svg>
+  );
+}
@@ -1,27 +1,35 @@
 'use client';
 
 import React, {
+  useCallback,
   useEffect,
   useState,
-  useRef,
   useMemo,
   startTransition
 } from 'react';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import {
   getTokens,
   getMultiTokenWallets,
   TokensResponse,
   MultiTokenWalletsResponse,
   refreshWalletBalances,
-  API_BASE_URL
+  QueueTokenResponse
 } from '@/lib/api';
-import { shouldLog } from '@/lib/debug';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { useTagTaxonomy } from '@/lib/tag-taxonomy';
 import { TokensTable } from './tokens-table';
+import { AnalyzeTokenDialog } from './analyze-token-dialog';
+import { TrackedJobs } from './tracked-jobs';
 import { Button } from '@/components/ui/button';
+import { WalletBalance } from '@/components/wallet-balance';
+import { SmartMoneyScore } from '@/components/smart-money-score';
+import { TagCategoryIcon } from '@/components/tag-category';
 import { toast } from 'sonner';
 import { WalletTagsProvider } from '@/contexts/WalletTagsContext';
-import { useAnalysisNotifications } from '@/hooks/useAnalysisNotifications';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
+import { useSmartMoneyScores } from '@/hooks/use-smart-money-scores';
 import {
   Tooltip,
   TooltipContent,
@@ -51,10 +59,10 @@ const AdditionalTagsPopover = dynamic(
     })),
   { ssr: false }
 );
-const WalletAddressWithBotIndicator = dynamic(
+const WalletAddressWithTagIndicator = dynamic(
   () =>
     import('@/components/additional-tags').then((mod) => ({
-      default: mod.WalletAddressWithBotIndicator
+      default: mod.WalletAddressWithTagIndicator
     })),
   { ssr: false }
 );
@@ -111,6 +119,10 @@ const Info = dynamic(
   () => import('lucide-react').then((mod) => ({ default: mod.Info })),
   { ssr: false }
 );
+const ArrowUpDown = dynamic(
+  () => import('lucide-react').then((mod) => ({ default: mod.ArrowUpDown })),
+  { ssr: false }
+);
 
 // Lazy load framer-motion only when wallet rows are visible
 const MotionTr = dynamic(
@@ -132,6 +144,7 @@ function BulkTagsPopover({
   const [loading, setLoading] = useState(false);
   const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
   const [action, setAction] = useState<'add' | 'remove'>('add');
+  const categories = useTagTaxonomy((state) => state.categories);
 
   const toggleTag = (tag: string) => {
     const newSet = new Set(selectedTags);
@@ -231,18 +244,28 @@ function BulkTagsPopover({
 
       {/* Tag Selection */}
       <div className='space-y-2'>
-        {['Bot', 'Whale', 'Insider'].map((tag) => (
-          <label key={tag} className='flex cursor-pointer items-center gap-2'>
+        {categories.map((category) => (
+          <label
+            key={category.id}
+            className='flex cursor-pointer items-center gap-2'
+            title={category.description}
+          >
             <input
               type='checkbox'
-              checked={selectedTags.has(tag)}
-              onChange={() => toggleTag(tag)}
+              checked={selectedTags.has(category.tag)}
+              onChange={() => toggleTag(category.tag)}
               disabled={loading}
               className='h-4 w-4 rounded border-gray-300'
             />
-            <span className='text-sm'>{tag}</span>
+            <TagCategoryIcon category={category} />
+            <span className='text-sm'>{category.tag}</span>
           </label>
         ))}
+        {categories.length === 0 && (
+          <p className='text-muted-foreground text-xs'>
+            No tag categories defined
+          </p>
+        )}
       </div>
 
       {/* Apply Button */}
@@ -266,14 +289,11 @@ export default function TokensPage() {
     useState<MultiTokenWalletsResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [lastJobId, setLastJobId] = useState<string | null>(null);
-  const [hasActiveJobs, setHasActiveJobs] = useState(false);
-  const [pollsSinceLastActive, setPollsSinceLastActive] = useState(0);
   const [dateRange, setDateRange] = useState<{
     from: Date | undefined;
     to: Date | undefined;
   }>({ from: undefined, to: undefined });
-  const hasInitializedPolling = useRef(false);
+  const [trackedJobs, setTrackedJobs] = useState<QueueTokenResponse[]>([]);
 
   // Multi-token wallet panel state
   const [isWalletPanelExpanded, setIsWalletPanelExpanded] = useState(false);
@@ -281,7 +301,24 @@ export default function TokensPage() {
   const [selectedWallets, setSelectedWallets] = useState<Set<string>>(
     new Set()
   );
+  const [sortWalletsByScore, setSortWalletsByScore] = useState(false);
   const walletsPerPage = 5;
+  // Scores need every token's details, so wait until the column is seen
+  const [scoreColumnSeen, setScoreColumnSeen] = useState(false);
+  const walletScores = useSmartMoneyScores(
+    scoreColumnSeen || sortWalletsByScore
+  );
+  const scoreColumnRef = useCallback((node: HTMLElement | null) => {
+    if (!node) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setScoreColumnSeen(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
 
   // Use API settings from context
 
@@ -296,19 +333,26 @@ export default function TokensPage() {
         })
         .catch(() => {
           setError(
-            'Failed to load data. Make sure the FastAPI backend is running on localhost:5003'
+            `Failed to load data. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
           );
         })
         .finally(() => setLoading(false));
     });
   };
 
-  // WebSocket notifications for real-time analysis updates
-  useAnalysisNotifications(() => {
-    if (shouldLog()) {
-    }
-    // Refresh the tokens list when analysis completes
-    fetchData();
+  // Refresh without the full-page loading state (keeps scroll/selection)
+  const refreshData = () => {
+    Promise.all([getTokens(), getMultiTokenWallets(2)])
+      .then(([tokensData, walletsData]) => {
+        setData(tokensData);
+        setMultiWallets(walletsData);
+      })
+      .catch(() => {});
+  };
+
+  // Realtime store handles the toasts; just pick up the new token
+  useRealtimeEvents((event) => {
+    if (event.event === 'analysis_complete') refreshData();
   });
 
   const handleTokenDelete = (tokenId: number) => {
@@ -332,137 +376,6 @@ export default function TokensPage() {
     }
   }, []);
 
-  // Poll for active analysis jobs and auto-refresh when they complete
-  useEffect(() => {
-    // Guard against React Strict Mode double-mounting
-    if (hasInitializedPolling.current) return;
-    hasInitializedPolling.current = true;
-
-    const isFirstPollRef = { current: true };
-
-    // Initialize lastJobId on mount to prevent showing old notifications
-    const initializeLastJobId = async () => {
-      try {
-        const response = await fetch(`${API_BASE_URL}/analysis`);
-        const analysisData = await response.json();
-
-        if (analysisData.jobs && analysisData.jobs.length > 0) {
-          const latestJob = analysisData.jobs[0];
-          if (latestJob.status === 'completed') {
-            setLastJobId(latestJob.job_id);
-          }
-
-          // Check if there are any active jobs
-          const activeJobs = analysisData.jobs.some(
-            (job: any) => job.status === 'queued' || job.status === 'processing'
-          );
-          setHasActiveJobs(activeJobs);
-        }
-      } catch (err) {}
-    };
-
-    initializeLastJobId();
-
-    const pollInterval = setInterval(async () => {
-      // Skip the first poll since we already initialized
-      if (isFirstPollRef.current) {
-        isFirstPollRef.current = false;
-        return;
-      }
-
-      // OPTIMIZATION: Only poll if there are active jobs or if we haven't checked recently
-      // Check every 10th poll even when no active jobs (to catch new analyses started from AHK)
-      if (!hasActiveJobs && pollsSinceLastActive < 10) {
-        setPollsSinceLastActive((prev) => prev + 1);
-        return;
-      }
-
-      // Reset counter when we do poll
-      setPollsSinceLastActive(0);
-
-      try {
-        const response = await fetch(`${API_BASE_URL}/analysis`);
-        const analysisData = await response.json();
-
-        if (analysisData.jobs && analysisData.jobs.length > 0) {
-          const latestJob = analysisData.jobs[0];
-
-          // Update hasActiveJobs state
-          const activeJobs = analysisData.jobs.some(
-            (job: any) => job.status === 'queued' || job.status === 'processing'
-          );
-          setHasActiveJobs(activeJobs);
-
-          // Check if there's a new completed job we haven't seen yet
-          if (
-            latestJob.status === 'completed' &&
-            latestJob.job_id !== lastJobId
-          ) {
-            setLastJobId(latestJob.job_id);
-            // Refresh the tokens list without showing loading state
-            Promise.all([getTokens(), getMultiTokenWallets(2)])
-              .then(([tokensData, walletsData]) => {
-                setData(tokensData);
-                setMultiWallets(walletsData);
-
-                const tokenName = latestJob.token_name || 'Token';
-                toast.success(`Analysis complete: ${tokenName}`);
-
-                // Show desktop notification if permission granted
-                if (
-                  'Notification' in window &&
-                  Notification.permission === 'granted'
-                ) {
-                  const notification = new Notification('Analysis Complete ✓', {
-                    body: `${tokenName} analysis finished\nClick to view results`,
-                    icon: '/favicon.ico',
-                    tag: 'analysis-complete',
-                    requireInteraction: false,
-                    silent: true // No sound
-                  });
-
-                  // Auto-close notification after 0.75 seconds
-                  setTimeout(() => notification.close(), 750);
-
-                  // Focus window when notification is clicked
-                  notification.onclick = () => {
-                    window.focus();
-                    notification.close();
-                  };
-                }
-              })
-              .catch(() => {});
-          }
-        } else {
-          // No jobs at all, stop polling
-          setHasActiveJobs(false);
-        }
-      } catch (err) {
-        // Silently fail - don't spam errors if backend is temporarily unavailable
-      }
-    }, 3000); // Poll every 3 seconds
-
-    return () => clearInterval(pollInterval);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [lastJobId, hasActiveJobs]);
-
-  // Pause polling when page is hidden (tab switched or minimized)
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.hidden) {
-      } else {
-        // Check for new jobs immediately when tab becomes visible
-        if (hasActiveJobs) {
-          fetchData();
-        }
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    return () =>
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [hasActiveJobs]);
-
   // Collect all unique wallet addresses for batch tag fetching
   // MUST be before early returns to comply with Rules of Hooks
   const allWalletAddresses = useMemo(() => {
@@ -544,24 +457,61 @@ export default function TokensPage() {
     await handleRefreshBalances(allVisibleAddresses);
   };
 
-  // Pagination logic for multi-token wallets
-  const walletsToDisplay = useMemo(() => {
+  // Backend order (most tokens first) unless sorted by smart money score
+  const sortedWallets = useMemo(() => {
     if (!multiWallets?.wallets) return [];
+    if (!sortWalletsByScore || !walletScores) return multiWallets.wallets;
+    return [...multiWallets.wallets].sort(
+      (a, b) =>
+        (walletScores[b.wallet_address]?.score ?? -1) -
+        (walletScores[a.wallet_address]?.score ?? -1)
+    );
+  }, [multiWallets, sortWalletsByScore, walletScores]);
 
+  // Pagination logic for multi-token wallets
+  const walletsToDisplay = useMemo(() => {
     if (isWalletPanelExpanded) {
-      return multiWallets.wallets;
+      return sortedWallets;
     }
 
     const start = walletPage * walletsPerPage;
     const end = start + walletsPerPage;
-    return multiWallets.wallets.slice(start, end);
-  }, [multiWallets, isWalletPanelExpanded, walletPage]);
+    return sortedWallets.slice(start, end);
+  }, [sortedWallets, isWalletPanelExpanded, walletPage]);
 
   const totalWalletPages = useMemo(() => {
     if (!multiWallets?.wallets) return 0;
     return Math.ceil(multiWallets.wallets.length / walletsPerPage);
   }, [multiWallets]);
 
+  // Filter tokens by date range - memoized so the table only re-queries when
+  // the tokens or the range change
+  const filteredTokens = useMemo(() => {
+    const tokens = data?.tokens ?? [];
+    // If no dates selected, show all tokens
+    if (!dateRange.from && !dateRange.to) return tokens;
+
+    return tokens.filter((token) => {
+      const tokenDate = new Date(
+        token.analysis_timestamp.replace(' ', 'T') + 'Z'
+      );
+
+      if (dateRange.from && dateRange.to) {
+        const endOfDay = new Date(dateRange.to);
+        endOfDay.setHours(23, 59, 59, 999);
+        return tokenDate >= dateRange.from && tokenDate <= endOfDay;
+      } else if (dateRange.from) {
+        return tokenDate >= dateRange.from;
+      } else if (dateRange.to) {
+        const endOfDay = new Date(dateRange.to);
+        endOfDay.setHours(23, 59, 59, 999);
+        return tokenDate <= endOfDay;
+      }
+
+      return false;
+    });
+  }, [data, dateRange]);
+
   if (loading) {
     return (
       <WalletTagsProvider walletAddresses={allWalletAddresses}>
@@ -592,30 +542,6 @@ export default function TokensPage() {
     );
   }
 
-  // Filter tokens by date range
-  const filteredTokens = data.tokens.filter((token) => {
-    // If no dates selected, show all tokens
-    if (!dateRange.from && !dateRange.to) return true;
-
-    const tokenDate = new Date(
-      token.analysis_timestamp.replace(' ', 'T') + 'Z'
-    );
-
-    if (dateRange.from && dateRange.to) {
-      const endOfDay = new Date(dateRange.to);
-      endOfDay.setHours(23, 59, 59, 999);
-      return tokenDate >= dateRange.from && tokenDate <= endOfDay;
-    } else if (dateRange.from) {
-      return tokenDate >= dateRange.from;
-    } else if (dateRange.to) {
-      const endOfDay = new Date(dateRange.to);
-      endOfDay.setHours(23, 59, 59, 999);
-      return tokenDate <= endOfDay;
-    }
-
-    return false;
-  });
-
   return (
     <WalletTagsProvider walletAddresses={allWalletAddresses}>
       <div className='flex h-full flex-col space-y-4'>
@@ -628,49 +554,64 @@ export default function TokensPage() {
               View and manage your analyzed Solana tokens
             </p>
           </div>
-          <Button
-            variant='outline'
-            size='sm'
-            onClick={() => {
-              if (!('Notification' in window)) {
-                toast.error('Notifications not supported in this browser');
-                return;
-              }
-
-              if (Notification.permission !== 'granted') {
-                toast.error(
-                  `Permission: ${Notification.permission}. Please allow notifications.`
-                );
-                return;
-              }
-
-              try {
-                const testNotif = new Notification('Test Notification', {
-                  body: 'This is a test notification. Tab out to test!',
-                  icon: '/favicon.ico',
-                  tag: 'test-notif',
-                  requireInteraction: false,
-                  silent: false
-                });
-
-                testNotif.onshow = () =>
-                  (testNotif.onclick = () => {
-                    window.focus();
+          <div className='flex items-center gap-2'>
+            <AnalyzeTokenDialog
+              onQueued={(job) => setTrackedJobs((prev) => [job, ...prev])}
+            />
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => {
+                if (!('Notification' in window)) {
+                  toast.error('Notifications not supported in this browser');
+                  return;
+                }
+
+                if (Notification.permission !== 'granted') {
+                  toast.error(
+                    `Permission: ${Notification.permission}. Please allow notifications.`
+                  );
+                  return;
+                }
+
+                try {
+                  const testNotif = new Notification('Test Notification', {
+                    body: 'This is a test notification. Tab out to test!',
+                    icon: '/favicon.ico',
+                    tag: 'test-notif',
+                    requireInteraction: false,
+                    silent: false
                   });
-                testNotif.onerror = () =>
-                  setTimeout(() => testNotif.close(), 5000);
-                toast.success(
-                  'Test notification created! Check if it appears.'
-                );
-              } catch (error: any) {
-                toast.error(`Failed: ${error.message || 'Unknown error'}`);
-              }
-            }}
-          >
-            Test Notification
-          </Button>
+
+                  testNotif.onshow = () =>
+                    (testNotif.onclick = () => {
+                      window.focus();
+                    });
+                  testNotif.onerror = () =>
+                    setTimeout(() => testNotif.close(), 5000);
+                  toast.success(
+                    'Test notification created! Check if it appears.'
+                  );
+                } catch (error: any) {
+                  toast.error(`Failed: ${error.message || 'Unknown error'}`);
+                }
+              }}
+            >
+              Test Notification
+            </Button>
+          </div>
         </div>
 
+        <TrackedJobs
+          jobs={trackedJobs}
+          onDismiss={(jobId) =>
+            setTrackedJobs((prev) => prev.filter((job) => job.job_id !== jobId))
+          }
+          onJobFinished={(job) => {
+            if (job.status === 'completed') refreshData();
+          }}
+        />
+
         {/* Stats Cards */}
         <div className='grid gap-4 md:grid-cols-3'>
           <div className='bg-card rounded-lg border p-6'>
@@ -748,7 +689,15 @@ export default function TokensPage() {
         {/* Multi-Token Wallets Section */}
         {multiWallets && multiWallets.total > 0 && (
           <div className='bg-card rounded-lg border p-6'>
-            <h2 className='mb-2 text-xl font-bold'>Multi-Token Wallets</h2>
+            <div className='mb-2 flex items-center justify-between gap-4'>
+              <h2 className='text-xl font-bold'>Multi-Token Wallets</h2>
+              <Link
+                href='/dashboard/network'
+                className='text-primary text-sm hover:underline'
+              >
+                View as graph
+              </Link>
+            </div>
             <p className='text-muted-foreground mb-4 text-sm'>
               Wallets that appear in multiple analyzed tokens (potential
               whale/insider wallets)
@@ -872,6 +821,24 @@ export default function TokensPage() {
                     <th className='px-4 pb-3 text-center font-medium'>
                       Tokens
                     </th>
+                    <th
+                      ref={scoreColumnRef}
+                      className='px-4 pb-3 text-center font-medium'
+                    >
+                      <Button
+                        variant='ghost'
+                        size='sm'
+                        className={`h-7 gap-1 px-2 font-medium ${sortWalletsByScore ? 'text-primary' : ''}`}
+                        onClick={() => {
+                          setSortWalletsByScore((prev) => !prev);
+                          setWalletPage(0);
+                        }}
+                        title='Sort by smart money score'
+                      >
+                        Score
+                        <ArrowUpDown className='h-3 w-3' />
+                      </Button>
+                    </th>
                     <th className='pb-3 pl-4 text-left font-medium'>
                       Token Names
                     </th>
@@ -922,18 +889,16 @@ export default function TokensPage() {
                       >
                         <td className='py-3 pr-4'>
                           <div className='flex items-center gap-2'>
-                            <WalletAddressWithBotIndicator
+                            <WalletAddressWithTagIndicator
                               walletAddress={wallet.wallet_address}
                             >
-                              <a
-                                href={`https://solscan.io/account/${wallet.wallet_address}`}
-                                target='_blank'
-                                rel='noopener noreferrer'
+                              <Link
+                                href={`/dashboard/wallets/${wallet.wallet_address}`}
                                 className='text-primary font-sans text-xs hover:underline'
                               >
                                 {wallet.wallet_address}
-                              </a>
-                            </WalletAddressWithBotIndicator>
+                              </Link>
+                            </WalletAddressWithTagIndicator>
                             <Button
                               variant='ghost'
                               size='sm'
@@ -950,10 +915,10 @@ export default function TokensPage() {
                           </div>
                         </td>
                         <td className='px-4 py-3 text-right font-mono text-sm'>
-                          {wallet.wallet_balance_usd !== null &&
-                          wallet.wallet_balance_usd !== undefined
-                            ? `$${Math.round(wallet.wallet_balance_usd)}`
-                            : 'N/A'}
+                          <WalletBalance
+                            walletAddress={wallet.wallet_address}
+                            balanceUsd={wallet.wallet_balance_usd}
+                          />
                         </td>
                         <td className='px-4 py-3 text-center'>
                           <Button
@@ -983,6 +948,15 @@ export default function TokensPage() {
                             {wallet.token_count}
                           </span>
                         </td>
+                        <td className='px-4 py-3 text-center'>
+                          <SmartMoneyScore
+                            score={
+                              walletScores
+                                ? (walletScores[wallet.wallet_address] ?? null)
+                                : undefined
+                            }
+                          />
+                        </td>
                         <td className='py-3 pl-4'>
                           <div className='flex flex-wrap gap-2'>
                             {wallet.token_names.map((name, idx) => (
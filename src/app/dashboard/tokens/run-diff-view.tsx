@@ -0,0 +1,242 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { AnalysisRun, formatTimestamp } from '@/lib/api';
+import { formatUsd } from '@/lib/format';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { WalletChange, diffRuns } from './run-diff';
+
+const CHANGE_STYLES: Record<WalletChange, { label: string; row: string }> = {
+  added: {
+    label: 'Added',
+    row: 'bg-green-500/10 text-green-700 dark:text-green-400'
+  },
+  removed: {
+    label: 'Dropped',
+    row: 'bg-red-500/10 text-red-700 dark:text-red-400'
+  },
+  changed: {
+    label: 'Changed',
+    row: 'bg-amber-500/10 text-amber-700 dark:text-amber-400'
+  },
+  unchanged: { label: 'Same', row: 'text-muted-foreground' }
+};
+
+function formatDelta(value: number | null, prefix = '') {
+  if (value === null || value === 0) return '';
+  const sign = value > 0 ? '+' : '-';
+  return `${sign}${prefix}${Math.abs(Math.round(value))}`;
+}
+
+interface RunDiffViewProps {
+  // Latest first, as returned by the history endpoint
+  runs: AnalysisRun[];
+}
+
+/**
+ * Side-by-side diff of the wallets found by two analysis runs
+ */
+export function RunDiffView({ runs }: RunDiffViewProps) {
+  const runNumber = (run: AnalysisRun) => runs.length - runs.indexOf(run);
+  // Default to the two most recent runs
+  const [baseId, setBaseId] = useState(String(runs[1]?.id ?? runs[0].id));
+  const [compareId, setCompareId] = useState(String(runs[0].id));
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const picked = [
+    runs.find((run) => String(run.id) === baseId) ?? runs[1],
+    runs.find((run) => String(run.id) === compareId) ?? runs[0]
+  ];
+  // The diff reads from the older run to the newer one, whichever way round
+  // they were picked
+  const [base, compare] = picked.sort((a, b) =>
+    a.analysis_timestamp.localeCompare(b.analysis_timestamp)
+  );
+  const diff = useMemo(() => diffRuns(base, compare), [base, compare]);
+
+  const rows = showUnchanged
+    ? diff.wallets
+    : diff.wallets.filter((wallet) => wallet.change !== 'unchanged');
+
+  const runSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className='h-8 w-64 text-xs'>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {runs.map((run) => (
+          <SelectItem key={run.id} value={String(run.id)} className='text-xs'>
+            Analysis #{runNumber(run)} ·{' '}
+            {formatTimestamp(run.analysis_timestamp)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className='space-y-4' data-testid='run-diff'>
+      <div className='flex flex-wrap items-center gap-2 text-sm'>
+        {runSelect(baseId, setBaseId)}
+        <span className='text-muted-foreground'>→</span>
+        {runSelect(compareId, setCompareId)}
+      </div>
+
+      {/* Summary */}
+      <div className='grid grid-cols-2 gap-3 md:grid-cols-5'>
+        <div className='rounded-lg border p-3'>
+          <div className='text-muted-foreground text-xs'>Added</div>
+          <div className='text-xl font-bold text-green-600'>{diff.added}</div>
+        </div>
+        <div className='rounded-lg border p-3'>
+          <div className='text-muted-foreground text-xs'>Dropped</div>
+          <div className='text-xl font-bold text-red-600'>{diff.removed}</div>
+        </div>
+        <div className='rounded-lg border p-3'>
+          <div className='text-muted-foreground text-xs'>Changed</div>
+          <div className='text-xl font-bold text-amber-600'>{diff.changed}</div>
+        </div>
+        <div className='rounded-lg border p-3'>
+          <div className='text-muted-foreground text-xs'>Wallets</div>
+          <div className='text-xl font-bold'>
+            {base.wallets_found} → {compare.wallets_found}
+          </div>
+        </div>
+        <div className='rounded-lg border p-3'>
+          <div className='text-muted-foreground text-xs'>Credits</div>
+          <div
+            className={cn(
+              'text-xl font-bold',
+              diff.creditDelta > 0 && 'text-red-600',
+              diff.creditDelta < 0 && 'text-green-600'
+            )}
+          >
+            {diff.creditDelta === 0 ? '±0' : formatDelta(diff.creditDelta)}
+          </div>
+          <div className='text-muted-foreground text-xs'>
+            {base.credits_used} → {compare.credits_used}
+          </div>
+        </div>
+      </div>
+
+      <div className='flex items-center gap-2'>
+        <Checkbox
+          id='run-diff-unchanged'
+          checked={showUnchanged}
+          onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+        />
+        <Label htmlFor='run-diff-unchanged' className='text-xs'>
+          Show unchanged wallets ({diff.unchanged})
+        </Label>
+      </div>
+
+      {base.id === compare.id ? (
+        <div className='text-muted-foreground py-8 text-center text-sm'>
+          Pick two different runs to compare
+        </div>
+      ) : (
+        <div className='rounded-md border'>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className='w-[90px]'>Change</TableHead>
+                <TableHead>Wallet Address</TableHead>
+                <TableHead className='text-right'>Amount (USD)</TableHead>
+                <TableHead className='text-center'>Txns</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={4}
+                    className='text-muted-foreground py-8 text-center text-sm'
+                  >
+                    No differences between these runs
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((wallet) => {
+                  const style = CHANGE_STYLES[wallet.change];
+                  return (
+                    <TableRow
+                      key={wallet.address}
+                      className={style.row}
+                      data-testid='run-diff-row'
+                    >
+                      <TableCell>
+                        <Badge variant='outline' className='text-xs'>
+                          {style.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className='font-mono text-xs'>
+                        <Link
+                          href={`/dashboard/wallets/${wallet.address}`}
+                          className='hover:underline'
+                        >
+                          {wallet.address}
+                        </Link>
+                      </TableCell>
+                      <TableCell className='text-right font-mono text-xs'>
+                        {wallet.change === 'changed' ||
+                        wallet.change === 'unchanged' ? (
+                          <>
+                            {formatUsd(wallet.before?.total_usd)} →{' '}
+                            {formatUsd(wallet.after?.total_usd)}
+                            {formatDelta(wallet.totalUsdDelta, '$') && (
+                              <span className='ml-1 font-semibold'>
+                                ({formatDelta(wallet.totalUsdDelta, '$')})
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          formatUsd((wallet.after ?? wallet.before)?.total_usd)
+                        )}
+                      </TableCell>
+                      <TableCell className='text-center font-mono text-xs'>
+                        {wallet.change === 'changed' ||
+                        wallet.change === 'unchanged' ? (
+                          <>
+                            {wallet.before?.transaction_count ?? 0} →{' '}
+                            {wallet.after?.transaction_count ?? 0}
+                            {formatDelta(wallet.transactionDelta) && (
+                              <span className='ml-1 font-semibold'>
+                                ({formatDelta(wallet.transactionDelta)})
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          ((wallet.after ?? wallet.before)?.transaction_count ??
+                          'N/A')
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { AnalysisRun, Wallet } from '@/lib/api';
+
+export type WalletChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface WalletDiff {
+  address: string;
+  change: WalletChange;
+  before: Wallet | null;
+  after: Wallet | null;
+  // Null when the wallet is only in one of the runs
+  totalUsdDelta: number | null;
+  transactionDelta: number | null;
+}
+
+export interface RunDiff {
+  wallets: WalletDiff[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  creditDelta: number;
+  walletCountDelta: number;
+}
+
+// Sub-cent differences are float noise from the backend, not real changes
+const USD_EPSILON = 0.01;
+
+const CHANGE_ORDER: Record<WalletChange, number> = {
+  added: 0,
+  removed: 1,
+  changed: 2,
+  unchanged: 3
+};
+
+/**
+ * Compare the wallets found by two analysis runs of the same token
+ *
+ * `base` is the earlier run and `compare` the later one, so "added" means
+ * new in `compare`.
+ */
+export function diffRuns(base: AnalysisRun, compare: AnalysisRun): RunDiff {
+  const before = new Map(base.wallets.map((w) => [w.wallet_address, w]));
+  const after = new Map(compare.wallets.map((w) => [w.wallet_address, w]));
+  const addresses = new Set([
+    ...Array.from(before.keys()),
+    ...Array.from(after.keys())
+  ]);
+
+  const wallets: WalletDiff[] = Array.from(addresses).map((address) => {
+    const prev = before.get(address) ?? null;
+    const next = after.get(address) ?? null;
+
+    if (!prev || !next) {
+      return {
+        address,
+        change: prev ? 'removed' : 'added',
+        before: prev,
+        after: next,
+        totalUsdDelta: null,
+        transactionDelta: null
+      };
+    }
+
+    const totalUsdDelta = (next.total_usd ?? 0) - (prev.total_usd ?? 0);
+    const transactionDelta =
+      (next.transaction_count ?? 0) - (prev.transaction_count ?? 0);
+    const changed =
+      Math.abs(totalUsdDelta) >= USD_EPSILON || transactionDelta !== 0;
+
+    return {
+      address,
+      change: changed ? 'changed' : 'unchanged',
+      before: prev,
+      after: next,
+      totalUsdDelta,
+      transactionDelta
+    };
+  });
+
+  wallets.sort(
+    (a, b) =>
+      CHANGE_ORDER[a.change] - CHANGE_ORDER[b.change] ||
+      Math.abs(b.totalUsdDelta ?? 0) - Math.abs(a.totalUsdDelta ?? 0)
+  );
+
+  const count = (change: WalletChange) =>
+    wallets.filter((wallet) => wallet.change === change).length;
+
+  return {
+    wallets,
+    added: count('added'),
+    removed: count('removed'),
+    changed: count('changed'),
+    unchanged: count('unchanged'),
+    creditDelta: compare.credits_used - base.credits_used,
+    walletCountDelta: compare.wallets_found - base.wallets_found
+  };
+}
@@ -9,8 +9,15 @@ import {
 } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Download, ExternalLink, Copy, History } from 'lucide-react';
+import {
+  Download,
+  ExternalLink,
+  Copy,
+  GitCompareArrows,
+  History
+} from 'lucide-react';
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import {
   Table,
   TableBody,
@@ -27,10 +34,15 @@ import {
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { WalletTags } from '@/components/wallet-tags';
+import { WalletBalance } from '@/components/wallet-balance';
 import {
   AdditionalTagsPopover,
-  WalletAddressWithBotIndicator
+  WalletAddressWithTagIndicator
 } from '@/components/additional-tags';
+import { WebhookMonitorButton } from './webhook-monitor-button';
+import { RunDiffView } from './run-diff-view';
+import { MarketCapChart } from './market-cap-chart';
+import { useMarketCapHistory } from '@/hooks/use-market-cap-history';
 
 interface TokenDetailsModalProps {
   token: TokenDetail | null;
@@ -46,6 +58,8 @@ export function TokenDetailsModal({
   const [copied, setCopied] = useState(false);
   const [history, setHistory] = useState<AnalysisHistory | null>(null);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [historyMode, setHistoryMode] = useState<'runs' | 'diff'>('runs');
+  const marketCapHistory = useMarketCapHistory(token?.id ?? 0);
 
   // Fetch analysis history when modal opens
   useEffect(() => {
@@ -81,14 +95,17 @@ export function TokenDetailsModal({
                 {token.token_symbol || '-'} • Early Buyer Analysis
               </p>
             </div>
-            <Button
-              variant='outline'
-              size='sm'
-              onClick={() => downloadAxiomJson(token)}
-            >
-              <Download className='mr-2 h-4 w-4' />
-              Axiom JSON
-            </Button>
+            <div className='flex items-center gap-2'>
+              <WebhookMonitorButton token={token} />
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => downloadAxiomJson(token)}
+              >
+                <Download className='mr-2 h-4 w-4' />
+                Axiom JSON
+              </Button>
+            </div>
           </div>
         </DialogHeader>
 
@@ -146,6 +163,14 @@ export function TokenDetailsModal({
           </div>
         </div>
 
+        {/* Market Cap History */}
+        <div className='mt-4 rounded-lg border p-4'>
+          <div className='text-muted-foreground mb-2 text-sm font-medium'>
+            Market Cap History
+          </div>
+          <MarketCapChart token={token} snapshots={marketCapHistory} />
+        </div>
+
         {/* Tabs for Current Analysis and History */}
         <Tabs defaultValue='current' className='mt-6'>
           <TabsList className='grid w-full grid-cols-2'>
@@ -189,17 +214,22 @@ export function TokenDetailsModal({
                           #{index + 1}
                         </TableCell>
                         <TableCell className='font-mono text-sm'>
-                          <WalletAddressWithBotIndicator
+                          <WalletAddressWithTagIndicator
                             walletAddress={wallet.wallet_address}
                           >
-                            {wallet.wallet_address}
-                          </WalletAddressWithBotIndicator>
+                            <Link
+                              href={`/dashboard/wallets/${wallet.wallet_address}`}
+                              className='hover:underline'
+                            >
+                              {wallet.wallet_address}
+                            </Link>
+                          </WalletAddressWithTagIndicator>
                         </TableCell>
                         <TableCell className='text-right font-mono text-sm'>
-                          {wallet.wallet_balance_usd !== null &&
-                          wallet.wallet_balance_usd !== undefined
-                            ? `$${Math.round(wallet.wallet_balance_usd)}`
-                            : 'N/A'}
+                          <WalletBalance
+                            walletAddress={wallet.wallet_address}
+                            balanceUsd={wallet.wallet_balance_usd}
+                          />
                         </TableCell>
                         <TableCell className='text-right'>
                           <div className='flex justify-end gap-2'>
@@ -262,152 +292,180 @@ export function TokenDetailsModal({
               </div>
             ) : (
               <div className='mt-4 space-y-6'>
-                {history.runs.map((run, runIndex) => {
-                  // Calculate cumulative wallet offset based on previous runs
-                  const walletOffset = history.runs
-                    .slice(runIndex + 1)
-                    .reduce((sum, prevRun) => sum + prevRun.wallets_found, 0);
-                  const startWallet = walletOffset + 1;
-                  const endWallet = walletOffset + run.wallets_found;
-                  const analysisNumber = history.runs.length - runIndex;
+                {history.runs.length > 1 && (
+                  <div className='flex gap-2'>
+                    <Button
+                      variant={historyMode === 'runs' ? 'default' : 'outline'}
+                      size='sm'
+                      onClick={() => setHistoryMode('runs')}
+                    >
+                      All Runs
+                    </Button>
+                    <Button
+                      variant={historyMode === 'diff' ? 'default' : 'outline'}
+                      size='sm'
+                      onClick={() => setHistoryMode('diff')}
+                    >
+                      <GitCompareArrows className='mr-2 h-4 w-4' />
+                      Compare Runs
+                    </Button>
+                  </div>
+                )}
+                {historyMode === 'diff' && history.runs.length > 1 ? (
+                  <RunDiffView runs={history.runs} />
+                ) : (
+                  history.runs.map((run, runIndex) => {
+                    // Calculate cumulative wallet offset based on previous runs
+                    const walletOffset = history.runs
+                      .slice(runIndex + 1)
+                      .reduce((sum, prevRun) => sum + prevRun.wallets_found, 0);
+                    const startWallet = walletOffset + 1;
+                    const endWallet = walletOffset + run.wallets_found;
+                    const analysisNumber = history.runs.length - runIndex;
 
-                  return (
-                    <div key={run.id} className='rounded-lg border p-4'>
-                      <div className='mb-3 flex items-center justify-between'>
-                        <div>
-                          <h4 className='text-sm font-semibold'>
-                            Analysis #{analysisNumber} (Wallets {startWallet}-
-                            {endWallet})
-                            {runIndex === 0 && (
-                              <Badge variant='secondary' className='ml-2'>
-                                Latest
-                              </Badge>
-                            )}
-                          </h4>
-                          <p className='text-muted-foreground text-xs'>
-                            {formatTimestamp(run.analysis_timestamp)}
-                          </p>
-                        </div>
-                        <div className='text-right text-sm'>
-                          <div className='font-semibold'>
-                            {run.wallets_found} wallets
+                    return (
+                      <div key={run.id} className='rounded-lg border p-4'>
+                        <div className='mb-3 flex items-center justify-between'>
+                          <div>
+                            <h4 className='text-sm font-semibold'>
+                              Analysis #{analysisNumber} (Wallets {startWallet}-
+                              {endWallet})
+                              {runIndex === 0 && (
+                                <Badge variant='secondary' className='ml-2'>
+                                  Latest
+                                </Badge>
+                              )}
+                            </h4>
+                            <p className='text-muted-foreground text-xs'>
+                              {formatTimestamp(run.analysis_timestamp)}
+                            </p>
                           </div>
-                          <div className='text-muted-foreground text-xs'>
-                            {run.credits_used} credits
+                          <div className='text-right text-sm'>
+                            <div className='font-semibold'>
+                              {run.wallets_found} wallets
+                            </div>
+                            <div className='text-muted-foreground text-xs'>
+                              {run.credits_used} credits
+                            </div>
                           </div>
                         </div>
-                      </div>
 
-                      <div className='rounded-md border'>
-                        <Table>
-                          <TableHeader>
-                            <TableRow>
-                              <TableHead className='w-[60px]'>Rank</TableHead>
-                              <TableHead>Wallet Address</TableHead>
-                              <TableHead className='text-right'>
-                                Balance (USD)
-                              </TableHead>
-                              <TableHead className='text-right'>
-                                Actions
-                              </TableHead>
-                              <TableHead>First Buy Time</TableHead>
-                              <TableHead className='text-right'>
-                                Amount (USD)
-                              </TableHead>
-                              <TableHead className='text-center'>
-                                Txns
-                              </TableHead>
-                              <TableHead className='text-right'>
-                                Avg Buy
-                              </TableHead>
-                            </TableRow>
-                          </TableHeader>
-                          <TableBody>
-                            {run.wallets.length === 0 ? (
+                        <div className='rounded-md border'>
+                          <Table>
+                            <TableHeader>
                               <TableRow>
-                                <TableCell
-                                  colSpan={8}
-                                  className='text-muted-foreground py-8 text-center text-sm'
-                                >
-                                  No wallets in this run
-                                </TableCell>
+                                <TableHead className='w-[60px]'>Rank</TableHead>
+                                <TableHead>Wallet Address</TableHead>
+                                <TableHead className='text-right'>
+                                  Balance (USD)
+                                </TableHead>
+                                <TableHead className='text-right'>
+                                  Actions
+                                </TableHead>
+                                <TableHead>First Buy Time</TableHead>
+                                <TableHead className='text-right'>
+                                  Amount (USD)
+                                </TableHead>
+                                <TableHead className='text-center'>
+                                  Txns
+                                </TableHead>
+                                <TableHead className='text-right'>
+                                  Avg Buy
+                                </TableHead>
                               </TableRow>
-                            ) : (
-                              run.wallets.map((wallet, index) => (
-                                <TableRow key={wallet.id}>
-                                  <TableCell className='text-primary text-sm font-semibold'>
-                                    #{walletOffset + index + 1}
-                                  </TableCell>
-                                  <TableCell className='font-mono text-xs'>
-                                    <WalletAddressWithBotIndicator
-                                      walletAddress={wallet.wallet_address}
-                                    >
-                                      {wallet.wallet_address}
-                                    </WalletAddressWithBotIndicator>
+                            </TableHeader>
+                            <TableBody>
+                              {run.wallets.length === 0 ? (
+                                <TableRow>
+                                  <TableCell
+                                    colSpan={8}
+                                    className='text-muted-foreground py-8 text-center text-sm'
+                                  >
+                                    No wallets in this run
                                   </TableCell>
-                                  <TableCell className='text-right font-mono text-xs'>
-                                    {wallet.wallet_balance_usd !== null &&
-                                    wallet.wallet_balance_usd !== undefined
-                                      ? `$${Math.round(wallet.wallet_balance_usd)}`
-                                      : 'N/A'}
-                                  </TableCell>
-                                  <TableCell className='text-right'>
-                                    <div className='flex justify-end gap-1'>
-                                      <WalletTags
+                                </TableRow>
+                              ) : (
+                                run.wallets.map((wallet, index) => (
+                                  <TableRow key={wallet.id}>
+                                    <TableCell className='text-primary text-sm font-semibold'>
+                                      #{walletOffset + index + 1}
+                                    </TableCell>
+                                    <TableCell className='font-mono text-xs'>
+                                      <WalletAddressWithTagIndicator
                                         walletAddress={wallet.wallet_address}
-                                      />
-                                      <AdditionalTagsPopover
-                                        walletId={wallet.id}
+                                      >
+                                        <Link
+                                          href={`/dashboard/wallets/${wallet.wallet_address}`}
+                                          className='hover:underline'
+                                        >
+                                          {wallet.wallet_address}
+                                        </Link>
+                                      </WalletAddressWithTagIndicator>
+                                    </TableCell>
+                                    <TableCell className='text-right font-mono text-xs'>
+                                      <WalletBalance
                                         walletAddress={wallet.wallet_address}
-                                        compact
+                                        balanceUsd={wallet.wallet_balance_usd}
                                       />
-                                      <Button
-                                        variant='ghost'
-                                        size='sm'
-                                        onClick={() =>
-                                          copyAddress(wallet.wallet_address)
-                                        }
-                                      >
-                                        <Copy className='h-3 w-3' />
-                                      </Button>
-                                      <a
-                                        href={`https://solscan.io/account/${wallet.wallet_address}`}
-                                        target='_blank'
-                                        rel='noopener noreferrer'
-                                      >
-                                        <Button variant='outline' size='sm'>
-                                          <ExternalLink className='h-3 w-3' />
+                                    </TableCell>
+                                    <TableCell className='text-right'>
+                                      <div className='flex justify-end gap-1'>
+                                        <WalletTags
+                                          walletAddress={wallet.wallet_address}
+                                        />
+                                        <AdditionalTagsPopover
+                                          walletId={wallet.id}
+                                          walletAddress={wallet.wallet_address}
+                                          compact
+                                        />
+                                        <Button
+                                          variant='ghost'
+                                          size='sm'
+                                          onClick={() =>
+                                            copyAddress(wallet.wallet_address)
+                                          }
+                                        >
+                                          <Copy className='h-3 w-3' />
                                         </Button>
-                                      </a>
-                                    </div>
-                                  </TableCell>
-                                  <TableCell className='text-xs'>
-                                    {formatTimestamp(
-                                      wallet.first_buy_timestamp
-                                    )}
-                                  </TableCell>
-                                  <TableCell className='text-right text-sm'>
-                                    {wallet.total_usd
-                                      ? `$${Math.round(wallet.total_usd)}`
-                                      : 'N/A'}
-                                  </TableCell>
-                                  <TableCell className='text-center text-sm'>
-                                    {wallet.transaction_count || 1}
-                                  </TableCell>
-                                  <TableCell className='text-right text-sm'>
-                                    {wallet.average_buy_usd
-                                      ? `$${Math.round(wallet.average_buy_usd)}`
-                                      : 'N/A'}
-                                  </TableCell>
-                                </TableRow>
-                              ))
-                            )}
-                          </TableBody>
-                        </Table>
+                                        <a
+                                          href={`https://solscan.io/account/${wallet.wallet_address}`}
+                                          target='_blank'
+                                          rel='noopener noreferrer'
+                                        >
+                                          <Button variant='outline' size='sm'>
+                                            <ExternalLink className='h-3 w-3' />
+                                          </Button>
+                                        </a>
+                                      </div>
+                                    </TableCell>
+                                    <TableCell className='text-xs'>
+                                      {formatTimestamp(
+                                        wallet.first_buy_timestamp
+                                      )}
+                                    </TableCell>
+                                    <TableCell className='text-right text-sm'>
+                                      {wallet.total_usd
+                                        ? `$${Math.round(wallet.total_usd)}`
+                                        : 'N/A'}
+                                    </TableCell>
+                                    <TableCell className='text-center text-sm'>
+                                      {wallet.transaction_count || 1}
+                                    </TableCell>
+                                    <TableCell className='text-right text-sm'>
+                                      {wallet.average_buy_usd
+                                        ? `$${Math.round(wallet.average_buy_usd)}`
+                                        : 'N/A'}
+                                    </TableCell>
+                                  </TableRow>
+                                ))
+                              )}
+                            </TableBody>
+                          </Table>
+                        </div>
                       </div>
-                    </div>
-                  );
-                })}
+                    );
+                  })
+                )}
               </div>
             )}
           </TabsContent>
@@ -1,11 +1,13 @@
 'use client';
 
 import {
+  Column,
   ColumnDef,
+  PaginationState,
+  SortingState,
+  Table as ReactTable,
   flexRender,
   getCoreRowModel,
-  getPaginationRowModel,
-  getFilteredRowModel,
   useReactTable
 } from '@tanstack/react-table';
 import {
@@ -13,10 +15,11 @@ import {
   TokenDetail,
   formatTimestamp,
   downloadAxiomJson,
+  deleteToken,
   getTokenById,
-  refreshMarketCaps,
-  API_BASE_URL
+  refreshMarketCaps
 } from '@/lib/api';
+import { formatMarketCap } from '@/lib/format';
 import { Button } from '@/components/ui/button';
 import {
   Eye,
@@ -25,7 +28,11 @@ import {
   Search,
   Copy,
   Info,
-  RefreshCw
+  RefreshCw,
+  GitCompareArrows,
+  ArrowUp,
+  ArrowDown,
+  ChevronsUpDown
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -44,10 +51,33 @@ import {
   TableHeader,
   TableRow
 } from '@/components/ui/table';
-import { useState, useMemo, useEffect } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { TokenDetailsModal } from './token-details-modal';
+import {
+  MAX_COMPARE_TOKENS,
+  MIN_COMPARE_TOKENS
+} from './compare/token-overlap';
+import { MarketCapSparkline } from './market-cap-chart';
 import { useCodex } from '@/contexts/codex-context';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useMarketCapHistories } from '@/hooks/use-market-cap-history';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { MarketCapSnapshot } from '@/lib/market-cap-history';
+import {
+  TokenPage,
+  TokenPageSource,
+  TokenQuery,
+  isTokenSortField,
+  queryTokens
+} from '@/lib/token-query';
 import { cn } from '@/lib/utils';
 import dynamic from 'next/dynamic';
 
@@ -60,18 +90,72 @@ const MotionTr = dynamic(
   }
 );
 
-const createColumns = (
-  handleViewDetails: (id: number) => void,
-  handleDelete: (id: number) => void,
-  handleRefreshMarketCap: (id: number) => Promise<void>,
-  handleRefreshAllMarketCaps: () => Promise<void>,
-  refreshingMarketCaps: Set<number>,
-  refreshingAll: boolean,
-  isCompact: boolean = false
-): ColumnDef<Token>[] => [
+type MarketCapUpdate = Pick<
+  Token,
+  'market_cap_usd_current' | 'market_cap_updated_at'
+>;
+
+// Handlers and per-row state the cells read through `table.options.meta`, so
+// the column definitions only change with the compact layout
+interface TokensTableMeta {
+  onViewDetails: (id: number) => void;
+  onDelete: (id: number) => void;
+  onRefreshMarketCap: (id: number) => Promise<void>;
+  onRefreshVisible: () => Promise<void>;
+  refreshingMarketCaps: Set<number>;
+  refreshingAll: boolean;
+  marketCapHistories: Record<number, MarketCapSnapshot[]>;
+}
+
+const tokensMeta = (table: ReactTable<Token>) =>
+  table.options.meta as TokensTableMeta;
+
+const PAGE_SIZES = [100, 250, 500, 1000];
+const SEARCH_DEBOUNCE_MS = 200;
+// Row heights before they're measured
+const ROW_HEIGHT = 88;
+const COMPACT_ROW_HEIGHT = 64;
+
+// Apply local market cap refreshes on top of the loaded tokens
+function withMarketCapUpdates(
+  tokens: Token[],
+  updates: Map<number, MarketCapUpdate>
+): Token[] {
+  if (updates.size === 0) return tokens;
+  return tokens.map((token) => {
+    const update = updates.get(token.id);
+    return update ? { ...token, ...update } : token;
+  });
+}
+
+function SortableHeader({
+  column,
+  children
+}: {
+  column: Column<Token>;
+  children: React.ReactNode;
+}) {
+  const sorted = column.getIsSorted();
+  const Icon =
+    sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ChevronsUpDown;
+  return (
+    <button
+      type='button'
+      className='hover:text-foreground inline-flex items-center gap-1'
+      onClick={column.getToggleSortingHandler()}
+    >
+      {children}
+      <Icon className={cn('h-3 w-3', !sorted && 'opacity-40')} />
+    </button>
+  );
+}
+
+const createColumns = (isCompact: boolean = false): ColumnDef<Token>[] => [
   {
     accessorKey: 'token_name',
-    header: 'Token',
+    header: ({ column }) => (
+      <SortableHeader column={column}>Token</SortableHeader>
+    ),
     cell: ({ row }) => {
       const name = row.original.token_name || 'Unknown';
       const symbol = row.original.token_symbol || '-';
@@ -94,9 +178,9 @@ const createColumns = (
   },
   {
     accessorKey: 'market_cap_usd',
-    header: () => (
+    header: ({ column, table }) => (
       <div className='flex items-center gap-1'>
-        <span>Market Cap</span>
+        <SortableHeader column={column}>Market Cap</SortableHeader>
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -106,12 +190,16 @@ const createColumns = (
                 className='h-5 w-5 p-0'
                 onClick={(e) => {
                   e.stopPropagation();
-                  handleRefreshAllMarketCaps();
+                  tokensMeta(table).onRefreshVisible();
                 }}
-                disabled={refreshingAll}
+                disabled={tokensMeta(table).refreshingAll}
+                aria-label='Refresh all visible market caps'
               >
                 <RefreshCw
-                  className={cn('h-1 w-1', refreshingAll && 'animate-spin')}
+                  className={cn(
+                    'h-1 w-1',
+                    tokensMeta(table).refreshingAll && 'animate-spin'
+                  )}
                 />
               </Button>
             </TooltipTrigger>
@@ -120,24 +208,13 @@ const createColumns = (
         </TooltipProvider>
       </div>
     ),
-    cell: ({ row }) => {
+    cell: ({ row, table }) => {
+      const { onRefreshMarketCap, refreshingMarketCaps } = tokensMeta(table);
       const marketCapOriginal = row.original.market_cap_usd;
       const marketCapCurrent = row.original.market_cap_usd_current;
       const marketCapUpdatedAt = row.original.market_cap_updated_at;
       const isRefreshing = refreshingMarketCaps.has(row.original.id);
 
-      // Format market cap (e.g., $1.2M, $340K, $5.6B)
-      const formatMarketCap = (value: number): string => {
-        if (value >= 1_000_000_000) {
-          return `$${(value / 1_000_000_000).toFixed(2)}B`;
-        } else if (value >= 1_000_000) {
-          return `$${(value / 1_000_000).toFixed(2)}M`;
-        } else if (value >= 1_000) {
-          return `$${(value / 1_000).toFixed(1)}K`;
-        }
-        return `$${value.toFixed(2)}`;
-      };
-
       // No market cap data at all
       if (
         (!marketCapOriginal || marketCapOriginal === 0) &&
@@ -162,7 +239,7 @@ const createColumns = (
                     className='h-5 w-5 p-0'
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleRefreshMarketCap(row.original.id);
+                      onRefreshMarketCap(row.original.id);
                     }}
                     disabled={isRefreshing}
                   >
@@ -246,7 +323,7 @@ const createColumns = (
                     className='h-4 w-4 p-0'
                     onClick={(e) => {
                       e.stopPropagation();
-                      handleRefreshMarketCap(row.original.id);
+                      onRefreshMarketCap(row.original.id);
                     }}
                     disabled={isRefreshing}
                   >
@@ -263,8 +340,38 @@ const createColumns = (
       );
     }
   },
+  {
+    id: 'market_cap_trend',
+    enableSorting: false,
+    header: () => (
+      <div className='flex items-center gap-1'>
+        <span>Trend</span>
+        <TooltipProvider delayDuration={100}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className='text-muted-foreground h-3 w-3 cursor-help' />
+            </TooltipTrigger>
+            <TooltipContent className='max-w-xs'>
+              <p className='text-xs'>
+                Market cap since analysis, from refreshes recorded in this
+                browser.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+    ),
+    cell: ({ row, table }) => (
+      <MarketCapSparkline
+        token={row.original}
+        snapshots={tokensMeta(table).marketCapHistories[row.original.id] ?? []}
+        width={isCompact ? 56 : 80}
+      />
+    )
+  },
   {
     accessorKey: 'token_address',
+    enableSorting: false,
     header: 'Address',
     cell: ({ row }) => {
       const address = row.getValue('token_address') as string;
@@ -301,8 +408,10 @@ const createColumns = (
   },
   {
     id: 'actions',
+    enableSorting: false,
     header: 'Actions',
-    cell: ({ row }) => {
+    cell: ({ row, table }) => {
+      const { onViewDetails, onDelete } = tokensMeta(table);
       const token = row.original;
       const btnSize = isCompact ? 'h-7 w-7' : 'h-8 w-8';
       const iconSize = isCompact ? 'h-3 w-3' : 'h-4 w-4';
@@ -312,7 +421,7 @@ const createColumns = (
             variant='outline'
             size='sm'
             className={cn('p-0', btnSize)}
-            onClick={() => handleViewDetails(token.id)}
+            onClick={() => onViewDetails(token.id)}
           >
             <Eye className={iconSize} />
           </Button>
@@ -334,7 +443,7 @@ const createColumns = (
                   `Delete token "${token.token_name || 'Unknown'}"?`
                 )
               ) {
-                handleDelete(token.id);
+                onDelete(token.id);
               }
             }}
           >
@@ -346,9 +455,9 @@ const createColumns = (
   },
   {
     accessorKey: 'wallets_found',
-    header: () => (
+    header: ({ column }) => (
       <div className='flex items-center justify-center gap-1'>
-        <span>Wallets</span>
+        <SortableHeader column={column}>Wallets</SortableHeader>
         <TooltipProvider delayDuration={100}>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -379,7 +488,9 @@ const createColumns = (
   },
   {
     accessorKey: 'first_buy_timestamp',
-    header: 'First Filtered Buy',
+    header: ({ column }) => (
+      <SortableHeader column={column}>First Filtered Buy</SortableHeader>
+    ),
     cell: ({ row }) => {
       const timestamp = row.getValue('first_buy_timestamp') as string;
       return (
@@ -396,7 +507,11 @@ const createColumns = (
   },
   {
     accessorKey: 'last_analysis_credits',
-    header: isCompact ? 'Latest Credits' : 'Credits Used For Latest Report',
+    header: ({ column }) => (
+      <SortableHeader column={column}>
+        {isCompact ? 'Latest Credits' : 'Credits Used For Latest Report'}
+      </SortableHeader>
+    ),
     cell: ({ row }) => (
       <div
         className={cn(
@@ -410,7 +525,11 @@ const createColumns = (
   },
   {
     accessorKey: 'credits_used',
-    header: isCompact ? 'Total Credits' : 'Cumulative Credits Used',
+    header: ({ column }) => (
+      <SortableHeader column={column}>
+        {isCompact ? 'Total Credits' : 'Cumulative Credits Used'}
+      </SortableHeader>
+    ),
     cell: ({ row }) => (
       <div
         className={cn(
@@ -425,34 +544,43 @@ const createColumns = (
 ];
 
 interface TokensTableProps {
+  // Every token to page through in the browser
   tokens: Token[];
+  // Load pages from the backend instead; `tokens` is then ignored
+  fetchPage?: TokenPageSource;
   onDelete?: (tokenId: number) => void;
 }
 
-export function TokensTable({ tokens, onDelete }: TokensTableProps) {
+export function TokensTable({ tokens, fetchPage, onDelete }: TokensTableProps) {
   const router = useRouter();
   const { isCodexOpen } = useCodex();
+  const scrollRef = useRef<HTMLDivElement>(null);
   const [selectedToken, setSelectedToken] = useState<TokenDetail | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [globalFilter, setGlobalFilter] = useState('');
+  const search = useDebounce(globalFilter, SEARCH_DEBOUNCE_MS);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: PAGE_SIZES[1]
+  });
   const [isCompactMode, setIsCompactMode] = useState(isCodexOpen);
-  const [selectedTokenIds, setSelectedTokenIds] = useState<Set<number>>(
-    new Set()
+  // Selected tokens by id - kept whole so bulk actions work for tokens on
+  // other pages
+  const [selectedTokens, setSelectedTokens] = useState<Map<number, Token>>(
+    new Map()
   );
   const [refreshingMarketCaps, setRefreshingMarketCaps] = useState<Set<number>>(
     new Set()
   );
   const [refreshingAll, setRefreshingAll] = useState(false);
+  const [remotePage, setRemotePage] = useState<TokenPage | null>(null);
+  // Bumped after deletes so a server-backed table reloads its page
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Local state for optimistic market cap updates
   const [marketCapUpdates, setMarketCapUpdates] = useState<
-    Map<
-      number,
-      {
-        market_cap_usd_current: number | null;
-        market_cap_updated_at: string | null;
-      }
-    >
+    Map<number, MarketCapUpdate>
   >(new Map());
 
   // Delay compact mode change to sync with Codex animation
@@ -466,6 +594,77 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
     return () => clearTimeout(timer);
   }, [isCodexOpen]);
 
+  const query = useMemo<TokenQuery>(
+    () => ({
+      page: pagination.pageIndex,
+      pageSize: pagination.pageSize,
+      sort:
+        sorting[0] && isTokenSortField(sorting[0].id)
+          ? { field: sorting[0].id, desc: sorting[0].desc }
+          : null,
+      search
+    }),
+    [pagination, sorting, search]
+  );
+
+  useEffect(() => {
+    if (!fetchPage) return;
+    let cancelled = false;
+    fetchPage(query)
+      .then((page) => {
+        if (!cancelled) setRemotePage(page);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error('Failed to load tokens');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchPage, query, reloadKey]);
+
+  const clientPage = useMemo(
+    () =>
+      fetchPage
+        ? null
+        : queryTokens(withMarketCapUpdates(tokens, marketCapUpdates), query),
+    [fetchPage, tokens, marketCapUpdates, query]
+  );
+
+  const pageTokens = useMemo(
+    () =>
+      clientPage
+        ? clientPage.tokens
+        : withMarketCapUpdates(remotePage?.tokens ?? [], marketCapUpdates),
+    [clientPage, remotePage, marketCapUpdates]
+  );
+  const total = clientPage?.total ?? remotePage?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / pagination.pageSize));
+
+  // Stay on a page that exists once deletes or a search shrink the list
+  useEffect(() => {
+    if (pagination.pageIndex >= pageCount) {
+      setPagination((prev) => ({ ...prev, pageIndex: pageCount - 1 }));
+    }
+  }, [pagination.pageIndex, pageCount]);
+
+  // Each page starts at the top
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [query]);
+
+  const pageTokenIds = useMemo(
+    () => pageTokens.map((token) => token.id),
+    [pageTokens]
+  );
+  const marketCapHistories = useMarketCapHistories(pageTokenIds);
+
+  const rowKeys = useMemo(() => pageTokenIds.map(String), [pageTokenIds]);
+  const virtualRows = useVirtualRows({
+    scrollRef,
+    keys: rowKeys,
+    estimateSize: isCompactMode ? COMPACT_ROW_HEIGHT : ROW_HEIGHT
+  });
+
   const handleViewDetails = async (id: number) => {
     try {
       const tokenDetails = await getTokenById(id);
@@ -476,23 +675,25 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
     }
   };
 
+  const deselect = (ids: number[]) => {
+    setSelectedTokens((prev) => {
+      const next = new Map(prev);
+      ids.forEach((id) => next.delete(id));
+      return next;
+    });
+  };
+
   const handleDelete = async (id: number) => {
     // Optimistically update UI immediately
     if (onDelete) {
       onDelete(id);
     }
+    deselect([id]);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api/tokens/${id}`, {
-        method: 'DELETE',
-        cache: 'no-store'
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to delete token');
-      }
-
+      await deleteToken(id);
       toast.success('Token deleted successfully');
+      setReloadKey((key) => key + 1);
     } catch (error) {
       toast.error('Failed to delete token. Please try again.');
       // On error, refresh to restore correct state
@@ -500,6 +701,35 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
     }
   };
 
+  const refreshMarketCapsFor = async (tokenIds: number[]) => {
+    setRefreshingAll(true);
+
+    try {
+      const response = await refreshMarketCaps(tokenIds);
+
+      // Immediately update local state for all refreshed tokens
+      setMarketCapUpdates((prev) => {
+        const newMap = new Map(prev);
+        response.results.forEach((result) => {
+          newMap.set(result.token_id, {
+            market_cap_usd_current: result.market_cap_usd_current,
+            market_cap_updated_at: result.market_cap_updated_at
+          });
+        });
+        return newMap;
+      });
+
+      toast.success(
+        `Refreshed ${response.successful}/${response.total_tokens} market caps (${response.api_credits_used} credits)`
+      );
+      router.refresh();
+    } catch (error) {
+      toast.error('Failed to refresh market caps');
+    } finally {
+      setRefreshingAll(false);
+    }
+  };
+
   const handleRefreshMarketCap = async (tokenId: number) => {
     setRefreshingMarketCaps((prev) => new Set(prev).add(tokenId));
 
@@ -539,80 +769,29 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
     }
   };
 
-  const handleRefreshAllMarketCaps = async () => {
-    const visibleTokenIds = table
-      .getRowModel()
-      .rows.map((row) => row.original.id);
+  // Only the rendered rows, so a long page doesn't spend credits on tokens
+  // scrolled out of view
+  const handleRefreshVisibleMarketCaps = async () => {
+    const visibleTokenIds = virtualRows.indexes.map((i) => pageTokenIds[i]);
 
     if (visibleTokenIds.length === 0) {
       toast.error('No tokens to refresh');
       return;
     }
 
-    setRefreshingAll(true);
-
-    try {
-      const response = await refreshMarketCaps(visibleTokenIds);
-
-      // Immediately update local state for all tokens
-      setMarketCapUpdates((prev) => {
-        const newMap = new Map(prev);
-        response.results.forEach((result) => {
-          newMap.set(result.token_id, {
-            market_cap_usd_current: result.market_cap_usd_current,
-            market_cap_updated_at: result.market_cap_updated_at
-          });
-        });
-        return newMap;
-      });
-
-      toast.success(
-        `Refreshed ${response.successful}/${response.total_tokens} market caps (${response.api_credits_used} credits)`
-      );
-      router.refresh();
-    } catch (error) {
-      toast.error('Failed to refresh market caps');
-    } finally {
-      setRefreshingAll(false);
-    }
+    await refreshMarketCapsFor(visibleTokenIds);
   };
 
   const handleRefreshSelectedMarketCaps = async () => {
-    if (selectedTokenIds.size === 0) {
+    if (selectedTokens.size === 0) {
       toast.error('No tokens selected');
       return;
     }
 
-    const tokenIdsArray = Array.from(selectedTokenIds);
-    setRefreshingAll(true);
-
-    try {
-      const response = await refreshMarketCaps(tokenIdsArray);
-
-      // Immediately update local state for all selected tokens
-      setMarketCapUpdates((prev) => {
-        const newMap = new Map(prev);
-        response.results.forEach((result) => {
-          newMap.set(result.token_id, {
-            market_cap_usd_current: result.market_cap_usd_current,
-            market_cap_updated_at: result.market_cap_updated_at
-          });
-        });
-        return newMap;
-      });
-
-      toast.success(
-        `Refreshed ${response.successful}/${response.total_tokens} market caps (${response.api_credits_used} credits)`
-      );
-      router.refresh();
-    } catch (error) {
-      toast.error('Failed to refresh market caps');
-    } finally {
-      setRefreshingAll(false);
-    }
+    await refreshMarketCapsFor(Array.from(selectedTokens.keys()));
   };
 
-  const handleRowClick = (tokenId: number, event: React.MouseEvent) => {
+  const handleRowClick = (token: Token, event: React.MouseEvent) => {
     // Don't select if clicking on a link, button, or interactive element
     const target = event.target as HTMLElement;
     if (
@@ -624,71 +803,75 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
       return;
     }
 
-    setSelectedTokenIds((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(tokenId)) {
-        newSet.delete(tokenId);
+    setSelectedTokens((prev) => {
+      const next = new Map(prev);
+      if (next.has(token.id)) {
+        next.delete(token.id);
       } else {
-        newSet.add(tokenId);
+        next.set(token.id, token);
       }
-      return newSet;
+      return next;
+    });
+  };
+
+  const handleSelectPage = () => {
+    setSelectedTokens((prev) => {
+      const next = new Map(prev);
+      pageTokens.forEach((token) => next.set(token.id, token));
+      return next;
     });
   };
 
   const handleBulkDownload = () => {
-    if (selectedTokenIds.size === 0) {
+    if (selectedTokens.size === 0) {
       toast.error('No tokens selected');
       return;
     }
 
-    const selectedTokens = tokens.filter((token) =>
-      selectedTokenIds.has(token.id)
-    );
-
-    selectedTokens.forEach((token) => {
+    const tokensToDownload = Array.from(selectedTokens.values());
+    tokensToDownload.forEach((token) => {
       downloadAxiomJson(token as any);
     });
 
-    toast.success(`Downloaded ${selectedTokens.length} token(s)`);
-    setSelectedTokenIds(new Set());
+    toast.success(`Downloaded ${tokensToDownload.length} token(s)`);
+    setSelectedTokens(new Map());
+  };
+
+  const handleCompare = () => {
+    const ids = Array.from(selectedTokens.keys()).join(',');
+    router.push(`/dashboard/tokens/compare?ids=${ids}`);
   };
 
   const handleBulkDelete = async () => {
-    if (selectedTokenIds.size === 0) {
+    if (selectedTokens.size === 0) {
       toast.error('No tokens selected');
       return;
     }
 
-    const selectedTokens = tokens.filter((token) =>
-      selectedTokenIds.has(token.id)
-    );
+    const tokensToDelete = Array.from(selectedTokens.values());
 
     const confirmed = window.confirm(
-      `Delete ${selectedTokens.length} token(s)?\n\n${selectedTokens.map((t) => t.token_name || 'Unknown').join(', ')}`
+      `Delete ${tokensToDelete.length} token(s)?\n\n${tokensToDelete.map((t) => t.token_name || 'Unknown').join(', ')}`
     );
 
     if (!confirmed) return;
 
     // Delete all selected tokens
-    const deletePromises = Array.from(selectedTokenIds).map((id) =>
-      fetch(`${API_BASE_URL}/api/tokens/${id}`, {
-        method: 'DELETE',
-        cache: 'no-store'
-      })
-    );
+    const deletePromises = tokensToDelete.map((token) => deleteToken(token.id));
 
     try {
       await Promise.all(deletePromises);
-      toast.success(`Deleted ${selectedTokenIds.size} token(s)`);
+      toast.success(`Deleted ${tokensToDelete.length} token(s)`);
 
       // Optimistically update UI
-      selectedTokenIds.forEach((id) => {
+      tokensToDelete.forEach((token) => {
         if (onDelete) {
-          onDelete(id);
+          onDelete(token.id);
         }
       });
 
-      setSelectedTokenIds(new Set());
+      setSelectedTokens(new Map());
+      setReloadKey((key) => key + 1);
 
       // Refresh to sync with server
       router.refresh();
@@ -698,66 +881,49 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
     }
   };
 
-  // Merge tokens with local market cap updates for instant UI feedback
-  const tokensWithUpdates = useMemo(() => {
-    return tokens.map((token) => {
-      const update = marketCapUpdates.get(token.id);
-      if (update) {
-        return {
-          ...token,
-          market_cap_usd_current: update.market_cap_usd_current,
-          market_cap_updated_at: update.market_cap_updated_at
-        };
-      }
-      return token;
-    });
-  }, [tokens, marketCapUpdates]);
+  const columns = useMemo(() => createColumns(isCompactMode), [isCompactMode]);
 
-  const columns = useMemo(
-    () =>
-      createColumns(
-        handleViewDetails,
-        handleDelete,
-        handleRefreshMarketCap,
-        handleRefreshAllMarketCaps,
-        refreshingMarketCaps,
-        refreshingAll,
-        isCompactMode
-      ),
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [isCompactMode, refreshingMarketCaps, refreshingAll]
-  );
+  const meta: TokensTableMeta = {
+    onViewDetails: handleViewDetails,
+    onDelete: handleDelete,
+    onRefreshMarketCap: handleRefreshMarketCap,
+    onRefreshVisible: handleRefreshVisibleMarketCaps,
+    refreshingMarketCaps,
+    refreshingAll,
+    marketCapHistories
+  };
 
+  // Paging, sorting and search happen in `queryTokens()` or on the server;
+  // the table only renders the current page
   const table = useReactTable({
-    data: tokensWithUpdates,
+    data: pageTokens,
     columns,
+    meta,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    initialState: {
-      pagination: {
-        pageSize: 50
-      }
-    },
+    getRowId: (token) => String(token.id),
+    manualPagination: true,
+    manualSorting: true,
+    manualFiltering: true,
+    enableMultiSort: false,
+    rowCount: total,
     state: {
-      globalFilter
+      pagination,
+      sorting
     },
-    onGlobalFilterChange: setGlobalFilter,
-    globalFilterFn: (row, _columnId, filterValue) => {
-      const search = filterValue.toLowerCase();
-      // Search in token address, token name, token symbol, and wallet addresses
-      const tokenData = row.original;
-      return !!(
-        tokenData.token_address?.toLowerCase().includes(search) ||
-        tokenData.token_name?.toLowerCase().includes(search) ||
-        tokenData.token_symbol?.toLowerCase().includes(search) ||
-        tokenData.wallet_addresses?.some((addr) =>
-          addr.toLowerCase().includes(search)
-        )
-      );
+    onPaginationChange: setPagination,
+    onSortingChange: (updater) => {
+      setSorting(updater);
+      setPagination((prev) => ({ ...prev, pageIndex: 0 }));
     }
   });
 
+  const rows = table.getRowModel().rows;
+  const selectedOnOtherPages = Array.from(selectedTokens.keys()).filter(
+    (id) => !pageTokenIds.includes(id)
+  ).length;
+  const firstRow = total === 0 ? 0 : query.page * query.pageSize + 1;
+  const lastRow = Math.min(total, (query.page + 1) * query.pageSize);
+
   return (
     <>
       <div className='space-y-4'>
@@ -767,19 +933,27 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
             <Search className='text-muted-foreground absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2' />
             <Input
               placeholder='Search by token address or wallet address...'
-              value={globalFilter ?? ''}
-              onChange={(e) => setGlobalFilter(e.target.value)}
+              value={globalFilter}
+              onChange={(e) => {
+                setGlobalFilter(e.target.value);
+                setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+              }}
               className='pl-10'
             />
           </div>
         </div>
 
         {/* Selection Control Panel */}
-        {selectedTokenIds.size > 0 && (
+        {selectedTokens.size > 0 && (
           <div className='bg-primary/10 border-primary/20 sticky top-0 z-10 flex items-center justify-center gap-2 rounded-md border p-2 backdrop-blur-sm'>
             <span className='text-primary text-sm font-medium'>
-              {selectedTokenIds.size} token
-              {selectedTokenIds.size !== 1 ? 's' : ''} selected
+              {selectedTokens.size} token
+              {selectedTokens.size !== 1 ? 's' : ''} selected
+              {selectedOnOtherPages > 0 && (
+                <span className='text-muted-foreground ml-1 text-xs font-normal'>
+                  ({selectedOnOtherPages} on other pages)
+                </span>
+              )}
             </span>
             <Button
               variant='outline'
@@ -793,6 +967,20 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
               />
               Refresh Market Caps
             </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={handleCompare}
+              className='h-7 gap-1 text-xs'
+              disabled={
+                selectedTokens.size < MIN_COMPARE_TOKENS ||
+                selectedTokens.size > MAX_COMPARE_TOKENS
+              }
+              title={`Compare early buyers of ${MIN_COMPARE_TOKENS}-${MAX_COMPARE_TOKENS} tokens`}
+            >
+              <GitCompareArrows className='h-3 w-3' />
+              Compare
+            </Button>
             <Button
               variant='outline'
               size='sm'
@@ -814,7 +1002,15 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
             <Button
               variant='outline'
               size='sm'
-              onClick={() => setSelectedTokenIds(new Set())}
+              onClick={handleSelectPage}
+              className='h-7 text-xs'
+            >
+              Select Page
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => setSelectedTokens(new Map())}
               className='h-7 text-xs'
             >
               Deselect All
@@ -823,87 +1019,118 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
         )}
 
         <div className='overflow-hidden rounded-md border'>
-          <div className='max-h-[calc(100vh-300px)] max-w-full overflow-auto'>
-            <Table className='w-full'>
+          <div
+            ref={scrollRef}
+            className='max-h-[calc(100vh-300px)] max-w-full overflow-auto'
+          >
+            <Table className='w-full' data-testid='tokens-table'>
               <TableHeader className='bg-background sticky top-0 z-10 shadow-sm'>
                 {table.getHeaderGroups().map((headerGroup) => (
                   <TableRow key={headerGroup.id} className='border-b-2'>
-                    {headerGroup.headers.map((header) => (
-                      <TableHead
-                        key={header.id}
-                        className={cn(
-                          'bg-background whitespace-nowrap transition-all duration-300',
-                          isCompactMode
-                            ? 'px-2 py-2 text-xs'
-                            : 'px-3 py-3 text-sm'
-                        )}
-                      >
-                        {header.isPlaceholder
-                          ? null
-                          : flexRender(
-                              header.column.columnDef.header,
-                              header.getContext()
-                            )}
-                      </TableHead>
-                    ))}
+                    {headerGroup.headers.map((header) => {
+                      const sorted = header.column.getIsSorted();
+                      return (
+                        <TableHead
+                          key={header.id}
+                          aria-sort={
+                            sorted === 'asc'
+                              ? 'ascending'
+                              : sorted === 'desc'
+                                ? 'descending'
+                                : undefined
+                          }
+                          className={cn(
+                            'bg-background whitespace-nowrap transition-all duration-300',
+                            isCompactMode
+                              ? 'px-2 py-2 text-xs'
+                              : 'px-3 py-3 text-sm'
+                          )}
+                        >
+                          {header.isPlaceholder
+                            ? null
+                            : flexRender(
+                                header.column.columnDef.header,
+                                header.getContext()
+                              )}
+                        </TableHead>
+                      );
+                    })}
                   </TableRow>
                 ))}
               </TableHeader>
               <TableBody>
-                {table.getRowModel().rows?.length ? (
-                  table.getRowModel().rows.map((row) => {
-                    const isSelected = selectedTokenIds.has(row.original.id);
-                    return (
-                      <MotionTr
-                        key={row.id}
-                        className='cursor-pointer border-b'
-                        onClick={(e) => handleRowClick(row.original.id, e)}
-                        initial={false}
-                        animate={{
-                          backgroundColor: isSelected
-                            ? 'rgba(var(--primary-rgb, 59 130 246) / 0.2)'
-                            : 'transparent',
-                          boxShadow: isSelected
-                            ? 'inset 0 0 0 2px rgba(var(--primary-rgb, 59 130 246) / 0.3), 0 0 10px rgba(var(--primary-rgb, 59 130 246) / 0.2)'
-                            : 'none'
-                        }}
-                        whileHover={{
-                          backgroundColor: isSelected
-                            ? 'rgba(var(--primary-rgb, 59 130 246) / 0.25)'
-                            : 'rgba(var(--muted-rgb, 240 240 240) / 0.5)',
-                          boxShadow: isSelected
-                            ? 'inset 0 0 0 2px rgba(var(--primary-rgb, 59 130 246) / 0.4), 0 0 15px rgba(var(--primary-rgb, 59 130 246) / 0.3)'
-                            : '0 1px 3px rgba(0, 0, 0, 0.05)'
-                        }}
-                        whileTap={{
-                          backgroundColor: isSelected
-                            ? 'rgba(var(--primary-rgb, 59 130 246) / 0.3)'
-                            : 'rgba(var(--muted-rgb, 240 240 240) / 0.7)'
-                        }}
-                        transition={{
-                          type: 'spring',
-                          stiffness: 500,
-                          damping: 30,
-                          mass: 0.5
-                        }}
-                      >
-                        {row.getVisibleCells().map((cell) => (
-                          <TableCell
-                            key={cell.id}
-                            className={cn(
-                              'transition-all duration-300',
-                              isCompactMode ? 'px-2 py-2' : 'px-3 py-3'
-                            )}
-                          >
-                            {flexRender(
-                              cell.column.columnDef.cell,
-                              cell.getContext()
-                            )}
-                          </TableCell>
-                        ))}
-                      </MotionTr>
-                    );
-                  })
+                {rows.length ? (
+                  <>
+                    {virtualRows.paddingTop > 0 && (
+                      <tr
+                        aria-hidden
+                        style={{ height: virtualRows.paddingTop }}
+                      />
+                    )}
+                    {virtualRows.indexes.map((index) => {
+                      const row = rows[index];
+                      if (!row) return null;
+                      const isSelected = selectedTokens.has(row.original.id);
+                      return (
+                        <MotionTr
+                          key={row.id}
+                          data-testid='token-row'
+                          data-row-key={row.id}
+                          className='cursor-pointer border-b'
+                          onClick={(e) => handleRowClick(row.original, e)}
+                          initial={false}
+                          animate={{
+                            backgroundColor: isSelected
+                              ? 'rgba(var(--primary-rgb, 59 130 246) / 0.2)'
+                              : 'transparent',
+                            boxShadow: isSelected
+                              ? 'inset 0 0 0 2px rgba(var(--primary-rgb, 59 130 246) / 0.3), 0 0 10px rgba(var(--primary-rgb, 59 130 246) / 0.2)'
+                              : 'none'
+                          }}
+                          whileHover={{
+                            backgroundColor: isSelected
+                              ? 'rgba(var(--primary-rgb, 59 130 246) / 0.25)'
+                              : 'rgba(var(--muted-rgb, 240 240 240) / 0.5)',
+                            boxShadow: isSelected
+                              ? 'inset 0 0 0 2px rgba(var(--primary-rgb, 59 130 246) / 0.4), 0 0 15px rgba(var(--primary-rgb, 59 130 246) / 0.3)'
+                              : '0 1px 3px rgba(0, 0, 0, 0.05)'
+                          }}
+                          whileTap={{
+                            backgroundColor: isSelected
+                              ? 'rgba(var(--primary-rgb, 59 130 246) / 0.3)'
+                              : 'rgba(var(--muted-rgb, 240 240 240) / 0.7)'
+                          }}
+                          transition={{
+                            type: 'spring',
+                            stiffness: 500,
+                            damping: 30,
+                            mass: 0.5
+                          }}
+                        >
+                          {row.getVisibleCells().map((cell) => (
+                            <TableCell
+                              key={cell.id}
+                              className={cn(
+                                'transition-all duration-300',
+                                isCompactMode ? 'px-2 py-2' : 'px-3 py-3'
+                              )}
+                            >
+                              {flexRender(
+                                cell.column.columnDef.cell,
+                                cell.getContext()
+                              )}
+                            </TableCell>
+                          ))}
+                        </MotionTr>
+                      );
+                    })}
+                    {virtualRows.paddingBottom > 0 && (
+                      <tr
+                        aria-hidden
+                        style={{ height: virtualRows.paddingBottom }}
+                      />
+                    )}
+                  </>
                 ) : (
                   <TableRow>
                     <TableCell
@@ -918,23 +1145,51 @@ export function TokensTable({ tokens, onDelete }: TokensTableProps) {
             </Table>
           </div>
         </div>
-        <div className='flex items-center justify-end space-x-2'>
-          <Button
-            variant='outline'
-            size='sm'
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
-          >
-            Previous
-          </Button>
-          <Button
-            variant='outline'
-            size='sm'
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage()}
+        <div className='flex items-center justify-between gap-2'>
+          <div
+            className='text-muted-foreground text-sm'
+            data-testid='tokens-table-range'
           >
-            Next
-          </Button>
+            {firstRow}-{lastRow} of {total}
+          </div>
+          <div className='flex items-center space-x-2'>
+            <Select
+              value={String(pagination.pageSize)}
+              onValueChange={(value) =>
+                setPagination({ pageIndex: 0, pageSize: Number(value) })
+              }
+            >
+              <SelectTrigger
+                className='h-8 w-[110px]'
+                aria-label='Rows per page'
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size} / page
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => table.previousPage()}
+              disabled={!table.getCanPreviousPage()}
+            >
+              Previous
+            </Button>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={() => table.nextPage()}
+              disabled={!table.getCanNextPage()}
+            >
+              Next
+            </Button>
+          </div>
         </div>
       </div>
 
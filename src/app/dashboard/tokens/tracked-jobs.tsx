@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { X } from 'lucide-react';
+import { AnalysisJob, QueueTokenResponse, getAnalysisJob } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { JobStatusBadge } from '@/components/job-status-badge';
+import { useCallbackRef } from '@/hooks/use-callback-ref';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
+
+export function isJobFinished(status: string | undefined): boolean {
+  return status === 'completed' || status === 'failed';
+}
+
+interface TrackedJobsProps {
+  jobs: QueueTokenResponse[];
+  onDismiss: (jobId: string) => void;
+  onJobFinished?: (job: AnalysisJob) => void;
+}
+
+export function TrackedJobs({
+  jobs,
+  onDismiss,
+  onJobFinished
+}: TrackedJobsProps) {
+  const [statuses, setStatuses] = useState<Record<string, AnalysisJob>>({});
+
+  const pendingJobIds = jobs
+    .map((job) => job.job_id)
+    .filter((jobId) => !isJobFinished(statuses[jobId]?.status));
+  const pendingKey = pendingJobIds.join(',');
+
+  // Stable, so a new callback from the parent doesn't refetch every job
+  const handleJobFinished = useCallbackRef(onJobFinished);
+
+  const fetchJobs = useCallback(
+    async (jobIds: string[]) => {
+      const results = await Promise.allSettled(
+        jobIds.map((jobId) => getAnalysisJob(jobId))
+      );
+
+      const updates: Record<string, AnalysisJob> = {};
+      results.forEach((result) => {
+        if (result.status === 'fulfilled') {
+          updates[result.value.job_id] = result.value;
+        }
+        // Silently skip failures - the next event will retry
+      });
+
+      setStatuses((prev) => ({ ...prev, ...updates }));
+      Object.values(updates)
+        .filter((job) => isJobFinished(job.status))
+        .forEach((job) => handleJobFinished(job));
+    },
+    [handleJobFinished]
+  );
+
+  // Load newly tracked jobs once; after that they change only via events
+  useEffect(() => {
+    if (!pendingKey) return;
+    fetchJobs(pendingKey.split(','));
+  }, [pendingKey, fetchJobs]);
+
+  useRealtimeEvents((event) => {
+    if (pendingJobIds.includes(event.data.job_id)) {
+      fetchJobs([event.data.job_id]);
+    }
+  });
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className='bg-card rounded-lg border p-4'>
+      <h3 className='mb-3 text-sm font-semibold'>Tracked Jobs</h3>
+      <div className='space-y-2'>
+        {jobs.map((job) => {
+          const current = statuses[job.job_id];
+          const status = current?.status ?? job.status;
+          return (
+            <div
+              key={job.job_id}
+              className='flex items-center justify-between gap-4 text-sm'
+            >
+              <div className='flex min-w-0 items-center gap-3'>
+                <JobStatusBadge status={status} />
+                <Link
+                  href={`/dashboard/jobs/${job.job_id}`}
+                  className='bg-muted rounded px-1.5 py-0.5 font-mono text-xs hover:underline'
+                >
+                  {job.job_id}
+                </Link>
+                <span className='text-muted-foreground truncate font-mono text-xs'>
+                  {job.token_address}
+                </span>
+              </div>
+              <div className='flex shrink-0 items-center gap-2'>
+                {current?.error && (
+                  <span className='text-destructive text-xs'>
+                    {current.error}
+                  </span>
+                )}
+                <Button
+                  variant='ghost'
+                  size='icon'
+                  className='h-6 w-6'
+                  onClick={() => onDismiss(job.job_id)}
+                  title='Stop tracking'
+                >
+                  <X className='h-3 w-3' />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
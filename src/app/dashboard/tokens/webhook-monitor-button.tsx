@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Radio } from 'lucide-react';
+import { createWebhook, TokenDetail } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+
+export function WebhookMonitorButton({ token }: { token: TokenDetail }) {
+  const [open, setOpen] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const result = await createWebhook(token.id, webhookUrl.trim());
+      toast.success(
+        `Webhook created${result.webhook_id ? ` (${result.webhook_id})` : ''} for ${token.wallets.length} wallet(s)`
+      );
+      setOpen(false);
+      setWebhookUrl('');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create webhook');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant='outline' size='sm'>
+          <Radio className='mr-2 h-4 w-4' />
+          Monitor wallets via webhook
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align='end' className='w-80 space-y-3'>
+        <div>
+          <h4 className='text-sm font-semibold'>Create Helius Webhook</h4>
+          <p className='text-muted-foreground text-xs'>
+            Get notified when any of the {token.wallets.length} early bidder
+            wallets transact
+          </p>
+        </div>
+        <div className='space-y-1'>
+          <Label htmlFor='webhook-url' className='text-xs'>
+            Webhook URL (optional)
+          </Label>
+          <Input
+            id='webhook-url'
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder='Backend callback by default'
+            className='h-8 text-xs'
+          />
+        </div>
+        <div className='flex items-center justify-between'>
+          <Link
+            href='/dashboard/webhooks'
+            className='text-primary text-xs hover:underline'
+          >
+            Manage webhooks
+          </Link>
+          <Button
+            size='sm'
+            onClick={handleCreate}
+            disabled={creating || token.wallets.length === 0}
+          >
+            {creating ? 'Creating...' : 'Create Webhook'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
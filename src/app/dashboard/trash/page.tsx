@@ -9,6 +9,7 @@ import {
   Token,
   formatTimestamp
 } from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
 import { Button } from '@/components/ui/button';
 import { RotateCcw, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
@@ -36,7 +37,7 @@ export default function TrashPage() {
       })
       .catch(() => {
         setError(
-          'Failed to load trash. Make sure the FastAPI backend is running on localhost:5003'
+          `Failed to load trash. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
         );
       })
       .finally(() => setLoading(false));
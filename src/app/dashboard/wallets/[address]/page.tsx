@@ -0,0 +1,289 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { formatTimestamp, refreshWalletBalances } from '@/lib/api';
+import { formatUsd } from '@/lib/format';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { Button } from '@/components/ui/button';
+import { WalletTagBadge } from '@/components/tag-category';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Copy, ExternalLink, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { WalletProfile, loadWalletProfile } from './wallet-profile';
+
+export default function WalletProfilePage() {
+  const params = useParams();
+  const router = useRouter();
+  const address = decodeURIComponent(params.address as string);
+  const [profile, setProfile] = useState<WalletProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!address) return;
+
+    loadWalletProfile(address)
+      .then(setProfile)
+      .catch(() => {
+        setError(
+          `Failed to load wallet. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        );
+      })
+      .finally(() => setLoading(false));
+  }, [address]);
+
+  const handleRefreshBalance = async () => {
+    setRefreshing(true);
+    try {
+      const result = await refreshWalletBalances([address]);
+      const balance = result.results.find(
+        (entry) => entry.wallet_address === address
+      );
+      if (balance?.success) {
+        setProfile((prev) =>
+          prev ? { ...prev, balanceUsd: balance.balance_usd } : prev
+        );
+        toast.success('Balance refreshed');
+      } else {
+        toast.error('Failed to refresh balance');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to refresh balance');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading wallet...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Collecting analyzed tokens, tags and watchlist entry
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Wallet not found'}
+          </div>
+          <button
+            onClick={() => router.push('/dashboard/tokens')}
+            className='bg-primary text-primary-foreground hover:bg-primary/90 mt-4 rounded-md px-4 py-2'
+          >
+            Back to Tokens
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const totalUsd = profile.tokens.reduce(
+    (sum, entry) => sum + (entry.wallet?.total_usd ?? 0),
+    0
+  );
+  const totalTransactions = profile.tokens.reduce(
+    (sum, entry) => sum + (entry.wallet?.transaction_count ?? 0),
+    0
+  );
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-start justify-between gap-4'>
+        <div className='min-w-0'>
+          <h1 className='text-3xl font-bold tracking-tight'>Wallet</h1>
+          <div className='mt-1 flex items-center gap-2'>
+            <code
+              className='text-muted-foreground font-mono text-sm break-all'
+              data-testid='wallet-address'
+            >
+              {profile.address}
+            </code>
+            <Button
+              variant='ghost'
+              size='icon'
+              className='h-7 w-7 shrink-0'
+              onClick={() => {
+                navigator.clipboard.writeText(profile.address);
+                toast.success('Address copied to clipboard');
+              }}
+              title='Copy address'
+            >
+              <Copy className='h-3 w-3' />
+            </Button>
+            <a
+              href={`https://solscan.io/account/${profile.address}`}
+              target='_blank'
+              rel='noopener noreferrer'
+              title='View on Solscan'
+            >
+              <Button variant='ghost' size='icon' className='h-7 w-7'>
+                <ExternalLink className='h-3 w-3' />
+              </Button>
+            </a>
+          </div>
+          <div
+            className='mt-2 flex flex-wrap items-center gap-1'
+            data-testid='wallet-tags'
+          >
+            {profile.tags.length === 0 ? (
+              <span className='text-muted-foreground text-xs'>No tags</span>
+            ) : (
+              profile.tags.map((tagObj) => (
+                <WalletTagBadge key={tagObj.tag} tag={tagObj} />
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className='grid gap-4 md:grid-cols-4'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Early Buys
+          </div>
+          <div className='text-3xl font-bold'>{profile.tokens.length}</div>
+          <div className='text-muted-foreground text-xs'>analyzed tokens</div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Total Bought
+          </div>
+          <div className='text-3xl font-bold'>{formatUsd(totalUsd)}</div>
+          <div className='text-muted-foreground text-xs'>
+            {totalTransactions} transactions
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='flex items-center justify-between'>
+            <div className='text-muted-foreground text-sm font-medium'>
+              Balance
+            </div>
+            <Button
+              variant='ghost'
+              size='icon'
+              className='h-6 w-6'
+              onClick={handleRefreshBalance}
+              disabled={refreshing}
+              title='Refresh balance'
+            >
+              <RefreshCw
+                className={`h-3 w-3 ${refreshing ? 'animate-spin' : ''}`}
+              />
+            </Button>
+          </div>
+          <div className='text-3xl font-bold' data-testid='wallet-balance'>
+            {formatUsd(profile.balanceUsd)}
+          </div>
+          <div className='text-muted-foreground text-xs'>
+            as of last refresh
+          </div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Watchlist
+          </div>
+          {profile.watchlist ? (
+            <>
+              <div
+                className='mt-1 text-sm break-words'
+                data-testid='watchlist-note'
+              >
+                {profile.watchlist.note || (
+                  <span className='text-muted-foreground'>No note</span>
+                )}
+              </div>
+              {profile.watchlist.registered_at && (
+                <div className='text-muted-foreground mt-1 text-xs'>
+                  Registered {formatTimestamp(profile.watchlist.registered_at)}
+                </div>
+              )}
+            </>
+          ) : (
+            <div className='text-muted-foreground mt-1 text-sm'>
+              Not monitored.{' '}
+              <Link href='/dashboard/watchlist' className='hover:underline'>
+                Open watchlist
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Tokens */}
+      <div className='bg-card rounded-lg border'>
+        <div className='border-b p-4'>
+          <h2 className='text-lg font-semibold'>Analyzed Tokens</h2>
+          <p className='text-muted-foreground text-sm'>
+            Tokens this wallet was an early buyer in
+          </p>
+        </div>
+        {profile.tokens.length === 0 ? (
+          <div className='text-muted-foreground py-12 text-center text-sm'>
+            This wallet hasn&apos;t appeared in any analyzed token
+          </div>
+        ) : (
+          <Table data-testid='wallet-tokens-table'>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Token</TableHead>
+                <TableHead>First Buy</TableHead>
+                <TableHead className='text-right'>Total USD</TableHead>
+                <TableHead className='text-right'>Transactions</TableHead>
+                <TableHead>Analyzed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profile.tokens.map(({ token, wallet }) => (
+                <TableRow key={token.id} data-testid='wallet-token-row'>
+                  <TableCell>
+                    <Link
+                      href={`/dashboard/tokens/${token.id}`}
+                      className='font-medium hover:underline'
+                    >
+                      {token.token_name || token.acronym}
+                    </Link>
+                    <div className='text-muted-foreground font-mono text-xs'>
+                      {token.token_symbol || token.acronym}
+                    </div>
+                  </TableCell>
+                  <TableCell className='text-sm'>
+                    {wallet ? formatTimestamp(wallet.first_buy_timestamp) : '-'}
+                  </TableCell>
+                  <TableCell className='text-right font-mono text-sm'>
+                    {formatUsd(wallet?.total_usd)}
+                  </TableCell>
+                  <TableCell className='text-right font-mono text-sm'>
+                    {wallet?.transaction_count ?? 'N/A'}
+                  </TableCell>
+                  <TableCell className='text-muted-foreground text-sm'>
+                    {formatTimestamp(token.analysis_timestamp)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  Token,
+  Wallet,
+  WalletTag,
+  WatchlistAddress,
+  getMultiTokenWallets,
+  getTokenById,
+  getTokens,
+  getWalletTags,
+  getWatchlistAddress,
+  isApiError
+} from '@/lib/api';
+
+/**
+ * One analyzed token the wallet was an early buyer in
+ */
+export interface WalletTokenEntry {
+  token: Token;
+  // The wallet's row in that token's analysis (null if the detail fetch failed)
+  wallet: Wallet | null;
+}
+
+export interface WalletProfile {
+  address: string;
+  tokens: WalletTokenEntry[];
+  tags: WalletTag[];
+  watchlist: WatchlistAddress | null;
+  balanceUsd: number | null;
+}
+
+/**
+ * Gather everything the backend knows about a wallet
+ *
+ * There's no per-wallet endpoint, so tokens come from `Token.wallet_addresses`
+ * plus `MultiTokenWallet.token_ids`, and each token's detail supplies the
+ * wallet's buy stats.
+ */
+export async function loadWalletProfile(
+  address: string
+): Promise<WalletProfile> {
+  const [tokensData, multiWallets, tags, watchlist] = await Promise.all([
+    getTokens(),
+    // Only lists wallets seen in 2+ tokens - optional extra coverage
+    getMultiTokenWallets(2).catch(() => null),
+    getWalletTags(address),
+    getWatchlistAddress(address).catch((error) => {
+      if (isApiError(error) && error.status === 404) return null;
+      throw error;
+    })
+  ]);
+
+  const multiEntry = multiWallets?.wallets.find(
+    (wallet) => wallet.wallet_address === address
+  );
+  const tokenIds = new Set(multiEntry?.token_ids ?? []);
+  const tokens = tokensData.tokens.filter(
+    (token) =>
+      tokenIds.has(token.id) || token.wallet_addresses?.includes(address)
+  );
+
+  const details = await Promise.allSettled(
+    tokens.map((token) => getTokenById(token.id))
+  );
+
+  const entries = tokens.map((token, index) => {
+    const detail = details[index];
+    const wallet =
+      detail.status === 'fulfilled'
+        ? (detail.value.wallets.find((w) => w.wallet_address === address) ??
+          null)
+        : null;
+    return { token, wallet };
+  });
+
+  // Earliest buy first, unknown buys last
+  entries.sort((a, b) => {
+    const aTime = a.wallet?.first_buy_timestamp;
+    const bTime = b.wallet?.first_buy_timestamp;
+    if (!aTime || !bTime) return aTime ? -1 : bTime ? 1 : 0;
+    return aTime.localeCompare(bTime);
+  });
+
+  const balanceUsd =
+    multiEntry?.wallet_balance_usd ??
+    entries.find((entry) => entry.wallet?.wallet_balance_usd != null)?.wallet
+      ?.wallet_balance_usd ??
+    null;
+
+  return { address, tokens: entries, tags, watchlist, balanceUsd };
+}
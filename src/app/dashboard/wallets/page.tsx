@@ -0,0 +1,7 @@
+import { redirect } from 'next/navigation';
+
+// Wallet profiles are reached from token details and the Codex; the
+// breadcrumb for /dashboard/wallets lands on the multi-token wallet list
+export default function WalletsPage() {
+  redirect('/dashboard/tokens');
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { FileUp, Upload } from 'lucide-react';
+import { importWatchlist } from '@/lib/api';
+import { parseWatchlistImport, ParsedWatchlistImport } from '@/lib/watchlist';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ImportWatchlistDialogProps {
+  onImported: () => void;
+}
+
+export function ImportWatchlistDialog({
+  onImported
+}: ImportWatchlistDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo<
+    ParsedWatchlistImport | { error: string } | null
+  >(() => {
+    if (!text.trim()) return null;
+    try {
+      return parseWatchlistImport(text);
+    } catch (error: any) {
+      return { error: error.message || 'Invalid JSON' };
+    }
+  }, [text]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleImport = async () => {
+    if (!parsed || 'error' in parsed || parsed.entries.length === 0) return;
+
+    setImporting(true);
+    try {
+      const result = await importWatchlist(parsed.entries);
+      toast.success(
+        result.message ||
+          `Imported ${result.added ?? parsed.entries.length} address(es)`
+      );
+      onImported();
+      setOpen(false);
+      setText('');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to import addresses');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant='outline' size='sm'>
+          <Upload className='mr-2 h-4 w-4' />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='sm:max-w-lg'>
+        <DialogHeader>
+          <DialogTitle>Import Addresses</DialogTitle>
+          <DialogDescription>
+            Paste an exported watchlist JSON file, or one address per line
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='space-y-2'>
+          <div className='flex items-center justify-between'>
+            <Label htmlFor='watchlist-import'>Addresses</Label>
+            <Button
+              type='button'
+              variant='ghost'
+              size='sm'
+              className='h-7 text-xs'
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileUp className='mr-1 h-3 w-3' />
+              Load File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept='.json,.txt,application/json,text/plain'
+              className='hidden'
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <Textarea
+            id='watchlist-import'
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder='{ "addresses": [{ "address": "...", "note": "..." }] }'
+            className='h-48 font-mono text-xs'
+          />
+          {parsed && 'error' in parsed && (
+            <p className='text-destructive text-xs'>{parsed.error}</p>
+          )}
+          {parsed && !('error' in parsed) && (
+            <p className='text-muted-foreground text-xs'>
+              {parsed.entries.length} valid address(es)
+              {parsed.invalid.length > 0 && (
+                <span className='text-destructive'>
+                  {' '}
+                  · {parsed.invalid.length} invalid skipped
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type='button'
+            variant='outline'
+            onClick={() => setOpen(false)}
+            disabled={importing}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={
+              importing ||
+              !parsed ||
+              'error' in parsed ||
+              parsed.entries.length === 0
+            }
+          >
+            {importing ? 'Importing...' : 'Import Addresses'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
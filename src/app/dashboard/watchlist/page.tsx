@@ -0,0 +1,372 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  getWatchlist,
+  getWatchlistAddress,
+  updateWatchlistNote,
+  removeWatchlistAddress,
+  clearWatchlist,
+  WatchlistAddress,
+  WatchlistResponse,
+  formatTimestamp
+} from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { toWatchlistExport } from '@/lib/watchlist';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertModal } from '@/components/modal/alert-modal';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Download, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { RegisterAddressDialog } from './register-address-dialog';
+import { ImportWatchlistDialog } from './import-watchlist-dialog';
+
+export default function WatchlistPage() {
+  const [data, setData] = useState<WatchlistResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [processingAddress, setProcessingAddress] = useState<string | null>(
+    null
+  );
+  const [clearModalOpen, setClearModalOpen] = useState(false);
+  const [clearing, setClearing] = useState(false);
+  const [editing, setEditing] = useState<WatchlistAddress | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  const fetchData = () => {
+    getWatchlist()
+      .then((watchlistData) => {
+        setData(watchlistData);
+        setError(null);
+      })
+      .catch(() => {
+        setError(
+          `Failed to load watchlist. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        );
+      })
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const existingAddresses = useMemo(
+    () => new Set(data?.addresses.map((entry) => entry.address) ?? []),
+    [data]
+  );
+
+  const handleRemove = async (entry: WatchlistAddress) => {
+    setProcessingAddress(entry.address);
+    try {
+      await removeWatchlistAddress(entry.address);
+      toast.success('Address removed from watchlist');
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove address');
+    } finally {
+      setProcessingAddress(null);
+    }
+  };
+
+  const handleClearAll = async () => {
+    setClearing(true);
+    try {
+      await clearWatchlist();
+      toast.success('Watchlist cleared');
+      setClearModalOpen(false);
+      fetchData();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to clear watchlist');
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  const openNoteEditor = (entry: WatchlistAddress) => {
+    setEditing(entry);
+    setNoteDraft(entry.note || '');
+  };
+
+  const handleSaveNote = async () => {
+    if (!editing) return;
+
+    setSavingNote(true);
+    try {
+      await updateWatchlistNote(editing.address, noteDraft.trim());
+      // Refresh only the edited row
+      const updated = await getWatchlistAddress(editing.address).catch(() => ({
+        ...editing,
+        note: noteDraft.trim() || null
+      }));
+      setData((prev) =>
+        prev
+          ? {
+              ...prev,
+              addresses: prev.addresses.map((entry) =>
+                entry.address === editing.address
+                  ? { ...entry, ...updated }
+                  : entry
+              )
+            }
+          : prev
+      );
+      toast.success('Note updated');
+      setEditing(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!data || data.addresses.length === 0) {
+      toast.error('Watchlist is empty');
+      return;
+    }
+
+    const payload = toWatchlistExport(data.addresses);
+    const blob = new Blob([JSON.stringify(payload, null, 2)], {
+      type: 'application/json'
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `watchlist_export_${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading watchlist...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching monitored addresses
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Failed to load watchlist'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h1 className='text-3xl font-bold tracking-tight'>Watchlist</h1>
+          <p className='text-muted-foreground'>
+            Monitor wallet addresses and manage notes
+          </p>
+        </div>
+        <div className='flex items-center gap-2'>
+          <RegisterAddressDialog
+            existingAddresses={existingAddresses}
+            onRegistered={fetchData}
+          />
+          <ImportWatchlistDialog onImported={fetchData} />
+          <Button variant='outline' size='sm' onClick={handleExport}>
+            <Download className='mr-2 h-4 w-4' />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats Card */}
+      <div className='bg-card rounded-lg border p-6'>
+        <div className='flex items-center justify-between'>
+          <div>
+            <div className='text-muted-foreground text-sm font-medium'>
+              Monitored Addresses
+            </div>
+            <div className='text-3xl font-bold'>{data.total}</div>
+          </div>
+          {data.total > 0 && (
+            <Button
+              variant='destructive'
+              onClick={() => setClearModalOpen(true)}
+              disabled={clearing}
+            >
+              <Trash2 className='mr-2 h-4 w-4' />
+              Clear All
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Watchlist Table */}
+      {data.addresses.length === 0 ? (
+        <div className='bg-card rounded-lg border p-12 text-center'>
+          <div className='text-muted-foreground'>
+            Watchlist is empty. Registered addresses will appear here.
+          </div>
+        </div>
+      ) : (
+        <div className='overflow-hidden rounded-md border'>
+          <div className='max-h-[calc(100vh-400px)] max-w-full overflow-auto'>
+            <Table className='w-full'>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className='text-right'>Threshold</TableHead>
+                  <TableHead className='text-right'>Notifications</TableHead>
+                  <TableHead>Last Notification</TableHead>
+                  <TableHead>Registered</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.addresses.map((entry) => (
+                  <TableRow key={entry.address} data-testid='watchlist-item'>
+                    <TableCell>
+                      <a
+                        href={`https://solscan.io/account/${entry.address}`}
+                        target='_blank'
+                        rel='noopener noreferrer'
+                        className='text-primary font-mono text-sm hover:underline'
+                        title={entry.address}
+                      >
+                        {entry.address.slice(0, 8)}...
+                        {entry.address.slice(-6)}
+                      </a>
+                    </TableCell>
+                    <TableCell>
+                      <div className='max-w-[240px] truncate text-sm'>
+                        {entry.note || (
+                          <span className='text-muted-foreground'>-</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className='text-right font-mono text-sm'>
+                      {entry.threshold ?? '-'}
+                    </TableCell>
+                    <TableCell className='text-right font-mono text-sm'>
+                      {entry.total_notifications ?? 0}
+                    </TableCell>
+                    <TableCell>
+                      <div className='text-muted-foreground text-xs'>
+                        {entry.last_notification
+                          ? formatTimestamp(entry.last_notification)
+                          : 'Never'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className='text-muted-foreground text-xs'>
+                        {entry.registered_at
+                          ? formatTimestamp(entry.registered_at)
+                          : '-'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className='flex gap-2'>
+                        <Button
+                          variant='outline'
+                          size='sm'
+                          className='h-8'
+                          onClick={() => openNoteEditor(entry)}
+                          disabled={processingAddress === entry.address}
+                        >
+                          <Pencil className='mr-1 h-4 w-4' />
+                          Edit
+                        </Button>
+                        <Button
+                          variant='destructive'
+                          size='sm'
+                          className='h-8'
+                          onClick={() => handleRemove(entry)}
+                          disabled={processingAddress === entry.address}
+                        >
+                          <Trash2 className='mr-1 h-4 w-4' />
+                          Remove
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {/* Edit Note Dialog */}
+      <Dialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+      >
+        <DialogContent className='sm:max-w-md'>
+          <DialogHeader>
+            <DialogTitle>Edit Note</DialogTitle>
+          </DialogHeader>
+          <div className='space-y-2'>
+            <Label htmlFor='watchlist-note'>Note</Label>
+            <Input
+              id='watchlist-note'
+              value={noteDraft}
+              onChange={(e) => setNoteDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSaveNote();
+              }}
+              maxLength={200}
+              autoFocus
+            />
+            <p className='text-muted-foreground font-mono text-xs break-all'>
+              {editing?.address}
+            </p>
+          </div>
+          <DialogFooter>
+            <Button
+              variant='outline'
+              onClick={() => setEditing(null)}
+              disabled={savingNote}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSaveNote} disabled={savingNote}>
+              {savingNote ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertModal
+        isOpen={clearModalOpen}
+        onClose={() => setClearModalOpen(false)}
+        onConfirm={handleClearAll}
+        loading={clearing}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { toast } from 'sonner';
+import { Plus } from 'lucide-react';
+import { registerWatchlistAddress } from '@/lib/api';
+import { isValidSolanaAddress } from '@/lib/solana';
+import { setApiFieldErrors } from '@/lib/form-errors';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Form } from '@/components/ui/form';
+import { FormInput } from '@/components/forms/form-input';
+
+const registerFormSchema = z.object({
+  address: z
+    .string()
+    .trim()
+    .min(1, 'Wallet address is required')
+    .refine(isValidSolanaAddress, 'Not a valid Solana (base58) address'),
+  note: z.string().trim().max(200, 'Note must be 200 characters or less')
+});
+
+type RegisterFormData = z.infer<typeof registerFormSchema>;
+
+interface RegisterAddressDialogProps {
+  existingAddresses: Set<string>;
+  onRegistered: () => void;
+}
+
+export function RegisterAddressDialog({
+  existingAddresses,
+  onRegistered
+}: RegisterAddressDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<RegisterFormData>({
+    resolver: zodResolver(registerFormSchema),
+    defaultValues: { address: '', note: '' }
+  });
+
+  useEffect(() => {
+    if (open) form.reset({ address: '', note: '' });
+  }, [open, form]);
+
+  const onSubmit = async (values: RegisterFormData) => {
+    if (existingAddresses.has(values.address)) {
+      form.setError('address', {
+        message: 'Address is already in watchlist'
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await registerWatchlistAddress(values.address, values.note);
+      toast.success('Address registered');
+      onRegistered();
+      setOpen(false);
+    } catch (error: any) {
+      if (
+        !setApiFieldErrors(form.setError, error, {
+          address: 'address',
+          note: 'note'
+        })
+      ) {
+        toast.error(error.message || 'Failed to register address');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size='sm'>
+          <Plus className='mr-2 h-4 w-4' />
+          Register Address
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='sm:max-w-md'>
+        <DialogHeader>
+          <DialogTitle>Register Address</DialogTitle>
+          <DialogDescription>
+            Monitor a wallet address for new activity
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form
+          form={form}
+          onSubmit={form.handleSubmit(onSubmit)}
+          className='space-y-4'
+        >
+          <FormInput
+            control={form.control}
+            name='address'
+            label='Wallet Address'
+            placeholder='Solana wallet address'
+            required
+          />
+          <FormInput
+            control={form.control}
+            name='note'
+            label='Note'
+            placeholder='Optional note'
+          />
+          <DialogFooter>
+            <Button
+              type='button'
+              variant='outline'
+              onClick={() => setOpen(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button type='submit' disabled={submitting}>
+              {submitting ? 'Registering...' : 'Register'}
+            </Button>
+          </DialogFooter>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  getWebhooks,
+  getWebhook,
+  deleteWebhook,
+  getTokens,
+  HeliusWebhook,
+  Token
+} from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Info, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface TokenMatch {
+  token: Token;
+  overlap: number;
+}
+
+/**
+ * Find the analyzed token whose wallets best overlap a webhook's addresses
+ */
+function matchToken(
+  webhook: HeliusWebhook,
+  tokens: Token[]
+): TokenMatch | null {
+  const addresses = new Set(webhook.accountAddresses || []);
+  let best: TokenMatch | null = null;
+
+  tokens.forEach((token) => {
+    const overlap = (token.wallet_addresses || []).filter((address) =>
+      addresses.has(address)
+    ).length;
+    if (overlap > 0 && (!best || overlap > best.overlap)) {
+      best = { token, overlap };
+    }
+  });
+
+  return best;
+}
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<HeliusWebhook[] | null>(null);
+  const [tokens, setTokens] = useState<Token[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [detailsId, setDetailsId] = useState<string | null>(null);
+  const [details, setDetails] = useState<HeliusWebhook | null>(null);
+  const [loadingDetails, setLoadingDetails] = useState(false);
+
+  const fetchData = () => {
+    setLoading(true);
+    Promise.all([getWebhooks(), getTokens().catch(() => null)])
+      .then(([webhooksData, tokensData]) => {
+        setWebhooks(webhooksData);
+        setTokens(tokensData?.tokens || []);
+        setError(null);
+      })
+      .catch(() => {
+        setError(
+          `Failed to load webhooks. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        );
+      })
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const matches = useMemo(() => {
+    const result: Record<string, TokenMatch | null> = {};
+    webhooks?.forEach((webhook) => {
+      result[webhook.webhookID] = matchToken(webhook, tokens);
+    });
+    return result;
+  }, [webhooks, tokens]);
+
+  const openDetails = (webhookId: string) => {
+    setDetailsId(webhookId);
+    setDetails(null);
+    setLoadingDetails(true);
+    getWebhook(webhookId)
+      .then(setDetails)
+      .catch(() => toast.error('Failed to load webhook details'))
+      .finally(() => setLoadingDetails(false));
+  };
+
+  const handleDelete = async (webhook: HeliusWebhook) => {
+    const tokenName = matches[webhook.webhookID]?.token.token_name;
+    if (
+      !window.confirm(
+        `Delete webhook ${webhook.webhookID}${tokenName ? ` for "${tokenName}"` : ''}?\n\nWallets will no longer be monitored.`
+      )
+    ) {
+      return;
+    }
+
+    setProcessingId(webhook.webhookID);
+    try {
+      await deleteWebhook(webhook.webhookID);
+      toast.success('Webhook deleted');
+      setWebhooks((prev) =>
+        prev ? prev.filter((w) => w.webhookID !== webhook.webhookID) : prev
+      );
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete webhook');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading && !webhooks) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-lg font-medium'>Loading webhooks...</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            Fetching Helius webhooks
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !webhooks) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>
+            {error || 'Failed to load webhooks'}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const monitoredTokenCount = new Set(
+    Object.values(matches)
+      .filter(Boolean)
+      .map((match) => match!.token.id)
+  ).size;
+
+  return (
+    <div className='flex h-full flex-col space-y-4'>
+      <div className='flex items-center justify-between'>
+        <div>
+          <h1 className='text-3xl font-bold tracking-tight'>Webhooks</h1>
+          <p className='text-muted-foreground'>
+            Helius webhooks monitoring early bidder wallets
+          </p>
+        </div>
+        <Button
+          variant='outline'
+          size='sm'
+          onClick={fetchData}
+          disabled={loading}
+        >
+          <RefreshCw
+            className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`}
+          />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className='grid gap-4 md:grid-cols-3'>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Active Webhooks
+          </div>
+          <div className='text-3xl font-bold'>{webhooks.length}</div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Monitored Tokens
+          </div>
+          <div className='text-3xl font-bold'>{monitoredTokenCount}</div>
+        </div>
+        <div className='bg-card rounded-lg border p-6'>
+          <div className='text-muted-foreground text-sm font-medium'>
+            Monitored Wallets
+          </div>
+          <div className='text-3xl font-bold'>
+            {new Set(webhooks.flatMap((w) => w.accountAddresses || [])).size}
+          </div>
+        </div>
+      </div>
+
+      {webhooks.length === 0 ? (
+        <div className='bg-card rounded-lg border p-12 text-center'>
+          <div className='text-muted-foreground'>
+            No webhooks yet. Use &quot;Monitor wallets via webhook&quot; in a
+            token&apos;s details to create one.
+          </div>
+        </div>
+      ) : (
+        <div className='overflow-hidden rounded-md border'>
+          <div className='max-h-[calc(100vh-400px)] max-w-full overflow-auto'>
+            <Table className='w-full'>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Webhook ID</TableHead>
+                  <TableHead>Token</TableHead>
+                  <TableHead className='text-right'>Wallets</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Callback URL</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => {
+                  const match = matches[webhook.webhookID];
+                  return (
+                    <TableRow key={webhook.webhookID} data-testid='webhook-row'>
+                      <TableCell>
+                        <code className='text-xs'>{webhook.webhookID}</code>
+                      </TableCell>
+                      <TableCell>
+                        {match ? (
+                          <div className='flex items-center gap-2'>
+                            <span className='text-sm font-medium'>
+                              {match.token.token_name || 'Unknown'}
+                            </span>
+                            <Badge
+                              variant='secondary'
+                              className='font-mono text-xs'
+                            >
+                              {match.token.acronym}
+                            </Badge>
+                          </div>
+                        ) : (
+                          <span className='text-muted-foreground text-xs'>
+                            No matching token
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className='text-right font-mono text-sm'>
+                        {match
+                          ? `${match.overlap}/${webhook.accountAddresses?.length || 0}`
+                          : webhook.accountAddresses?.length || 0}
+                      </TableCell>
+                      <TableCell>
+                        <div className='flex flex-wrap gap-1'>
+                          {webhook.webhookType && (
+                            <Badge variant='outline' className='text-xs'>
+                              {webhook.webhookType}
+                            </Badge>
+                          )}
+                          {webhook.transactionTypes?.map((type) => (
+                            <Badge
+                              key={type}
+                              variant='secondary'
+                              className='text-xs'
+                            >
+                              {type}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className='text-muted-foreground max-w-[260px] truncate font-mono text-xs'>
+                          {webhook.webhookURL}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className='flex gap-2'>
+                          <Button
+                            variant='outline'
+                            size='sm'
+                            className='h-8'
+                            onClick={() => openDetails(webhook.webhookID)}
+                          >
+                            <Info className='mr-1 h-4 w-4' />
+                            Details
+                          </Button>
+                          <Button
+                            variant='destructive'
+                            size='sm'
+                            className='h-8'
+                            onClick={() => handleDelete(webhook)}
+                            disabled={processingId === webhook.webhookID}
+                          >
+                            <Trash2 className='mr-1 h-4 w-4' />
+                            Delete
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {/* Webhook Details Dialog */}
+      <Dialog
+        open={detailsId !== null}
+        onOpenChange={(open) => !open && setDetailsId(null)}
+      >
+        <DialogContent className='max-h-[85vh] overflow-y-auto sm:max-w-2xl'>
+          <DialogHeader>
+            <DialogTitle>Webhook Details</DialogTitle>
+            <DialogDescription className='font-mono text-xs'>
+              {detailsId}
+            </DialogDescription>
+          </DialogHeader>
+          {loadingDetails ? (
+            <div className='text-muted-foreground py-8 text-center text-sm'>
+              Loading webhook details...
+            </div>
+          ) : details ? (
+            <div className='space-y-4'>
+              <div className='grid grid-cols-2 gap-4 text-sm'>
+                <div>
+                  <div className='text-muted-foreground text-xs'>Type</div>
+                  <div>{details.webhookType || '-'}</div>
+                </div>
+                <div>
+                  <div className='text-muted-foreground text-xs'>
+                    Transaction Types
+                  </div>
+                  <div>{details.transactionTypes?.join(', ') || '-'}</div>
+                </div>
+                <div className='col-span-2'>
+                  <div className='text-muted-foreground text-xs'>
+                    Callback URL
+                  </div>
+                  <code className='text-xs break-all'>
+                    {details.webhookURL}
+                  </code>
+                </div>
+              </div>
+              <div>
+                <div className='text-muted-foreground mb-2 text-xs'>
+                  Account Addresses ({details.accountAddresses?.length || 0})
+                </div>
+                <div className='bg-muted max-h-64 space-y-1 overflow-y-auto rounded p-3'>
+                  {details.accountAddresses?.map((address) => (
+                    <a
+                      key={address}
+                      href={`https://solscan.io/account/${address}`}
+                      target='_blank'
+                      rel='noopener noreferrer'
+                      className='text-primary block font-mono text-xs hover:underline'
+                    >
+                      {address}
+                    </a>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className='text-muted-foreground py-8 text-center text-sm'>
+              No details available
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import Providers from '@/components/layout/providers';
 import { Toaster } from '@/components/ui/sonner';
 import { fontVariables } from '@/lib/font';
+import { getRuntimeConfigScript } from '@/lib/runtime-config';
 import ThemeProvider from '@/components/layout/ThemeToggle/theme-provider';
 import { cn } from '@/lib/utils';
 import type { Metadata, Viewport } from 'next';
@@ -36,6 +37,10 @@ export default async function RootLayout({
   return (
     <html lang='en' suppressHydrationWarning>
       <head>
+        {/* Backend URLs from env, read per request so images aren't tied to one backend */}
+        <script
+          dangerouslySetInnerHTML={{ __html: getRuntimeConfigScript() }}
+        />
         <script
           dangerouslySetInnerHTML={{
             __html: `
@@ -1,7 +1,13 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { getWalletTags, addWalletTag, removeWalletTag } from '@/lib/api';
+import { useState } from 'react';
+import Link from 'next/link';
+import { addWalletTag, removeWalletTag } from '@/lib/api';
+import {
+  isCategoryTag,
+  useTagTaxonomy,
+  walletCategories
+} from '@/lib/tag-taxonomy';
 import { Button } from '@/components/ui/button';
 import { Tags } from 'lucide-react';
 import { toast } from 'sonner';
@@ -13,6 +19,10 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { useWalletTags } from '@/contexts/WalletTagsContext';
+import {
+  TagCategoryIcon,
+  TagCategoryIndicators
+} from '@/components/tag-category';
 
 interface AdditionalTagsPopoverProps {
   walletId?: number;
@@ -28,19 +38,24 @@ export function AdditionalTagsPopover({
   const { tags: allTags } = useWalletTags(walletAddress);
   const [loading, setLoading] = useState(false);
 
-  // Extract only additional tags (bot, whale, insider) from context
+  const categories = useTagTaxonomy((state) => state.categories);
+
+  // Only tags with a category are toggled here - the rest are free-form
   const tags = new Set(
     allTags
-      .filter((t) => ['bot', 'whale', 'insider'].includes(t.tag.toLowerCase()))
+      .filter((t) => isCategoryTag(categories, t.tag))
       .map((t) => t.tag.toLowerCase())
   );
 
   const toggleTag = async (tag: string) => {
     setLoading(true);
     try {
-      const tagLower = tag.toLowerCase();
-      if (tags.has(tagLower)) {
-        await removeWalletTag(walletAddress, tag);
+      const existing = allTags.find(
+        (t) => t.tag.toLowerCase() === tag.toLowerCase()
+      );
+      if (existing) {
+        // Remove with the stored spelling in case it differs in case
+        await removeWalletTag(walletAddress, existing.tag);
         toast.success(`Removed ${tag} tag`);
       } else {
         await addWalletTag(walletAddress, tag, false);
@@ -71,94 +86,63 @@ export function AdditionalTagsPopover({
           <Tags className={iconClass} />
         </Button>
       </PopoverTrigger>
-      <PopoverContent className='w-48'>
+      <PopoverContent className='w-56'>
         <div className='space-y-3'>
           <h4 className='text-sm font-semibold'>Additional Tags</h4>
           <div className='space-y-2'>
-            <div className='flex items-center space-x-2'>
-              <Checkbox
-                id={`bot-${uniqueId}`}
-                checked={tags.has('bot')}
-                onCheckedChange={() => toggleTag('Bot')}
-                disabled={loading}
-              />
-              <Label
-                htmlFor={`bot-${uniqueId}`}
-                className='cursor-pointer text-sm'
+            {categories.map((category) => (
+              <div
+                key={category.id}
+                className='flex items-center space-x-2'
+                title={category.description}
               >
-                Bot
-              </Label>
-            </div>
-            <div className='flex items-center space-x-2'>
-              <Checkbox
-                id={`whale-${uniqueId}`}
-                checked={tags.has('whale')}
-                onCheckedChange={() => toggleTag('Whale')}
-                disabled={loading}
-              />
-              <Label
-                htmlFor={`whale-${uniqueId}`}
-                className='cursor-pointer text-sm'
-              >
-                Whale
-              </Label>
-            </div>
-            <div className='flex items-center space-x-2'>
-              <Checkbox
-                id={`insider-${uniqueId}`}
-                checked={tags.has('insider')}
-                onCheckedChange={() => toggleTag('Insider')}
-                disabled={loading}
-              />
-              <Label
-                htmlFor={`insider-${uniqueId}`}
-                className='cursor-pointer text-sm'
-              >
-                Insider
-              </Label>
-            </div>
+                <Checkbox
+                  id={`${category.id}-${uniqueId}`}
+                  checked={tags.has(category.tag.toLowerCase())}
+                  onCheckedChange={() => toggleTag(category.tag)}
+                  disabled={loading}
+                />
+                <Label
+                  htmlFor={`${category.id}-${uniqueId}`}
+                  className='cursor-pointer text-sm'
+                >
+                  <TagCategoryIcon category={category} />
+                  {category.tag}
+                </Label>
+              </div>
+            ))}
+            {categories.length === 0 && (
+              <p className='text-muted-foreground text-xs'>
+                No tag categories defined
+              </p>
+            )}
           </div>
+          <Link
+            href='/dashboard/tags'
+            className='text-muted-foreground block text-xs hover:underline'
+          >
+            Manage categories
+          </Link>
         </div>
       </PopoverContent>
     </Popover>
   );
 }
 
-// Hook to check if a wallet has specific additional tags
-export function useWalletBotTag(walletAddress: string) {
-  const [isBot, setIsBot] = useState(false);
-
-  const checkBotTag = async () => {
-    try {
-      const walletTags = await getWalletTags(walletAddress);
-      const hasBot = walletTags.some((t) => t.tag.toLowerCase() === 'bot');
-      setIsBot(hasBot);
-    } catch (error) {}
-  };
-
-  useEffect(() => {
-    checkBotTag();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [walletAddress]);
-
-  return isBot;
-}
-
-// Component to display wallet address with bot emoji if tagged
-export function WalletAddressWithBotIndicator({
+// Component to display wallet address with an icon per tag category
+export function WalletAddressWithTagIndicator({
   walletAddress,
   children
 }: {
   walletAddress: string;
   children: React.ReactNode;
-  onTagsChange?: () => void;
 }) {
   const { tags } = useWalletTags(walletAddress);
-  const isBot = tags.some((t) => t.tag.toLowerCase() === 'bot');
+  const categories = useTagTaxonomy((state) => state.categories);
 
   return (
     <>
-      {isBot && <span className='mr-1'>🤖</span>}
+      <TagCategoryIndicators categories={walletCategories(categories, tags)} />
       {children}
     </>
   );
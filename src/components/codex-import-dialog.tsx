@@ -0,0 +1,385 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Upload } from 'lucide-react';
+import { CodexWallet } from '@/lib/api';
+import {
+  CodexChange,
+  ParsedCodexImport,
+  codexImportSteps,
+  diffCodexImport,
+  parseCodexImport
+} from '@/lib/codex-transfer';
+import { TagRunProgress, runTagPlan } from '@/lib/tag-admin';
+import { FileUploader } from '@/components/file-uploader';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+
+const STATUS_LABELS: Record<CodexChange['status'], string> = {
+  new: 'New',
+  duplicate: 'Duplicate',
+  conflict: 'Conflict'
+};
+
+interface ImportReport {
+  applied: number;
+  failed: number;
+  // Wallets whose failed change couldn't be undone
+  partial: string[];
+  duplicates: number;
+  skipped: number;
+}
+
+interface CodexImportDialogProps {
+  wallets: CodexWallet[];
+  onImported: () => void;
+}
+
+export function CodexImportDialog({
+  wallets,
+  onImported
+}: CodexImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [preview, setPreview] = useState<
+    | { parsed: ParsedCodexImport; changes: CodexChange[] }
+    | { error: string }
+    | null
+  >(null);
+  // Indexes into `changes` the user approved
+  const [approved, setApproved] = useState<Set<number>>(new Set());
+  const [progress, setProgress] = useState<TagRunProgress | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const running = progress !== null && report === null;
+
+  const parsed = preview && 'parsed' in preview ? preview.parsed : null;
+  const changes = preview && 'changes' in preview ? preview.changes : [];
+  const counts = {
+    new: changes.filter((c) => c.status === 'new').length,
+    duplicate: changes.filter((c) => c.status === 'duplicate').length,
+    conflict: changes.filter((c) => c.status === 'conflict').length
+  };
+
+  // The diff is taken once per file, against the Codex as it was loaded
+  const handleFiles = async (next: File[]) => {
+    setFiles(next);
+    setProgress(null);
+    setReport(null);
+    setApproved(new Set());
+    if (!next[0]) {
+      setPreview(null);
+      return;
+    }
+    try {
+      const result = parseCodexImport(await next[0].text());
+      const diff = diffCodexImport(result.rows, wallets);
+      setPreview({ parsed: result, changes: diff });
+      // New tags are approved by default; conflicts overwrite, so opt in
+      setApproved(
+        new Set(
+          diff.flatMap((change, i) => (change.status === 'new' ? [i] : []))
+        )
+      );
+    } catch (error: any) {
+      setPreview({ error: error.message || 'Invalid file' });
+    }
+  };
+
+  const toggle = (index: number) => {
+    const next = new Set(approved);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setApproved(next);
+  };
+
+  const selectStatus = (status: CodexChange['status'], select: boolean) => {
+    const next = new Set(approved);
+    changes.forEach((change, i) => {
+      if (change.status !== status) return;
+      if (select) {
+        next.add(i);
+      } else {
+        next.delete(i);
+      }
+    });
+    setApproved(next);
+  };
+
+  const handleApply = async () => {
+    const selected = changes.filter((_, i) => approved.has(i));
+    if (selected.length === 0) return;
+
+    const result = await runTagPlan(
+      { steps: codexImportSteps(selected) },
+      setProgress
+    );
+    setReport({
+      applied: result.done - result.failed,
+      failed: result.failed,
+      partial: result.partial,
+      duplicates: counts.duplicate,
+      skipped: counts.new + counts.conflict - selected.length
+    });
+    if (result.partial.length > 0) {
+      toast.error(
+        `${result.partial.length} wallet(s) left half-changed - check their tags`
+      );
+    } else if (result.failed > 0) {
+      toast.error(`${result.failed} change(s) failed to import`);
+    } else {
+      toast.success(`Imported ${result.done} change(s)`);
+    }
+    onImported();
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (running) return;
+    setOpen(next);
+    if (!next) handleFiles([]);
+  };
+
+  const reviewable = changes
+    .map((change, index) => ({ change, index }))
+    .filter(({ change }) => change.status !== 'duplicate');
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant='outline' size='sm'>
+          <Upload className='mr-1 h-4 w-4' />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className='sm:max-w-2xl' data-testid='codex-import-dialog'>
+        <DialogHeader>
+          <DialogTitle>Import Codex</DialogTitle>
+          <DialogDescription>
+            Load a Codex export (JSON or CSV), review the changes, then apply
+            the ones you approve
+          </DialogDescription>
+        </DialogHeader>
+
+        {files.length === 0 ? (
+          <FileUploader
+            value={files}
+            onValueChange={(next) =>
+              handleFiles(typeof next === 'function' ? next(files) : next)
+            }
+            accept={{
+              'application/json': ['.json'],
+              'text/csv': ['.csv']
+            }}
+            maxSize={1024 * 1024 * 5}
+            className='h-40'
+          />
+        ) : (
+          <div className='flex items-center justify-between text-sm'>
+            <span className='truncate font-medium'>{files[0].name}</span>
+            <Button
+              variant='ghost'
+              size='sm'
+              className='h-7 text-xs'
+              onClick={() => handleFiles([])}
+              disabled={running}
+            >
+              Choose another file
+            </Button>
+          </div>
+        )}
+
+        {preview && 'error' in preview && (
+          <p className='text-destructive text-xs'>{preview.error}</p>
+        )}
+
+        {/* Diff */}
+        {parsed && (
+          <div className='space-y-2' data-testid='codex-import-preview'>
+            <div className='flex flex-wrap gap-3 text-xs'>
+              <span className='text-green-600' data-testid='codex-import-new'>
+                {counts.new} new
+              </span>
+              <span
+                className='text-muted-foreground'
+                data-testid='codex-import-duplicates'
+              >
+                {counts.duplicate} duplicate(s)
+              </span>
+              <span
+                className='text-amber-600'
+                data-testid='codex-import-conflicts'
+              >
+                {counts.conflict} conflict(s)
+              </span>
+              {parsed.invalid.length > 0 && (
+                <span className='text-destructive'>
+                  {parsed.invalid.length} invalid row(s) skipped
+                </span>
+              )}
+            </div>
+
+            {reviewable.length > 0 && !progress && (
+              <div className='flex flex-wrap gap-2'>
+                {counts.new > 0 && (
+                  <>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      className='h-7 text-xs'
+                      onClick={() => selectStatus('new', true)}
+                    >
+                      All new
+                    </Button>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      className='h-7 text-xs'
+                      onClick={() => selectStatus('new', false)}
+                    >
+                      No new
+                    </Button>
+                  </>
+                )}
+                {counts.conflict > 0 && (
+                  <>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      className='h-7 text-xs'
+                      onClick={() => selectStatus('conflict', true)}
+                    >
+                      All conflicts
+                    </Button>
+                    <Button
+                      variant='outline'
+                      size='sm'
+                      className='h-7 text-xs'
+                      onClick={() => selectStatus('conflict', false)}
+                    >
+                      No conflicts
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            {reviewable.length > 0 && (
+              <div className='max-h-64 overflow-y-auto rounded-md border text-xs'>
+                {reviewable.map(({ change, index }) => (
+                  <label
+                    key={index}
+                    className='flex cursor-pointer items-center gap-2 border-b px-2 py-1.5 last:border-0'
+                    data-testid='codex-import-change'
+                    data-status={change.status}
+                  >
+                    <Checkbox
+                      checked={approved.has(index)}
+                      onCheckedChange={() => toggle(index)}
+                      disabled={progress !== null}
+                    />
+                    <span
+                      className={cn(
+                        'w-16 shrink-0 font-medium',
+                        change.status === 'new'
+                          ? 'text-green-600'
+                          : 'text-amber-600'
+                      )}
+                    >
+                      {STATUS_LABELS[change.status]}
+                    </span>
+                    <span className='min-w-0 flex-1 truncate font-mono'>
+                      {change.row.wallet_address}
+                    </span>
+                    <span className='shrink-0'>
+                      {change.row.tag}
+                      {change.status === 'conflict'
+                        ? ` · KOL ${change.current?.is_kol ? 'yes' : 'no'} → ${change.row.is_kol ? 'yes' : 'no'}`
+                        : change.row.is_kol && ' · KOL'}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {progress && (
+          <div className='space-y-1' data-testid='codex-import-progress'>
+            <Progress
+              value={
+                progress.total > 0
+                  ? (progress.done / progress.total) * 100
+                  : 100
+              }
+            />
+            <p className='text-muted-foreground text-xs'>
+              {progress.done} / {progress.total} change(s)
+            </p>
+          </div>
+        )}
+
+        {report && (
+          <div
+            className='bg-muted/50 rounded-md p-3 text-sm'
+            data-testid='codex-import-report'
+          >
+            <div className='font-medium'>Import finished</div>
+            <ul className='text-muted-foreground mt-1 space-y-0.5 text-xs'>
+              <li>{report.applied} change(s) applied</li>
+              {report.failed > 0 && (
+                <li className='text-destructive'>
+                  {report.failed} failed and left unchanged
+                  {report.partial.length > 0 &&
+                    `, except ${report.partial.length} that couldn't be restored:`}
+                </li>
+              )}
+              {report.partial.map((address) => (
+                <li
+                  key={address}
+                  className='text-destructive truncate pl-2 font-mono'
+                  data-testid='codex-import-partial'
+                >
+                  {address}
+                </li>
+              ))}
+              <li>{report.duplicates} duplicate(s) already in the Codex</li>
+              <li>{report.skipped} change(s) not approved</li>
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant='outline'
+            onClick={() => handleOpenChange(false)}
+            disabled={running}
+          >
+            {report ? 'Close' : 'Cancel'}
+          </Button>
+          {!report && (
+            <Button
+              onClick={handleApply}
+              disabled={running || approved.size === 0}
+            >
+              {running ? 'Importing...' : `Apply ${approved.size} change(s)`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,7 +10,8 @@ import {
   SheetTitle
 } from '@/components/ui/sheet';
 import { Input } from '@/components/ui/input';
-import { Search, Tag } from 'lucide-react';
+import { WalletTagBadge } from '@/components/tag-category';
+import { Search } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface CodexModalProps {
@@ -111,18 +112,7 @@ export function CodexModal({ open, onOpenChange }: CodexModalProps) {
                 </div>
                 <div className='flex flex-wrap items-center gap-1'>
                   {wallet.tags.map((tagObj) => (
-                    <span
-                      key={tagObj.tag}
-                      className={`flex items-center gap-1 rounded px-2 py-0.5 text-xs ${
-                        tagObj.is_kol
-                          ? 'bg-amber-500/20 font-semibold text-amber-700 dark:text-amber-400'
-                          : 'bg-primary/10 text-primary'
-                      }`}
-                    >
-                      <Tag className='h-3 w-3' />
-                      {tagObj.is_kol && '★ '}
-                      {tagObj.tag}
-                    </span>
+                    <WalletTagBadge key={tagObj.tag} tag={tagObj} />
                   ))}
                 </div>
               </div>
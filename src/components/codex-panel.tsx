@@ -1,11 +1,28 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { getCodexWallets, CodexWallet } from '@/lib/api';
 import { Input } from '@/components/ui/input';
-import { Search, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SmartMoneyScore } from '@/components/smart-money-score';
+import {
+  TagCategoryIndicators,
+  WalletTagBadge
+} from '@/components/tag-category';
+import { useSmartMoneyScores } from '@/hooks/use-smart-money-scores';
+import { CodexImportDialog } from '@/components/codex-import-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ArrowUpDown, Download, Search, UserRound, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { useTagTaxonomy, walletCategories } from '@/lib/tag-taxonomy';
+import { toCodexCsv, toCodexJson, toCodexRows } from '@/lib/codex-transfer';
 
 interface CodexPanelProps {
   open: boolean;
@@ -17,6 +34,9 @@ export function CodexPanel({ open, onClose }: CodexPanelProps) {
   const [filteredWallets, setFilteredWallets] = useState<CodexWallet[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sortByScore, setSortByScore] = useState(false);
+  const scores = useSmartMoneyScores(open);
+  const categories = useTagTaxonomy((state) => state.categories);
 
   useEffect(() => {
     if (open) {
@@ -25,21 +45,32 @@ export function CodexPanel({ open, onClose }: CodexPanelProps) {
   }, [open]);
 
   useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredWallets(wallets);
-      return;
-    }
+    const query = searchQuery.trim().toLowerCase();
+    const filtered = query
+      ? wallets.filter((wallet) => {
+          const addressMatch = wallet.wallet_address
+            .toLowerCase()
+            .includes(query);
+          const tagMatch = wallet.tags.some((tag) =>
+            tag.tag.toLowerCase().includes(query)
+          );
+          return addressMatch || tagMatch;
+        })
+      : wallets;
 
-    const query = searchQuery.toLowerCase();
-    const filtered = wallets.filter((wallet) => {
-      const addressMatch = wallet.wallet_address.toLowerCase().includes(query);
-      const tagMatch = wallet.tags.some((tag) =>
-        tag.tag.toLowerCase().includes(query)
+    // Highest smart money score first; unscored wallets last
+    if (sortByScore && scores) {
+      setFilteredWallets(
+        [...filtered].sort(
+          (a, b) =>
+            (scores[b.wallet_address]?.score ?? -1) -
+            (scores[a.wallet_address]?.score ?? -1)
+        )
       );
-      return addressMatch || tagMatch;
-    });
-    setFilteredWallets(filtered);
-  }, [searchQuery, wallets]);
+    } else {
+      setFilteredWallets(filtered);
+    }
+  }, [searchQuery, wallets, sortByScore, scores]);
 
   const loadWallets = async () => {
     setLoading(true);
@@ -54,6 +85,20 @@ export function CodexPanel({ open, onClose }: CodexPanelProps) {
     }
   };
 
+  const handleExport = (format: 'json' | 'csv') => {
+    const rows = toCodexRows(wallets);
+    const blob =
+      format === 'json'
+        ? new Blob([toCodexJson(rows)], { type: 'application/json' })
+        : new Blob([toCodexCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `codex_export_${new Date().toISOString().slice(0, 10)}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast.success('Copied to clipboard');
@@ -76,24 +121,58 @@ export function CodexPanel({ open, onClose }: CodexPanelProps) {
                 View all tagged wallets. Click to copy address.
               </p>
             </div>
-            <button
-              onClick={onClose}
-              className='rounded-xs opacity-70 transition-opacity hover:opacity-100 focus:ring-2 focus:ring-offset-2 focus:outline-hidden'
-            >
-              <X className='h-4 w-4' />
-              <span className='sr-only'>Close</span>
-            </button>
+            <div className='flex items-center gap-2'>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    disabled={wallets.length === 0}
+                  >
+                    <Download className='mr-1 h-4 w-4' />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align='end'>
+                  <DropdownMenuItem onClick={() => handleExport('json')}>
+                    JSON
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
+                    CSV
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <CodexImportDialog wallets={wallets} onImported={loadWallets} />
+              <button
+                onClick={onClose}
+                className='rounded-xs opacity-70 transition-opacity hover:opacity-100 focus:ring-2 focus:ring-offset-2 focus:outline-hidden'
+              >
+                <X className='h-4 w-4' />
+                <span className='sr-only'>Close</span>
+              </button>
+            </div>
           </div>
 
           {/* Search */}
-          <div className='relative p-4 pb-2'>
-            <Search className='text-muted-foreground absolute top-1/2 left-7 h-4 w-4 -translate-y-1/2 transform' />
-            <Input
-              placeholder='Search by wallet address or tag...'
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className='pl-10'
-            />
+          <div className='flex items-center gap-2 p-4 pb-2'>
+            <div className='relative flex-1'>
+              <Search className='text-muted-foreground absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transform' />
+              <Input
+                placeholder='Search by wallet address or tag...'
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className='pl-10'
+              />
+            </div>
+            <Button
+              variant={sortByScore ? 'default' : 'outline'}
+              size='sm'
+              onClick={() => setSortByScore((prev) => !prev)}
+              title='Sort by smart money score'
+            >
+              <ArrowUpDown className='mr-1 h-4 w-4' />
+              Score
+            </Button>
           </div>
 
           {/* Wallet List */}
@@ -115,23 +194,34 @@ export function CodexPanel({ open, onClose }: CodexPanelProps) {
                   className='hover:bg-muted/50 cursor-pointer rounded-lg border p-3 transition-colors'
                   onClick={() => copyToClipboard(wallet.wallet_address)}
                 >
-                  <div className='mb-2 font-mono text-sm break-all'>
-                    {wallet.wallet_address}
+                  <div className='mb-2 flex items-start justify-between gap-2'>
+                    <div className='font-mono text-sm break-all'>
+                      <TagCategoryIndicators
+                        categories={walletCategories(categories, wallet.tags)}
+                      />
+                      {wallet.wallet_address}
+                    </div>
+                    <div className='flex shrink-0 items-center gap-2'>
+                      <SmartMoneyScore
+                        score={
+                          scores
+                            ? (scores[wallet.wallet_address] ?? null)
+                            : undefined
+                        }
+                      />
+                      <Link
+                        href={`/dashboard/wallets/${wallet.wallet_address}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className='text-muted-foreground hover:text-foreground'
+                        title='Open wallet profile'
+                      >
+                        <UserRound className='h-4 w-4' />
+                      </Link>
+                    </div>
                   </div>
                   <div className='flex flex-wrap items-center gap-1'>
                     {wallet.tags.map((tagObj) => (
-                      <span
-                        key={tagObj.tag}
-                        className={`flex items-center gap-1 rounded px-2 py-0.5 text-xs ${
-                          tagObj.is_kol
-                            ? 'bg-amber-500/20 font-semibold text-amber-700 dark:text-amber-400'
-                            : 'bg-primary/10 text-primary'
-                        }`}
-                      >
-                        <Tag className='h-3 w-3' />
-                        {tagObj.is_kol && '★ '}
-                        {tagObj.tag}
-                      </span>
+                      <WalletTagBadge key={tagObj.tag} tag={tagObj} />
                     ))}
                   </div>
                 </div>
@@ -273,7 +273,7 @@ function FileCard({ file, progress, onRemove }: FileCardProps) {
   return (
     <div className='relative flex items-center space-x-4'>
       <div className='flex flex-1 space-x-4'>
-        {isFileWithPreview(file) ? (
+        {isFileWithPreview(file) && file.type.startsWith('image/') ? (
           <Image
             src={file.preview}
             alt={file.name}
@@ -61,6 +61,8 @@ function FormInput<
               max={max}
               disabled={disabled}
               {...field}
+              // A cleared number field is undefined; keep the input controlled
+              value={field.value ?? ''}
               onChange={(e) => {
                 if (type === 'number') {
                   const value = e.target.value;
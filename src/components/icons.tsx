@@ -1,9 +1,12 @@
 import {
+  IconActivity,
+  IconAffiliate,
   IconAlertTriangle,
   IconArrowRight,
   IconCheck,
   IconChevronLeft,
   IconChevronRight,
+  IconClockPlay,
   IconCommand,
   IconCreditCard,
   IconFile,
@@ -11,7 +14,9 @@ import {
   IconHelpCircle,
   IconPhoto,
   IconDeviceLaptop,
+  IconEye,
   IconLayoutDashboard,
+  IconListDetails,
   IconLoader2,
   IconLogin,
   IconProps,
@@ -22,12 +27,15 @@ import {
   IconPlus,
   IconSettings,
   IconSun,
+  IconTags,
   IconTrash,
+  IconTrophy,
   IconBrandTwitter,
   IconUser,
   IconUserCircle,
   IconUserEdit,
   IconUserX,
+  IconWebhook,
   IconX,
   IconLayoutKanban,
   IconBrandGithub
@@ -46,6 +54,14 @@ export const Icons = {
   chevronLeft: IconChevronLeft,
   chevronRight: IconChevronRight,
   trash: IconTrash,
+  jobs: IconListDetails,
+  watchlist: IconEye,
+  webhook: IconWebhook,
+  system: IconActivity,
+  network: IconAffiliate,
+  scheduler: IconClockPlay,
+  trophy: IconTrophy,
+  tags: IconTags,
   employee: IconUserX,
   post: IconFileText,
   page: IconFile,
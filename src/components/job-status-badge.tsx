@@ -0,0 +1,28 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+const statusStyles: Record<string, string> = {
+  queued: 'border-blue-500/50 text-blue-600 dark:text-blue-400',
+  processing: 'border-amber-500/50 text-amber-600 dark:text-amber-400',
+  completed: 'border-green-500/50 text-green-600 dark:text-green-400',
+  failed: 'border-red-500/50 text-red-600 dark:text-red-400'
+};
+
+export function JobStatusBadge({
+  status,
+  className
+}: {
+  status: string;
+  className?: string;
+}) {
+  return (
+    <Badge
+      variant='outline'
+      className={cn('capitalize', statusStyles[status], className)}
+    >
+      {status}
+    </Badge>
+  );
+}
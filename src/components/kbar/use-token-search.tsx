@@ -2,25 +2,28 @@
 import { useRegisterActions } from 'kbar';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { API_BASE_URL } from '@/lib/api';
+import {
+  AnalysisJobSummary,
+  getAllTags,
+  getAnalysisJobs,
+  getTagWallets
+} from '@/lib/api';
 
 export default function useTokenSearch() {
   const router = useRouter();
-  const [tokens, setTokens] = useState<any[]>([]);
+  const [tokens, setTokens] = useState<AnalysisJobSummary[]>([]);
   const [tags, setTags] = useState<string[]>([]);
 
   // Fetch tokens and tags on mount
   useEffect(() => {
     // Fetch tokens
-    fetch(`${API_BASE_URL}/analysis`)
-      .then((res) => res.json())
+    getAnalysisJobs()
       .then((data) => setTokens(data.jobs || []))
       .catch(() => {});
 
     // Fetch tags
-    fetch(`${API_BASE_URL}/tags`)
-      .then((res) => res.json())
-      .then((data) => setTags(data.tags || []))
+    getAllTags()
+      .then(setTags)
       .catch(() => {});
   }, []);
 
@@ -52,9 +55,7 @@ export default function useTokenSearch() {
     if (tags.length > 0) {
       Promise.all(
         tags.map((tag) =>
-          fetch(`${API_BASE_URL}/tags/${encodeURIComponent(tag)}/wallets`)
-            .then((res) => res.json())
-            .then((data) => ({ tag, wallets: data.wallets || [] }))
+          getTagWallets(tag).then((wallets) => ({ tag, wallets }))
         )
       )
         .then((results) => {
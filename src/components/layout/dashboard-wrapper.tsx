@@ -1,12 +1,15 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import AppSidebar from '@/components/layout/app-sidebar';
 import Header from '@/components/layout/header';
 import { CodexPanel } from '@/components/codex-panel';
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
 import { CodexContext } from '@/contexts/codex-context';
 import { ApiSettingsProvider } from '@/contexts/ApiSettingsContext';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
+import { useRefreshScheduler } from '@/lib/refresh-scheduler';
+import { useTagTaxonomy } from '@/lib/tag-taxonomy';
 
 interface DashboardWrapperProps {
   children: React.ReactNode;
@@ -16,6 +19,17 @@ interface DashboardWrapperProps {
 function DashboardContent({ children, defaultOpen }: DashboardWrapperProps) {
   const [showCodex, setShowCodex] = useState(false);
 
+  // Keep the realtime connection (and its toasts) alive on every page
+  useRealtimeEvents();
+
+  // Scheduled market cap / balance refreshes run while any page is open
+  const startScheduler = useRefreshScheduler((state) => state.start);
+  useEffect(() => startScheduler(), [startScheduler]);
+
+  // Saved tag categories, kept in sync with other tabs
+  const startTaxonomy = useTagTaxonomy((state) => state.start);
+  useEffect(() => startTaxonomy(), [startTaxonomy]);
+
   const handleCodexToggle = () => {
     setShowCodex((prev) => !prev);
   };
@@ -8,7 +8,19 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  deriveWebSocketUrl,
+  getApiUrlOverride,
+  getRuntimeConfig,
+  getWebSocketUrl,
+  isDemoMode,
+  isValidBackendUrl,
+  setApiUrlOverride,
+  setDemoMode
+} from '@/lib/runtime-config';
 
 interface ApiSettings {
   transactionLimit: number;
@@ -360,6 +372,9 @@ export function SettingsModal({
             </div>
           </details>
 
+          {/* Backend URL (per browser) */}
+          <BackendUrlSettings />
+
           {/* Current Settings JSON */}
           <details className='space-y-2'>
             <summary className='text-muted-foreground hover:text-foreground cursor-pointer text-xs font-medium'>
@@ -374,3 +389,95 @@ export function SettingsModal({
     </Popover>
   );
 }
+
+function BackendUrlSettings() {
+  const [url, setUrl] = useState('');
+  const [override, setOverride] = useState<string | null>(null);
+  const [serverUrl, setServerUrl] = useState('');
+  const [demoMode, setDemoModeState] = useState(false);
+
+  // localStorage/window are only available after mount
+  useEffect(() => {
+    const saved = getApiUrlOverride();
+    setOverride(saved);
+    setUrl(saved || '');
+    setServerUrl(getRuntimeConfig().apiUrl);
+    setDemoModeState(isDemoMode());
+  }, []);
+
+  const trimmed = url.trim();
+  const invalid = trimmed !== '' && !isValidBackendUrl(trimmed);
+
+  // Everything already loaded used the old URL, so reload to apply
+  const apply = (next: string | null) => {
+    setApiUrlOverride(next);
+    window.location.reload();
+  };
+
+  const toggleDemoMode = (enabled: boolean) => {
+    setDemoMode(enabled);
+    window.location.reload();
+  };
+
+  return (
+    <details className='space-y-2' open={override !== null || demoMode}>
+      <summary className='text-muted-foreground hover:text-foreground cursor-pointer text-xs font-medium'>
+        Backend Connection
+      </summary>
+      <div className='space-y-2 pt-2'>
+        <div className='flex items-center justify-between'>
+          <Label htmlFor='demo-mode' className='text-xs'>
+            Demo mode (mock backend)
+          </Label>
+          <Switch
+            id='demo-mode'
+            checked={demoMode}
+            onCheckedChange={toggleDemoMode}
+          />
+        </div>
+        <Label htmlFor='backend-url' className='text-muted-foreground text-xs'>
+          Backend URL (this browser only)
+        </Label>
+        <Input
+          id='backend-url'
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder={serverUrl}
+          className='h-7 text-xs'
+          disabled={demoMode}
+        />
+        {invalid && (
+          <p className='text-destructive text-xs'>
+            Enter an http:// or https:// URL
+          </p>
+        )}
+        <p className='text-muted-foreground text-xs break-all'>
+          WebSocket:{' '}
+          {trimmed && !invalid
+            ? deriveWebSocketUrl(trimmed)
+            : getWebSocketUrl()}
+        </p>
+        <div className='flex gap-2'>
+          <Button
+            size='sm'
+            className='h-7 text-xs'
+            disabled={demoMode || !trimmed || invalid || trimmed === override}
+            onClick={() => apply(trimmed)}
+          >
+            Save & Reload
+          </Button>
+          {override !== null && (
+            <Button
+              variant='outline'
+              size='sm'
+              className='h-7 text-xs'
+              onClick={() => apply(null)}
+            >
+              Use Default
+            </Button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
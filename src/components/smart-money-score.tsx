@@ -0,0 +1,127 @@
+'use client';
+
+import Link from 'next/link';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover';
+import { formatUsd } from '@/lib/format';
+import { WalletScore } from '@/lib/smart-money';
+import { cn } from '@/lib/utils';
+
+function scoreColor(score: number) {
+  if (score >= 67) return 'text-green-600 dark:text-green-400';
+  if (score >= 40) return 'text-amber-600 dark:text-amber-400';
+  return 'text-muted-foreground';
+}
+
+interface SmartMoneyScoreProps {
+  // undefined while loading, null when the wallet has no scorable tokens
+  score: WalletScore | null | undefined;
+  className?: string;
+}
+
+/**
+ * A wallet's smart money score, with a popover breaking it down per token
+ */
+export function SmartMoneyScore({ score, className }: SmartMoneyScoreProps) {
+  if (score === undefined) {
+    return (
+      <span className={cn('text-muted-foreground text-xs', className)}>
+        ...
+      </span>
+    );
+  }
+  if (score === null) {
+    return (
+      <span
+        className={cn('text-muted-foreground text-xs', className)}
+        title="None of this wallet's tokens have both market caps yet"
+      >
+        -
+      </span>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'rounded px-1.5 py-0.5 font-mono text-sm font-semibold hover:underline',
+            scoreColor(score.score),
+            className
+          )}
+          onClick={(e) => e.stopPropagation()}
+          data-testid='smart-money-score'
+        >
+          {Math.round(score.score)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className='w-[420px]'
+        align='end'
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className='space-y-3' data-testid='smart-money-breakdown'>
+          <div>
+            <h4 className='text-sm font-semibold'>
+              Smart money score: {Math.round(score.score)} / 100
+            </h4>
+            <p className='text-muted-foreground mt-1 text-xs'>
+              Per token: 60% market cap multiple since analysis (1x = 33, 10x =
+              67, 100x = 100) and 40% how early the wallet bought among that
+              token&apos;s early buyers. Tokens are averaged, weighted by entry
+              size.
+            </p>
+          </div>
+          <table className='w-full text-xs'>
+            <thead>
+              <tr className='text-muted-foreground border-b'>
+                <th className='pb-1 text-left font-medium'>Token</th>
+                <th className='pb-1 text-right font-medium'>Multiple</th>
+                <th className='pb-1 text-right font-medium'>Buy rank</th>
+                <th className='pb-1 text-right font-medium'>Entry</th>
+                <th className='pb-1 text-right font-medium'>Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {score.positions.map((position) => (
+                <tr key={position.token_id} className='border-b last:border-0'>
+                  <td className='max-w-[120px] truncate py-1'>
+                    <Link
+                      href={`/dashboard/tokens/${position.token_id}`}
+                      className='hover:underline'
+                    >
+                      {position.token_name ||
+                        position.token_symbol ||
+                        `#${position.token_id}`}
+                    </Link>
+                  </td>
+                  <td
+                    className={cn(
+                      'py-1 text-right',
+                      position.multiple >= 1 ? 'text-green-600' : 'text-red-600'
+                    )}
+                  >
+                    {position.multiple.toFixed(2)}x
+                  </td>
+                  <td className='py-1 text-right'>
+                    #{position.buy_rank} of {position.buyers}
+                  </td>
+                  <td className='py-1 text-right'>
+                    {formatUsd(position.total_usd, '-')}
+                  </td>
+                  <td className='py-1 text-right font-semibold'>
+                    {Math.round(position.score)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import {
+  Bot,
+  Code,
+  Crosshair,
+  Eye,
+  Fish,
+  Flame,
+  Gem,
+  KeyRound,
+  LucideIcon,
+  Rocket,
+  Shield,
+  Skull,
+  Tag,
+  Users,
+  Zap
+} from 'lucide-react';
+import { WalletTag } from '@/lib/api';
+import {
+  CategoryIcon,
+  TagCategory,
+  findCategory,
+  useTagTaxonomy
+} from '@/lib/tag-taxonomy';
+import { cn } from '@/lib/utils';
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, LucideIcon> = {
+  bot: Bot,
+  fish: Fish,
+  key: KeyRound,
+  crosshair: Crosshair,
+  code: Code,
+  users: Users,
+  flame: Flame,
+  gem: Gem,
+  rocket: Rocket,
+  shield: Shield,
+  skull: Skull,
+  zap: Zap,
+  eye: Eye,
+  tag: Tag
+};
+
+function categoryTitle(category: TagCategory) {
+  return category.description
+    ? `${category.tag}: ${category.description}`
+    : category.tag;
+}
+
+export function TagCategoryIcon({
+  category,
+  className
+}: {
+  category: TagCategory;
+  className?: string;
+}) {
+  const Icon = CATEGORY_ICON_COMPONENTS[category.icon] ?? Tag;
+  return (
+    <Icon
+      className={cn('h-3.5 w-3.5 shrink-0', className)}
+      style={{ color: category.color }}
+      aria-label={category.tag}
+    />
+  );
+}
+
+/**
+ * A category tag as a coloured pill, for lists of a wallet's tags
+ */
+export function TagCategoryBadge({
+  category,
+  isKol = false,
+  className
+}: {
+  category: TagCategory;
+  isKol?: boolean;
+  className?: string;
+}) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-medium',
+        className
+      )}
+      style={{ color: category.color, backgroundColor: `${category.color}20` }}
+      title={categoryTitle(category)}
+      data-testid='tag-category-badge'
+    >
+      <TagCategoryIcon category={category} className='h-3 w-3' />
+      {isKol && '★ '}
+      {category.tag}
+    </span>
+  );
+}
+
+/**
+ * Any wallet tag - styled by its category if it has one
+ */
+export function WalletTagBadge({ tag }: { tag: WalletTag }) {
+  const categories = useTagTaxonomy((state) => state.categories);
+  const category = findCategory(categories, tag.tag);
+
+  if (category) {
+    return (
+      <TagCategoryBadge
+        category={{ ...category, tag: tag.tag }}
+        isKol={tag.is_kol}
+        className='px-2'
+      />
+    );
+  }
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-1 rounded px-2 py-0.5 text-xs',
+        tag.is_kol
+          ? 'bg-amber-500/20 font-semibold text-amber-700 dark:text-amber-400'
+          : 'bg-primary/10 text-primary'
+      )}
+    >
+      <Tag className='h-3 w-3' />
+      {tag.is_kol && '★ '}
+      {tag.tag}
+    </span>
+  );
+}
+
+/**
+ * One icon per category, shown in front of a wallet address
+ */
+export function TagCategoryIndicators({
+  categories
+}: {
+  categories: TagCategory[];
+}) {
+  if (categories.length === 0) return null;
+  return (
+    <span className='mr-1 inline-flex items-center gap-0.5 align-middle'>
+      {categories.map((category) => (
+        <span
+          key={category.id}
+          title={categoryTitle(category)}
+          data-testid='tag-category-indicator'
+          data-category={category.tag.toLowerCase()}
+        >
+          <TagCategoryIcon category={category} />
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { Line, LineChart, YAxis } from 'recharts';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { formatTimestamp } from '@/lib/api';
+import {
+  EXIT_DROP_RATIO,
+  latestBalanceChange
+} from '@/lib/wallet-balance-history';
+import { useBalanceHistory } from '@/hooks/use-balance-history';
+import { ChartConfig, ChartContainer } from '@/components/ui/chart';
+import {
+  HoverCard,
+  HoverCardContent,
+  HoverCardTrigger
+} from '@/components/ui/hover-card';
+import { cn } from '@/lib/utils';
+
+const chartConfig = {
+  balance: { label: 'Balance', color: 'var(--primary)' }
+} satisfies ChartConfig;
+
+interface WalletBalanceProps {
+  walletAddress: string;
+  balanceUsd: number | null | undefined;
+  className?: string;
+}
+
+/**
+ * Wallet USD balance with the change since the previous refresh and a
+ * history chart on hover
+ */
+export function WalletBalance({
+  walletAddress,
+  balanceUsd,
+  className
+}: WalletBalanceProps) {
+  const history = useBalanceHistory(walletAddress);
+  const change = latestBalanceChange(history);
+  const isExit =
+    change?.ratio !== null &&
+    change?.ratio !== undefined &&
+    change.ratio <= -EXIT_DROP_RATIO;
+
+  const balance =
+    balanceUsd !== null && balanceUsd !== undefined
+      ? `$${Math.round(balanceUsd)}`
+      : 'N/A';
+
+  if (!change) {
+    return <span className={className}>{balance}</span>;
+  }
+
+  const Arrow = change.delta >= 0 ? ArrowUp : ArrowDown;
+
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <span
+          className={cn('inline-flex cursor-default flex-col', className)}
+          data-testid='wallet-balance-change'
+        >
+          <span>{balance}</span>
+          {Math.round(change.delta) !== 0 && (
+            <span
+              className={cn(
+                'inline-flex items-center justify-end gap-0.5 text-[10px]',
+                change.delta > 0 ? 'text-green-600' : 'text-red-600',
+                isExit && 'font-bold'
+              )}
+              title={isExit ? 'Possible exit' : undefined}
+            >
+              <Arrow className='h-3 w-3' />${Math.abs(Math.round(change.delta))}
+              {change.ratio !== null &&
+                ` (${Math.abs(change.ratio * 100).toFixed(0)}%)`}
+            </span>
+          )}
+        </span>
+      </HoverCardTrigger>
+      <HoverCardContent className='w-64' align='end'>
+        <div className='mb-1 flex items-center justify-between text-xs'>
+          <span className='font-medium'>Balance history</span>
+          <span className='text-muted-foreground'>
+            {history.length} refreshes
+          </span>
+        </div>
+        <ChartContainer
+          config={chartConfig}
+          className='aspect-auto h-20 w-full'
+        >
+          <LineChart data={history} margin={{ top: 4, bottom: 4 }}>
+            <YAxis hide domain={['dataMin', 'dataMax']} />
+            <Line
+              dataKey='balance_usd'
+              type='monotone'
+              stroke='var(--color-balance)'
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+        <div className='text-muted-foreground mt-1 flex justify-between text-[10px]'>
+          <span>{formatTimestamp(history[0].recorded_at)}</span>
+          <span>
+            {formatTimestamp(history[history.length - 1].recorded_at)}
+          </span>
+        </div>
+        {isExit && (
+          <div className='mt-2 text-xs font-medium text-red-600'>
+            Dropped {Math.abs((change.ratio ?? 0) * 100).toFixed(0)}% since the
+            previous refresh - possible exit
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
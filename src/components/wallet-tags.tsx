@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { X, Plus, Tag } from 'lucide-react';
 import { toast } from 'sonner';
 import { useWalletTags } from '@/contexts/WalletTagsContext';
+import { isCategoryTag, useTagTaxonomy } from '@/lib/tag-taxonomy';
 
 interface WalletTagsProps {
   walletAddress: string;
@@ -20,10 +21,9 @@ export function WalletTags({
   compact = false
 }: WalletTagsProps) {
   const { tags: contextTags } = useWalletTags(walletAddress);
-  // Filter out additional tags (bot, whale, insider) - those are managed by AdditionalTagsPopover
-  const tags = contextTags.filter(
-    (t) => !['bot', 'whale', 'insider'].includes(t.tag.toLowerCase())
-  );
+  const categories = useTagTaxonomy((state) => state.categories);
+  // Filter out category tags - those are managed by AdditionalTagsPopover
+  const tags = contextTags.filter((t) => !isCategoryTag(categories, t.tag));
   const [newTag, setNewTag] = useState('');
   const [kolValue, setKolValue] = useState<boolean>(false);
   const [loading, setLoading] = useState(false);
@@ -13,6 +13,14 @@ export type Product = {
 
 //Info: The following data is used for the sidebar navigation.
 export const navItems: NavItem[] = [
+  {
+    title: 'Overview',
+    url: '/dashboard/overview',
+    icon: 'dashboard',
+    shortcut: ['o', 'o'],
+    isActive: false,
+    items: []
+  },
   {
     title: 'Analyzed Tokens',
     url: '/dashboard/tokens',
@@ -22,63 +30,83 @@ export const navItems: NavItem[] = [
     items: []
   },
   {
-    title: 'Trash',
-    url: '/dashboard/trash',
-    icon: 'trash',
-    shortcut: ['d', 'd'],
+    title: 'Analysis Jobs',
+    url: '/dashboard/jobs',
+    icon: 'jobs',
+    shortcut: ['j', 'j'],
     isActive: false,
     items: []
-  }
-];
-
-export interface SaleUser {
-  id: number;
-  name: string;
-  email: string;
-  amount: string;
-  image: string;
-  initials: string;
-}
-
-export const recentSalesData: SaleUser[] = [
+  },
   {
-    id: 1,
-    name: 'Olivia Martin',
-    email: 'olivia.martin@email.com',
-    amount: '+$1,999.00',
-    image: 'https://api.slingacademy.com/public/sample-users/1.png',
-    initials: 'OM'
+    title: 'Leaderboard',
+    url: '/dashboard/leaderboard',
+    icon: 'trophy',
+    shortcut: ['l', 'l'],
+    isActive: false,
+    items: []
   },
   {
-    id: 2,
-    name: 'Jackson Lee',
-    email: 'jackson.lee@email.com',
-    amount: '+$39.00',
-    image: 'https://api.slingacademy.com/public/sample-users/2.png',
-    initials: 'JL'
+    title: 'Watchlist',
+    url: '/dashboard/watchlist',
+    icon: 'watchlist',
+    shortcut: ['w', 'w'],
+    isActive: false,
+    items: []
   },
   {
-    id: 3,
-    name: 'Isabella Nguyen',
-    email: 'isabella.nguyen@email.com',
-    amount: '+$299.00',
-    image: 'https://api.slingacademy.com/public/sample-users/3.png',
-    initials: 'IN'
+    title: 'Webhooks',
+    url: '/dashboard/webhooks',
+    icon: 'webhook',
+    shortcut: ['h', 'h'],
+    isActive: false,
+    items: []
   },
   {
-    id: 4,
-    name: 'William Kim',
-    email: 'will@email.com',
-    amount: '+$99.00',
-    image: 'https://api.slingacademy.com/public/sample-users/4.png',
-    initials: 'WK'
+    title: 'Wallet Network',
+    url: '/dashboard/network',
+    icon: 'network',
+    shortcut: ['n', 'n'],
+    isActive: false,
+    items: []
   },
   {
-    id: 5,
-    name: 'Sofia Davis',
-    email: 'sofia.davis@email.com',
-    amount: '+$39.00',
-    image: 'https://api.slingacademy.com/public/sample-users/5.png',
-    initials: 'SD'
+    title: 'Tags',
+    url: '/dashboard/tags',
+    icon: 'tags',
+    shortcut: ['g', 'g'],
+    isActive: false,
+    items: []
+  },
+  {
+    title: 'API Credits',
+    url: '/dashboard/credits',
+    icon: 'billing',
+    shortcut: ['c', 'c'],
+    isActive: false,
+    items: []
+  },
+  {
+    title: 'Auto Refresh',
+    url: '/dashboard/scheduler',
+    icon: 'scheduler',
+    shortcut: ['r', 'r'],
+    isActive: false,
+    items: []
+  },
+  {
+    title: 'System',
+    url: '/dashboard/system',
+    icon: 'system',
+    shortcut: ['s', 's'],
+    isActive: false,
+    items: []
+  },
+  {
+    title: 'Trash',
+    url: '/dashboard/trash',
+    icon: 'trash',
+    shortcut: ['d', 'd'],
+    isActive: false,
+    items: []
   }
 ];
@@ -0,0 +1,610 @@
+////////////////////////////////////////////////////////////////////////////////
+// 🛑 Fake Gun Del Sol backend for demo mode - served by /api/mock/[[...path]]
+////////////////////////////////////////////////////////////////////////////////
+
+import { faker } from '@faker-js/faker';
+import type {
+  AnalysisJob,
+  AnalysisJobSummary,
+  AnalysisRun,
+  AnalysisSettings,
+  HeliusWebhook,
+  Token,
+  TokenDetail,
+  Wallet,
+  WalletTag,
+  WatchlistAddress
+} from '@/lib/api';
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export const fakeAddress = () =>
+  faker.string.fromCharacters(BASE58, { min: 43, max: 44 });
+
+const now = () => new Date().toISOString();
+
+export type MockEvent = 'analysis_start' | 'analysis_complete';
+
+export type MockEventListener = (message: {
+  event: MockEvent;
+  data: Record<string, unknown>;
+}) => void;
+
+interface MockToken extends Omit<TokenDetail, 'axiom_json'> {
+  runs: AnalysisRun[];
+}
+
+interface MockJob extends AnalysisJobSummary {
+  created_at: string;
+  error: string | null;
+  token_id: number | null;
+}
+
+interface RequestStats {
+  count: number;
+  durationSum: number;
+  buckets: number[];
+}
+
+// Latency histogram bounds (seconds) exposed on /metrics
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+
+const DEFAULT_SETTINGS: AnalysisSettings = {
+  transactionLimit: 500,
+  minUsdFilter: 50,
+  walletCount: 10,
+  apiRateDelay: 100,
+  maxCreditsPerAnalysis: 1000,
+  maxRetries: 3
+};
+
+const SAMPLE_TAGS = ['bot', 'whale', 'insider', 'sniper', 'dev', 'smart money'];
+
+function createWallet(id: number, address: string, firstBuy: Date): Wallet {
+  const transactionCount = faker.number.int({ min: 1, max: 12 });
+  const totalUsd = faker.number.float({
+    min: 50,
+    max: 25000,
+    fractionDigits: 2
+  });
+  return {
+    id,
+    wallet_address: address,
+    first_buy_timestamp: firstBuy.toISOString(),
+    total_usd: totalUsd,
+    transaction_count: transactionCount,
+    average_buy_usd: Math.round((totalUsd / transactionCount) * 100) / 100,
+    wallet_balance_usd:
+      faker.helpers.maybe(
+        () => faker.number.float({ min: 0, max: 500000, fractionDigits: 2 }),
+        { probability: 0.8 }
+      ) ?? null
+  };
+}
+
+// Mock backend state
+const mockBackend = {
+  tokens: [] as MockToken[],
+  jobs: [] as MockJob[],
+  walletTags: {} as Record<string, WalletTag[]>,
+  watchlist: [] as WatchlistAddress[],
+  webhooks: [] as HeliusWebhook[],
+  settings: { ...DEFAULT_SETTINGS },
+  walletPool: [] as string[],
+  requestStats: {} as Record<string, RequestStats>,
+  listeners: new Set<MockEventListener>(),
+  nextTokenId: 1,
+  nextWalletId: 1,
+  nextRunId: 1,
+
+  // Initialize with sample data
+  initialize() {
+    this.walletPool = Array.from({ length: 60 }, fakeAddress);
+    this.tokens = [];
+    this.jobs = [];
+    this.walletTags = {};
+
+    for (let i = 0; i < 8; i++) {
+      const analyzedAt = faker.date.recent({ days: 30 });
+      const token = this.createToken(fakeAddress(), analyzedAt);
+      this.jobs.push(this.jobForToken(token, analyzedAt.toISOString()));
+    }
+    this.jobs.sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    // A few tokens already sit in the trash
+    this.tokens.slice(-2).forEach((token) => {
+      token.deleted_at = faker.date.recent({ days: 3 }).toISOString();
+    });
+
+    faker.helpers.arrayElements(this.walletPool, 12).forEach((address) => {
+      this.walletTags[address] = faker.helpers
+        .arrayElements(SAMPLE_TAGS, { min: 1, max: 2 })
+        .map((tag) => ({ tag, is_kol: false }));
+    });
+    faker.helpers.arrayElements(this.walletPool, 2).forEach((address) => {
+      this.walletTags[address] = [
+        ...(this.walletTags[address] || []),
+        { tag: faker.internet.username(), is_kol: true }
+      ];
+    });
+
+    this.watchlist = faker.helpers
+      .arrayElements(this.walletPool, 4)
+      .map((address) => ({
+        address,
+        registered_at: faker.date.recent({ days: 14 }).toISOString(),
+        threshold: 100,
+        total_notifications: faker.number.int({ max: 20 }),
+        last_notification: faker.date.recent({ days: 2 }).toISOString(),
+        note: faker.helpers.maybe(() => faker.lorem.words(3)) ?? null
+      }));
+
+    this.webhooks = [];
+    this.settings = { ...DEFAULT_SETTINGS };
+  },
+
+  createToken(tokenAddress: string, analyzedAt: Date, walletCount = 10) {
+    const symbol = faker.string.alpha({
+      length: { min: 3, max: 5 },
+      casing: 'upper'
+    });
+    const launch = new Date(
+      analyzedAt.getTime() - faker.number.int({ min: 1, max: 72 }) * 3600000
+    );
+    const addresses = faker.helpers.arrayElements(this.walletPool, walletCount);
+    const wallets = addresses.map((address, index) =>
+      createWallet(
+        this.nextWalletId++,
+        address,
+        new Date(launch.getTime() + index * 45000)
+      )
+    );
+    const marketCap = faker.number.float({
+      min: 20000,
+      max: 5000000,
+      fractionDigits: 0
+    });
+    const credits = faker.number.int({ min: 40, max: 400 });
+
+    const token: MockToken = {
+      id: this.nextTokenId++,
+      token_address: tokenAddress,
+      token_name: `${faker.word.adjective()} ${faker.animal.type()}`.replace(
+        /\b\w/g,
+        (c) => c.toUpperCase()
+      ),
+      token_symbol: symbol,
+      acronym: symbol,
+      analysis_timestamp: analyzedAt.toISOString(),
+      first_buy_timestamp: wallets[0]?.first_buy_timestamp ?? null,
+      wallets_found: wallets.length,
+      credits_used: credits,
+      last_analysis_credits: credits,
+      deleted_at: null,
+      market_cap_usd: marketCap,
+      market_cap_usd_current:
+        marketCap * faker.number.float({ min: 0.2, max: 4 }),
+      market_cap_updated_at: analyzedAt.toISOString(),
+      wallets,
+      runs: []
+    };
+    token.runs.push({
+      id: this.nextRunId++,
+      analysis_timestamp: token.analysis_timestamp,
+      wallets_found: wallets.length,
+      credits_used: credits,
+      wallets
+    });
+
+    this.tokens.unshift(token);
+    return token;
+  },
+
+  jobForToken(token: MockToken, createdAt: string): MockJob {
+    const jobId = faker.string.hexadecimal({
+      length: 8,
+      casing: 'lower',
+      prefix: ''
+    });
+    return {
+      job_id: jobId,
+      status: 'completed',
+      token_address: token.token_address,
+      token_name: token.token_name,
+      token_symbol: token.token_symbol,
+      acronym: token.acronym,
+      wallets_found: token.wallets_found,
+      timestamp: createdAt,
+      credits_used: token.credits_used,
+      results_url: `/analysis/${jobId}`,
+      created_at: createdAt,
+      error: null,
+      token_id: token.id
+    };
+  },
+
+  // ==========================================================================
+  // Tokens
+  // ==========================================================================
+
+  toTokenDetail(token: MockToken): TokenDetail {
+    const detail: Partial<MockToken> = { ...token };
+    delete detail.runs;
+    return {
+      ...(detail as Omit<MockToken, 'runs'>),
+      axiom_json: this.axiomJson(token)
+    };
+  },
+
+  toToken(token: MockToken): Token {
+    const summary: Partial<TokenDetail> = this.toTokenDetail(token);
+    delete summary.wallets;
+    delete summary.axiom_json;
+    return {
+      ...(summary as Omit<TokenDetail, 'wallets' | 'axiom_json'>),
+      wallet_addresses: token.wallets.map((w) => w.wallet_address)
+    };
+  },
+
+  axiomJson(token: MockToken) {
+    return token.wallets.map((wallet, index) => ({
+      trackedWalletAddress: wallet.wallet_address,
+      name: `${index + 1}. ${token.acronym}`,
+      emoji: '🎯',
+      alertsOnToast: false,
+      alertsOnBubble: false,
+      alertsOnFeed: true,
+      groups: ['Main'],
+      sound: 'default'
+    }));
+  },
+
+  getTokens(deleted: boolean) {
+    const tokens = this.tokens
+      .filter((t) => Boolean(t.deleted_at) === deleted)
+      .sort((a, b) => b.analysis_timestamp.localeCompare(a.analysis_timestamp));
+    return {
+      total: tokens.length,
+      total_wallets: tokens.reduce((sum, t) => sum + t.wallets_found, 0),
+      tokens: tokens.map((t) => this.toToken(t))
+    };
+  },
+
+  findToken(id: number) {
+    return this.tokens.find((t) => t.id === id);
+  },
+
+  // ==========================================================================
+  // Analysis jobs
+  // ==========================================================================
+
+  queueAnalysis(tokenAddress: string, settings: AnalysisSettings) {
+    const createdAt = now();
+    const jobId = faker.string.hexadecimal({
+      length: 8,
+      casing: 'lower',
+      prefix: ''
+    });
+    const job: MockJob = {
+      job_id: jobId,
+      status: 'queued',
+      token_address: tokenAddress,
+      token_name: null,
+      token_symbol: null,
+      acronym: null,
+      wallets_found: null,
+      timestamp: createdAt,
+      credits_used: null,
+      results_url: `/analysis/${jobId}`,
+      created_at: createdAt,
+      error: null,
+      token_id: null
+    };
+    this.jobs.unshift(job);
+
+    // Simulated pipeline: queued -> processing -> completed
+    setTimeout(() => {
+      job.status = 'processing';
+      this.emit('analysis_start', {
+        job_id: jobId,
+        token_name: 'Analyzing...',
+        token_symbol: tokenAddress.slice(0, 4)
+      });
+    }, 1500);
+
+    setTimeout(() => {
+      const token = this.createToken(
+        tokenAddress,
+        new Date(),
+        Math.min(settings.walletCount, this.walletPool.length)
+      );
+      Object.assign(job, {
+        status: 'completed',
+        token_name: token.token_name,
+        token_symbol: token.token_symbol,
+        acronym: token.acronym,
+        wallets_found: token.wallets_found,
+        credits_used: token.credits_used,
+        token_id: token.id
+      });
+      this.emit('analysis_complete', {
+        job_id: jobId,
+        token_name: token.token_name,
+        token_symbol: token.token_symbol,
+        acronym: token.acronym,
+        wallets_found: token.wallets_found,
+        token_id: token.id
+      });
+    }, 6000);
+
+    return {
+      status: 'queued',
+      job_id: jobId,
+      token_address: tokenAddress,
+      api_settings: settings,
+      results_url: job.results_url
+    };
+  },
+
+  toAnalysisJob(job: MockJob): AnalysisJob {
+    const token = job.token_id ? this.findToken(job.token_id) : undefined;
+    return {
+      job_id: job.job_id,
+      token_address: job.token_address,
+      status: job.status,
+      created_at: job.created_at,
+      error: job.error,
+      result: token
+        ? ({
+            token_id: token.id,
+            token_name: token.token_name,
+            wallets_found: token.wallets_found,
+            credits_used: token.credits_used
+          } as unknown as AnalysisJob['result'])
+        : null,
+      axiom_file: token
+        ? `axiom_exports/${token.acronym}_${job.job_id}.json`
+        : null,
+      result_file: token ? `analysis_results/${job.job_id}.csv` : null
+    };
+  },
+
+  jobCsv(job: MockJob) {
+    const token = job.token_id ? this.findToken(job.token_id) : undefined;
+    const header =
+      'wallet_address,first_buy_timestamp,total_usd,transaction_count,average_buy_usd,wallet_balance_usd';
+    const rows = (token?.wallets || []).map((w) =>
+      [
+        w.wallet_address,
+        w.first_buy_timestamp,
+        w.total_usd ?? '',
+        w.transaction_count ?? '',
+        w.average_buy_usd ?? '',
+        w.wallet_balance_usd ?? ''
+      ].join(',')
+    );
+    return [header, ...rows].join('\n');
+  },
+
+  // ==========================================================================
+  // Wallets & tags
+  // ==========================================================================
+
+  multiTokenWallets(minTokens: number) {
+    const byWallet: Record<string, MockToken[]> = {};
+    this.tokens
+      .filter((t) => !t.deleted_at)
+      .forEach((token) =>
+        token.wallets.forEach((w) => {
+          (byWallet[w.wallet_address] ||= []).push(token);
+        })
+      );
+
+    const wallets = Object.entries(byWallet)
+      .filter(([, tokens]) => tokens.length >= minTokens)
+      .map(([address, tokens]) => ({
+        wallet_address: address,
+        token_count: tokens.length,
+        token_names: tokens.map((t) => t.token_name || 'Unknown'),
+        token_addresses: tokens.map((t) => t.token_address),
+        token_ids: tokens.map((t) => t.id),
+        wallet_balance_usd:
+          tokens[0].wallets.find((w) => w.wallet_address === address)
+            ?.wallet_balance_usd ?? null
+      }))
+      .sort((a, b) => b.token_count - a.token_count);
+
+    return { total: wallets.length, wallets };
+  },
+
+  refreshBalances(addresses: string[]) {
+    const results = addresses.map((address) => {
+      const balance = faker.number.float({
+        min: 0,
+        max: 500000,
+        fractionDigits: 2
+      });
+      this.tokens.forEach((token) =>
+        token.wallets
+          .filter((w) => w.wallet_address === address)
+          .forEach((w) => {
+            w.wallet_balance_usd = balance;
+          })
+      );
+      return { wallet_address: address, balance_usd: balance, success: true };
+    });
+    return {
+      message: `Refreshed ${results.length} wallet balances`,
+      results,
+      total_wallets: results.length,
+      successful: results.length,
+      api_credits_used: results.length
+    };
+  },
+
+  refreshMarketCaps(tokenIds: number[]) {
+    const results = tokenIds.map((id) => {
+      const token = this.findToken(id);
+      if (!token) {
+        return {
+          token_id: id,
+          market_cap_usd_current: null,
+          market_cap_updated_at: null,
+          success: false
+        };
+      }
+      token.market_cap_usd_current =
+        (token.market_cap_usd_current || token.market_cap_usd || 100000) *
+        faker.number.float({ min: 0.8, max: 1.25 });
+      token.market_cap_updated_at = now();
+      return {
+        token_id: id,
+        market_cap_usd_current: token.market_cap_usd_current,
+        market_cap_updated_at: token.market_cap_updated_at,
+        success: true
+      };
+    });
+    const successful = results.filter((r) => r.success).length;
+    return {
+      message: `Refreshed ${successful} market caps`,
+      results,
+      total_tokens: results.length,
+      successful,
+      api_credits_used: successful
+    };
+  },
+
+  addTag(address: string, tag: string, isKol: boolean) {
+    const tags = (this.walletTags[address] ||= []);
+    if (!tags.some((t) => t.tag === tag)) tags.push({ tag, is_kol: isKol });
+  },
+
+  removeTag(address: string, tag: string) {
+    this.walletTags[address] = (this.walletTags[address] || []).filter(
+      (t) => t.tag !== tag
+    );
+    if (this.walletTags[address].length === 0) delete this.walletTags[address];
+  },
+
+  allTags() {
+    return Array.from(
+      new Set(
+        Object.values(this.walletTags).flatMap((tags) => tags.map((t) => t.tag))
+      )
+    ).sort();
+  },
+
+  // ==========================================================================
+  // Webhooks
+  // ==========================================================================
+
+  createWebhook(token: MockToken, webhookUrl: string | null) {
+    const webhook: HeliusWebhook = {
+      webhookID: faker.string.uuid(),
+      wallet: fakeAddress(),
+      webhookURL: webhookUrl || 'http://localhost:5003/webhooks/callback',
+      webhookType: 'enhanced',
+      transactionTypes: ['SWAP', 'TRANSFER'],
+      accountAddresses: token.wallets.map((w) => w.wallet_address)
+    };
+    this.webhooks.push(webhook);
+    return webhook;
+  },
+
+  // ==========================================================================
+  // Events & metrics
+  // ==========================================================================
+
+  subscribe(listener: MockEventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  },
+
+  emit(event: MockEvent, data: Record<string, unknown>) {
+    this.listeners.forEach((listener) => listener({ event, data }));
+  },
+
+  recordRequest(
+    method: string,
+    route: string,
+    status: number,
+    seconds: number
+  ) {
+    const key = `${method}|${route}|${status}`;
+    const stats = (this.requestStats[key] ||= {
+      count: 0,
+      durationSum: 0,
+      buckets: LATENCY_BUCKETS.map(() => 0)
+    });
+    stats.count++;
+    stats.durationSum += seconds;
+    LATENCY_BUCKETS.forEach((le, i) => {
+      if (seconds <= le) stats.buckets[i]++;
+    });
+  },
+
+  metricsText() {
+    const lines = [
+      '# HELP http_requests_total Total HTTP requests',
+      '# TYPE http_requests_total counter'
+    ];
+    const entries = Object.entries(this.requestStats);
+    entries.forEach(([key, stats]) => {
+      const [method, handler, status] = key.split('|');
+      lines.push(
+        `http_requests_total{method="${method}",handler="${handler}",status="${status}"} ${stats.count}`
+      );
+    });
+
+    lines.push(
+      '# HELP http_request_duration_seconds HTTP request latency',
+      '# TYPE http_request_duration_seconds histogram'
+    );
+    entries.forEach(([key, stats]) => {
+      const [method, handler, status] = key.split('|');
+      const labels = `method="${method}",handler="${handler}",status="${status}"`;
+      LATENCY_BUCKETS.forEach((le, i) => {
+        lines.push(
+          `http_request_duration_seconds_bucket{${labels},le="${le}"} ${stats.buckets[i]}`
+        );
+      });
+      lines.push(
+        `http_request_duration_seconds_bucket{${labels},le="+Inf"} ${stats.count}`,
+        `http_request_duration_seconds_sum{${labels}} ${stats.durationSum}`,
+        `http_request_duration_seconds_count{${labels}} ${stats.count}`
+      );
+    });
+
+    const countJobs = (status: string) =>
+      this.jobs.filter((j) => j.status === status).length;
+    lines.push(
+      '# HELP analysis_jobs Analysis jobs by status',
+      '# TYPE analysis_jobs gauge',
+      ...['queued', 'processing', 'completed', 'failed'].map(
+        (status) => `analysis_jobs{status="${status}"} ${countJobs(status)}`
+      ),
+      '# HELP analysis_queue_depth Jobs waiting to be processed',
+      '# TYPE analysis_queue_depth gauge',
+      `analysis_queue_depth ${countJobs('queued')}`,
+      '# HELP websocket_connections Open notification connections',
+      '# TYPE websocket_connections gauge',
+      `websocket_connections ${this.listeners.size}`
+    );
+
+    return lines.join('\n') + '\n';
+  }
+};
+
+// Keep state across dev-server hot reloads
+const globalStore = globalThis as unknown as {
+  __gdsMockBackend?: typeof mockBackend;
+};
+
+if (!globalStore.__gdsMockBackend) {
+  mockBackend.initialize();
+  globalStore.__gdsMockBackend = mockBackend;
+}
+
+export const mockDb = globalStore.__gdsMockBackend;
@@ -8,7 +8,7 @@ import React, {
   useRef
 } from 'react';
 import { toast } from 'sonner';
-import { API_BASE_URL } from '@/lib/api';
+import { apiClient } from '@/lib/api-client';
 
 export interface ApiSettings {
   transactionLimit: number;
@@ -51,12 +51,12 @@ export function ApiSettingsProvider({
 
   // Load API settings from backend on mount (silently, no UI impact)
   useEffect(() => {
-    fetch(`${API_BASE_URL}/api/settings`, { cache: 'no-store' })
-      .then((res) => res.json())
+    apiClient
+      .get('/api/settings')
       .then((settings) => {
         // Batch state updates to avoid extra render
         React.startTransition(() => {
-          setApiSettings(settings);
+          setApiSettings(settings as ApiSettings);
           setSettingsLoaded(true);
         });
       })
@@ -77,12 +77,8 @@ export function ApiSettingsProvider({
 
     // Debounce to avoid too many requests (1 second wait after user stops adjusting)
     const timer = setTimeout(() => {
-      fetch(`${API_BASE_URL}/api/settings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(apiSettings)
-      })
-        .then((res) => res.json())
+      apiClient
+        .post('/api/settings', { body: apiSettings })
         .then(() => {
           // Show toast notification when settings are saved
           toast.success('Settings saved', {
@@ -90,8 +86,10 @@ export function ApiSettingsProvider({
             duration: 2000
           });
         })
-        .catch(() => {
-          toast.error('Failed to save settings');
+        .catch((error) => {
+          toast.error('Failed to save settings', {
+            description: error.message
+          });
         });
     }, 1000);
 
@@ -1,13 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { API_BASE_URL } from '@/lib/api';
-
-interface WalletTag {
-  tag: string;
-  is_kol: boolean;
-  added_at: string;
-}
+import { WalletTag, getBatchWalletTags, getWalletTags } from '@/lib/api';
 
 interface WalletTagsCache {
   [walletAddress: string]: WalletTag[];
@@ -43,20 +37,7 @@ export function WalletTagsProvider({
 
     setIsLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/wallets/batch-tags`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ addresses: walletAddresses })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch tags: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      setTagsCache(data);
+      setTagsCache(await getBatchWalletTags(walletAddresses));
     } catch (error) {
       setTagsCache({});
     } finally {
@@ -81,14 +62,11 @@ export function WalletTagsProvider({
 
     const fetchSingleWalletTags = async (address: string) => {
       try {
-        const response = await fetch(`${API_BASE_URL}/wallets/${address}/tags`);
-        if (response.ok) {
-          const data = await response.json();
-          setTagsCache((prev) => ({
-            ...prev,
-            [address]: data.tags || []
-          }));
-        }
+        const tags = await getWalletTags(address);
+        setTagsCache((prev) => ({
+          ...prev,
+          [address]: tags
+        }));
       } catch (error) {}
     };
 
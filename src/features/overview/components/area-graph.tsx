@@ -1,7 +1,7 @@
 'use client';
 
-import { IconTrendingUp } from '@tabler/icons-react';
-import { Area, AreaChart, CartesianGrid, XAxis } from 'recharts';
+import { IconTrendingDown, IconTrendingUp } from '@tabler/icons-react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 
 import {
   Card,
@@ -17,37 +17,33 @@ import {
   ChartTooltip,
   ChartTooltipContent
 } from '@/components/ui/chart';
-
-const chartData = [
-  { month: 'January', desktop: 186, mobile: 80 },
-  { month: 'February', desktop: 305, mobile: 200 },
-  { month: 'March', desktop: 237, mobile: 120 },
-  { month: 'April', desktop: 73, mobile: 190 },
-  { month: 'May', desktop: 209, mobile: 130 },
-  { month: 'June', desktop: 214, mobile: 140 }
-];
+import { DailyAnalyses } from '../utils/overview-stats';
 
 const chartConfig = {
-  visitors: {
-    label: 'Visitors'
-  },
-  desktop: {
-    label: 'Desktop',
-    color: 'var(--primary)'
-  },
-  mobile: {
-    label: 'Mobile',
+  tokens: {
+    label: 'Tokens analyzed',
     color: 'var(--primary)'
   }
 } satisfies ChartConfig;
 
-export function AreaGraph() {
+function sumTokens(days: DailyAnalyses[]) {
+  return days.reduce((acc, day) => acc + day.tokens, 0);
+}
+
+export function AreaGraph({ data }: { data: DailyAnalyses[] }) {
+  const total = sumTokens(data);
+  const wallets = data.reduce((acc, day) => acc + day.wallets, 0);
+  // Last 7 days against the 7 before
+  const thisWeek = sumTokens(data.slice(-7));
+  const lastWeek = sumTokens(data.slice(-14, -7));
+  const TrendIcon = thisWeek >= lastWeek ? IconTrendingUp : IconTrendingDown;
+
   return (
-    <Card className='@container/card'>
+    <Card className='@container/card' data-testid='overview-analyses-chart'>
       <CardHeader>
-        <CardTitle>Area Chart - Stacked</CardTitle>
+        <CardTitle>Tokens Analyzed</CardTitle>
         <CardDescription>
-          Showing total visitors for the last 6 months
+          Tokens per day by last analysis, over the last {data.length} days
         </CardDescription>
       </CardHeader>
       <CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
@@ -56,64 +52,50 @@ export function AreaGraph() {
           className='aspect-auto h-[250px] w-full'
         >
           <AreaChart
-            data={chartData}
+            data={data}
             margin={{
-              left: 12,
+              left: 0,
               right: 12
             }}
           >
             <defs>
-              <linearGradient id='fillDesktop' x1='0' y1='0' x2='0' y2='1'>
+              <linearGradient id='fillTokens' x1='0' y1='0' x2='0' y2='1'>
                 <stop
                   offset='5%'
-                  stopColor='var(--color-desktop)'
+                  stopColor='var(--color-tokens)'
                   stopOpacity={1.0}
                 />
                 <stop
                   offset='95%'
-                  stopColor='var(--color-desktop)'
-                  stopOpacity={0.1}
-                />
-              </linearGradient>
-              <linearGradient id='fillMobile' x1='0' y1='0' x2='0' y2='1'>
-                <stop
-                  offset='5%'
-                  stopColor='var(--color-mobile)'
-                  stopOpacity={0.8}
-                />
-                <stop
-                  offset='95%'
-                  stopColor='var(--color-mobile)'
+                  stopColor='var(--color-tokens)'
                   stopOpacity={0.1}
                 />
               </linearGradient>
             </defs>
             <CartesianGrid vertical={false} />
             <XAxis
-              dataKey='month'
+              dataKey='label'
               tickLine={false}
               axisLine={false}
               tickMargin={8}
               minTickGap={32}
-              tickFormatter={(value) => value.slice(0, 3)}
+            />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={32}
+              allowDecimals={false}
             />
             <ChartTooltip
               cursor={false}
               content={<ChartTooltipContent indicator='dot' />}
             />
             <Area
-              dataKey='mobile'
-              type='natural'
-              fill='url(#fillMobile)'
-              stroke='var(--color-mobile)'
-              stackId='a'
-            />
-            <Area
-              dataKey='desktop'
-              type='natural'
-              fill='url(#fillDesktop)'
-              stroke='var(--color-desktop)'
-              stackId='a'
+              dataKey='tokens'
+              type='monotone'
+              fill='url(#fillTokens)'
+              stroke='var(--color-tokens)'
+              isAnimationActive={false}
             />
           </AreaChart>
         </ChartContainer>
@@ -122,11 +104,11 @@ export function AreaGraph() {
         <div className='flex w-full items-start gap-2 text-sm'>
           <div className='grid gap-2'>
             <div className='flex items-center gap-2 leading-none font-medium'>
-              Trending up by 5.2% this month{' '}
-              <IconTrendingUp className='h-4 w-4' />
+              {thisWeek} this week, {lastWeek} the week before{' '}
+              <TrendIcon className='h-4 w-4' />
             </div>
             <div className='text-muted-foreground flex items-center gap-2 leading-none'>
-              January - June 2024
+              {total} tokens and {wallets} wallets found in total
             </div>
           </div>
         </div>
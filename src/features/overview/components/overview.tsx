@@ -1,5 +1,6 @@
-import PageContainer from '@/components/layout/page-container';
-import { Button } from '@/components/ui/button';
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
 import {
   Card,
   CardDescription,
@@ -8,142 +9,260 @@ import {
   CardTitle,
   CardAction
 } from '@/components/ui/card';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { IconTrendingUp, IconTrendingDown } from '@tabler/icons-react';
+import { Token, getTokens } from '@/lib/api';
+import { getApiBaseUrl } from '@/lib/runtime-config';
+import {
+  CREDIT_LEDGER_EVENT,
+  CreditEntry,
+  getCreditEntries,
+  getMonthlyCreditBudget,
+  monthToDate
+} from '@/lib/credit-ledger';
+import { dailyTotals } from '@/lib/credit-stats';
+import { useRealtimeStore } from '@/lib/realtime-store';
+import { useRealtimeEvents } from '@/hooks/use-realtime-events';
 import { AreaGraph } from './area-graph';
+import { AreaGraphSkeleton } from './area-graph-skeleton';
 import { BarGraph } from './bar-graph';
+import { BarGraphSkeleton } from './bar-graph-skeleton';
 import { PieGraph } from './pie-graph';
-import { RecentSales } from './recent-sales';
-import { IconTrendingUp, IconTrendingDown } from '@tabler/icons-react';
-import { Badge } from '@/components/ui/badge';
+import { PieGraphSkeleton } from './pie-graph-skeleton';
+import { RecentAnalyses } from './recent-analyses';
+import { RecentAnalysesSkeleton } from './recent-analyses-skeleton';
+import {
+  analysesPerDay,
+  marketCapMultipleDistribution,
+  medianMarketCapMultiple,
+  walletsFoundDistribution
+} from '../utils/overview-stats';
 
-export default function OverViewPage() {
+const CHART_DAYS = 30;
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  badge?: string;
+  trendingUp?: boolean;
+  headline: string;
+  detail: string;
+}
+
+function StatCard({
+  label,
+  value,
+  badge,
+  trendingUp = true,
+  headline,
+  detail
+}: StatCardProps) {
+  const TrendIcon = trendingUp ? IconTrendingUp : IconTrendingDown;
   return (
-    <PageContainer>
-      <div className='flex flex-1 flex-col space-y-2'>
-        <div className='flex items-center justify-between space-y-2'>
-          <h2 className='text-2xl font-bold tracking-tight'>
-            Hi, Welcome back 👋
-          </h2>
-          <div className='hidden items-center space-x-2 md:flex'>
-            <Button>Download</Button>
+    <Card className='@container/card' data-testid='overview-stat'>
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className='text-2xl font-semibold tabular-nums @[250px]/card:text-3xl'>
+          {value}
+        </CardTitle>
+        {badge && (
+          <CardAction>
+            <Badge variant='outline'>
+              <TrendIcon />
+              {badge}
+            </Badge>
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardFooter className='flex-col items-start gap-1.5 text-sm'>
+        <div className='line-clamp-1 flex gap-2 font-medium'>{headline}</div>
+        <div className='text-muted-foreground'>{detail}</div>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default function OverViewPage() {
+  // `/analysis` is kept current by the shared realtime store
+  useRealtimeEvents();
+  const jobs = useRealtimeStore((state) => state.jobs);
+  const [tokens, setTokens] = useState<Token[] | null>(null);
+  const [entries, setEntries] = useState<CreditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTokens()
+      .then((data) => setTokens(data.tokens))
+      .catch(() =>
+        setError(
+          `Failed to load tokens. Make sure the FastAPI backend is running at ${getApiBaseUrl()}`
+        )
+      );
+  }, []);
+
+  // Credits come from the browser's ledger; an empty chart beats no page
+  // when IndexedDB is unavailable
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getCreditEntries()
+        .then((data) => {
+          if (!cancelled) setEntries(data);
+        })
+        .catch(() => {});
+    };
+
+    load();
+    window.addEventListener(CREDIT_LEDGER_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CREDIT_LEDGER_EVENT, load);
+    };
+  }, []);
+
+  const perDay = useMemo(
+    () => analysesPerDay(tokens ?? [], CHART_DAYS),
+    [tokens]
+  );
+  const credits = useMemo(() => dailyTotals(entries, CHART_DAYS), [entries]);
+  const walletDistribution = useMemo(
+    () => walletsFoundDistribution(tokens ?? []),
+    [tokens]
+  );
+  const multipleDistribution = useMemo(
+    () => marketCapMultipleDistribution(tokens ?? []),
+    [tokens]
+  );
+  const median = useMemo(() => medianMarketCapMultiple(tokens ?? []), [tokens]);
+
+  if (error) {
+    return (
+      <div className='flex h-full items-center justify-center'>
+        <div className='text-center'>
+          <div className='text-destructive text-lg font-medium'>Error</div>
+          <div className='text-muted-foreground mt-2 text-sm'>{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  const header = (
+    <div>
+      <h1 className='text-3xl font-bold tracking-tight'>Overview</h1>
+      <p className='text-muted-foreground'>
+        Analysis activity, credit spend and how analyzed tokens have performed
+      </p>
+    </div>
+  );
+
+  if (!tokens) {
+    return (
+      <div className='flex h-full flex-col space-y-6'>
+        {header}
+        <div className='grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-7'>
+          <div className='col-span-4'>
+            <AreaGraphSkeleton />
+          </div>
+          <div className='col-span-4 md:col-span-3'>
+            <RecentAnalysesSkeleton />
+          </div>
+          <div className='col-span-4'>
+            <BarGraphSkeleton />
+          </div>
+          <div className='col-span-4 md:col-span-3'>
+            <PieGraphSkeleton />
           </div>
         </div>
-        <Tabs defaultValue='overview' className='space-y-4'>
-          <TabsList>
-            <TabsTrigger value='overview'>Overview</TabsTrigger>
-            <TabsTrigger value='analytics' disabled>
-              Analytics
-            </TabsTrigger>
-          </TabsList>
-          <TabsContent value='overview' className='space-y-4'>
-            <div className='*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 px-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs lg:px-6 @xl/main:grid-cols-2 @5xl/main:grid-cols-4'>
-              <Card className='@container/card'>
-                <CardHeader>
-                  <CardDescription>Total Revenue</CardDescription>
-                  <CardTitle className='text-2xl font-semibold tabular-nums @[250px]/card:text-3xl'>
-                    $1,250.00
-                  </CardTitle>
-                  <CardAction>
-                    <Badge variant='outline'>
-                      <IconTrendingUp />
-                      +12.5%
-                    </Badge>
-                  </CardAction>
-                </CardHeader>
-                <CardFooter className='flex-col items-start gap-1.5 text-sm'>
-                  <div className='line-clamp-1 flex gap-2 font-medium'>
-                    Trending up this month <IconTrendingUp className='size-4' />
-                  </div>
-                  <div className='text-muted-foreground'>
-                    Visitors for the last 6 months
-                  </div>
-                </CardFooter>
-              </Card>
-              <Card className='@container/card'>
-                <CardHeader>
-                  <CardDescription>New Customers</CardDescription>
-                  <CardTitle className='text-2xl font-semibold tabular-nums @[250px]/card:text-3xl'>
-                    1,234
-                  </CardTitle>
-                  <CardAction>
-                    <Badge variant='outline'>
-                      <IconTrendingDown />
-                      -20%
-                    </Badge>
-                  </CardAction>
-                </CardHeader>
-                <CardFooter className='flex-col items-start gap-1.5 text-sm'>
-                  <div className='line-clamp-1 flex gap-2 font-medium'>
-                    Down 20% this period <IconTrendingDown className='size-4' />
-                  </div>
-                  <div className='text-muted-foreground'>
-                    Acquisition needs attention
-                  </div>
-                </CardFooter>
-              </Card>
-              <Card className='@container/card'>
-                <CardHeader>
-                  <CardDescription>Active Accounts</CardDescription>
-                  <CardTitle className='text-2xl font-semibold tabular-nums @[250px]/card:text-3xl'>
-                    45,678
-                  </CardTitle>
-                  <CardAction>
-                    <Badge variant='outline'>
-                      <IconTrendingUp />
-                      +12.5%
-                    </Badge>
-                  </CardAction>
-                </CardHeader>
-                <CardFooter className='flex-col items-start gap-1.5 text-sm'>
-                  <div className='line-clamp-1 flex gap-2 font-medium'>
-                    Strong user retention <IconTrendingUp className='size-4' />
-                  </div>
-                  <div className='text-muted-foreground'>
-                    Engagement exceed targets
-                  </div>
-                </CardFooter>
-              </Card>
-              <Card className='@container/card'>
-                <CardHeader>
-                  <CardDescription>Growth Rate</CardDescription>
-                  <CardTitle className='text-2xl font-semibold tabular-nums @[250px]/card:text-3xl'>
-                    4.5%
-                  </CardTitle>
-                  <CardAction>
-                    <Badge variant='outline'>
-                      <IconTrendingUp />
-                      +4.5%
-                    </Badge>
-                  </CardAction>
-                </CardHeader>
-                <CardFooter className='flex-col items-start gap-1.5 text-sm'>
-                  <div className='line-clamp-1 flex gap-2 font-medium'>
-                    Steady performance increase{' '}
-                    <IconTrendingUp className='size-4' />
-                  </div>
-                  <div className='text-muted-foreground'>
-                    Meets growth projections
-                  </div>
-                </CardFooter>
-              </Card>
-            </div>
-            <div className='grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-7'>
-              <div className='col-span-4'>
-                <BarGraph />
-              </div>
-              <Card className='col-span-4 md:col-span-3'>
-                <RecentSales />
-              </Card>
-              <div className='col-span-4'>
-                <AreaGraph />
-              </div>
-              <div className='col-span-4 md:col-span-3'>
-                <PieGraph />
+      </div>
+    );
+  }
+
+  const totalWallets = tokens.reduce(
+    (acc, token) => acc + token.wallets_found,
+    0
+  );
+  const thisWeek = perDay.slice(-7).reduce((acc, day) => acc + day.tokens, 0);
+  const creditsThisMonth = monthToDate(entries);
+  const budget = getMonthlyCreditBudget();
+  const withMultiple = multipleDistribution.reduce(
+    (acc, slice) => acc + slice.value,
+    0
+  );
+  const winners = multipleDistribution
+    .filter((slice) => slice.key === 'runner' || slice.key === 'moon')
+    .reduce((acc, slice) => acc + slice.value, 0);
+
+  return (
+    <div className='flex h-full flex-col space-y-6'>
+      {header}
+
+      <div className='*:data-[slot=card]:from-primary/5 *:data-[slot=card]:to-card dark:*:data-[slot=card]:bg-card grid grid-cols-1 gap-4 *:data-[slot=card]:bg-gradient-to-t *:data-[slot=card]:shadow-xs md:grid-cols-2 lg:grid-cols-4'>
+        <StatCard
+          label='Tokens analyzed'
+          value={tokens.length.toLocaleString()}
+          badge={`+${thisWeek}`}
+          headline={`${thisWeek} analyzed in the last 7 days`}
+          detail='Active tokens, excluding trash'
+        />
+        <StatCard
+          label='Early buyer wallets'
+          value={totalWallets.toLocaleString()}
+          headline={`${
+            tokens.length ? (totalWallets / tokens.length).toFixed(1) : 0
+          } wallets per token`}
+          detail='Sum of wallets found across tokens'
+        />
+        <StatCard
+          label='Credits this month'
+          value={creditsThisMonth.toLocaleString()}
+          badge={`${budget > 0 ? Math.round((creditsThisMonth / budget) * 100) : 0}%`}
+          trendingUp={creditsThisMonth < budget}
+          headline={`Of a ${budget.toLocaleString()} credit budget`}
+          detail='Recorded by this browser'
+        />
+        <StatCard
+          label='Median market cap multiple'
+          value={median === null ? '-' : `${median.toFixed(2)}x`}
+          badge={median === null ? undefined : `${winners} at 2x+`}
+          trendingUp={median === null || median >= 1}
+          headline={`${winners} of ${withMultiple} tokens at 2x or more`}
+          detail='Current vs. market cap at analysis'
+        />
+      </div>
+
+      <div className='grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-7'>
+        <div className='col-span-4'>
+          <AreaGraph data={perDay} />
+        </div>
+        <div className='col-span-4 md:col-span-3'>
+          <RecentAnalyses jobs={jobs?.jobs ?? []} />
+        </div>
+        <div className='col-span-4 lg:col-span-7'>
+          <BarGraph data={credits} />
+        </div>
+        <div className='col-span-4 grid grid-cols-1 gap-4 md:col-span-2 md:grid-cols-2 lg:col-span-7'>
+          <PieGraph
+            id='wallets'
+            title='Wallets Found'
+            description='Tokens by number of early buyer wallets found'
+            data={walletDistribution}
+            totalLabel='Tokens'
+          />
+          <PieGraph
+            id='multiples'
+            title='Market Cap Multiple'
+            description='Tokens by current market cap relative to analysis time'
+            data={multipleDistribution}
+            totalLabel='With market cap'
+            footer={
+              <div className='text-muted-foreground leading-none'>
+                {tokens.length - withMultiple} tokens without both market caps
+                are left out
               </div>
-            </div>
-          </TabsContent>
-        </Tabs>
+            }
+          />
+        </div>
       </div>
-    </PageContainer>
+    </div>
   );
 }
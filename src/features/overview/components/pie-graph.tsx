@@ -1,7 +1,6 @@
 'use client';
 
 import * as React from 'react';
-import { IconTrendingUp } from '@tabler/icons-react';
 import { Label, Pie, PieChart } from 'recharts';
 
 import {
@@ -18,69 +17,68 @@ import {
   ChartTooltip,
   ChartTooltipContent
 } from '@/components/ui/chart';
+import { DistributionSlice } from '../utils/overview-stats';
 
-const chartData = [
-  { browser: 'chrome', visitors: 275, fill: 'var(--primary)' },
-  { browser: 'safari', visitors: 200, fill: 'var(--primary-light)' },
-  { browser: 'firefox', visitors: 287, fill: 'var(--primary-lighter)' },
-  { browser: 'edge', visitors: 173, fill: 'var(--primary-dark)' },
-  { browser: 'other', visitors: 190, fill: 'var(--primary-darker)' }
-];
+interface PieGraphProps {
+  // Distinguishes the gradient ids when several pies share a page
+  id: string;
+  title: string;
+  description: string;
+  data: DistributionSlice[];
+  // Caption under the total in the middle of the donut
+  totalLabel: string;
+  footer?: React.ReactNode;
+}
 
-const chartConfig = {
-  visitors: {
-    label: 'Visitors'
-  },
-  chrome: {
-    label: 'Chrome',
-    color: 'var(--primary)'
-  },
-  safari: {
-    label: 'Safari',
-    color: 'var(--primary)'
-  },
-  firefox: {
-    label: 'Firefox',
-    color: 'var(--primary)'
-  },
-  edge: {
-    label: 'Edge',
-    color: 'var(--primary)'
-  },
-  other: {
-    label: 'Other',
-    color: 'var(--primary)'
-  }
-} satisfies ChartConfig;
+export function PieGraph({
+  id,
+  title,
+  description,
+  data,
+  totalLabel,
+  footer
+}: PieGraphProps) {
+  const total = React.useMemo(
+    () => data.reduce((acc, curr) => acc + curr.value, 0),
+    [data]
+  );
 
-export function PieGraph() {
-  const totalVisitors = React.useMemo(() => {
-    return chartData.reduce((acc, curr) => acc + curr.visitors, 0);
-  }, []);
+  const chartConfig = React.useMemo(
+    () =>
+      ({
+        value: { label: totalLabel },
+        ...Object.fromEntries(
+          data.map((slice) => [
+            slice.key,
+            { label: slice.label, color: 'var(--primary)' }
+          ])
+        )
+      }) satisfies ChartConfig,
+    [data, totalLabel]
+  );
 
   return (
-    <Card className='@container/card'>
+    <Card className='@container/card' data-testid={`overview-${id}-chart`}>
       <CardHeader>
-        <CardTitle>Pie Chart - Donut with Text</CardTitle>
-        <CardDescription>
-          <span className='hidden @[540px]/card:block'>
-            Total visitors by browser for the last 6 months
-          </span>
-          <span className='@[540px]/card:hidden'>Browser distribution</span>
-        </CardDescription>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
       </CardHeader>
       <CardContent className='px-2 pt-4 sm:px-6 sm:pt-6'>
-        <ChartContainer
-          config={chartConfig}
-          className='mx-auto aspect-square h-[250px]'
-        >
-          <PieChart>
-            <defs>
-              {['chrome', 'safari', 'firefox', 'edge', 'other'].map(
-                (browser, index) => (
+        {total === 0 ? (
+          <div className='text-muted-foreground flex h-[250px] items-center justify-center text-sm'>
+            No data yet
+          </div>
+        ) : (
+          <ChartContainer
+            config={chartConfig}
+            className='mx-auto aspect-square h-[250px]'
+          >
+            <PieChart>
+              <defs>
+                {data.map((slice, index) => (
                   <linearGradient
-                    key={browser}
-                    id={`fill${browser}`}
+                    key={slice.key}
+                    id={`fill-${id}-${slice.key}`}
                     x1='0'
                     y1='0'
                     x2='0'
@@ -97,67 +95,63 @@ export function PieGraph() {
                       stopOpacity={0.8 - index * 0.15}
                     />
                   </linearGradient>
-                )
-              )}
-            </defs>
-            <ChartTooltip
-              cursor={false}
-              content={<ChartTooltipContent hideLabel />}
-            />
-            <Pie
-              data={chartData.map((item) => ({
-                ...item,
-                fill: `url(#fill${item.browser})`
-              }))}
-              dataKey='visitors'
-              nameKey='browser'
-              innerRadius={60}
-              strokeWidth={2}
-              stroke='var(--background)'
-            >
-              <Label
-                content={({ viewBox }) => {
-                  if (viewBox && 'cx' in viewBox && 'cy' in viewBox) {
-                    return (
-                      <text
-                        x={viewBox.cx}
-                        y={viewBox.cy}
-                        textAnchor='middle'
-                        dominantBaseline='middle'
-                      >
-                        <tspan
+                ))}
+              </defs>
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent hideLabel />}
+              />
+              <Pie
+                data={data
+                  .filter((slice) => slice.value > 0)
+                  .map((slice) => ({
+                    ...slice,
+                    fill: `url(#fill-${id}-${slice.key})`
+                  }))}
+                dataKey='value'
+                nameKey='key'
+                innerRadius={60}
+                strokeWidth={2}
+                stroke='var(--background)'
+                isAnimationActive={false}
+              >
+                <Label
+                  content={({ viewBox }) => {
+                    if (viewBox && 'cx' in viewBox && 'cy' in viewBox) {
+                      return (
+                        <text
                           x={viewBox.cx}
                           y={viewBox.cy}
-                          className='fill-foreground text-3xl font-bold'
+                          textAnchor='middle'
+                          dominantBaseline='middle'
                         >
-                          {totalVisitors.toLocaleString()}
-                        </tspan>
-                        <tspan
-                          x={viewBox.cx}
-                          y={(viewBox.cy || 0) + 24}
-                          className='fill-muted-foreground text-sm'
-                        >
-                          Total Visitors
-                        </tspan>
-                      </text>
-                    );
-                  }
-                }}
-              />
-            </Pie>
-          </PieChart>
-        </ChartContainer>
+                          <tspan
+                            x={viewBox.cx}
+                            y={viewBox.cy}
+                            className='fill-foreground text-3xl font-bold'
+                          >
+                            {total.toLocaleString()}
+                          </tspan>
+                          <tspan
+                            x={viewBox.cx}
+                            y={(viewBox.cy || 0) + 24}
+                            className='fill-muted-foreground text-sm'
+                          >
+                            {totalLabel}
+                          </tspan>
+                        </text>
+                      );
+                    }
+                  }}
+                />
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+        )}
       </CardContent>
-      <CardFooter className='flex-col gap-2 text-sm'>
-        <div className='flex items-center gap-2 leading-none font-medium'>
-          Chrome leads with{' '}
-          {((chartData[0].visitors / totalVisitors) * 100).toFixed(1)}%{' '}
-          <IconTrendingUp className='h-4 w-4' />
-        </div>
-        <div className='text-muted-foreground leading-none'>
-          Based on data from January - June 2024
-        </div>
-      </CardFooter>
+      {footer && (
+        <CardFooter className='flex-col gap-2 text-sm'>{footer}</CardFooter>
+      )}
     </Card>
   );
 }
@@ -1,7 +1,7 @@
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 
-export function RecentSalesSkeleton() {
+export function RecentAnalysesSkeleton() {
   return (
     <Card className='h-full'>
       <CardHeader>
@@ -12,12 +12,11 @@ export function RecentSalesSkeleton() {
         <div className='space-y-8'>
           {Array.from({ length: 5 }).map((_, i) => (
             <div key={i} className='flex items-center'>
-              <Skeleton className='h-9 w-9 rounded-full' /> {/* Avatar */}
-              <div className='ml-4 space-y-1'>
-                <Skeleton className='h-4 w-[120px]' /> {/* Name */}
-                <Skeleton className='h-4 w-[160px]' /> {/* Email */}
+              <div className='space-y-1'>
+                <Skeleton className='h-4 w-[120px]' /> {/* Token */}
+                <Skeleton className='h-4 w-[160px]' /> {/* Time */}
               </div>
-              <Skeleton className='ml-auto h-4 w-[80px]' /> {/* Amount */}
+              <Skeleton className='ml-auto h-4 w-[80px]' /> {/* Status */}
             </div>
           ))}
         </div>
@@ -0,0 +1,69 @@
+import Link from 'next/link';
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  CardTitle,
+  CardDescription
+} from '@/components/ui/card';
+import { JobStatusBadge } from '@/components/job-status-badge';
+import { AnalysisJobSummary, formatTimestamp, isJobActive } from '@/lib/api';
+
+const MAX_ANALYSES = 6;
+
+export function RecentAnalyses({ jobs }: { jobs: AnalysisJobSummary[] }) {
+  const recent = [...jobs]
+    .sort((a, b) => (b.timestamp ?? '').localeCompare(a.timestamp ?? ''))
+    .slice(0, MAX_ANALYSES);
+  const running = jobs.filter((job) => isJobActive(job.status)).length;
+
+  return (
+    <Card className='h-full' data-testid='overview-recent-analyses'>
+      <CardHeader>
+        <CardTitle>Recent Analyses</CardTitle>
+        <CardDescription>
+          {jobs.length} jobs on the backend
+          {running > 0 && `, ${running} in progress`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {recent.length === 0 ? (
+          <div className='text-muted-foreground py-8 text-center text-sm'>
+            No analyses yet
+          </div>
+        ) : (
+          <div className='space-y-6'>
+            {recent.map((job) => (
+              <div
+                key={job.job_id}
+                className='flex items-center gap-4'
+                data-testid='overview-recent-analysis'
+              >
+                <div className='min-w-0 space-y-1'>
+                  <Link
+                    href={`/dashboard/jobs/${job.job_id}`}
+                    className='block truncate text-sm leading-none font-medium hover:underline'
+                  >
+                    {job.token_name || job.token_address}
+                    {job.token_symbol && (
+                      <span className='text-muted-foreground ml-1 font-normal'>
+                        ({job.token_symbol})
+                      </span>
+                    )}
+                  </Link>
+                  <p className='text-muted-foreground text-xs'>
+                    {job.timestamp ? formatTimestamp(job.timestamp) : '-'}
+                    {job.wallets_found != null &&
+                      ` · ${job.wallets_found} wallets`}
+                    {job.credits_used ? ` · ${job.credits_used} credits` : ''}
+                  </p>
+                </div>
+                <JobStatusBadge status={job.status} className='ml-auto' />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
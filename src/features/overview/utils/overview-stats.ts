@@ -0,0 +1,117 @@
+import { Token, getMarketCapMultiple, parseUtcTimestamp } from '@/lib/api';
+
+export interface DailyAnalyses {
+  label: string;
+  tokens: number;
+  wallets: number;
+}
+
+export interface DistributionSlice {
+  key: string;
+  label: string;
+  value: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Tokens (and wallets found) per day by last analysis time, oldest day first
+ */
+export function analysesPerDay(
+  tokens: Token[],
+  days = 30,
+  now = new Date()
+): DailyAnalyses[] {
+  const first = startOfDay(now).getTime() - (days - 1) * DAY_MS;
+  const buckets: DailyAnalyses[] = Array.from({ length: days }, (_, i) => ({
+    label: new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() - days + 1 + i
+    ).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    tokens: 0,
+    wallets: 0
+  }));
+
+  tokens.forEach((token) => {
+    const day = startOfDay(parseUtcTimestamp(token.analysis_timestamp));
+    // Round rather than floor so DST shifts don't move a day
+    const i = Math.round((day.getTime() - first) / DAY_MS);
+    if (i < 0 || i >= days) return;
+    buckets[i].tokens += 1;
+    buckets[i].wallets += token.wallets_found;
+  });
+  return buckets;
+}
+
+const WALLET_BUCKETS: { key: string; label: string; max: number }[] = [
+  { key: 'none', label: 'No wallets', max: 0 },
+  { key: 'few', label: '1-10 wallets', max: 10 },
+  { key: 'some', label: '11-25 wallets', max: 25 },
+  { key: 'many', label: '26-50 wallets', max: 50 },
+  { key: 'most', label: '51+ wallets', max: Infinity }
+];
+
+/**
+ * How many tokens fall in each `wallets_found` range
+ */
+export function walletsFoundDistribution(tokens: Token[]): DistributionSlice[] {
+  return WALLET_BUCKETS.map((bucket, i) => ({
+    key: bucket.key,
+    label: bucket.label,
+    value: tokens.filter(
+      (token) =>
+        token.wallets_found <= bucket.max &&
+        (i === 0 || token.wallets_found > WALLET_BUCKETS[i - 1].max)
+    ).length
+  }));
+}
+
+const MULTIPLE_BUCKETS: { key: string; label: string; max: number }[] = [
+  { key: 'rugged', label: 'Below 0.5x', max: 0.5 },
+  { key: 'down', label: '0.5x - 1x', max: 1 },
+  { key: 'up', label: '1x - 2x', max: 2 },
+  { key: 'runner', label: '2x - 10x', max: 10 },
+  { key: 'moon', label: '10x and up', max: Infinity }
+];
+
+/**
+ * How many tokens fall in each current/original market cap range
+ *
+ * Tokens without both market caps are left out.
+ */
+export function marketCapMultipleDistribution(
+  tokens: Token[]
+): DistributionSlice[] {
+  const multiples = tokens
+    .map(getMarketCapMultiple)
+    .filter((multiple): multiple is number => multiple !== null);
+  return MULTIPLE_BUCKETS.map((bucket, i) => ({
+    key: bucket.key,
+    label: bucket.label,
+    value: multiples.filter(
+      (multiple) =>
+        multiple < bucket.max &&
+        (i === 0 || multiple >= MULTIPLE_BUCKETS[i - 1].max)
+    ).length
+  }));
+}
+
+/**
+ * Median current/original market cap multiple, or null when none are known
+ */
+export function medianMarketCapMultiple(tokens: Token[]): number | null {
+  const multiples = tokens
+    .map(getMarketCapMultiple)
+    .filter((multiple): multiple is number => multiple !== null)
+    .sort((a, b) => a - b);
+  if (multiples.length === 0) return null;
+  const mid = Math.floor(multiples.length / 2);
+  return multiples.length % 2
+    ? multiples[mid]
+    : (multiples[mid - 1] + multiples[mid]) / 2;
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  BALANCE_HISTORY_EVENT,
+  BalanceSnapshot,
+  getBalanceHistory
+} from '@/lib/wallet-balance-history';
+
+/**
+ * Recorded balance refreshes for a wallet, kept up to date as new refreshes
+ * are recorded
+ */
+export function useBalanceHistory(walletAddress: string): BalanceSnapshot[] {
+  const [history, setHistory] = useState<BalanceSnapshot[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      getBalanceHistory(walletAddress)
+        .then((data) => {
+          if (!cancelled) setHistory(data);
+        })
+        .catch(() => {
+          // IndexedDB unavailable (e.g. private browsing) - no history
+        });
+    };
+
+    const handleChange = (event: Event) => {
+      const { walletAddresses } = (event as CustomEvent).detail ?? {};
+      if (
+        !Array.isArray(walletAddresses) ||
+        walletAddresses.includes(walletAddress)
+      ) {
+        load();
+      }
+    };
+
+    load();
+    window.addEventListener(BALANCE_HISTORY_EVENT, handleChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(BALANCE_HISTORY_EVENT, handleChange);
+    };
+  }, [walletAddress]);
+
+  return history;
+}
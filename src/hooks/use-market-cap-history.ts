@@ -0,0 +1,60 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  MARKET_CAP_HISTORY_EVENT,
+  MarketCapSnapshot,
+  getMarketCapHistories
+} from '@/lib/market-cap-history';
+
+/**
+ * Recorded market cap snapshots for the given tokens, kept up to date as new
+ * refreshes are recorded
+ */
+export function useMarketCapHistories(
+  tokenIds: number[]
+): Record<number, MarketCapSnapshot[]> {
+  const [histories, setHistories] = useState<
+    Record<number, MarketCapSnapshot[]>
+  >({});
+  // Stable dependency for the id list
+  const key = tokenIds.join(',');
+
+  useEffect(() => {
+    const ids = key ? key.split(',').map(Number) : [];
+    let cancelled = false;
+
+    const load = () => {
+      getMarketCapHistories(ids)
+        .then((data) => {
+          if (!cancelled) setHistories(data);
+        })
+        .catch(() => {
+          // IndexedDB unavailable (e.g. private browsing) - no history
+        });
+    };
+
+    const handleChange = (event: Event) => {
+      const { tokenIds: changed } = (event as CustomEvent).detail ?? {};
+      if (
+        !Array.isArray(changed) ||
+        changed.some((id: number) => ids.includes(id))
+      ) {
+        load();
+      }
+    };
+
+    load();
+    window.addEventListener(MARKET_CAP_HISTORY_EVENT, handleChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(MARKET_CAP_HISTORY_EVENT, handleChange);
+    };
+  }, [key]);
+
+  return histories;
+}
+
+export function useMarketCapHistory(tokenId: number): MarketCapSnapshot[] {
+  return useMarketCapHistories([tokenId])[tokenId] ?? [];
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCallbackRef } from '@/hooks/use-callback-ref';
+import {
+  AnalysisEventListener,
+  RealtimeStatus,
+  useRealtimeStore
+} from '@/lib/realtime-store';
+
+/**
+ * Subscribe to realtime analysis events for the lifetime of the component
+ *
+ * The connection is shared - mounting this in several places never opens a
+ * second socket or shows a second toast. Returns the connection status.
+ */
+export function useRealtimeEvents(
+  onEvent?: AnalysisEventListener
+): RealtimeStatus {
+  const handleEvent = useCallbackRef(onEvent);
+  const subscribe = useRealtimeStore((state) => state.subscribe);
+
+  useEffect(() => subscribe(handleEvent), [subscribe, handleEvent]);
+
+  return useRealtimeStore((state) => state.status);
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { MARKET_CAP_HISTORY_EVENT } from '@/lib/market-cap-history';
+import { WalletScore, loadSmartMoneyScores } from '@/lib/smart-money';
+
+// Wait for a burst of market cap refreshes to settle before rescoring
+const RELOAD_DELAY_MS = 2000;
+
+/**
+ * Smart money scores by wallet address (null until loaded), rescored when
+ * market caps are refreshed. Nothing is fetched until `enabled`.
+ */
+export function useSmartMoneyScores(
+  enabled = true
+): Record<string, WalletScore> | null {
+  const [scores, setScores] = useState<Record<string, WalletScore> | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = (force: boolean) => {
+      loadSmartMoneyScores(force)
+        .then((data) => {
+          if (!cancelled) setScores(data);
+        })
+        .catch(() => {
+          // Scores are extra information - leave the column empty
+          if (!cancelled) setScores({});
+        });
+    };
+    const handleChange = () => {
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => load(true), RELOAD_DELAY_MS);
+    };
+
+    load(false);
+    window.addEventListener(MARKET_CAP_HISTORY_EVENT, handleChange);
+    return () => {
+      cancelled = true;
+      clearTimeout(reloadTimer);
+      window.removeEventListener(MARKET_CAP_HISTORY_EVENT, handleChange);
+    };
+  }, [enabled]);
+
+  return scores;
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import {
+  RefObject,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState
+} from 'react';
+
+interface UseVirtualRowsOptions {
+  // The scrolling element that contains the rows
+  scrollRef: RefObject<HTMLElement | null>;
+  // Stable key per row, in render order
+  keys: string[];
+  // Height used for rows that haven't been rendered yet
+  estimateSize: number;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+}
+
+export interface VirtualRows {
+  // Indexes of the rows to render
+  indexes: number[];
+  // Space to leave above and below them, in px
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Row windowing for long tables
+ *
+ * Only the rows in (or near) the viewport are rendered; spacer rows stand in
+ * for the rest. Rendered rows must carry `data-row-key` so their real height
+ * is measured after each render and reused while scrolling.
+ */
+export function useVirtualRows({
+  scrollRef,
+  keys,
+  estimateSize,
+  overscan = 8
+}: UseVirtualRowsOptions): VirtualRows {
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [sizes, setSizes] = useState<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const update = () =>
+      setViewport({ top: element.scrollTop, height: element.clientHeight });
+    update();
+
+    element.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [scrollRef]);
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, i) => {
+      result[i + 1] = result[i] + (sizes.get(key) ?? estimateSize);
+    });
+    return result;
+  }, [keys, sizes, estimateSize]);
+
+  const windowed = useMemo((): VirtualRows => {
+    const count = keys.length;
+    if (count === 0) return { indexes: [], paddingTop: 0, paddingBottom: 0 };
+
+    // First row whose bottom is below the top of the viewport
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= viewport.top) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    // Before the scroll element is measured, fill ten rows
+    const bottom = viewport.top + (viewport.height || estimateSize * 10);
+    let last = low;
+    while (last < count - 1 && offsets[last + 1] < bottom) last++;
+
+    const start = Math.max(0, low - overscan);
+    const end = Math.min(count - 1, last + overscan);
+    const indexes: number[] = [];
+    for (let i = start; i <= end; i++) indexes.push(i);
+
+    return {
+      indexes,
+      paddingTop: offsets[start],
+      paddingBottom: offsets[count] - offsets[end + 1]
+    };
+  }, [keys.length, offsets, viewport, estimateSize, overscan]);
+
+  // Measure the rows rendered for this window; only re-render when a height
+  // changed
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const rows = element.querySelectorAll<HTMLElement>('[data-row-key]');
+    const changed = Array.from(rows).filter(
+      (row) =>
+        row.offsetHeight > 0 &&
+        sizes.get(row.dataset.rowKey!) !== row.offsetHeight
+    );
+    if (changed.length === 0) return;
+
+    const next = new Map(sizes);
+    changed.forEach((row) => next.set(row.dataset.rowKey!, row.offsetHeight));
+    setSizes(next);
+  }, [scrollRef, sizes, windowed]);
+
+  return windowed;
+}
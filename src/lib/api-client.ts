@@ -0,0 +1,296 @@
+/**
+ * Typed fetch client for the FastAPI backend
+ *
+ * Paths, path/query parameters, request bodies and response types all come
+ * from the generated OpenAPI `paths`, so calling a route that doesn't exist
+ * or sending the wrong body is a compile error. Non-2xx responses throw
+ * `ApiError`.
+ */
+
+import { components, paths } from './generated/api-types';
+import { getApiBaseUrl } from './runtime-config';
+
+export type ValidationError = components['schemas']['ValidationError'];
+export type HTTPValidationError = components['schemas']['HTTPValidationError'];
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown for any non-2xx backend response
+ *
+ * `detail` is the parsed FastAPI `detail` field: a list of validation errors
+ * for 422 responses, a plain message for `HTTPException`s, or null when the
+ * body wasn't JSON.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly detail: ValidationError[] | string | null;
+  /** Parsed JSON error body, if any */
+  readonly body: unknown;
+
+  constructor(
+    status: number,
+    endpoint: string,
+    detail: ValidationError[] | string | null,
+    message: string,
+    body: unknown = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.detail = detail;
+    this.body = body;
+  }
+
+  get validationErrors(): ValidationError[] {
+    return Array.isArray(this.detail) ? this.detail : [];
+  }
+
+  /**
+   * Validation messages keyed by request field (`body.api_settings.max_wallets`
+   * becomes `api_settings.max_wallets`)
+   */
+  get fieldErrors(): Record<string, string> {
+    const errors: Record<string, string> = {};
+    for (const error of this.validationErrors) {
+      const [location, ...field] = error.loc;
+      const key = (location === 'body' ? field : error.loc).join('.');
+      if (key && !errors[key]) errors[key] = error.msg;
+    }
+    return errors;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Build an ApiError from a failed response, reading FastAPI `detail` or the
+ * `error`/`message` fields older endpoints return
+ */
+async function toApiError(
+  res: Response,
+  endpoint: string,
+  fallback?: string
+): Promise<ApiError> {
+  let detail: ApiError['detail'] = null;
+  let message = fallback || `Request failed with status ${res.status}`;
+  let body = null;
+
+  try {
+    body = await res.json();
+    if (typeof body?.detail === 'string') {
+      detail = body.detail;
+      message = body.detail;
+    } else if (Array.isArray(body?.detail)) {
+      const errors: ValidationError[] = body.detail;
+      detail = errors;
+      if (errors.length) {
+        message = errors
+          .map((error) => `${error.loc.slice(1).join('.')}: ${error.msg}`)
+          .join('; ');
+      }
+    } else if (body?.error || body?.message) {
+      detail = body.error || body.message;
+      message = body.error || body.message;
+    }
+  } catch {
+    // Non-JSON error body - keep the fallback message
+  }
+
+  return new ApiError(res.status, endpoint, detail, message, body);
+}
+
+// ============================================================================
+// Types derived from `paths`
+// ============================================================================
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * Paths that define the given method
+ */
+export type PathsWithMethod<M extends HttpMethod> = {
+  [P in keyof paths]: paths[P] extends Record<M, object> ? P : never;
+}[keyof paths];
+
+type Operation<P extends keyof paths, M extends HttpMethod> =
+  paths[P] extends Record<M, infer Op> ? Op : never;
+
+type OperationParams<Op> = Op extends { parameters: infer Params }
+  ? Params
+  : never;
+
+type PathParams<Op> = NonNullable<
+  OperationParams<Op> extends { path?: infer Path } ? Path : never
+>;
+
+type QueryParams<Op> = NonNullable<
+  OperationParams<Op> extends { query?: infer Query } ? Query : never
+>;
+
+type RequestBody<Op> = Op extends { requestBody?: infer Body }
+  ? NonNullable<Body> extends { content: { 'application/json': infer Json } }
+    ? Json
+    : never
+  : never;
+
+type SuccessStatus = 200 | 201 | 202 | 204;
+
+/**
+ * Union of the 2xx JSON (or text) response bodies for an operation
+ */
+export type ResponseBody<Op> = Op extends { responses: infer Responses }
+  ? {
+      [S in keyof Responses]: S extends SuccessStatus
+        ? Responses[S] extends { content: infer Content }
+          ? Content extends { 'application/json': infer Json }
+            ? Json
+            : Content extends { 'text/plain': infer Text }
+              ? Text
+              : unknown
+          : void
+        : never;
+    }[keyof Responses]
+  : never;
+
+type PathOption<Op> = [PathParams<Op>] extends [never]
+  ? { path?: never }
+  : { path: PathParams<Op> };
+
+type QueryOption<Op> = [QueryParams<Op>] extends [never]
+  ? { query?: never }
+  : { query?: QueryParams<Op> };
+
+type BodyOption<Op> = [RequestBody<Op>] extends [never]
+  ? { body?: never }
+  : Op extends { requestBody: object }
+    ? { body: RequestBody<Op> }
+    : { body?: RequestBody<Op> };
+
+export type RequestOptions<Op> = PathOption<Op> &
+  QueryOption<Op> &
+  BodyOption<Op> & {
+    /** Message used when the error response has none of its own */
+    errorMessage?: string;
+    signal?: AbortSignal;
+  };
+
+// Options can be omitted when the operation has no required path params/body
+type OptionsArgs<Op> = [PathParams<Op>] extends [never]
+  ? Op extends { requestBody: object }
+    ? [options: RequestOptions<Op>]
+    : [options?: RequestOptions<Op>]
+  : [options: RequestOptions<Op>];
+
+// ============================================================================
+// Client
+// ============================================================================
+
+function buildUrl(
+  path: string,
+  pathParams?: Record<string, string | number>,
+  query?: Record<string, unknown>
+): string {
+  const resolved = path.replace(/\{(\w+)\}/g, (_, name: string) =>
+    encodeURIComponent(String(pathParams?.[name] ?? ''))
+  );
+
+  const search = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  });
+  const queryString = search.toString();
+
+  return `${getApiBaseUrl()}${resolved}${queryString ? `?${queryString}` : ''}`;
+}
+
+/**
+ * Send a request and return the raw Response (throws ApiError on non-2xx)
+ *
+ * Use this for downloads and other non-JSON responses; `request` covers the
+ * common JSON case.
+ */
+export async function requestRaw<
+  M extends HttpMethod,
+  P extends PathsWithMethod<M>
+>(
+  method: M,
+  path: P,
+  ...[options]: OptionsArgs<Operation<P, M>>
+): Promise<Response> {
+  const {
+    path: pathParams,
+    query,
+    body,
+    errorMessage,
+    signal
+  } = (options || {}) as {
+    path?: Record<string, string | number>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+    errorMessage?: string;
+    signal?: AbortSignal;
+  };
+
+  const res = await fetch(buildUrl(path, pathParams, query), {
+    method: method.toUpperCase(),
+    headers:
+      body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    cache: 'no-store', // Always fetch fresh data
+    signal
+  });
+
+  if (!res.ok) {
+    throw await toApiError(
+      res,
+      `${method.toUpperCase()} ${path}`,
+      errorMessage
+    );
+  }
+
+  return res;
+}
+
+/**
+ * Send a request and parse the JSON (or text) response body
+ */
+export async function request<
+  M extends HttpMethod,
+  P extends PathsWithMethod<M>
+>(
+  method: M,
+  path: P,
+  ...args: OptionsArgs<Operation<P, M>>
+): Promise<ResponseBody<Operation<P, M>>> {
+  const res = await requestRaw(method, path, ...args);
+  if (res.status === 204) return undefined as ResponseBody<Operation<P, M>>;
+
+  const contentType = res.headers.get('Content-Type') || '';
+  return contentType.includes('application/json') ? res.json() : res.text();
+}
+
+export const apiClient = {
+  get: <P extends PathsWithMethod<'get'>>(
+    path: P,
+    ...args: OptionsArgs<Operation<P, 'get'>>
+  ) => request('get', path, ...args),
+  post: <P extends PathsWithMethod<'post'>>(
+    path: P,
+    ...args: OptionsArgs<Operation<P, 'post'>>
+  ) => request('post', path, ...args),
+  put: <P extends PathsWithMethod<'put'>>(
+    path: P,
+    ...args: OptionsArgs<Operation<P, 'put'>>
+  ) => request('put', path, ...args),
+  delete: <P extends PathsWithMethod<'delete'>>(
+    path: P,
+    ...args: OptionsArgs<Operation<P, 'delete'>>
+  ) => request('delete', path, ...args)
+};
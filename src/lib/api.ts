@@ -1,13 +1,19 @@
 /**
  * Gun Del Sol API Client
- * Fetches data from the FastAPI backend running on localhost:5003
+ * Fetches data from the FastAPI backend (URL resolved at runtime, see
+ * `./runtime-config`)
  *
- * Uses auto-generated types from OpenAPI schema
+ * Uses auto-generated types from OpenAPI schema; requests go through the
+ * typed client in `./api-client`, which throws `ApiError` on failure
  */
 
 import { components } from './generated/api-types';
+import { apiClient, isApiError, requestRaw } from './api-client';
+import { recordRefreshCredits } from './credit-ledger';
+import { recordMarketCapSnapshots } from './market-cap-history';
+import { recordBalanceSnapshots } from './wallet-balance-history';
 
-export const API_BASE_URL = 'http://localhost:5003';
+export { ApiError, isApiError } from './api-client';
 
 // ============================================================================
 // Type Exports (from generated schemas)
@@ -30,6 +36,7 @@ export type AnalysisJob = components['schemas']['AnalysisJob'];
 export type AnalysisJobSummary = components['schemas']['AnalysisJobSummary'];
 export type AnalysisListResponse =
   components['schemas']['AnalysisListResponse'];
+export type AnalyzeTokenRequest = components['schemas']['AnalyzeTokenRequest'];
 export type QueueTokenResponse = components['schemas']['QueueTokenResponse'];
 export type RefreshBalancesResult =
   components['schemas']['RefreshBalancesResult'];
@@ -40,9 +47,77 @@ export type RefreshMarketCapResult =
 export type RefreshMarketCapsResponse =
   components['schemas']['RefreshMarketCapsResponse'];
 
+export type RegisterAddressRequest =
+  components['schemas']['RegisterAddressRequest'];
+export type ImportAddressEntry = components['schemas']['ImportAddressEntry'];
+export type ImportAddressesRequest =
+  components['schemas']['ImportAddressesRequest'];
+
+// Watchlist responses are untyped in the OpenAPI schema (`unknown`)
+export interface WatchlistAddress extends ImportAddressEntry {
+  registered_at: string | null;
+}
+
+export interface WatchlistResponse {
+  total: number;
+  addresses: WatchlistAddress[];
+}
+
+export interface ImportAddressesResult {
+  message?: string;
+  added?: number;
+  skipped?: number;
+}
+
+export type CreateWebhookRequest =
+  components['schemas']['CreateWebhookRequest'];
+
+// Webhook responses are untyped in the OpenAPI schema; the backend proxies
+// Helius webhook objects as-is
+export interface HeliusWebhook {
+  webhookID: string;
+  wallet?: string;
+  webhookURL: string;
+  webhookType?: string;
+  transactionTypes?: string[];
+  accountAddresses: string[];
+  authHeader?: string;
+}
+
+export interface CreateWebhookResult {
+  webhook_id: string;
+  webhook_url?: string;
+  monitoring_wallets?: number;
+  message?: string;
+}
+
+// `/metrics/health` is untyped in the OpenAPI schema
+export interface MetricsHealth {
+  status: string;
+  [key: string]: unknown;
+}
+
 // Backwards compatibility - ApiSettings is now AnalysisSettings
 export type ApiSettings = AnalysisSettings;
 
+/**
+ * Whether a job is still queued or running
+ */
+export function isJobActive(status: string | undefined): boolean {
+  return status === 'queued' || status === 'processing';
+}
+
+/**
+ * Current market cap as a multiple of the market cap at analysis time
+ * (null until both are known)
+ */
+export function getMarketCapMultiple(
+  token: Pick<Token, 'market_cap_usd' | 'market_cap_usd_current'>
+): number | null {
+  if (!token.market_cap_usd || !token.market_cap_usd_current) return null;
+  return token.market_cap_usd_current / token.market_cap_usd;
+}
+
 // ============================================================================
 // API Functions
 // ============================================================================
@@ -51,30 +126,19 @@ export type ApiSettings = AnalysisSettings;
  * Fetch all analyzed tokens
  */
 export async function getTokens(): Promise<TokensResponse> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/history`, {
-    cache: 'no-store' // Always fetch fresh data
+  return apiClient.get('/api/tokens/history', {
+    errorMessage: 'Failed to fetch tokens'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to fetch tokens');
-  }
-
-  return res.json();
 }
 
 /**
  * Fetch details for a specific token
  */
 export async function getTokenById(id: number): Promise<TokenDetail> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/${id}`, {
-    cache: 'no-store'
+  return apiClient.get('/api/tokens/{token_id}', {
+    path: { token_id: id },
+    errorMessage: 'Failed to fetch token details'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to fetch token details');
-  }
-
-  return res.json();
 }
 
 /**
@@ -83,15 +147,10 @@ export async function getTokenById(id: number): Promise<TokenDetail> {
 export async function getTokenAnalysisHistory(
   id: number
 ): Promise<AnalysisHistory> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/${id}/history`, {
-    cache: 'no-store'
+  return apiClient.get('/api/tokens/{token_id}/history', {
+    path: { token_id: id },
+    errorMessage: 'Failed to fetch analysis history'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to fetch analysis history');
-  }
-
-  return res.json();
 }
 
 /**
@@ -100,23 +159,46 @@ export async function getTokenAnalysisHistory(
 export function downloadAxiomJson(token: TokenDetail) {
   const dataStr = JSON.stringify(token.axiom_json, null, 2);
   const blob = new Blob([dataStr], { type: 'application/json' });
+  saveBlob(blob, `${token.acronym}_axiom_export.json`);
+}
+
+/**
+ * Trigger a browser download for a blob
+ */
+function saveBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `${token.acronym}_axiom_export.json`;
+  a.download = filename;
   a.click();
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Read the filename from a Content-Disposition header, if present
+ */
+function getDownloadFilename(res: Response, fallback: string): string {
+  const disposition = res.headers.get('Content-Disposition');
+  const match = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  return match ? decodeURIComponent(match[1]) : fallback;
+}
+
+/**
+ * Parse a backend UTC timestamp into a Date
+ */
+export function parseUtcTimestamp(timestamp: string): Date {
+  const normalized = timestamp.replace(' ', 'T');
+  // SQLite returns UTC without 'Z', so we append it (unless a zone is present)
+  const hasZone = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(normalized);
+  return new Date(hasZone ? normalized : normalized + 'Z');
+}
+
 /**
  * Format UTC timestamp to local time
  */
 export function formatTimestamp(timestamp: string): string {
   if (!timestamp) return '-';
-  // SQLite returns UTC without 'Z', so we append it
-  const utcTimestamp = timestamp.replace(' ', 'T') + 'Z';
-  const date = new Date(utcTimestamp);
-  return date.toLocaleString();
+  return parseUtcTimestamp(timestamp).toLocaleString();
 }
 
 /**
@@ -124,9 +206,7 @@ export function formatTimestamp(timestamp: string): string {
  */
 export function formatShortDate(timestamp: string): string {
   if (!timestamp) return '-';
-  const utcTimestamp = timestamp.replace(' ', 'T') + 'Z';
-  const date = new Date(utcTimestamp);
-  return date.toLocaleDateString();
+  return parseUtcTimestamp(timestamp).toLocaleDateString();
 }
 
 /**
@@ -135,18 +215,10 @@ export function formatShortDate(timestamp: string): string {
 export async function getMultiTokenWallets(
   minTokens: number = 2
 ): Promise<MultiTokenWalletsResponse> {
-  const res = await fetch(
-    `${API_BASE_URL}/multi-token-wallets?min_tokens=${minTokens}`,
-    {
-      cache: 'no-store'
-    }
-  );
-
-  if (!res.ok) {
-    throw new Error('Failed to fetch multi-token wallets');
-  }
-
-  return res.json();
+  return apiClient.get('/multi-token-wallets', {
+    query: { min_tokens: minTokens },
+    errorMessage: 'Failed to fetch multi-token wallets'
+  });
 }
 
 /**
@@ -155,15 +227,10 @@ export async function getMultiTokenWallets(
 export async function getWalletTags(
   walletAddress: string
 ): Promise<WalletTag[]> {
-  const res = await fetch(`${API_BASE_URL}/wallets/${walletAddress}/tags`, {
-    cache: 'no-store'
+  const data = await apiClient.get('/wallets/{wallet_address}/tags', {
+    path: { wallet_address: walletAddress },
+    errorMessage: 'Failed to fetch wallet tags'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to fetch wallet tags');
-  }
-
-  const data = await res.json();
   return data.tags;
 }
 
@@ -175,18 +242,11 @@ export async function addWalletTag(
   tag: string,
   isKol: boolean = false
 ): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/wallets/${walletAddress}/tags`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ tag, is_kol: isKol })
+  await apiClient.post('/wallets/{wallet_address}/tags', {
+    path: { wallet_address: walletAddress },
+    body: { tag, is_kol: isKol },
+    errorMessage: 'Failed to add tag'
   });
-
-  if (!res.ok) {
-    const error = await res.json();
-    throw new Error(error.error || 'Failed to add tag');
-  }
 }
 
 /**
@@ -196,119 +256,178 @@ export async function removeWalletTag(
   walletAddress: string,
   tag: string
 ): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/wallets/${walletAddress}/tags`, {
-    method: 'DELETE',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ tag })
+  await apiClient.delete('/wallets/{wallet_address}/tags', {
+    path: { wallet_address: walletAddress },
+    body: { tag },
+    errorMessage: 'Failed to remove tag'
   });
-
-  if (!res.ok) {
-    const error = await res.json();
-    throw new Error(error.error || 'Failed to remove tag');
-  }
 }
 
 /**
  * Get all unique tags
  */
 export async function getAllTags(): Promise<string[]> {
-  const res = await fetch(`${API_BASE_URL}/tags`, {
-    cache: 'no-store'
+  const data = await apiClient.get('/tags', {
+    errorMessage: 'Failed to fetch tags'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to fetch tags');
-  }
-
-  const data = await res.json();
   return data.tags;
 }
 
 /**
- * Get all wallets in the Codex (wallets that have tags)
+ * Get the addresses of every wallet carrying a tag
  */
-export async function getCodexWallets(): Promise<CodexResponse> {
-  const res = await fetch(`${API_BASE_URL}/codex`, {
-    cache: 'no-store'
+export async function getTagWallets(tag: string): Promise<string[]> {
+  const data = await apiClient.get('/tags/{tag}/wallets', {
+    path: { tag },
+    errorMessage: 'Failed to fetch wallets for tag'
   });
+  // Untyped in the OpenAPI schema
+  return (data as { tag: string; wallets: string[] }).wallets;
+}
 
-  if (!res.ok) {
-    throw new Error('Failed to fetch Codex');
-  }
+/**
+ * Get tags for many wallets at once, keyed by wallet address
+ */
+export async function getBatchWalletTags(
+  walletAddresses: string[]
+): Promise<Record<string, WalletTag[]>> {
+  const data = await apiClient.post('/wallets/batch-tags', {
+    body: { addresses: walletAddresses },
+    errorMessage: 'Failed to fetch wallet tags'
+  });
+  // Untyped in the OpenAPI schema
+  return data as Record<string, WalletTag[]>;
+}
 
-  return res.json();
+/**
+ * Get all wallets in the Codex (wallets that have tags)
+ */
+export async function getCodexWallets(): Promise<CodexResponse> {
+  return apiClient.get('/codex', { errorMessage: 'Failed to fetch Codex' });
 }
 
 /**
  * Get all deleted tokens (trash)
  */
 export async function getDeletedTokens(): Promise<TokensResponse> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/trash`, {
-    cache: 'no-store'
+  return apiClient.get('/api/tokens/trash', {
+    errorMessage: 'Failed to fetch deleted tokens'
   });
+}
 
-  if (!res.ok) {
-    throw new Error('Failed to fetch deleted tokens');
-  }
-
-  return res.json();
+/**
+ * Delete a token (moves it to the trash)
+ */
+export async function deleteToken(tokenId: number): Promise<void> {
+  await apiClient.delete('/api/tokens/{token_id}', {
+    path: { token_id: tokenId },
+    errorMessage: 'Failed to delete token'
+  });
 }
 
 /**
  * Restore a deleted token
  */
 export async function restoreToken(tokenId: number): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/${tokenId}/restore`, {
-    method: 'POST',
-    cache: 'no-store'
+  await apiClient.post('/api/tokens/{token_id}/restore', {
+    path: { token_id: tokenId },
+    errorMessage: 'Failed to restore token'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to restore token');
-  }
 }
 
 /**
  * Permanently delete a token
  */
 export async function permanentDeleteToken(tokenId: number): Promise<void> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/${tokenId}/permanent`, {
-    method: 'DELETE',
-    cache: 'no-store'
+  await apiClient.delete('/api/tokens/{token_id}/permanent', {
+    path: { token_id: tokenId },
+    errorMessage: 'Failed to permanently delete token'
   });
-
-  if (!res.ok) {
-    throw new Error('Failed to permanently delete token');
-  }
 }
 
+// Backend default for AnalyzeTokenRequest.time_window_hours (effectively "all time")
+export const DEFAULT_TIME_WINDOW_HOURS = 999999;
+
 /**
  * Analyze a token with custom API settings
+ *
+ * `options` carries the optional request fields beyond the API settings
+ * (`min_usd` and `time_window_hours`); omitted fields use backend defaults.
+ * Validation failures throw an `ApiError` whose `fieldErrors` are keyed by
+ * request field (e.g. `api_settings.max_wallets`).
  */
 export async function analyzeToken(
   tokenAddress: string,
-  apiSettings: AnalysisSettings
+  apiSettings: AnalysisSettings,
+  options: Pick<
+    Partial<AnalyzeTokenRequest>,
+    'min_usd' | 'time_window_hours'
+  > = {}
 ): Promise<QueueTokenResponse> {
-  const res = await fetch(`${API_BASE_URL}/analyze/token`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
+  return apiClient.post('/analyze/token', {
+    body: {
       address: tokenAddress,
-      api_settings: apiSettings
-    }),
-    cache: 'no-store'
+      api_settings: apiSettings,
+      min_usd: options.min_usd ?? null,
+      time_window_hours: options.time_window_hours ?? DEFAULT_TIME_WINDOW_HOURS
+    },
+    errorMessage: 'Failed to analyze token'
   });
+}
 
-  if (!res.ok) {
-    const error = await res.json();
-    throw new Error(error.error || 'Failed to analyze token');
-  }
+/**
+ * Fetch all analysis jobs (most recent first)
+ */
+export async function getAnalysisJobs(): Promise<AnalysisListResponse> {
+  return apiClient.get('/analysis', {
+    errorMessage: 'Failed to fetch analysis jobs'
+  });
+}
+
+/**
+ * Fetch status and result files for a single analysis job
+ */
+export async function getAnalysisJob(jobId: string): Promise<AnalysisJob> {
+  return apiClient.get('/analysis/{job_id}', {
+    path: { job_id: jobId },
+    errorMessage: 'Failed to fetch analysis job'
+  });
+}
+
+/**
+ * Fetch the raw CSV export for an analysis job
+ */
+export async function getAnalysisCsv(jobId: string): Promise<string> {
+  const res = await requestRaw('get', '/analysis/{job_id}/csv', {
+    path: { job_id: jobId },
+    errorMessage: 'Failed to fetch analysis CSV'
+  });
+  return res.text();
+}
+
+/**
+ * Download the CSV export for an analysis job
+ */
+export async function downloadAnalysisCsv(jobId: string): Promise<void> {
+  const res = await requestRaw('get', '/analysis/{job_id}/csv', {
+    path: { job_id: jobId },
+    errorMessage: 'Failed to download analysis CSV'
+  });
+  saveBlob(await res.blob(), getDownloadFilename(res, `analysis_${jobId}.csv`));
+}
 
-  return res.json();
+/**
+ * Download the Axiom wallet tracker JSON generated for an analysis job
+ */
+export async function downloadAnalysisAxiom(jobId: string): Promise<void> {
+  const res = await requestRaw('get', '/analysis/{job_id}/axiom', {
+    path: { job_id: jobId },
+    errorMessage: 'Failed to download Axiom export'
+  });
+  saveBlob(
+    await res.blob(),
+    getDownloadFilename(res, `analysis_${jobId}_axiom.json`)
+  );
 }
 
 /**
@@ -317,23 +436,16 @@ export async function analyzeToken(
 export async function refreshWalletBalances(
   walletAddresses: string[]
 ): Promise<RefreshBalancesResponse> {
-  const res = await fetch(`${API_BASE_URL}/wallets/refresh-balances`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      wallet_addresses: walletAddresses
-    }),
-    cache: 'no-store'
+  const response = await apiClient.post('/wallets/refresh-balances', {
+    body: { wallet_addresses: walletAddresses },
+    errorMessage: 'Failed to refresh balances'
   });
-
-  if (!res.ok) {
-    const error = await res.json();
-    throw new Error(error.error || 'Failed to refresh balances');
-  }
-
-  return res.json();
+  // Kept locally so balance drops between refreshes can be spotted
+  recordBalanceSnapshots(response.results).catch(() => {});
+  recordRefreshCredits('balance_refresh', response.api_credits_used, {
+    walletAddresses
+  }).catch(() => {});
+  return response;
 }
 
 /**
@@ -342,28 +454,183 @@ export async function refreshWalletBalances(
 export async function refreshMarketCaps(
   tokenIds: number[]
 ): Promise<RefreshMarketCapsResponse> {
-  const res = await fetch(`${API_BASE_URL}/api/tokens/refresh-market-caps`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      token_ids: tokenIds
-    }),
-    cache: 'no-store'
+  const response = await apiClient.post('/api/tokens/refresh-market-caps', {
+    body: { token_ids: tokenIds },
+    errorMessage: 'Failed to refresh market caps'
+  });
+  // The backend overwrites the previous value, so keep our own history
+  recordMarketCapSnapshots(response.results).catch(() => {});
+  recordRefreshCredits('market_cap_refresh', response.api_credits_used, {
+    tokenIds
+  }).catch(() => {});
+  return response;
+}
+
+// ============================================================================
+// Watchlist (monitored addresses)
+// ============================================================================
+
+/**
+ * Fetch all monitored addresses
+ */
+export async function getWatchlist(): Promise<WatchlistResponse> {
+  const data = (await apiClient.get('/addresses', {
+    errorMessage: 'Failed to fetch watchlist'
+  })) as WatchlistAddress[] | Partial<WatchlistResponse>;
+
+  const addresses = Array.isArray(data) ? data : data.addresses || [];
+  return {
+    total: (!Array.isArray(data) && data.total) || addresses.length,
+    addresses
+  };
+}
+
+/**
+ * Fetch a single monitored address
+ */
+export async function getWatchlistAddress(
+  address: string
+): Promise<WatchlistAddress> {
+  const data = await apiClient.get('/address/{address}', {
+    path: { address },
+    errorMessage: 'Failed to fetch watchlist address'
+  });
+  return data as WatchlistAddress;
+}
+
+/**
+ * Register an address for monitoring
+ */
+export async function registerWatchlistAddress(
+  address: string,
+  note?: string
+): Promise<void> {
+  await apiClient.post('/register', {
+    body: { address, note: note || null },
+    errorMessage: 'Failed to register address'
+  });
+}
+
+/**
+ * Update the note on a monitored address
+ */
+export async function updateWatchlistNote(
+  address: string,
+  note: string
+): Promise<void> {
+  await apiClient.put('/address/{address}/note', {
+    path: { address },
+    body: { note: note || null },
+    errorMessage: 'Failed to update note'
   });
+}
+
+/**
+ * Stop monitoring an address
+ */
+export async function removeWatchlistAddress(address: string): Promise<void> {
+  await apiClient.delete('/address/{address}', {
+    path: { address },
+    errorMessage: 'Failed to remove address'
+  });
+}
+
+/**
+ * Bulk import monitored addresses (same shape as the export)
+ */
+export async function importWatchlist(
+  entries: ImportAddressEntry[]
+): Promise<ImportAddressesResult> {
+  const data = await apiClient.post('/import', {
+    body: { addresses: entries },
+    errorMessage: 'Failed to import addresses'
+  });
+  return data as ImportAddressesResult;
+}
+
+/**
+ * Remove every monitored address
+ */
+export async function clearWatchlist(): Promise<void> {
+  await apiClient.post('/clear', {
+    errorMessage: 'Failed to clear watchlist'
+  });
+}
+
+// ============================================================================
+// Webhooks (Helius)
+// ============================================================================
+
+/**
+ * Create a Helius webhook monitoring the wallets of an analyzed token
+ */
+export async function createWebhook(
+  tokenId: number,
+  webhookUrl?: string
+): Promise<CreateWebhookResult> {
+  const data = (await apiClient.post('/webhooks/create', {
+    body: { token_id: tokenId, webhook_url: webhookUrl || null },
+    errorMessage: 'Failed to create webhook'
+  })) as CreateWebhookResult & { webhookID?: string };
+  return { ...data, webhook_id: data.webhook_id ?? data.webhookID };
+}
 
-  if (!res.ok) {
-    let errorMessage = 'Failed to refresh market caps';
-    try {
-      const error = await res.json();
-      errorMessage = error.error || error.detail || errorMessage;
-    } catch (e) {
-      const text = await res.text();
-      errorMessage = `HTTP ${res.status}: ${text || res.statusText}`;
+/**
+ * List all Helius webhooks for the configured API key
+ */
+export async function getWebhooks(): Promise<HeliusWebhook[]> {
+  const data = (await apiClient.get('/webhooks/list', {
+    errorMessage: 'Failed to fetch webhooks'
+  })) as HeliusWebhook[] | { webhooks?: HeliusWebhook[] };
+  return Array.isArray(data) ? data : data.webhooks || [];
+}
+
+/**
+ * Fetch details for a single webhook
+ */
+export async function getWebhook(webhookId: string): Promise<HeliusWebhook> {
+  const data = (await apiClient.get('/webhooks/{webhook_id}', {
+    path: { webhook_id: webhookId },
+    errorMessage: 'Failed to fetch webhook'
+  })) as HeliusWebhook & { webhook?: HeliusWebhook };
+  return data.webhook ?? data;
+}
+
+/**
+ * Delete a webhook
+ */
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  await apiClient.delete('/webhooks/{webhook_id}', {
+    path: { webhook_id: webhookId },
+    errorMessage: 'Failed to delete webhook'
+  });
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Fetch raw Prometheus metrics (text exposition format)
+ */
+export async function getMetricsText(): Promise<string> {
+  return apiClient.get('/metrics', {
+    errorMessage: 'Failed to fetch metrics'
+  });
+}
+
+/**
+ * Fetch backend health status
+ */
+export async function getMetricsHealth(): Promise<MetricsHealth> {
+  try {
+    return (await apiClient.get('/metrics/health')) as MetricsHealth;
+  } catch (error) {
+    // Unhealthy backends answer 503 with a JSON body describing why
+    if (isApiError(error) && error.status === 503) {
+      const body = error.body as Partial<MetricsHealth> | null;
+      return { ...body, status: body?.status || 'unhealthy' };
     }
-    throw new Error(errorMessage);
+    throw error;
   }
-
-  return res.json();
 }
@@ -0,0 +1,191 @@
+/**
+ * Codex import/export helpers
+ *
+ * The Codex is flattened to one row per wallet tag - address, tag, `is_kol`
+ * and `added_at` - for both the JSON and the CSV export, so either file can
+ * be imported into another backend. `added_at` isn't in the OpenAPI schema;
+ * it's exported when the backend sends it and ignored on import.
+ */
+
+import type { CodexWallet, WalletTag } from './api';
+import { parseCsv } from './csv';
+import { isValidSolanaAddress } from './solana';
+import type { TagStep } from './tag-admin';
+
+export const CODEX_CSV_COLUMNS = [
+  'wallet_address',
+  'tag',
+  'is_kol',
+  'added_at'
+] as const;
+
+export interface CodexRow {
+  wallet_address: string;
+  tag: string;
+  is_kol: boolean;
+  added_at: string | null;
+}
+
+export interface ParsedCodexImport {
+  rows: CodexRow[];
+  invalid: string[];
+}
+
+export type CodexChangeStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface CodexChange {
+  row: CodexRow;
+  status: CodexChangeStatus;
+  // The wallet's current tag for duplicates and conflicts
+  current: WalletTag | null;
+}
+
+export function toCodexRows(wallets: CodexWallet[]): CodexRow[] {
+  return wallets.flatMap((wallet) =>
+    wallet.tags.map((tag) => ({
+      wallet_address: wallet.wallet_address,
+      tag: tag.tag,
+      is_kol: tag.is_kol,
+      added_at: (tag as WalletTag & { added_at?: string }).added_at ?? null
+    }))
+  );
+}
+
+export function toCodexJson(rows: CodexRow[]): string {
+  return JSON.stringify(
+    { exported_at: new Date().toISOString(), tags: rows },
+    null,
+    2
+  );
+}
+
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCodexCsv(rows: CodexRow[]): string {
+  const lines = rows.map((row) =>
+    [row.wallet_address, row.tag, String(row.is_kol), row.added_at ?? '']
+      .map(csvField)
+      .join(',')
+  );
+  return [CODEX_CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+function parseBoolean(value: unknown) {
+  if (typeof value === 'boolean') return value;
+  return ['true', '1', 'yes', 'y'].includes(
+    String(value ?? '')
+      .trim()
+      .toLowerCase()
+  );
+}
+
+/**
+ * Parse an exported Codex file: JSON (`{ tags: [...] }` or a bare array) or
+ * CSV with at least `wallet_address` (or `address`) and `tag` columns
+ */
+export function parseCodexImport(text: string): ParsedCodexImport {
+  const trimmed = text.trim();
+  let candidates: Record<string, unknown>[];
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    const list = Array.isArray(data) ? data : data.tags;
+    if (!Array.isArray(list)) {
+      throw new Error('JSON must contain a "tags" array');
+    }
+    candidates = list;
+  } else {
+    const { headers, rows } = parseCsv(trimmed);
+    if (!headers.includes('tag')) {
+      throw new Error('CSV must have a "tag" column');
+    }
+    candidates = rows;
+  }
+
+  const rows: CodexRow[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  candidates.forEach((item, index) => {
+    const address = String(item?.wallet_address ?? item?.address ?? '').trim();
+    const tag = String(item?.tag ?? '').trim();
+    if (!isValidSolanaAddress(address) || !tag) {
+      invalid.push(`Row ${index + 1}: ${address || '(no address)'}`);
+      return;
+    }
+    const key = `${address}:${tag.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    rows.push({
+      wallet_address: address,
+      tag,
+      is_kol: parseBoolean(item.is_kol),
+      added_at: item.added_at ? String(item.added_at) : null
+    });
+  });
+
+  return { rows, invalid };
+}
+
+/**
+ * Compare imported rows with the current Codex
+ *
+ * A row is a duplicate when the wallet already has the tag with the same KOL
+ * flag, and a conflict when the flag differs. Tags match case-insensitively.
+ */
+export function diffCodexImport(
+  rows: CodexRow[],
+  wallets: CodexWallet[]
+): CodexChange[] {
+  const current = new Map(
+    wallets.map((wallet) => [wallet.wallet_address, wallet.tags])
+  );
+
+  return rows.map((row) => {
+    const existing = (current.get(row.wallet_address) ?? []).find(
+      (t) => t.tag.toLowerCase() === row.tag.toLowerCase()
+    );
+    if (!existing) return { row, status: 'new', current: null };
+    return {
+      row,
+      status: existing.is_kol === row.is_kol ? 'duplicate' : 'conflict',
+      current: existing
+    };
+  });
+}
+
+/**
+ * Turn approved changes into steps for `runTagPlan()`
+ *
+ * Conflicts take the imported KOL flag but keep the stored tag's spelling;
+ * the tag is removed and re-added since adding an existing tag doesn't update
+ * it, and `runTagPlan()` puts it back if the re-add fails.
+ */
+export function codexImportSteps(changes: CodexChange[]): TagStep[] {
+  return changes.flatMap(({ row, status, current }): TagStep[] => {
+    if (status === 'new') {
+      return [
+        {
+          wallet_address: row.wallet_address,
+          actions: [{ type: 'add', tag: row.tag, is_kol: row.is_kol }],
+          note: 'New'
+        }
+      ];
+    }
+    if (status === 'conflict' && current) {
+      return [
+        {
+          wallet_address: row.wallet_address,
+          actions: [
+            { type: 'remove', tag: current.tag, is_kol: current.is_kol },
+            { type: 'add', tag: current.tag, is_kol: row.is_kol }
+          ],
+          note: row.is_kol ? 'Mark as KOL' : 'Unmark KOL'
+        }
+      ];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * API credit ledger
+ *
+ * Credits are reported piecemeal - per analysis job and per refresh call - and
+ * nothing on the backend adds them up. Every credit-consuming action seen by
+ * this browser is recorded here (IndexedDB) with its source and subject:
+ *
+ * - `analysis`: completed jobs from `/analysis` (`credits_used`), keyed by
+ *   job id so re-reading the job list never double counts
+ * - `market_cap_refresh` / `balance_refresh`: `api_credits_used` of each
+ *   refresh call, manual or scheduled
+ */
+
+import { toast } from 'sonner';
+import { AnalysisJobSummary, parseUtcTimestamp } from './api';
+import { CREDIT_LEDGER_STORE, addNewRecords, getAllRecords } from './local-db';
+
+export type CreditSource =
+  | 'analysis'
+  | 'market_cap_refresh'
+  | 'balance_refresh';
+
+export const CREDIT_SOURCES: {
+  key: CreditSource;
+  label: string;
+  color: string;
+}[] = [
+  { key: 'analysis', label: 'Token analysis', color: 'var(--chart-1)' },
+  {
+    key: 'market_cap_refresh',
+    label: 'Market cap refresh',
+    color: 'var(--chart-2)'
+  },
+  { key: 'balance_refresh', label: 'Balance refresh', color: 'var(--chart-3)' }
+];
+
+export interface CreditEntry {
+  id: string;
+  source: CreditSource;
+  credits: number;
+  recorded_at: string;
+  // Analyzed token (analysis entries)
+  token_address: string | null;
+  token_name: string | null;
+  // Refreshed tokens / wallets (refresh entries)
+  token_ids: number[];
+  wallet_addresses: string[];
+}
+
+export const CREDIT_LEDGER_EVENT = 'creditLedgerChanged';
+
+const MONTHLY_BUDGET_KEY = 'credit-monthly-budget';
+const DEFAULT_MONTHLY_BUDGET = 10000;
+// Warn once spend passes this fraction of the monthly budget
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export function getMonthlyCreditBudget(): number {
+  if (typeof window === 'undefined') return DEFAULT_MONTHLY_BUDGET;
+  try {
+    const saved = Number(localStorage.getItem(MONTHLY_BUDGET_KEY));
+    return saved > 0 ? saved : DEFAULT_MONTHLY_BUDGET;
+  } catch {
+    return DEFAULT_MONTHLY_BUDGET;
+  }
+}
+
+export function setMonthlyCreditBudget(budget: number) {
+  localStorage.setItem(MONTHLY_BUDGET_KEY, String(Math.floor(budget)));
+  window.dispatchEvent(new CustomEvent(CREDIT_LEDGER_EVENT));
+}
+
+/**
+ * Credits spent in the current calendar month (local time)
+ */
+export function monthToDate(entries: CreditEntry[], now = new Date()): number {
+  const start = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  return entries
+    .filter((entry) => new Date(entry.recorded_at).getTime() >= start)
+    .reduce((sum, entry) => sum + entry.credits, 0);
+}
+
+export async function getCreditEntries(): Promise<CreditEntry[]> {
+  const entries = await getAllRecords<CreditEntry>(CREDIT_LEDGER_STORE);
+  return entries.sort((a, b) => b.recorded_at.localeCompare(a.recorded_at));
+}
+
+async function recordEntries(entries: CreditEntry[]) {
+  const candidates = entries.filter((entry) => entry.credits > 0);
+  if (candidates.length === 0) return;
+
+  const { added: fresh, all } = await addNewRecords(
+    CREDIT_LEDGER_STORE,
+    candidates,
+    (entry) => entry.id
+  );
+  if (fresh.length === 0) return;
+  window.dispatchEvent(new CustomEvent(CREDIT_LEDGER_EVENT));
+
+  // Warn when this batch pushed the month over the threshold
+  const spent = monthToDate(all);
+  const added = monthToDate(fresh);
+  const budget = getMonthlyCreditBudget();
+  const threshold = budget * BUDGET_WARNING_RATIO;
+  const before = spent - added;
+  if (spent >= budget && before < budget) {
+    toast.error('Monthly API credit budget exceeded', {
+      description: `${spent} of ${budget} credits used this month`,
+      id: 'credit-budget-warning'
+    });
+  } else if (spent >= threshold && before < threshold) {
+    toast.warning('API credit budget nearly spent', {
+      description: `${spent} of ${budget} credits used this month`,
+      id: 'credit-budget-warning'
+    });
+  }
+}
+
+/**
+ * Record finished analysis jobs (already-recorded jobs are skipped)
+ */
+export async function recordAnalysisCredits(
+  jobs: AnalysisJobSummary[]
+): Promise<void> {
+  await recordEntries(
+    jobs
+      .filter((job) => job.status === 'completed' && job.credits_used)
+      .map((job) => ({
+        id: `analysis:${job.job_id}`,
+        source: 'analysis',
+        credits: job.credits_used ?? 0,
+        recorded_at: job.timestamp
+          ? parseUtcTimestamp(job.timestamp).toISOString()
+          : new Date().toISOString(),
+        token_address: job.token_address,
+        token_name: job.token_name ?? null,
+        token_ids: [],
+        wallet_addresses: []
+      }))
+  );
+}
+
+/**
+ * Record one market cap or balance refresh call
+ */
+export async function recordRefreshCredits(
+  source: 'market_cap_refresh' | 'balance_refresh',
+  credits: number,
+  subjects: { tokenIds?: number[]; walletAddresses?: string[] }
+): Promise<void> {
+  const recordedAt = new Date().toISOString();
+  await recordEntries([
+    {
+      id: `${source}:${recordedAt}:${Math.random().toString(36).slice(2, 8)}`,
+      source,
+      credits,
+      recorded_at: recordedAt,
+      token_address: null,
+      token_name: null,
+      token_ids: subjects.tokenIds ?? [],
+      wallet_addresses: subjects.walletAddresses ?? []
+    }
+  ]);
+}
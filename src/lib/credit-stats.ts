@@ -0,0 +1,109 @@
+import { CreditEntry, CreditSource } from './credit-ledger';
+
+export type SourceTotals = Record<CreditSource, number>;
+
+export interface CreditBucket extends SourceTotals {
+  label: string;
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyTotals(): SourceTotals {
+  return { analysis: 0, market_cap_refresh: 0, balance_refresh: 0 };
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date) {
+  const day = startOfDay(date);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day;
+}
+
+/**
+ * Sum entries into consecutive buckets ending with the one containing `now`
+ */
+function bucketize(
+  entries: CreditEntry[],
+  count: number,
+  bucketStart: (date: Date) => Date,
+  step: (date: Date, n: number) => Date,
+  label: (date: Date) => string,
+  now: Date
+): CreditBucket[] {
+  const last = bucketStart(now);
+  const starts = Array.from({ length: count }, (_, i) =>
+    step(last, i - count + 1)
+  );
+  const buckets: CreditBucket[] = starts.map((start) => ({
+    label: label(start),
+    total: 0,
+    ...emptyTotals()
+  }));
+  const index = new Map(starts.map((start, i) => [start.getTime(), i]));
+
+  entries.forEach((entry) => {
+    const key = bucketStart(new Date(entry.recorded_at)).getTime();
+    const i = index.get(key);
+    if (i === undefined) return;
+    buckets[i][entry.source] += entry.credits;
+    buckets[i].total += entry.credits;
+  });
+  return buckets;
+}
+
+export function dailyTotals(
+  entries: CreditEntry[],
+  days = 30,
+  now = new Date()
+): CreditBucket[] {
+  return bucketize(
+    entries,
+    days,
+    startOfDay,
+    (date, n) =>
+      new Date(date.getFullYear(), date.getMonth(), date.getDate() + n),
+    (date) =>
+      date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    now
+  );
+}
+
+export function weeklyTotals(
+  entries: CreditEntry[],
+  weeks = 12,
+  now = new Date()
+): CreditBucket[] {
+  return bucketize(
+    entries,
+    weeks,
+    startOfWeek,
+    (date, n) =>
+      new Date(date.getFullYear(), date.getMonth(), date.getDate() + n * 7),
+    (date) =>
+      `Wk of ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+    now
+  );
+}
+
+/**
+ * Totals per source for entries within the last `days` days
+ */
+export function totalsSince(
+  entries: CreditEntry[],
+  days: number,
+  now = new Date()
+): SourceTotals & { total: number } {
+  const since = startOfDay(now).getTime() - (days - 1) * DAY_MS;
+  const totals = { ...emptyTotals(), total: 0 };
+  entries.forEach((entry) => {
+    if (new Date(entry.recorded_at).getTime() < since) return;
+    totals[entry.source] += entry.credits;
+    totals.total += entry.credits;
+  });
+  return totals;
+}
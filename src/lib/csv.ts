@@ -0,0 +1,91 @@
+/**
+ * Minimal RFC 4180 CSV parser for analysis exports
+ *
+ * Handles quoted fields, escaped quotes ("") and CRLF/LF line endings.
+ */
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Split CSV text into raw records (array of field arrays)
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM if present
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last record when the file has no trailing newline
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((r) => !(r.length === 1 && r[0] === ''));
+}
+
+/**
+ * Parse CSV text into header names and keyed rows
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const [headerRecord, ...dataRecords] = parseCsvRecords(text);
+  if (!headerRecord) return { headers: [], rows: [] };
+
+  // Disambiguate duplicate/empty headers so every column has a unique key
+  const seen: Record<string, number> = {};
+  const headers = headerRecord.map((raw, index) => {
+    const base = raw.trim() || `column_${index + 1}`;
+    seen[base] = (seen[base] || 0) + 1;
+    return seen[base] > 1 ? `${base}_${seen[base]}` : base;
+  });
+
+  const rows = dataRecords.map((record) => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = record[index] ?? '';
+    });
+    return row;
+  });
+
+  return { headers, rows };
+}
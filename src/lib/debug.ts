@@ -9,7 +9,7 @@
  *   if (shouldLog()) console.log('Debug info');
  */
 
-import { API_BASE_URL } from './api';
+import { getApiBaseUrl } from './runtime-config';
 
 let DEBUG_MODE = false;
 let initialized = false;
@@ -21,7 +21,7 @@ export async function initDebugMode(): Promise<void> {
   if (initialized) return;
 
   try {
-    const response = await fetch(`${API_BASE_URL}/api/debug-mode`);
+    const response = await fetch(`${getApiBaseUrl()}/api/debug-mode`);
     if (response.ok) {
       const data = await response.json();
       DEBUG_MODE = data.debug_mode;
@@ -0,0 +1,148 @@
+/**
+ * Minimal force-directed layout
+ *
+ * Many-body repulsion, spring links and a weak pull to the origin, cooled by
+ * a decaying `alpha` like d3-force. Plain O(n²) - fine for the few hundred
+ * nodes the wallet graph draws.
+ */
+
+export interface ForceNode {
+  id: string;
+  radius: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface ForceLink {
+  source: string;
+  target: string;
+}
+
+export interface ForceOptions {
+  linkDistance: number;
+  linkStrength: number;
+  repulsion: number;
+  gravity: number;
+  // Velocity kept per tick (0-1)
+  damping: number;
+  alphaDecay: number;
+  alphaMin: number;
+}
+
+const DEFAULT_OPTIONS: ForceOptions = {
+  linkDistance: 60,
+  linkStrength: 0.08,
+  repulsion: 900,
+  gravity: 0.02,
+  damping: 0.6,
+  alphaDecay: 0.02,
+  alphaMin: 0.005
+};
+
+export interface ForceSimulation {
+  nodes: ForceNode[];
+  alpha: number;
+  /** Advance one step; returns false once the layout has cooled */
+  tick: () => boolean;
+  /** Re-heat after nodes/links change */
+  reheat: (alpha?: number) => void;
+}
+
+/**
+ * Seed nodes on a spiral so the first ticks don't explode
+ */
+export function seedPositions<T extends { id: string; radius: number }>(
+  items: T[]
+): (T & ForceNode)[] {
+  return items.map((item, index) => {
+    const angle = index * 2.4;
+    const distance = 10 * Math.sqrt(index + 1);
+    return {
+      ...item,
+      x: Math.cos(angle) * distance,
+      y: Math.sin(angle) * distance,
+      vx: 0,
+      vy: 0
+    };
+  });
+}
+
+export function createForceSimulation(
+  nodes: ForceNode[],
+  links: ForceLink[],
+  options: Partial<ForceOptions> = {}
+): ForceSimulation {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const edges = links
+    .map((link) => [byId.get(link.source), byId.get(link.target)] as const)
+    .filter((pair): pair is [ForceNode, ForceNode] => !!pair[0] && !!pair[1]);
+
+  const sim: ForceSimulation = {
+    nodes,
+    alpha: 1,
+    tick: () => {
+      if (sim.alpha < opts.alphaMin) return false;
+      const alpha = sim.alpha;
+
+      // Repulsion between every pair, stronger for bigger nodes
+      for (let i = 0; i < nodes.length; i++) {
+        const a = nodes[i];
+        for (let j = i + 1; j < nodes.length; j++) {
+          const b = nodes[j];
+          let dx = b.x - a.x;
+          let dy = b.y - a.y;
+          let distSq = dx * dx + dy * dy;
+          if (distSq === 0) {
+            // Coincident nodes - nudge apart deterministically
+            dx = (i - j) * 0.01;
+            dy = 0.01;
+            distSq = dx * dx + dy * dy;
+          }
+          const minDist = a.radius + b.radius + 2;
+          const force =
+            (opts.repulsion * alpha) / Math.max(distSq, minDist * minDist);
+          const dist = Math.sqrt(distSq);
+          const fx = (dx / dist) * force;
+          const fy = (dy / dist) * force;
+          a.vx -= fx;
+          a.vy -= fy;
+          b.vx += fx;
+          b.vy += fy;
+        }
+      }
+
+      // Springs pull linked nodes towards the link distance
+      edges.forEach(([a, b]) => {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+        const target = opts.linkDistance + a.radius + b.radius;
+        const force = ((dist - target) / dist) * opts.linkStrength * alpha;
+        a.vx += dx * force;
+        a.vy += dy * force;
+        b.vx -= dx * force;
+        b.vy -= dy * force;
+      });
+
+      nodes.forEach((node) => {
+        node.vx -= node.x * opts.gravity * alpha;
+        node.vy -= node.y * opts.gravity * alpha;
+        node.vx *= opts.damping;
+        node.vy *= opts.damping;
+        node.x += node.vx;
+        node.y += node.vy;
+      });
+
+      sim.alpha *= 1 - opts.alphaDecay;
+      return true;
+    },
+    reheat: (alpha = 1) => {
+      sim.alpha = alpha;
+    }
+  };
+
+  return sim;
+}
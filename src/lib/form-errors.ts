@@ -0,0 +1,27 @@
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { isApiError } from './api-client';
+
+/**
+ * Show backend validation errors (`ApiError.fieldErrors`) on form fields
+ *
+ * `fieldMap` maps request field paths (e.g. `api_settings.walletCount`) to
+ * form field names; unmapped errors are ignored. Returns true when at least
+ * one field error was set, so callers can fall back to a toast otherwise.
+ */
+export function setApiFieldErrors<T extends FieldValues>(
+  setError: UseFormSetError<T>,
+  error: unknown,
+  fieldMap: Partial<Record<string, Path<T>>>
+): boolean {
+  if (!isApiError(error)) return false;
+
+  let applied = false;
+  Object.entries(error.fieldErrors).forEach(([field, message]) => {
+    const name = fieldMap[field];
+    if (name) {
+      setError(name, { type: 'server', message });
+      applied = true;
+    }
+  });
+  return applied;
+}
@@ -15,3 +15,21 @@ export function formatDate(
     return '';
   }
 }
+
+/**
+ * Whole-dollar amount, or `fallback` when there is none
+ */
+export function formatUsd(value: number | null | undefined, fallback = 'N/A') {
+  if (value === null || value === undefined) return fallback;
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+/**
+ * Compact dollar amount for market caps: `$1.23B`, `$4.56M`, `$7.8K`
+ */
+export function formatMarketCap(value: number): string {
+  if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(2)}B`;
+  if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(2)}M`;
+  if (value >= 1_000) return `$${(value / 1_000).toFixed(1)}K`;
+  return `$${value.toFixed(2)}`;
+}
@@ -0,0 +1,134 @@
+/**
+ * Per-browser IndexedDB database for history the backend doesn't keep
+ *
+ * Snapshot stores are keyed by `[<id>, recorded_at]` and the credit ledger by
+ * entry id, so recording the same thing twice is a no-op.
+ */
+
+export const MARKET_CAP_STORE = 'market_cap_snapshots';
+export const WALLET_BALANCE_STORE = 'wallet_balance_snapshots';
+export const CREDIT_LEDGER_STORE = 'credit_ledger';
+
+const DB_NAME = 'gun-del-sol';
+const DB_VERSION = 3;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function createSnapshotStore(db: IDBDatabase, name: string, idKey: string) {
+  if (db.objectStoreNames.contains(name)) return;
+  const store = db.createObjectStore(name, {
+    keyPath: [idKey, 'recorded_at']
+  });
+  store.createIndex(idKey, idKey);
+}
+
+export function openLocalDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        createSnapshotStore(db, MARKET_CAP_STORE, 'token_id');
+        createSnapshotStore(db, WALLET_BALANCE_STORE, 'wallet_address');
+        if (!db.objectStoreNames.contains(CREDIT_LEDGER_STORE)) {
+          db.createObjectStore(CREDIT_LEDGER_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema; we reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Write a batch of records to a store in one transaction
+ */
+export async function putRecords<T>(store: string, records: T[]) {
+  const db = await openLocalDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    records.forEach((record) => objectStore.put(record));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Fetch every record per key from a store's index, oldest first
+ */
+export async function getRecordsByIndex<K extends IDBValidKey, T>(
+  store: string,
+  index: string,
+  keys: K[]
+): Promise<[K, T[]][]> {
+  const db = await openLocalDb();
+  const objectIndex = db.transaction(store).objectStore(store).index(index);
+
+  return Promise.all(
+    keys.map(
+      (key) =>
+        new Promise<[K, T[]]>((resolve, reject) => {
+          const request = objectIndex.getAll(key);
+          // Keys end in recorded_at, so results are already in time order
+          request.onsuccess = () => resolve([key, request.result as T[]]);
+          request.onerror = () => reject(request.error);
+        })
+    )
+  );
+}
+
+/**
+ * Fetch every record in a store
+ */
+export async function getAllRecords<T>(store: string): Promise<T[]> {
+  const db = await openLocalDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(store).objectStore(store).getAll();
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Add the records whose key isn't in a store yet, returning them and every
+ * record the store then holds. Read and write share one transaction, so
+ * overlapping calls are serialized and each sees the other's records.
+ */
+export async function addNewRecords<T>(
+  store: string,
+  records: T[],
+  keyOf: (record: T) => string
+): Promise<{ added: T[]; all: T[] }> {
+  const db = await openLocalDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    let result = { added: [] as T[], all: [] as T[] };
+    const request = objectStore.getAll();
+    request.onsuccess = () => {
+      const existing = request.result as T[];
+      const keys = new Set(existing.map(keyOf));
+      const added = records.filter((record) => !keys.has(keyOf(record)));
+      added.forEach((record) => objectStore.put(record));
+      result = { added, all: [...existing, ...added] };
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+  });
+}
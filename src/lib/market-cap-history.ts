@@ -0,0 +1,56 @@
+/**
+ * Local market cap history
+ *
+ * The backend only keeps the latest refreshed market cap per token, so every
+ * refresh result is also recorded here as a timestamped snapshot. Snapshots
+ * live in IndexedDB and are per-browser.
+ */
+
+import type { RefreshMarketCapResult } from './api';
+import { MARKET_CAP_STORE, getRecordsByIndex, putRecords } from './local-db';
+
+export interface MarketCapSnapshot {
+  token_id: number;
+  market_cap_usd: number;
+  recorded_at: string;
+}
+
+export const MARKET_CAP_HISTORY_EVENT = 'marketCapHistoryChanged';
+
+/**
+ * Store the successful results of a market cap refresh
+ */
+export async function recordMarketCapSnapshots(
+  results: RefreshMarketCapResult[]
+): Promise<void> {
+  const snapshots: MarketCapSnapshot[] = results
+    .filter((result) => result.success && result.market_cap_usd_current)
+    .map((result) => ({
+      token_id: result.token_id,
+      market_cap_usd: result.market_cap_usd_current as number,
+      recorded_at: result.market_cap_updated_at ?? new Date().toISOString()
+    }));
+  if (snapshots.length === 0) return;
+
+  await putRecords(MARKET_CAP_STORE, snapshots);
+
+  window.dispatchEvent(
+    new CustomEvent(MARKET_CAP_HISTORY_EVENT, {
+      detail: { tokenIds: snapshots.map((snapshot) => snapshot.token_id) }
+    })
+  );
+}
+
+/**
+ * Fetch the recorded snapshots for several tokens, oldest first
+ */
+export async function getMarketCapHistories(
+  tokenIds: number[]
+): Promise<Record<number, MarketCapSnapshot[]>> {
+  const entries = await getRecordsByIndex<number, MarketCapSnapshot>(
+    MARKET_CAP_STORE,
+    'token_id',
+    tokenIds
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,66 @@
+/**
+ * WebSocket stand-in for demo mode
+ *
+ * Next route handlers can't accept WebSocket upgrades, so the mock backend
+ * streams notifications as Server-Sent Events. This wraps an EventSource in
+ * the subset of the WebSocket API that the realtime store uses
+ * (`readyState`, `onopen`/`onmessage`/`onerror`/`onclose`, `close`).
+ */
+
+import { isDemoMode } from './runtime-config';
+
+export class MockWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState: number = MockWebSocket.CONNECTING;
+
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: Event) => void) | null = null;
+
+  private source: EventSource;
+
+  constructor(url: string) {
+    this.url = url;
+    this.source = new EventSource(url);
+
+    this.source.onopen = (event) => {
+      this.readyState = MockWebSocket.OPEN;
+      this.onopen?.(event);
+    };
+    this.source.onmessage = (event) => {
+      this.onmessage?.(new MessageEvent('message', { data: event.data }));
+    };
+    // EventSource retries on its own; surface the drop like a WebSocket would
+    // so the caller's reconnect logic stays in charge
+    this.source.onerror = (event) => {
+      this.onerror?.(event);
+      this.close();
+    };
+  }
+
+  send() {
+    // Notifications are server -> client only
+  }
+
+  close() {
+    if (this.readyState === MockWebSocket.CLOSED) return;
+    this.source.close();
+    this.readyState = MockWebSocket.CLOSED;
+    this.onclose?.(new Event('close'));
+  }
+}
+
+/**
+ * Open the notification socket - real in normal mode, SSE-backed in demo mode
+ */
+export function openNotificationSocket(url: string): WebSocket {
+  return isDemoMode()
+    ? (new MockWebSocket(url) as unknown as WebSocket)
+    : new WebSocket(url);
+}
@@ -0,0 +1,331 @@
+/**
+ * Prometheus text exposition format parser
+ *
+ * Parses the output of the backend's `GET /metrics` endpoint into metric
+ * families (counters, gauges, histograms, summaries) with their labels, plus
+ * helpers for aggregating samples and estimating histogram quantiles.
+ */
+
+export type MetricType =
+  | 'counter'
+  | 'gauge'
+  | 'histogram'
+  | 'summary'
+  | 'untyped';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+  timestamp?: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  type: MetricType;
+  help?: string;
+  samples: MetricSample[];
+}
+
+export type MetricFamilies = Record<string, MetricFamily>;
+
+export interface HistogramBucket {
+  le: number;
+  count: number;
+}
+
+export interface HistogramSeries {
+  labels: MetricLabels;
+  buckets: HistogramBucket[];
+  sum: number;
+  count: number;
+}
+
+// Sample-name suffixes that belong to a histogram/summary family
+const FAMILY_SUFFIXES: Record<string, string[]> = {
+  histogram: ['_bucket', '_sum', '_count', '_created'],
+  summary: ['_sum', '_count', '_created'],
+  counter: ['_total', '_created']
+};
+
+function parseValue(raw: string): number {
+  switch (raw) {
+    case '+Inf':
+    case 'Inf':
+      return Infinity;
+    case '-Inf':
+      return -Infinity;
+    case 'NaN':
+      return NaN;
+    default:
+      return parseFloat(raw);
+  }
+}
+
+/**
+ * Parse a `{a="1",b="x\"y"}` label block starting at `start` (the `{`)
+ */
+function parseLabels(
+  line: string,
+  start: number
+): { labels: MetricLabels; end: number } {
+  const labels: MetricLabels = {};
+  let i = start + 1;
+
+  while (i < line.length && line[i] !== '}') {
+    // Skip separators/whitespace
+    while (line[i] === ',' || line[i] === ' ') i++;
+    if (line[i] === '}') break;
+
+    const eq = line.indexOf('=', i);
+    if (eq === -1) throw new Error(`Malformed labels: ${line}`);
+    const key = line.slice(i, eq).trim();
+    i = eq + 1;
+    if (line[i] !== '"') throw new Error(`Malformed label value: ${line}`);
+    i++;
+
+    let value = '';
+    while (i < line.length && line[i] !== '"') {
+      if (line[i] === '\\') {
+        const next = line[i + 1];
+        value += next === 'n' ? '\n' : next;
+        i += 2;
+      } else {
+        value += line[i];
+        i++;
+      }
+    }
+    labels[key] = value;
+    i++; // closing quote
+  }
+
+  return { labels, end: i + 1 };
+}
+
+/**
+ * Resolve which declared family a sample name belongs to
+ */
+function resolveFamilyName(
+  sampleName: string,
+  families: MetricFamilies
+): string {
+  if (families[sampleName]) return sampleName;
+
+  for (const family of Object.values(families)) {
+    const suffixes = FAMILY_SUFFIXES[family.type] || [];
+    for (const suffix of suffixes) {
+      if (sampleName === family.name + suffix) return family.name;
+    }
+  }
+
+  return sampleName;
+}
+
+/**
+ * Parse Prometheus text format into metric families keyed by name
+ */
+export function parsePrometheusText(text: string): MetricFamilies {
+  const families: MetricFamilies = {};
+
+  const ensureFamily = (name: string): MetricFamily => {
+    if (!families[name]) {
+      families[name] = { name, type: 'untyped', samples: [] };
+    }
+    return families[name];
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const match = line.match(/^#\s+(HELP|TYPE)\s+(\S+)\s*(.*)$/);
+      if (!match) continue; // Plain comment
+      const [, kind, name, rest] = match;
+      const family = ensureFamily(name);
+      if (kind === 'TYPE') {
+        family.type = (rest.trim() as MetricType) || 'untyped';
+      } else {
+        family.help = rest.replace(/\\n/g, '\n').replace(/\\\\/g, '\\');
+      }
+      continue;
+    }
+
+    // Sample line: name[{labels}] value [timestamp]
+    const nameMatch = line.match(/^[a-zA-Z_:][a-zA-Z0-9_:]*/);
+    if (!nameMatch) continue;
+    const name = nameMatch[0];
+    let rest = line.slice(name.length);
+    let labels: MetricLabels = {};
+
+    if (rest.startsWith('{')) {
+      const parsed = parseLabels(rest, 0);
+      labels = parsed.labels;
+      rest = rest.slice(parsed.end);
+    }
+
+    const [rawValue, rawTimestamp] = rest.trim().split(/\s+/);
+    if (rawValue === undefined) continue;
+
+    const family = ensureFamily(resolveFamilyName(name, families));
+    family.samples.push({
+      name,
+      labels,
+      value: parseValue(rawValue),
+      timestamp: rawTimestamp ? parseInt(rawTimestamp, 10) : undefined
+    });
+  }
+
+  return families;
+}
+
+/**
+ * Stable key for a label set (ignoring the given label names)
+ */
+export function labelKey(labels: MetricLabels, omit: string[] = []): string {
+  return Object.keys(labels)
+    .filter((key) => !omit.includes(key))
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(',');
+}
+
+/**
+ * Sum all samples of a family, optionally filtered by sample name or labels
+ */
+export function sumSamples(
+  family: MetricFamily | undefined,
+  filter?: (sample: MetricSample) => boolean
+): number {
+  if (!family) return 0;
+  return family.samples
+    .filter((sample) => !sample.name.endsWith('_created'))
+    .filter((sample) => (filter ? filter(sample) : true))
+    .reduce(
+      (total, sample) =>
+        Number.isFinite(sample.value) ? total + sample.value : total,
+      0
+    );
+}
+
+/**
+ * Group histogram samples into one series per label set
+ */
+export function getHistogramSeries(
+  family: MetricFamily | undefined
+): HistogramSeries[] {
+  if (!family || family.type !== 'histogram') return [];
+  const series: Record<string, HistogramSeries> = {};
+
+  for (const sample of family.samples) {
+    const key = labelKey(sample.labels, ['le']);
+    if (!series[key]) {
+      const labels = { ...sample.labels };
+      delete labels.le;
+      series[key] = { labels, buckets: [], sum: 0, count: 0 };
+    }
+
+    if (sample.name.endsWith('_bucket')) {
+      series[key].buckets.push({
+        le: parseValue(sample.labels.le),
+        count: sample.value
+      });
+    } else if (sample.name.endsWith('_sum')) {
+      series[key].sum = sample.value;
+    } else if (sample.name.endsWith('_count')) {
+      series[key].count = sample.value;
+    }
+  }
+
+  return Object.values(series).map((s) => ({
+    ...s,
+    buckets: s.buckets.sort((a, b) => a.le - b.le)
+  }));
+}
+
+/**
+ * Merge histogram series into one (bucket counts, sums and counts added)
+ */
+export function mergeHistogramSeries(
+  series: HistogramSeries[]
+): HistogramSeries {
+  const buckets: Record<string, HistogramBucket> = {};
+  let sum = 0;
+  let count = 0;
+
+  for (const s of series) {
+    sum += s.sum;
+    count += s.count;
+    for (const bucket of s.buckets) {
+      const key = String(bucket.le);
+      buckets[key] = {
+        le: bucket.le,
+        count: (buckets[key]?.count || 0) + bucket.count
+      };
+    }
+  }
+
+  return {
+    labels: {},
+    buckets: Object.values(buckets).sort((a, b) => a.le - b.le),
+    sum,
+    count
+  };
+}
+
+/**
+ * Subtract an earlier histogram snapshot to get the distribution of a window
+ */
+export function diffHistogram(
+  current: HistogramSeries,
+  previous: HistogramSeries | undefined
+): HistogramSeries {
+  if (!previous) return current;
+  const prevBuckets = new Map(previous.buckets.map((b) => [b.le, b.count]));
+
+  // Counters reset when the backend restarts - fall back to the raw snapshot
+  if (current.count < previous.count) return current;
+
+  return {
+    labels: current.labels,
+    buckets: current.buckets.map((b) => ({
+      le: b.le,
+      count: Math.max(0, b.count - (prevBuckets.get(b.le) || 0))
+    })),
+    sum: current.sum - previous.sum,
+    count: current.count - previous.count
+  };
+}
+
+/**
+ * Estimate a quantile from cumulative buckets (same approach as PromQL's
+ * histogram_quantile: linear interpolation within the matching bucket)
+ */
+export function histogramQuantile(
+  quantile: number,
+  buckets: HistogramBucket[]
+): number {
+  if (buckets.length === 0) return NaN;
+  const total = buckets[buckets.length - 1].count;
+  if (total === 0) return NaN;
+
+  const rank = quantile * total;
+  let prevLe = 0;
+  let prevCount = 0;
+
+  for (const bucket of buckets) {
+    if (bucket.count >= rank) {
+      // Quantile falls in the +Inf bucket - best estimate is the last bound
+      if (!Number.isFinite(bucket.le)) return prevLe;
+      const inBucket = bucket.count - prevCount;
+      if (inBucket === 0) return bucket.le;
+      return prevLe + ((bucket.le - prevLe) * (rank - prevCount)) / inBucket;
+    }
+    prevLe = bucket.le;
+    prevCount = bucket.count;
+  }
+
+  return prevLe;
+}
@@ -0,0 +1,373 @@
+/**
+ * Realtime analysis events
+ *
+ * One store owns the notification WebSocket for the whole dashboard:
+ *
+ * - While connected, backend `analysis_start` / `analysis_complete` events
+ *   are dispatched to subscribers and each one triggers a `/analysis`
+ *   refresh so `jobs` stays current
+ * - While disconnected, `/analysis` is polled instead and status changes are
+ *   turned into the same events by diffing against the last snapshot
+ * - After (re)connecting, one more diff picks up anything missed while the
+ *   socket was down
+ *
+ * Toasts and desktop notifications are shown here, once per job and event,
+ * so pages only need to react to the events (see `useRealtimeEvents`).
+ */
+
+import { create } from 'zustand';
+import { toast } from 'sonner';
+import {
+  AnalysisJobSummary,
+  AnalysisListResponse,
+  getAnalysisJobs,
+  isJobActive
+} from './api';
+import { recordAnalysisCredits } from './credit-ledger';
+import { initDebugMode } from './debug';
+import { openNotificationSocket } from './mock-websocket';
+import { getWebSocketUrl } from './runtime-config';
+
+const RECONNECT_BASE_MS = 3000;
+const RECONNECT_MAX_MS = 30000;
+// Fallback polling while the socket is down - faster while jobs are running
+const ACTIVE_POLL_MS = 3000;
+const IDLE_POLL_MS = 15000;
+
+export interface AnalysisStartData {
+  job_id: string;
+  token_name: string;
+  token_symbol: string;
+}
+
+export interface AnalysisCompleteData {
+  job_id: string;
+  token_name: string;
+  token_symbol: string;
+  acronym: string;
+  wallets_found: number;
+  // Not known when the event is reconstructed from `/analysis`
+  token_id?: number;
+}
+
+export interface AnalysisFailedData {
+  job_id: string;
+  token_name: string;
+  token_address: string;
+}
+
+export type AnalysisEvent =
+  | { event: 'analysis_start'; data: AnalysisStartData }
+  | { event: 'analysis_complete'; data: AnalysisCompleteData }
+  | { event: 'analysis_failed'; data: AnalysisFailedData };
+
+export type AnalysisEventListener = (event: AnalysisEvent) => void;
+
+/**
+ * - `idle`: nothing subscribed
+ * - `connecting`: opening the socket
+ * - `connected`: receiving pushed events
+ * - `polling`: socket down, falling back to `/analysis` polling
+ */
+export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'polling';
+
+interface RealtimeState {
+  status: RealtimeStatus;
+  jobs: AnalysisListResponse | null;
+  jobsError: string | null;
+  refreshing: boolean;
+  lastEvent: AnalysisEvent | null;
+  /**
+   * Listen for analysis events; keeps the connection open until every
+   * subscriber has unsubscribed
+   */
+  subscribe: (listener?: AnalysisEventListener) => () => void;
+  /**
+   * Re-fetch `/analysis` and dispatch events for anything that changed
+   */
+  refreshJobs: () => Promise<void>;
+}
+
+// Connection state is module-private - the store only exposes what pages render
+let socket: WebSocket | null = null;
+let subscriberCount = 0;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshInFlight: Promise<void> | null = null;
+let refreshQueued = false;
+
+const listeners = new Set<AnalysisEventListener>();
+// Last status seen per job; null until the first snapshot is loaded
+let knownStatuses: Map<string, string> | null = null;
+const dispatched = new Set<string>();
+
+export const useRealtimeStore = create<RealtimeState>()((set, get) => {
+  const notify = (message: AnalysisEvent) => {
+    if (message.event === 'analysis_start') {
+      toast.info(`Analysis started: ${message.data.token_name}`, {
+        description: 'Processing early bidders...',
+        duration: 3000,
+        id: `analysis-start-${message.data.job_id}`
+      });
+      return;
+    }
+
+    if (message.event === 'analysis_failed') {
+      toast.error(`Analysis failed: ${message.data.token_name}`, {
+        description: message.data.token_address,
+        id: `analysis-${message.data.job_id}`
+      });
+      return;
+    }
+
+    const { data } = message;
+    toast.success(`Analysis complete: ${data.token_name}`, {
+      description: `Found ${data.wallets_found} early bidder wallets`,
+      duration: 5000,
+      id: `analysis-${data.job_id}`
+    });
+
+    // Desktop notification only when the tab isn't visible
+    if (
+      'Notification' in window &&
+      Notification.permission === 'granted' &&
+      document.hidden
+    ) {
+      const notification = new Notification('Analysis Complete ✓', {
+        body: `${data.token_name} (${data.acronym})\n${data.wallets_found} wallets found`,
+        icon: '/favicon.ico',
+        tag: 'analysis-complete',
+        requireInteraction: false,
+        silent: true
+      });
+
+      setTimeout(() => notification.close(), 3000);
+
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    }
+  };
+
+  // Socket and reconciliation can both report the same transition
+  const dispatch = (message: AnalysisEvent) => {
+    const key = `${message.event}:${message.data.job_id}`;
+    if (dispatched.has(key)) return;
+    dispatched.add(key);
+
+    const status =
+      message.event === 'analysis_start'
+        ? 'processing'
+        : message.event === 'analysis_complete'
+          ? 'completed'
+          : 'failed';
+    knownStatuses?.set(message.data.job_id, status);
+
+    notify(message);
+    set({ lastEvent: message });
+    listeners.forEach((listener) => listener(message));
+  };
+
+  const toEvent = (job: AnalysisJobSummary): AnalysisEvent | null => {
+    const tokenName = job.token_name || job.token_address.slice(0, 8);
+    switch (job.status) {
+      case 'processing':
+        return {
+          event: 'analysis_start',
+          data: {
+            job_id: job.job_id,
+            token_name: tokenName,
+            token_symbol: job.token_symbol || ''
+          }
+        };
+      case 'completed':
+        return {
+          event: 'analysis_complete',
+          data: {
+            job_id: job.job_id,
+            token_name: tokenName,
+            token_symbol: job.token_symbol || '',
+            acronym: job.acronym || job.token_symbol || '',
+            wallets_found: job.wallets_found ?? 0
+          }
+        };
+      case 'failed':
+        return {
+          event: 'analysis_failed',
+          data: {
+            job_id: job.job_id,
+            token_name: tokenName,
+            token_address: job.token_address
+          }
+        };
+      default:
+        return null;
+    }
+  };
+
+  const reconcile = (next: AnalysisListResponse) => {
+    // The first snapshot is the baseline - nothing in it is news
+    if (knownStatuses === null) {
+      knownStatuses = new Map(next.jobs.map((job) => [job.job_id, job.status]));
+      return;
+    }
+
+    // Oldest first so a start is reported before its completion
+    [...next.jobs].reverse().forEach((job) => {
+      if (knownStatuses?.get(job.job_id) === job.status) return;
+      knownStatuses?.set(job.job_id, job.status);
+      const event = toEvent(job);
+      if (event) dispatch(event);
+    });
+  };
+
+  const fetchJobs = async () => {
+    set({ refreshing: true });
+    try {
+      const next = await getAnalysisJobs();
+      set({ jobs: next, jobsError: null });
+      reconcile(next);
+      recordAnalysisCredits(next.jobs).catch(() => {});
+    } catch (error) {
+      set({
+        jobsError:
+          error instanceof Error ? error.message : 'Failed to fetch jobs'
+      });
+    } finally {
+      set({ refreshing: false });
+    }
+  };
+
+  // Collapse overlapping refreshes into at most one follow-up request
+  const refreshJobs = async () => {
+    if (refreshInFlight) {
+      refreshQueued = true;
+      return refreshInFlight;
+    }
+    refreshInFlight = (async () => {
+      do {
+        refreshQueued = false;
+        await fetchJobs();
+      } while (refreshQueued);
+    })().finally(() => {
+      refreshInFlight = null;
+    });
+    return refreshInFlight;
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = null;
+  };
+
+  const schedulePoll = () => {
+    stopPolling();
+    const hasActiveJobs =
+      get().jobs?.jobs.some((job) => isJobActive(job.status)) ?? false;
+    pollTimer = setTimeout(
+      async () => {
+        if (!document.hidden) await refreshJobs();
+        if (get().status === 'polling') schedulePoll();
+      },
+      hasActiveJobs ? ACTIVE_POLL_MS : IDLE_POLL_MS
+    );
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    try {
+      const message = JSON.parse(event.data) as AnalysisEvent;
+      if (
+        message.event !== 'analysis_start' &&
+        message.event !== 'analysis_complete'
+      ) {
+        return;
+      }
+      dispatch(message);
+      refreshJobs();
+    } catch {
+      // Ignore malformed messages
+    }
+  };
+
+  const connect = () => {
+    if (subscriberCount === 0 || socket) return;
+
+    set({ status: 'connecting' });
+    const ws = openNotificationSocket(getWebSocketUrl());
+    socket = ws;
+
+    ws.onopen = () => {
+      reconnectAttempts = 0;
+      stopPolling();
+      set({ status: 'connected' });
+      // Catch up on anything that finished while disconnected
+      refreshJobs();
+    };
+
+    ws.onmessage = handleMessage;
+
+    ws.onclose = () => {
+      socket = null;
+      if (subscriberCount === 0) return;
+
+      if (get().status !== 'polling') {
+        set({ status: 'polling' });
+        schedulePoll();
+      }
+
+      const delay = Math.min(
+        RECONNECT_BASE_MS * 2 ** reconnectAttempts,
+        RECONNECT_MAX_MS
+      );
+      reconnectAttempts++;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  const handleVisibilityChange = () => {
+    if (!document.hidden) refreshJobs();
+  };
+
+  const start = () => {
+    initDebugMode();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    refreshJobs();
+    connect();
+  };
+
+  const stop = () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    stopPolling();
+    reconnectAttempts = 0;
+    if (socket) {
+      socket.onclose = null;
+      socket.close();
+      socket = null;
+    }
+    set({ status: 'idle' });
+  };
+
+  return {
+    status: 'idle',
+    jobs: null,
+    jobsError: null,
+    refreshing: false,
+    lastEvent: null,
+    subscribe: (listener) => {
+      if (listener) listeners.add(listener);
+      subscriberCount++;
+      if (subscriberCount === 1) start();
+
+      return () => {
+        if (listener) listeners.delete(listener);
+        subscriberCount--;
+        if (subscriberCount === 0) stop();
+      };
+    },
+    refreshJobs
+  };
+});
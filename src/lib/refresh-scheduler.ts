@@ -0,0 +1,394 @@
+/**
+ * Scheduled background refresh of market caps and wallet balances
+ *
+ * Each schedule picks a set of tokens or wallets and refreshes it in batches
+ * on an interval while the dashboard is open. Credits reported by the refresh
+ * endpoints count towards a daily budget; once it is spent, runs stop until
+ * the next local day.
+ *
+ * Config, the day's spend and the last run per schedule are kept in
+ * localStorage, so they survive reloads and are shared between tabs - a tab
+ * claims a run before starting it so two tabs don't refresh the same set.
+ */
+
+import { create } from 'zustand';
+import { toast } from 'sonner';
+import {
+  getCodexWallets,
+  getTokens,
+  parseUtcTimestamp,
+  refreshMarketCaps,
+  refreshWalletBalances
+} from './api';
+
+const STORAGE_KEY = 'refresh-scheduler';
+const TICK_MS = 30 * 1000;
+// Refresh endpoints are called with at most this many ids at once
+const BATCH_SIZE = 20;
+// A claim older than this is from a tab that closed mid-run
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+export const INTERVAL_OPTIONS = [5, 15, 30, 60, 180, 360, 720, 1440];
+
+export type ScheduleKind = 'market_caps' | 'balances';
+
+export interface RefreshSchedule {
+  id: string;
+  kind: ScheduleKind;
+  enabled: boolean;
+  intervalMinutes: number;
+  // market_caps: tokens analyzed within this many hours
+  maxAgeHours: number;
+  // balances: wallets carrying this tag ('kol' matches the KOL flag)
+  tag: string;
+}
+
+export interface ScheduleRun {
+  startedAt: string;
+  finishedAt: string | null;
+  refreshed: number;
+  total: number;
+  creditsUsed: number;
+  budgetReached: boolean;
+  error: string | null;
+}
+
+interface PersistedScheduler {
+  schedules: RefreshSchedule[];
+  dailyCreditBudget: number;
+  // Credits spent by scheduled runs on `usageDate` (local YYYY-MM-DD)
+  usageDate: string;
+  creditsUsed: number;
+  lastRuns: Record<string, ScheduleRun>;
+  claim: { scheduleId: string; at: number } | null;
+}
+
+interface SchedulerState extends Omit<PersistedScheduler, 'claim'> {
+  runningId: string | null;
+  /**
+   * Run due schedules until every caller has stopped
+   */
+  start: () => () => void;
+  updateSchedule: (id: string, patch: Partial<RefreshSchedule>) => void;
+  addSchedule: (kind: ScheduleKind) => void;
+  removeSchedule: (id: string) => void;
+  setDailyCreditBudget: (budget: number) => void;
+  runNow: (id: string) => Promise<void>;
+}
+
+const DEFAULT_SCHEDULES: RefreshSchedule[] = [
+  {
+    id: 'recent-market-caps',
+    kind: 'market_caps',
+    enabled: false,
+    intervalMinutes: 15,
+    maxAgeHours: 48,
+    tag: ''
+  },
+  {
+    id: 'kol-balances',
+    kind: 'balances',
+    enabled: false,
+    intervalMinutes: 60,
+    maxAgeHours: 0,
+    tag: 'kol'
+  }
+];
+
+function today() {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+function defaults(): PersistedScheduler {
+  return {
+    schedules: DEFAULT_SCHEDULES,
+    dailyCreditBudget: 500,
+    usageDate: today(),
+    creditsUsed: 0,
+    lastRuns: {},
+    claim: null
+  };
+}
+
+function isSchedule(value: unknown): value is RefreshSchedule {
+  if (!value || typeof value !== 'object') return false;
+  const schedule = value as Record<string, unknown>;
+  return (
+    typeof schedule.id === 'string' &&
+    (schedule.kind === 'market_caps' || schedule.kind === 'balances') &&
+    typeof schedule.enabled === 'boolean' &&
+    Number.isFinite(schedule.intervalMinutes) &&
+    Number.isFinite(schedule.maxAgeHours) &&
+    typeof schedule.tag === 'string'
+  );
+}
+
+function isPersistedScheduler(value: unknown): value is PersistedScheduler {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as Record<string, unknown>;
+  const claim = data.claim as Record<string, unknown> | null;
+  return (
+    Array.isArray(data.schedules) &&
+    data.schedules.every(isSchedule) &&
+    Number.isFinite(data.dailyCreditBudget) &&
+    typeof data.usageDate === 'string' &&
+    Number.isFinite(data.creditsUsed) &&
+    !!data.lastRuns &&
+    typeof data.lastRuns === 'object' &&
+    !Array.isArray(data.lastRuns) &&
+    (claim === null ||
+      (typeof claim === 'object' &&
+        typeof claim.scheduleId === 'string' &&
+        Number.isFinite(claim.at)))
+  );
+}
+
+function load(): PersistedScheduler {
+  if (typeof window === 'undefined') return defaults();
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? { ...defaults(), ...JSON.parse(saved) } : null;
+    // A save from an older build, or one edited by hand, starts over
+    const data = isPersistedScheduler(parsed) ? parsed : defaults();
+    // A new day resets the spend
+    return data.usageDate === today()
+      ? data
+      : { ...data, usageDate: today(), creditsUsed: 0 };
+  } catch {
+    return defaults();
+  }
+}
+
+function save(data: PersistedScheduler) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // localStorage unavailable - the schedule just won't persist
+  }
+}
+
+// The claim is bookkeeping between tabs - not part of the rendered state
+function visibleState(data: PersistedScheduler) {
+  const { schedules, dailyCreditBudget, usageDate, creditsUsed, lastRuns } =
+    data;
+  return { schedules, dailyCreditBudget, usageDate, creditsUsed, lastRuns };
+}
+
+/**
+ * When a schedule is next due (ms), or null when disabled
+ */
+export function nextRunAt(
+  schedule: RefreshSchedule,
+  lastRun: ScheduleRun | undefined
+): number | null {
+  if (!schedule.enabled) return null;
+  // Never run - due straight away
+  if (!lastRun) return Date.now();
+  return (
+    parseUtcTimestamp(lastRun.startedAt).getTime() +
+    schedule.intervalMinutes * 60 * 1000
+  );
+}
+
+export function describeSchedule(schedule: RefreshSchedule): string {
+  if (schedule.kind === 'market_caps') {
+    return `Market caps of tokens analyzed in the last ${schedule.maxAgeHours}h`;
+  }
+  return schedule.tag.toLowerCase() === 'kol'
+    ? 'Balances of KOL wallets'
+    : `Balances of wallets tagged "${schedule.tag}"`;
+}
+
+/**
+ * Token ids or wallet addresses a schedule refreshes
+ */
+async function resolveTargets(
+  schedule: RefreshSchedule
+): Promise<(number | string)[]> {
+  if (schedule.kind === 'market_caps') {
+    const { tokens } = await getTokens();
+    const since = Date.now() - schedule.maxAgeHours * 60 * 60 * 1000;
+    return tokens
+      .filter(
+        (token) =>
+          parseUtcTimestamp(token.analysis_timestamp).getTime() >= since
+      )
+      .map((token) => token.id);
+  }
+
+  const tag = schedule.tag.trim().toLowerCase();
+  const { wallets } = await getCodexWallets();
+  return wallets
+    .filter((wallet) =>
+      wallet.tags.some((t) =>
+        tag === 'kol' ? t.is_kol : t.tag.toLowerCase() === tag
+      )
+    )
+    .map((wallet) => wallet.wallet_address);
+}
+
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+let starters = 0;
+
+export const useRefreshScheduler = create<SchedulerState>()((set, get) => {
+  // Merge our changes into whatever other tabs have saved meanwhile
+  const persist = (
+    update: (data: PersistedScheduler) => PersistedScheduler
+  ) => {
+    const next = update(load());
+    save(next);
+    set(visibleState(next));
+    return next;
+  };
+
+  const isClaimed = (data: PersistedScheduler) =>
+    data.claim !== null && Date.now() - data.claim.at < CLAIM_TIMEOUT_MS;
+
+  const run = async (schedule: RefreshSchedule) => {
+    // Claim the run so other tabs skip it
+    if (isClaimed(load())) return false;
+    persist((data) => ({
+      ...data,
+      claim: { scheduleId: schedule.id, at: Date.now() }
+    }));
+    set({ runningId: schedule.id });
+
+    const result: ScheduleRun = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      refreshed: 0,
+      total: 0,
+      creditsUsed: 0,
+      budgetReached: false,
+      error: null
+    };
+
+    try {
+      const targets = await resolveTargets(schedule);
+      result.total = targets.length;
+
+      for (let i = 0; i < targets.length; ) {
+        const { creditsUsed, dailyCreditBudget } = load();
+        // Refreshes cost about one credit per id, so never send more ids
+        // than the budget has left
+        const remaining = dailyCreditBudget - creditsUsed;
+        if (remaining <= 0) {
+          result.budgetReached = true;
+          break;
+        }
+        const batch = targets.slice(i, i + Math.min(BATCH_SIZE, remaining));
+        i += batch.length;
+
+        const response =
+          schedule.kind === 'market_caps'
+            ? await refreshMarketCaps(batch as number[])
+            : await refreshWalletBalances(batch as string[]);
+
+        result.refreshed += response.successful;
+        result.creditsUsed += response.api_credits_used;
+        persist((data) => ({
+          ...data,
+          creditsUsed: data.creditsUsed + response.api_credits_used
+        }));
+      }
+    } catch (error) {
+      result.error =
+        error instanceof Error ? error.message : 'Scheduled refresh failed';
+    }
+
+    result.finishedAt = new Date().toISOString();
+    persist((data) => ({
+      ...data,
+      lastRuns: { ...data.lastRuns, [schedule.id]: result },
+      claim: null
+    }));
+    set({ runningId: null });
+
+    if (result.budgetReached) {
+      toast.warning('Daily refresh credit budget reached', {
+        description: 'Scheduled refreshes are paused until tomorrow',
+        id: 'refresh-budget-reached'
+      });
+    }
+    return true;
+  };
+
+  const tick = async () => {
+    if (get().runningId) return;
+    const data = load();
+    set(visibleState(data));
+    if (data.creditsUsed >= data.dailyCreditBudget || isClaimed(data)) return;
+
+    const due = data.schedules.find((schedule) => {
+      const at = nextRunAt(schedule, data.lastRuns[schedule.id]);
+      return at !== null && at <= Date.now();
+    });
+    if (due) await run(due);
+  };
+
+  return {
+    // Saved state is read on start, so server and client render the same
+    ...visibleState(defaults()),
+    runningId: null,
+    start: () => {
+      starters++;
+      if (starters === 1) {
+        tick();
+        tickTimer = setInterval(tick, TICK_MS);
+      }
+      return () => {
+        starters--;
+        if (starters === 0 && tickTimer) {
+          clearInterval(tickTimer);
+          tickTimer = null;
+        }
+      };
+    },
+    updateSchedule: (id, patch) => {
+      persist((data) => ({
+        ...data,
+        schedules: data.schedules.map((schedule) =>
+          schedule.id === id ? { ...schedule, ...patch } : schedule
+        )
+      }));
+    },
+    addSchedule: (kind) => {
+      persist((data) => ({
+        ...data,
+        schedules: [
+          ...data.schedules,
+          {
+            id: `${kind}-${Date.now()}`,
+            kind,
+            enabled: false,
+            intervalMinutes: 60,
+            maxAgeHours: 24,
+            tag: kind === 'balances' ? 'whale' : ''
+          }
+        ]
+      }));
+    },
+    removeSchedule: (id) => {
+      persist((data) => ({
+        ...data,
+        schedules: data.schedules.filter((schedule) => schedule.id !== id),
+        lastRuns: Object.fromEntries(
+          Object.entries(data.lastRuns).filter(([key]) => key !== id)
+        )
+      }));
+    },
+    setDailyCreditBudget: (budget) => {
+      persist((data) => ({
+        ...data,
+        dailyCreditBudget: Math.max(0, Math.floor(budget))
+      }));
+    },
+    runNow: async (id) => {
+      const schedule = get().schedules.find((s) => s.id === id);
+      if (!schedule || get().runningId) return;
+      if (!(await run(schedule))) {
+        toast.info('Another tab is already running a scheduled refresh');
+      }
+    }
+  };
+});
@@ -0,0 +1,179 @@
+/**
+ * Runtime backend configuration
+ *
+ * The backend URL is resolved when the page is served, not when the bundle
+ * is built, so one Docker image can point at any backend:
+ *
+ * 1. Per-browser override saved from the settings popover (localStorage)
+ * 2. `API_URL` / `WS_URL` env vars read by the root layout at request time
+ *    and injected as `window.__RUNTIME_CONFIG__`
+ * 3. `http://localhost:5003`
+ *
+ * The WebSocket URL is derived from the API URL (`http` -> `ws`,
+ * `https` -> `wss`, plus `/ws`) unless `WS_URL` is set explicitly.
+ *
+ * Demo mode (`MOCK_API=true`, or toggled per browser) swaps the backend for
+ * the in-memory mock served by `/api/mock` on this origin.
+ */
+
+export const DEFAULT_API_URL = 'http://localhost:5003';
+
+const API_URL_OVERRIDE_KEY = 'gds_api_url_override';
+const DEMO_MODE_KEY = 'gds_demo_mode';
+
+export const MOCK_API_PATH = '/api/mock';
+
+export interface RuntimeConfig {
+  apiUrl: string;
+  wsUrl: string | null;
+  mockApi: boolean;
+}
+
+declare global {
+  interface Window {
+    __RUNTIME_CONFIG__?: RuntimeConfig;
+  }
+}
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Read the config from env vars (server only - called by the root layout)
+ */
+export function getServerRuntimeConfig(): RuntimeConfig {
+  const apiUrl =
+    process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || DEFAULT_API_URL;
+  const wsUrl = process.env.WS_URL || process.env.NEXT_PUBLIC_WS_URL;
+  const mockApi = process.env.MOCK_API || process.env.NEXT_PUBLIC_MOCK_API;
+  return {
+    apiUrl: normalizeUrl(apiUrl),
+    wsUrl: wsUrl ? normalizeUrl(wsUrl) : null,
+    mockApi: mockApi === 'true' || mockApi === '1'
+  };
+}
+
+/**
+ * Inline script that exposes the server config to the browser before
+ * any client code runs
+ */
+export function getRuntimeConfigScript(): string {
+  const json = JSON.stringify(getServerRuntimeConfig()).replace(
+    /</g,
+    '\\u003c'
+  );
+  return `window.__RUNTIME_CONFIG__ = ${json};`;
+}
+
+/**
+ * Config injected by the server (or read from env when called server-side)
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  if (typeof window === 'undefined') return getServerRuntimeConfig();
+  return (
+    window.__RUNTIME_CONFIG__ || {
+      apiUrl: DEFAULT_API_URL,
+      wsUrl: null,
+      mockApi: false
+    }
+  );
+}
+
+/**
+ * Backend URL saved in this browser, if any
+ */
+export function getApiUrlOverride(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    return localStorage.getItem(API_URL_OVERRIDE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save (or clear, with null) the backend URL for this browser
+ */
+export function setApiUrlOverride(url: string | null) {
+  if (url && normalizeUrl(url)) {
+    localStorage.setItem(API_URL_OVERRIDE_KEY, normalizeUrl(url));
+  } else {
+    localStorage.removeItem(API_URL_OVERRIDE_KEY);
+  }
+}
+
+/**
+ * Whether requests go to the mock backend instead of FastAPI
+ *
+ * A per-browser choice (either way) wins over the server's `MOCK_API`.
+ */
+export function isDemoMode(): boolean {
+  if (typeof window !== 'undefined') {
+    try {
+      const saved = localStorage.getItem(DEMO_MODE_KEY);
+      if (saved !== null) return saved === 'true';
+    } catch {
+      // localStorage unavailable - fall through to server config
+    }
+  }
+  return getRuntimeConfig().mockApi;
+}
+
+/**
+ * Turn demo mode on/off for this browser (null follows the server default)
+ */
+export function setDemoMode(enabled: boolean | null) {
+  if (enabled === null) {
+    localStorage.removeItem(DEMO_MODE_KEY);
+  } else {
+    localStorage.setItem(DEMO_MODE_KEY, String(enabled));
+  }
+}
+
+/**
+ * Whether a string is an absolute http(s) URL
+ */
+export function isValidBackendUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Base URL for all backend requests
+ */
+export function getApiBaseUrl(): string {
+  if (isDemoMode()) {
+    return typeof window === 'undefined'
+      ? MOCK_API_PATH
+      : `${window.location.origin}${MOCK_API_PATH}`;
+  }
+  return getApiUrlOverride() || getRuntimeConfig().apiUrl;
+}
+
+/**
+ * WebSocket URL for analysis notifications
+ */
+export function getWebSocketUrl(): string {
+  // Served as Server-Sent Events by the mock (see MockWebSocket)
+  if (isDemoMode()) return `${getApiBaseUrl()}/ws`;
+
+  const override = getApiUrlOverride();
+  const { wsUrl } = getRuntimeConfig();
+
+  // An explicit WS_URL only applies to the server-configured backend
+  if (!override && wsUrl) return wsUrl;
+
+  return deriveWebSocketUrl(override || getRuntimeConfig().apiUrl);
+}
+
+/**
+ * Map an http(s) API URL to the backend's ws(s) notification endpoint
+ */
+export function deriveWebSocketUrl(apiUrl: string): string {
+  return `${normalizeUrl(apiUrl).replace(/^http/i, 'ws')}/ws`;
+}
@@ -0,0 +1,225 @@
+/**
+ * Smart money score
+ *
+ * Rates how well a wallet's early buys have turned out, across every analyzed
+ * token it appears in. Each position (wallet x token) scores 0-100 from:
+ *
+ * - Performance (60%): the token's current / at-analysis market cap on a log
+ *   scale - 0.1x or worse is 0, 1x is 33, 10x is 67, 100x or better is 100
+ * - Earliness (40%): where the wallet's `first_buy_timestamp` ranks among
+ *   that token's early buyers - first is 100, last is 0
+ *
+ * The wallet score is the average over positions weighted by entry size
+ * (log10 of `total_usd`, at least 1), so a $50k conviction buy counts about
+ * 5x a $10 one. Tokens without both market caps are skipped.
+ */
+
+import {
+  TokenDetail,
+  getMarketCapMultiple,
+  getTokenById,
+  getTokens
+} from './api';
+
+const PERFORMANCE_WEIGHT = 0.6;
+const EARLINESS_WEIGHT = 0.4;
+// Reuse a load this recent instead of refetching every token
+const CACHE_MS = 60 * 1000;
+// Token detail requests in flight at once
+const DETAIL_CONCURRENCY = 6;
+
+export interface ScoredPosition {
+  token_id: number;
+  token_name: string | null;
+  token_symbol: string | null;
+  multiple: number;
+  // 0-1 components
+  performance: number;
+  earliness: number;
+  // 1-based rank among the token's early buyers, and how many there were
+  buy_rank: number;
+  buyers: number;
+  total_usd: number | null;
+  weight: number;
+  score: number;
+}
+
+export interface WalletScore {
+  wallet_address: string;
+  score: number;
+  // Heaviest weight first
+  positions: ScoredPosition[];
+}
+
+export function performanceScore(multiple: number): number {
+  return Math.min(1, Math.max(0, (Math.log10(multiple) + 1) / 3));
+}
+
+function entryWeight(totalUsd: number | null) {
+  return Math.max(1, Math.log10(1 + (totalUsd ?? 0)));
+}
+
+/**
+ * Score every wallet that bought into at least one token with a known multiple
+ */
+export function scoreWallets(
+  tokens: TokenDetail[]
+): Record<string, WalletScore> {
+  const positions = new Map<string, ScoredPosition[]>();
+
+  tokens.forEach((token) => {
+    const multiple = getMarketCapMultiple(token);
+    if (multiple === null || token.wallets.length === 0) return;
+
+    const ordered = [...token.wallets].sort((a, b) =>
+      a.first_buy_timestamp.localeCompare(b.first_buy_timestamp)
+    );
+    const performance = performanceScore(multiple);
+
+    let rank = 0;
+    ordered.forEach((wallet, i) => {
+      // Ties share the better rank
+      if (
+        i > 0 &&
+        wallet.first_buy_timestamp !== ordered[i - 1].first_buy_timestamp
+      ) {
+        rank = i;
+      }
+      const list = positions.get(wallet.wallet_address) ?? [];
+      if (list.some((p) => p.token_id === token.id)) return;
+
+      const earliness =
+        ordered.length > 1 ? 1 - rank / (ordered.length - 1) : 1;
+      list.push({
+        token_id: token.id,
+        token_name: token.token_name,
+        token_symbol: token.token_symbol,
+        multiple,
+        performance,
+        earliness,
+        buy_rank: rank + 1,
+        buyers: ordered.length,
+        total_usd: wallet.total_usd,
+        weight: entryWeight(wallet.total_usd),
+        score:
+          100 *
+          (PERFORMANCE_WEIGHT * performance + EARLINESS_WEIGHT * earliness)
+      });
+      positions.set(wallet.wallet_address, list);
+    });
+  });
+
+  return Object.fromEntries(
+    Array.from(positions.entries()).map(([address, list]) => {
+      const totalWeight = list.reduce((sum, p) => sum + p.weight, 0);
+      const score =
+        list.reduce((sum, p) => sum + p.score * p.weight, 0) / totalWeight;
+      return [
+        address,
+        {
+          wallet_address: address,
+          score,
+          positions: list.sort((a, b) => b.weight - a.weight)
+        }
+      ];
+    })
+  );
+}
+
+let cached: {
+  at: number;
+  scores: Promise<Record<string, WalletScore>>;
+} | null = null;
+let inFlight: Promise<Record<string, WalletScore>> | null = null;
+// One forced reload queued behind the load in flight, shared by all callers
+let queued: Promise<Record<string, WalletScore>> | null = null;
+
+/**
+ * Run `task` over `items` with at most `limit` running at once, keeping each
+ * item's result (or failure) in order
+ */
+async function settleWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results = new Array<PromiseSettledResult<R>>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: 'fulfilled',
+          value: await task(items[index])
+        };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+function fetchScores(): Promise<Record<string, WalletScore>> {
+  const scores = getTokens().then(async (data) => {
+    const scorable = data.tokens.filter(
+      (token) => getMarketCapMultiple(token) !== null
+    );
+    const details = await settleWithLimit(
+      scorable,
+      DETAIL_CONCURRENCY,
+      (token) => getTokenById(token.id)
+    );
+    return scoreWallets(
+      details.flatMap((detail) =>
+        detail.status === 'fulfilled' ? [detail.value] : []
+      )
+    );
+  });
+
+  inFlight = scores;
+  cached = { at: Date.now(), scores };
+  scores.then(
+    () => {
+      if (inFlight === scores) inFlight = null;
+    },
+    () => {
+      if (inFlight === scores) inFlight = null;
+      // Don't keep a failed load around
+      if (cached?.scores === scores) cached = null;
+    }
+  );
+  return scores;
+}
+
+/**
+ * Fetch every active token with a known multiple and score its early buyers
+ *
+ * Loads are shared for a minute so several panels don't each refetch every
+ * token; pass `force` after market caps change. A forced load while one is
+ * running waits for it and then reloads once, however many callers force.
+ */
+export function loadSmartMoneyScores(
+  force = false
+): Promise<Record<string, WalletScore>> {
+  if (!force && cached && Date.now() - cached.at < CACHE_MS) {
+    return cached.scores;
+  }
+  if (!inFlight) return fetchScores();
+  if (!force) return inFlight;
+
+  if (!queued) {
+    const next = inFlight
+      .catch(() => undefined)
+      .then(() => {
+        queued = null;
+        return fetchScores();
+      });
+    queued = next;
+  }
+  return queued;
+}
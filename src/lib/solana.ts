@@ -0,0 +1,13 @@
+/**
+ * Solana address helpers
+ */
+
+// Base58 alphabet (no 0, O, I or l); public keys encode to 32-44 characters
+export const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Check whether a string looks like a base58-encoded Solana address
+ */
+export function isValidSolanaAddress(address: string): boolean {
+  return SOLANA_ADDRESS_REGEX.test(address.trim());
+}
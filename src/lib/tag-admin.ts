@@ -0,0 +1,235 @@
+/**
+ * Tag administration across all wallets
+ *
+ * The backend only adds or removes one tag on one wallet at a time, so every
+ * bulk operation is planned first (a dry run listing each wallet's change)
+ * and then applied step by step with `addWalletTag()` / `removeWalletTag()`.
+ * A failed step is undone and counted; the rest still run.
+ */
+
+import {
+  WalletTag,
+  addWalletTag,
+  getAllTags,
+  getBatchWalletTags,
+  getTagWallets,
+  removeWalletTag
+} from './api';
+
+export type TagOperation =
+  | { kind: 'rename'; tag: string; to: string }
+  | { kind: 'merge'; tag: string; into: string }
+  | { kind: 'delete'; tag: string }
+  | { kind: 'set_kol'; tag: string; isKol: boolean };
+
+export type TagAction =
+  | { type: 'add'; tag: string; is_kol: boolean }
+  // `is_kol` is the flag the tag had, to put it back if the step fails
+  | { type: 'remove'; tag: string; is_kol: boolean };
+
+/**
+ * One wallet's change, applied in order. A new tag is added before the old
+ * one is removed; changing a tag's KOL flag has to remove it first, since
+ * adding an existing tag doesn't update it. If an action fails, the ones
+ * before it are undone in reverse so the wallet keeps its original tags.
+ */
+export interface TagStep {
+  wallet_address: string;
+  actions: TagAction[];
+  // Why the wallet is in the plan, for the preview
+  note: string;
+}
+
+export interface TagPlan {
+  operation: TagOperation;
+  steps: TagStep[];
+  // Wallets carrying the tag that need no change
+  unchanged: number;
+}
+
+export interface TagSummary {
+  tag: string;
+  wallets: string[];
+  kolWallets: number;
+}
+
+export interface TagInventory {
+  tags: TagSummary[];
+  // Every tag of every wallet in `tags`
+  tagsByWallet: Record<string, WalletTag[]>;
+}
+
+export interface TagRunProgress {
+  done: number;
+  total: number;
+  failed: number;
+  // Wallets whose failed step couldn't be undone, left half-changed
+  partial: string[];
+}
+
+/**
+ * Load every tag with the wallets carrying it
+ */
+export async function loadTagInventory(): Promise<TagInventory> {
+  const tags = await getAllTags();
+  const walletsByTag = await Promise.all(tags.map((tag) => getTagWallets(tag)));
+  const addresses = Array.from(new Set(walletsByTag.flat()));
+  const tagsByWallet =
+    addresses.length > 0 ? await getBatchWalletTags(addresses) : {};
+
+  return {
+    tags: tags.map((tag, i) => ({
+      tag,
+      wallets: walletsByTag[i],
+      kolWallets: walletsByTag[i].filter((address) =>
+        (tagsByWallet[address] ?? []).some((t) => t.tag === tag && t.is_kol)
+      ).length
+    })),
+    tagsByWallet
+  };
+}
+
+function findTag(
+  inventory: TagInventory,
+  address: string,
+  tag: string
+): WalletTag | undefined {
+  return (inventory.tagsByWallet[address] ?? []).find((t) => t.tag === tag);
+}
+
+/**
+ * Dry run: work out what an operation would change without touching anything
+ */
+export function planTagOperation(
+  inventory: TagInventory,
+  operation: TagOperation
+): TagPlan {
+  const source = inventory.tags.find((t) => t.tag === operation.tag);
+  const wallets = source?.wallets ?? [];
+  const steps: TagStep[] = [];
+
+  wallets.forEach((address) => {
+    const isKol = findTag(inventory, address, operation.tag)?.is_kol ?? false;
+
+    switch (operation.kind) {
+      case 'rename':
+      case 'merge': {
+        const target =
+          operation.kind === 'rename' ? operation.to : operation.into;
+        const existing = findTag(inventory, address, target);
+        const actions: TagAction[] = [];
+        if (!existing) {
+          actions.push({ type: 'add', tag: target, is_kol: isKol });
+        } else if (isKol && !existing.is_kol) {
+          // Keep the KOL flag - adding an existing tag doesn't update it
+          actions.push(
+            { type: 'remove', tag: target, is_kol: false },
+            { type: 'add', tag: target, is_kol: true }
+          );
+        }
+        actions.push({ type: 'remove', tag: operation.tag, is_kol: isKol });
+        steps.push({
+          wallet_address: address,
+          actions,
+          note: existing
+            ? `Already tagged "${target}", drop "${operation.tag}"`
+            : `"${operation.tag}" -> "${target}"${isKol ? ' (KOL)' : ''}`
+        });
+        break;
+      }
+      case 'delete':
+        steps.push({
+          wallet_address: address,
+          actions: [{ type: 'remove', tag: operation.tag, is_kol: isKol }],
+          note: `Remove "${operation.tag}"${isKol ? ' (KOL)' : ''}`
+        });
+        break;
+      case 'set_kol':
+        if (isKol === operation.isKol) return;
+        // No update endpoint - remove and re-add with the new flag
+        steps.push({
+          wallet_address: address,
+          actions: [
+            { type: 'remove', tag: operation.tag, is_kol: isKol },
+            { type: 'add', tag: operation.tag, is_kol: operation.isKol }
+          ],
+          note: operation.isKol ? 'Mark as KOL' : 'Unmark KOL'
+        });
+        break;
+    }
+  });
+
+  return { operation, steps, unchanged: wallets.length - steps.length };
+}
+
+function applyAction(address: string, action: TagAction) {
+  return action.type === 'add'
+    ? addWalletTag(address, action.tag, action.is_kol)
+    : removeWalletTag(address, action.tag);
+}
+
+function undoAction(action: TagAction): TagAction {
+  return action.type === 'add'
+    ? { type: 'remove', tag: action.tag, is_kol: action.is_kol }
+    : { type: 'add', tag: action.tag, is_kol: action.is_kol };
+}
+
+/**
+ * Apply one step. If an action fails, undo the ones before it in reverse;
+ * 'partial' means the undo failed too.
+ */
+async function applyStep(
+  step: TagStep
+): Promise<'applied' | 'undone' | 'partial'> {
+  const applied: TagAction[] = [];
+  try {
+    for (const action of step.actions) {
+      await applyAction(step.wallet_address, action);
+      applied.push(action);
+    }
+    return 'applied';
+  } catch {
+    let result: 'undone' | 'partial' = 'undone';
+    for (const action of applied.reverse()) {
+      try {
+        await applyAction(step.wallet_address, undoAction(action));
+      } catch {
+        result = 'partial';
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Apply a plan one step at a time, reporting progress after each step
+ */
+export async function runTagPlan(
+  plan: Pick<TagPlan, 'steps'>,
+  onProgress: (progress: TagRunProgress) => void
+): Promise<TagRunProgress> {
+  const progress: TagRunProgress = {
+    done: 0,
+    total: plan.steps.length,
+    failed: 0,
+    partial: []
+  };
+  onProgress({ ...progress });
+
+  for (const step of plan.steps) {
+    const result = await applyStep(step);
+    if (result !== 'applied') progress.failed += 1;
+    if (result === 'partial') {
+      progress.partial = [...progress.partial, step.wallet_address];
+    }
+    progress.done += 1;
+    window.dispatchEvent(
+      new CustomEvent('walletTagsChanged', {
+        detail: { walletAddress: step.wallet_address }
+      })
+    );
+    onProgress({ ...progress });
+  }
+
+  return progress;
+}
@@ -0,0 +1,199 @@
+/**
+ * User-defined tag categories
+ *
+ * A category gives a wallet tag a colour, an icon and a description, and
+ * promotes it from a free-form label to a checkbox in the tags popover and an
+ * indicator next to wallet addresses. Tags match categories case-insensitively.
+ *
+ * The taxonomy is kept in localStorage and follows edits made in other tabs
+ * once `start()` has run.
+ */
+
+import { create } from 'zustand';
+import { WalletTag } from './api';
+
+const STORAGE_KEY = 'tag-taxonomy';
+
+// Keys into the icon set rendered by `TagCategoryIcon`
+export const CATEGORY_ICONS = [
+  'bot',
+  'fish',
+  'key',
+  'crosshair',
+  'code',
+  'users',
+  'flame',
+  'gem',
+  'rocket',
+  'shield',
+  'skull',
+  'zap',
+  'eye',
+  'tag'
+] as const;
+
+export type CategoryIcon = (typeof CATEGORY_ICONS)[number];
+
+export interface TagCategory {
+  id: string;
+  // The wallet tag this category styles
+  tag: string;
+  color: string;
+  icon: CategoryIcon;
+  description: string;
+}
+
+const DEFAULT_CATEGORIES: TagCategory[] = [
+  {
+    id: 'bot',
+    tag: 'Bot',
+    color: '#a855f7',
+    icon: 'bot',
+    description: 'Automated trading or sniping bot'
+  },
+  {
+    id: 'whale',
+    tag: 'Whale',
+    color: '#3b82f6',
+    icon: 'fish',
+    description: 'Large holder whose moves can shift the price'
+  },
+  {
+    id: 'insider',
+    tag: 'Insider',
+    color: '#ef4444',
+    icon: 'key',
+    description: 'Linked to the team or funded by the deployer'
+  }
+];
+
+interface TaxonomyState {
+  categories: TagCategory[];
+  addCategory: (category: Omit<TagCategory, 'id'>) => void;
+  updateCategory: (id: string, patch: Partial<Omit<TagCategory, 'id'>>) => void;
+  removeCategory: (id: string) => void;
+  // Earlier categories win when a wallet's indicators or colour are picked
+  moveCategory: (id: string, offset: -1 | 1) => void;
+  resetCategories: () => void;
+  // Read the saved taxonomy and follow other tabs; returns a stop function
+  start: () => () => void;
+}
+
+function isTagCategory(value: unknown): value is TagCategory {
+  if (!value || typeof value !== 'object') return false;
+  const category = value as Record<string, unknown>;
+  return (
+    typeof category.id === 'string' &&
+    typeof category.tag === 'string' &&
+    typeof category.color === 'string' &&
+    typeof category.description === 'string' &&
+    (CATEGORY_ICONS as readonly unknown[]).includes(category.icon)
+  );
+}
+
+function load(): TagCategory[] {
+  if (typeof window === 'undefined') return DEFAULT_CATEGORIES;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = saved ? JSON.parse(saved) : null;
+    // Anything stale or hand-edited into another shape is ignored
+    return Array.isArray(data) && data.every(isTagCategory)
+      ? data
+      : DEFAULT_CATEGORIES;
+  } catch {
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+function save(categories: TagCategory[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(categories));
+  } catch {
+    // localStorage unavailable - edits just won't persist
+  }
+}
+
+let starters = 0;
+
+export const useTagTaxonomy = create<TaxonomyState>()((set, get) => {
+  const persist = (categories: TagCategory[]) => {
+    save(categories);
+    set({ categories });
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) set({ categories: load() });
+  };
+
+  return {
+    // Saved categories are read on start, so server and client render the same
+    categories: DEFAULT_CATEGORIES,
+
+    start: () => {
+      starters++;
+      if (starters === 1) {
+        set({ categories: load() });
+        window.addEventListener('storage', handleStorage);
+      }
+      return () => {
+        starters--;
+        if (starters === 0) {
+          window.removeEventListener('storage', handleStorage);
+        }
+      };
+    },
+
+    addCategory: (category) =>
+      persist([
+        ...get().categories,
+        { ...category, id: `category-${Date.now()}` }
+      ]),
+
+    updateCategory: (id, patch) =>
+      persist(
+        get().categories.map((category) =>
+          category.id === id ? { ...category, ...patch } : category
+        )
+      ),
+
+    removeCategory: (id) =>
+      persist(get().categories.filter((category) => category.id !== id)),
+
+    moveCategory: (id, offset) => {
+      const categories = [...get().categories];
+      const index = categories.findIndex((category) => category.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= categories.length) return;
+      [categories[index], categories[target]] = [
+        categories[target],
+        categories[index]
+      ];
+      persist(categories);
+    },
+
+    resetCategories: () => persist(DEFAULT_CATEGORIES)
+  };
+});
+
+export function findCategory(
+  categories: TagCategory[],
+  tag: string
+): TagCategory | undefined {
+  const name = tag.toLowerCase();
+  return categories.find((category) => category.tag.toLowerCase() === name);
+}
+
+export function isCategoryTag(categories: TagCategory[], tag: string) {
+  return findCategory(categories, tag) !== undefined;
+}
+
+/**
+ * The categories a wallet's tags fall into, in taxonomy order
+ */
+export function walletCategories(
+  categories: TagCategory[],
+  tags: WalletTag[]
+): TagCategory[] {
+  const names = new Set(tags.map((t) => t.tag.toLowerCase()));
+  return categories.filter((category) => names.has(category.tag.toLowerCase()));
+}
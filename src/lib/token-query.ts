@@ -0,0 +1,104 @@
+/**
+ * Tokens table query
+ *
+ * One page of the tokens table - page, page size, sort and search - in the
+ * shape a paginated `/api/tokens/history` would take as query parameters.
+ * Until the backend supports it, `queryTokens()` answers the query from the
+ * full token list in the browser; a server-backed source only has to return
+ * the same `TokenPage`.
+ */
+
+import type { Token } from './api';
+
+export const TOKEN_SORT_FIELDS = [
+  'token_name',
+  'market_cap_usd',
+  'wallets_found',
+  'first_buy_timestamp',
+  'last_analysis_credits',
+  'credits_used',
+  'analysis_timestamp'
+] as const;
+
+export type TokenSortField = (typeof TOKEN_SORT_FIELDS)[number];
+
+export interface TokenSort {
+  field: TokenSortField;
+  desc: boolean;
+}
+
+export interface TokenQuery {
+  // Zero-based
+  page: number;
+  pageSize: number;
+  // null keeps the backend's order (latest analysis first)
+  sort: TokenSort | null;
+  search: string;
+}
+
+export interface TokenPage {
+  tokens: Token[];
+  // Tokens matching the search, across all pages
+  total: number;
+}
+
+export type TokenPageSource = (query: TokenQuery) => Promise<TokenPage>;
+
+export function isTokenSortField(id: string): id is TokenSortField {
+  return (TOKEN_SORT_FIELDS as readonly string[]).includes(id);
+}
+
+/**
+ * Search the token address, name, symbol and early buyer wallet addresses
+ */
+export function matchesTokenSearch(token: Token, search: string): boolean {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+  return !!(
+    token.token_address?.toLowerCase().includes(term) ||
+    token.token_name?.toLowerCase().includes(term) ||
+    token.token_symbol?.toLowerCase().includes(term) ||
+    token.wallet_addresses?.some((addr) => addr.toLowerCase().includes(term))
+  );
+}
+
+function sortValue(token: Token, field: TokenSortField): string | number {
+  switch (field) {
+    case 'token_name':
+      return (token.token_name || token.token_symbol || '').toLowerCase();
+    case 'market_cap_usd':
+      // The refreshed value when there is one
+      return token.market_cap_usd_current || token.market_cap_usd || 0;
+    case 'first_buy_timestamp':
+    case 'analysis_timestamp':
+      return token[field] ?? '';
+    default:
+      return token[field] ?? 0;
+  }
+}
+
+/**
+ * Answer a query from the full token list, client-side
+ */
+export function queryTokens(tokens: Token[], query: TokenQuery): TokenPage {
+  let matches = query.search.trim()
+    ? tokens.filter((token) => matchesTokenSearch(token, query.search))
+    : tokens;
+
+  const { sort } = query;
+  if (sort) {
+    const direction = sort.desc ? -1 : 1;
+    matches = [...matches].sort((a, b) => {
+      const left = sortValue(a, sort.field);
+      const right = sortValue(b, sort.field);
+      if (left === right) return 0;
+      return left < right ? -direction : direction;
+    });
+  }
+
+  const start = query.page * query.pageSize;
+  return {
+    tokens: matches.slice(start, start + query.pageSize),
+    total: matches.length
+  };
+}
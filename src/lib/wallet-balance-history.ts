@@ -0,0 +1,91 @@
+/**
+ * Local wallet balance history
+ *
+ * Balance refreshes replace the stored balance on the backend, so each
+ * refreshed `balance_usd` is also recorded here with the time it was fetched.
+ * A sharp drop between refreshes usually means the wallet has exited.
+ */
+
+import type { RefreshBalancesResult } from './api';
+import {
+  WALLET_BALANCE_STORE,
+  getRecordsByIndex,
+  putRecords
+} from './local-db';
+
+export interface BalanceSnapshot {
+  wallet_address: string;
+  balance_usd: number;
+  recorded_at: string;
+}
+
+export interface BalanceChange {
+  current: number;
+  previous: number;
+  delta: number;
+  // Fraction of the previous balance, e.g. -0.6 for a 60% drop
+  ratio: number | null;
+}
+
+export const BALANCE_HISTORY_EVENT = 'walletBalanceHistoryChanged';
+
+// Drops at least this large (as a fraction) are flagged as a likely exit
+export const EXIT_DROP_RATIO = 0.5;
+
+/**
+ * Store the successful results of a balance refresh
+ */
+export async function recordBalanceSnapshots(
+  results: RefreshBalancesResult[]
+): Promise<void> {
+  const recordedAt = new Date().toISOString();
+  const snapshots: BalanceSnapshot[] = results
+    .filter((result) => result.success && result.balance_usd !== null)
+    .map((result) => ({
+      wallet_address: result.wallet_address,
+      balance_usd: result.balance_usd as number,
+      recorded_at: recordedAt
+    }));
+  if (snapshots.length === 0) return;
+
+  await putRecords(WALLET_BALANCE_STORE, snapshots);
+
+  window.dispatchEvent(
+    new CustomEvent(BALANCE_HISTORY_EVENT, {
+      detail: {
+        walletAddresses: snapshots.map((snapshot) => snapshot.wallet_address)
+      }
+    })
+  );
+}
+
+/**
+ * Fetch the recorded balances for a wallet, oldest first
+ */
+export async function getBalanceHistory(
+  walletAddress: string
+): Promise<BalanceSnapshot[]> {
+  const [[, snapshots]] = await getRecordsByIndex<string, BalanceSnapshot>(
+    WALLET_BALANCE_STORE,
+    'wallet_address',
+    [walletAddress]
+  );
+  return snapshots;
+}
+
+/**
+ * Change between the two most recent refreshes, or null with fewer than two
+ */
+export function latestBalanceChange(
+  snapshots: BalanceSnapshot[]
+): BalanceChange | null {
+  if (snapshots.length < 2) return null;
+  const current = snapshots[snapshots.length - 1].balance_usd;
+  const previous = snapshots[snapshots.length - 2].balance_usd;
+  return {
+    current,
+    previous,
+    delta: current - previous,
+    ratio: previous > 0 ? (current - previous) / previous : null
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Watchlist import/export helpers
+ *
+ * Exports use the same `{ addresses: ImportAddressEntry[] }` shape the
+ * backend's `/import` endpoint accepts, so a file can be re-imported as-is.
+ */
+
+import type {
+  ImportAddressEntry,
+  ImportAddressesRequest,
+  WatchlistAddress
+} from './api';
+import { isValidSolanaAddress } from './solana';
+
+export interface ParsedWatchlistImport {
+  entries: ImportAddressEntry[];
+  invalid: string[];
+}
+
+/**
+ * Build the export payload from the current watchlist
+ */
+export function toWatchlistExport(
+  addresses: WatchlistAddress[]
+): ImportAddressesRequest {
+  return {
+    addresses: addresses.map((entry) => ({
+      address: entry.address,
+      registered_at: entry.registered_at ?? null,
+      threshold: entry.threshold ?? null,
+      total_notifications: entry.total_notifications ?? null,
+      last_notification: entry.last_notification ?? null,
+      note: entry.note ?? null
+    }))
+  };
+}
+
+/**
+ * Parse import text: either an exported JSON file (`{ addresses: [...] }` or
+ * a bare array) or a plain list of addresses, one per line
+ */
+export function parseWatchlistImport(text: string): ParsedWatchlistImport {
+  const trimmed = text.trim();
+  let candidates: ImportAddressEntry[];
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    const list = Array.isArray(data) ? data : data.addresses;
+    if (!Array.isArray(list)) {
+      throw new Error('JSON must contain an "addresses" array');
+    }
+    candidates = list.map((item: ImportAddressEntry | string) =>
+      typeof item === 'string' ? { address: item } : item
+    );
+  } else {
+    candidates = trimmed
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((address) => ({ address }));
+  }
+
+  const entries: ImportAddressEntry[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  candidates.forEach((entry) => {
+    const address = String(entry?.address ?? '').trim();
+    if (!isValidSolanaAddress(address)) {
+      invalid.push(address || '(empty)');
+      return;
+    }
+    if (seen.has(address)) return;
+    seen.add(address);
+    entries.push({ ...entry, address });
+  });
+
+  return { entries, invalid };
+}
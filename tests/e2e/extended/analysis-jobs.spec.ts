@@ -0,0 +1,111 @@
+/**
+ * E2E Tests: Analysis Jobs Page
+ * Tests the job list backed by GET /analysis and the job detail view
+ *
+ * Coverage:
+ * - Job list display
+ * - Status filtering
+ * - Job detail drill-down
+ * - CSV results viewer
+ * - Realtime connection status and live list updates
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+import { SAMPLE_ADDRESSES, waitFor } from '../helpers/test-data';
+
+test.describe('Analysis Jobs Page', () => {
+  test.beforeEach(async ({ page }) => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+
+    await page.goto('/dashboard/jobs');
+  });
+
+  test('should display page header and stats', async ({ page }) => {
+    await expect(
+      page.getByRole('heading', { name: 'Analysis Jobs' })
+    ).toBeVisible();
+    await expect(page.getByText('Total Jobs')).toBeVisible();
+    await expect(page.getByText('Failed').first()).toBeVisible();
+  });
+
+  test('should list a queued job', async ({ page }) => {
+    await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
+    await waitFor(1000);
+
+    await page.reload();
+    await page.waitForSelector('[data-testid="jobs-table"]', {
+      timeout: 10000
+    });
+
+    const rows = page.locator('[data-testid="job-row"]');
+    expect(await rows.count()).toBeGreaterThanOrEqual(1);
+  });
+
+  test('should filter jobs by status', async ({ page }) => {
+    await page.getByRole('button', { name: /^failed/i }).click();
+
+    const rows = page.locator('[data-testid="job-row"]');
+    const count = await rows.count();
+    for (let i = 0; i < count; i++) {
+      await expect(rows.nth(i)).toContainText(/failed/i);
+    }
+  });
+
+  test('should open job details', async ({ page }) => {
+    await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
+    await waitFor(1000);
+
+    await page.reload();
+    await page.waitForSelector('[data-testid="jobs-table"]');
+
+    const firstJobLink = page
+      .locator('[data-testid="job-row"]')
+      .first()
+      .getByRole('link')
+      .last();
+    await firstJobLink.click();
+
+    await expect(
+      page.getByRole('heading', { name: 'Analysis Job' })
+    ).toBeVisible();
+    await expect(page.getByText('Axiom File')).toBeVisible();
+    await expect(page.getByText('Result File')).toBeVisible();
+  });
+
+  test('should render CSV results for a completed job', async ({ page }) => {
+    await page.getByRole('button', { name: /^completed/i }).click();
+
+    const completedRow = page.locator('[data-testid="job-row"]').first();
+    if ((await completedRow.count()) > 0) {
+      await completedRow.getByRole('link').last().click();
+      await page.getByRole('button', { name: /view results/i }).click();
+
+      await expect(page.getByTestId('csv-results-viewer')).toBeVisible({
+        timeout: 10000
+      });
+    }
+  });
+
+  test('should show realtime connection status', async ({ page }) => {
+    await expect(page.getByTestId('realtime-status')).toHaveText(
+      /live|polling/i
+    );
+  });
+
+  test('should list a new job without reloading', async ({ page }) => {
+    await page.waitForSelector('[data-testid="jobs-table"]');
+    const before = await page.locator('[data-testid="job-row"]').count();
+
+    await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token2);
+
+    // Arrives via the analysis_start event (or fallback polling)
+    await expect
+      .poll(() => page.locator('[data-testid="job-row"]').count(), {
+        timeout: 20000
+      })
+      .toBeGreaterThan(before);
+  });
+});
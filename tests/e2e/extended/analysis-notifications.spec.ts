@@ -10,6 +10,7 @@
  * - Job failed notification
  * - Notification UI display
  * - Notification dismissal
+ * - One toast per job across pages
  */
 
 import { test, expect } from '@playwright/test';
@@ -355,4 +356,15 @@ test.describe('Analysis Notifications (WebSocket)', () => {
       }
     }
   });
+
+  test('should show one completion toast per job', async ({ page }) => {
+    await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
+
+    const completed = page.getByText(/analysis complete/i);
+    await expect(completed.first()).toBeVisible({ timeout: 30000 });
+
+    // Socket event and /analysis reconciliation must not both toast
+    await waitFor(2000);
+    expect(await completed.count()).toBe(1);
+  });
 });
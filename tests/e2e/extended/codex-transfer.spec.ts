@@ -0,0 +1,93 @@
+/**
+ * E2E Tests: Codex Import/Export
+ * Tests backing up the Codex to a file and importing it with a diff preview
+ *
+ * Coverage:
+ * - JSON and CSV export
+ * - Import diff (new, duplicate, conflicting tags)
+ * - Applying approved changes with a final report
+ */
+
+import { test, expect, Page } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+const TEST_WALLET = 'CodexTransferTestWa11et111111111111111111111';
+
+async function openCodex(page: Page) {
+  await page.goto('/dashboard/tokens');
+  await page.getByRole('button', { name: 'Codex' }).click();
+  await expect(page.getByRole('heading', { name: 'Codex' })).toBeVisible({
+    timeout: 10000
+  });
+}
+
+test.describe('Codex Import/Export', () => {
+  test.beforeEach(async () => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+  });
+
+  test('should export the Codex as JSON and CSV', async ({ page }) => {
+    const tag = `e2e-export-${Date.now()}`;
+    await apiFixture.api.addTag(TEST_WALLET, tag);
+    await openCodex(page);
+
+    await page.getByRole('button', { name: 'Export' }).click();
+    const [jsonDownload] = await Promise.all([
+      page.waitForEvent('download'),
+      page.getByRole('menuitem', { name: 'JSON' }).click()
+    ]);
+    expect(jsonDownload.suggestedFilename()).toMatch(/^codex_export_.*\.json$/);
+
+    await page.getByRole('button', { name: 'Export' }).click();
+    const [csvDownload] = await Promise.all([
+      page.waitForEvent('download'),
+      page.getByRole('menuitem', { name: 'CSV' }).click()
+    ]);
+    const path = await csvDownload.path();
+    const { readFile } = await import('fs/promises');
+    const csv = await readFile(path!, 'utf-8');
+    expect(csv.split('\n')[0]).toBe('wallet_address,tag,is_kol,added_at');
+    expect(csv).toContain(`${TEST_WALLET},${tag},false`);
+  });
+
+  test('should preview and apply an import', async ({ page }) => {
+    const existing = `e2e-import-${Date.now()}`;
+    const added = `${existing}-new`;
+    await apiFixture.api.addTag(TEST_WALLET, existing);
+    await openCodex(page);
+
+    await page.getByRole('button', { name: 'Import' }).click();
+    const dialog = page.getByTestId('codex-import-dialog');
+    await dialog.locator('input[type="file"]').setInputFiles({
+      name: 'codex.json',
+      mimeType: 'application/json',
+      buffer: Buffer.from(
+        JSON.stringify({
+          tags: [
+            { wallet_address: TEST_WALLET, tag: existing, is_kol: false },
+            { wallet_address: TEST_WALLET, tag: added, is_kol: true },
+            { wallet_address: 'not-an-address', tag: 'x', is_kol: false }
+          ]
+        })
+      )
+    });
+
+    await expect(dialog.getByTestId('codex-import-new')).toHaveText('1 new');
+    await expect(dialog.getByTestId('codex-import-duplicates')).toHaveText(
+      '1 duplicate(s)'
+    );
+    await expect(dialog.getByTestId('codex-import-preview')).toContainText(
+      '1 invalid row(s) skipped'
+    );
+
+    await dialog.getByRole('button', { name: 'Apply 1 change(s)' }).click();
+    await expect(dialog.getByTestId('codex-import-report')).toContainText(
+      '1 change(s) applied'
+    );
+    await dialog.getByRole('button', { name: 'Close' }).click();
+
+    await expect(page.getByText(added).first()).toBeVisible();
+  });
+});
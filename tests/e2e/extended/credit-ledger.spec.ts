@@ -0,0 +1,77 @@
+/**
+ * E2E Tests: API Credits
+ * Tests the credit ledger and monthly budget dashboard
+ *
+ * Coverage:
+ * - Ledger, stats and charts display
+ * - Refresh calls recorded in the ledger
+ * - Budget warning when spend approaches the monthly budget
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+test.describe('API Credits', () => {
+  test.beforeEach(async ({ page }) => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+
+    await page.goto('/dashboard/credits');
+  });
+
+  test('should display ledger and totals', async ({ page }) => {
+    await expect(
+      page.getByRole('heading', { name: 'API Credits' })
+    ).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText('Last 7 days')).toBeVisible();
+    await expect(page.getByTestId('credit-ledger')).toBeVisible();
+    await expect(page.getByText('Daily', { exact: true })).toBeVisible();
+    await expect(page.getByText('Weekly', { exact: true })).toBeVisible();
+  });
+
+  test('should record a market cap refresh', async ({ page }) => {
+    const res = await fetch(`${apiFixture.api.baseUrl}/api/tokens/history`);
+    const data = await res.json();
+    if (!data.tokens?.length) {
+      test.skip(true, 'No analyzed tokens available');
+    }
+
+    // Refresh through the app so the ledger sees the call
+    await page.goto('/dashboard/tokens');
+    const refreshResponse = page.waitForResponse((r) =>
+      r.url().includes('/api/tokens/refresh-market-caps')
+    );
+    await page
+      .getByRole('button', { name: 'Refresh all visible market caps' })
+      .click();
+    const body = await (await refreshResponse).json();
+    if (!body.api_credits_used) {
+      test.skip(true, 'Refresh used no credits');
+    }
+
+    await page.goto('/dashboard/credits');
+    await expect(
+      page
+        .getByTestId('credit-entry')
+        .filter({ hasText: 'Market cap refresh' })
+        .first()
+    ).toBeVisible();
+  });
+
+  test('should warn when the monthly budget is nearly spent', async ({
+    page
+  }) => {
+    await expect(page.getByTestId('credit-ledger')).toBeVisible({
+      timeout: 10000
+    });
+    if ((await page.getByTestId('credit-entry').count()) === 0) {
+      test.skip(true, 'No credit usage recorded yet');
+    }
+
+    const budget = page.getByLabel('Budget');
+    await budget.fill('1');
+    await budget.press('Enter');
+    await expect(page.getByTestId('credit-budget-warning')).toBeVisible();
+  });
+});
@@ -4,10 +4,14 @@
  *
  * Coverage:
  * - Token list display
+ * - Sorting and paging
  * - Token details modal
  * - Token history view
+ * - Run-to-run wallet diff
+ * - Market cap history (sparkline + chart)
  * - Wallet type display (creator, holder, dev, insider, sniper)
  * - Soft delete operation
+ * - Analyze Token launcher (validation + tracked job)
  */
 
 import { test, expect } from '@playwright/test';
@@ -38,6 +42,19 @@ test.describe('Dashboard Tokens Panel', () => {
     }
   });
 
+  test('should sort tokens by column header', async ({ page }) => {
+    await page.waitForSelector('[data-testid="tokens-table"]');
+
+    const header = page.getByRole('columnheader', { name: /Wallets/ });
+    await header.getByRole('button', { name: 'Wallets' }).click();
+    await expect(header).toHaveAttribute('aria-sort', /ascending|descending/);
+
+    // Sorting goes back to the first page
+    await expect(page.getByTestId('tokens-table-range')).toContainText(
+      /^(0|1)-/
+    );
+  });
+
   test('should open token details modal', async ({ page }) => {
     // Seed a token first
     await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
@@ -112,6 +129,46 @@ test.describe('Dashboard Tokens Panel', () => {
     }
   });
 
+  test('should compare two analysis runs', async ({ page }) => {
+    await page.waitForSelector('[data-testid="tokens-table"]');
+
+    const firstTokenRow = page.locator('[data-testid="token-row"]').first();
+    if ((await firstTokenRow.count()) === 0) {
+      test.skip(true, 'No analyzed tokens available');
+    }
+    await firstTokenRow.click();
+    await page.getByRole('tab', { name: /history/i }).click();
+
+    // Only offered once a token has been analyzed more than once
+    const compareButton = page.getByRole('button', { name: /compare runs/i });
+    if ((await compareButton.count()) === 0) {
+      test.skip(true, 'Token has a single analysis run');
+    }
+    await compareButton.click();
+
+    const diff = page.getByTestId('run-diff');
+    await expect(diff).toBeVisible();
+    await expect(diff.getByText('Added').first()).toBeVisible();
+    await expect(diff.getByText('Dropped').first()).toBeVisible();
+    await expect(diff.getByText('Credits').first()).toBeVisible();
+  });
+
+  test('should show market cap history on token page', async ({ page }) => {
+    const res = await fetch(`${apiFixture.api.baseUrl}/api/tokens/history`);
+    const data = await res.json();
+    if (!data.tokens?.length) {
+      test.skip(true, 'No analyzed tokens available');
+    }
+
+    await page.goto(`/dashboard/tokens/${data.tokens[0].id}`);
+    await expect(page.getByText('Market Cap History')).toBeVisible();
+
+    // Either the recorded history or the empty hint
+    const chart = page.getByTestId('market-cap-chart');
+    const empty = page.getByText(/no market cap refreshes recorded/i);
+    await expect(chart.or(empty)).toBeVisible();
+  });
+
   test('should soft delete token', async ({ page }) => {
     // Seed a token
     const result = await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
@@ -182,4 +239,22 @@ test.describe('Dashboard Tokens Panel', () => {
       expect(count).toBeGreaterThanOrEqual(1);
     }
   });
+
+  test('should reject invalid addresses in analyze form', async ({ page }) => {
+    await page.getByRole('button', { name: /analyze token/i }).click();
+    await page.getByLabel(/token address/i).fill('not-a-solana-address');
+    await page.getByRole('button', { name: /queue analysis/i }).click();
+
+    await expect(page.getByText(/not a valid solana/i)).toBeVisible();
+  });
+
+  test('should queue analysis and show tracked job', async ({ page }) => {
+    await page.getByRole('button', { name: /analyze token/i }).click();
+    await page.getByLabel(/token address/i).fill(SAMPLE_ADDRESSES.token1);
+    await page.getByRole('button', { name: /queue analysis/i }).click();
+
+    // Returned job_id is listed under Tracked Jobs
+    await expect(page.getByText('Tracked Jobs')).toBeVisible();
+    await expect(page.getByText(SAMPLE_ADDRESSES.token1).first()).toBeVisible();
+  });
 });
@@ -0,0 +1,66 @@
+/**
+ * E2E Tests: Leaderboard
+ * Tests ranking analyzed tokens by market cap multiple
+ *
+ * Coverage:
+ * - Period selection and stats display
+ * - Ranking order by current/original market cap
+ * - Winner and likely-rug highlighting
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+test.describe('Leaderboard', () => {
+  test.beforeEach(async ({ page }) => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+
+    await page.goto('/dashboard/leaderboard');
+  });
+
+  test('should display periods and stats', async ({ page }) => {
+    await expect(
+      page.getByRole('heading', { name: 'Leaderboard' })
+    ).toBeVisible({ timeout: 10000 });
+    for (const period of ['Last 24 hours', 'Last 7 days', 'All time']) {
+      await expect(page.getByRole('button', { name: period })).toBeVisible();
+    }
+    await expect(page.getByTestId('leaderboard-winners')).toBeVisible();
+    await expect(page.getByTestId('leaderboard-rugs')).toBeVisible();
+  });
+
+  test('should rank tokens by multiple', async ({ page }) => {
+    await page.getByRole('button', { name: 'All time' }).click();
+
+    const rows = page.getByTestId('leaderboard-row');
+    if ((await rows.count()) < 2) {
+      test.skip(true, 'Not enough tokens with a current market cap');
+    }
+
+    const multiples = (
+      await page.getByTestId('leaderboard-multiple').allTextContents()
+    ).map((text) => parseFloat(text));
+    const sorted = [...multiples].sort((a, b) => b - a);
+    expect(multiples).toEqual(sorted);
+  });
+
+  test('should highlight winners and rugs', async ({ page }) => {
+    await page.getByRole('button', { name: 'All time' }).click();
+
+    const winners = Number(
+      await page.getByTestId('leaderboard-winners').textContent()
+    );
+    const rugs = Number(
+      await page.getByTestId('leaderboard-rugs').textContent()
+    );
+
+    await expect(
+      page.locator('[data-testid="leaderboard-row"][data-outcome="winner"]')
+    ).toHaveCount(winners);
+    await expect(
+      page.locator('[data-testid="leaderboard-row"][data-outcome="rug"]')
+    ).toHaveCount(rugs);
+  });
+});
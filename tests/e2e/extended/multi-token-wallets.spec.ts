@@ -5,6 +5,8 @@
  * Coverage:
  * - Display wallets holding multiple tokens
  * - Refresh balances functionality
+ * - Balance change since the previous refresh
+ * - Smart money score column and breakdown
  * - Wallet sorting and filtering
  * - Token count display
  */
@@ -93,6 +95,50 @@ test.describe('Multi-Token Wallets Panel', () => {
     }
   });
 
+  test('should show balance change after repeated refreshes', async ({
+    page
+  }) => {
+    const refreshButton = page
+      .getByRole('button', { name: /refresh balance - 1 api credit/i })
+      .first();
+    if ((await refreshButton.count()) === 0) {
+      test.skip(true, 'No multi-token wallets available');
+    }
+
+    // Two refreshes give a previous value to compare against
+    for (let i = 0; i < 2; i++) {
+      const response = page.waitForResponse((res) =>
+        res.url().includes('/wallets/refresh-balances')
+      );
+      await refreshButton.click();
+      await response;
+    }
+
+    await expect(
+      page.getByTestId('wallet-balance-change').first()
+    ).toBeVisible();
+  });
+
+  test('should sort by smart money score with a breakdown', async ({
+    page
+  }) => {
+    const scores = page.getByTestId('smart-money-score');
+    // Scores need tokens with a refreshed market cap
+    await page.waitForTimeout(2000);
+    if ((await scores.count()) === 0) {
+      test.skip(true, 'No scored wallets available');
+    }
+
+    await page.getByRole('button', { name: 'Score' }).first().click();
+    const values = (await scores.allTextContents()).map(Number);
+    expect(values).toEqual([...values].sort((a, b) => b - a));
+
+    await scores.first().click();
+    const breakdown = page.getByTestId('smart-money-breakdown');
+    await expect(breakdown).toBeVisible();
+    await expect(breakdown).toContainText('Buy rank');
+  });
+
   test('should sort wallets by token count', async ({ page }) => {
     // Seed multiple tokens
     await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
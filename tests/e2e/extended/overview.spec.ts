@@ -0,0 +1,64 @@
+/**
+ * E2E Tests: Overview
+ * Tests the analytics overview page
+ *
+ * Coverage:
+ * - Stat cards and charts display
+ * - Recent analyses from /analysis
+ * - Sidebar navigation to the overview
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+test.describe('Overview', () => {
+  test.beforeEach(async ({ page }) => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+
+    await page.goto('/dashboard/overview');
+  });
+
+  test('should display stats and charts', async ({ page }) => {
+    await expect(page.getByRole('heading', { name: 'Overview' })).toBeVisible({
+      timeout: 10000
+    });
+    await expect(page.getByTestId('overview-stat')).toHaveCount(4);
+    await expect(page.getByTestId('overview-analyses-chart')).toBeVisible();
+    await expect(page.getByTestId('overview-credits-chart')).toBeVisible();
+    await expect(page.getByTestId('overview-wallets-chart')).toBeVisible();
+    await expect(page.getByTestId('overview-multiples-chart')).toBeVisible();
+    await expect(page.getByText('Hi, Welcome back')).toHaveCount(0);
+  });
+
+  test('should count analyzed tokens', async ({ page }) => {
+    const res = await fetch(`${apiFixture.api.baseUrl}/api/tokens/history`);
+    const data = await res.json();
+
+    await expect(
+      page.getByTestId('overview-stat').filter({ hasText: 'Tokens analyzed' })
+    ).toContainText(String(data.tokens?.length ?? 0), { timeout: 10000 });
+  });
+
+  test('should list recent analyses', async ({ page }) => {
+    const res = await fetch(`${apiFixture.api.baseUrl}/analysis`);
+    const data = await res.json();
+    if (!data.jobs?.length) {
+      test.skip(true, 'No analysis jobs available');
+    }
+
+    const recent = page.getByTestId('overview-recent-analysis');
+    await expect(recent.first()).toBeVisible({ timeout: 10000 });
+    expect(await recent.count()).toBeLessThanOrEqual(6);
+
+    await recent.first().getByRole('link').click();
+    await expect(page).toHaveURL(/\/dashboard\/jobs\//);
+  });
+
+  test('should open from the sidebar', async ({ page }) => {
+    await page.goto('/dashboard/tokens');
+    await page.getByRole('link', { name: 'Overview' }).first().click();
+    await expect(page).toHaveURL(/\/dashboard\/overview/);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * E2E Tests: Auto Refresh
+ * Tests the scheduled market cap / balance refresh page
+ *
+ * Coverage:
+ * - Default schedules and daily budget display
+ * - Budget persistence across reloads
+ * - Adding and removing schedules
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+test.describe('Auto Refresh', () => {
+  test.beforeEach(async ({ page }) => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+
+    await page.goto('/dashboard/scheduler');
+  });
+
+  test('should show default schedules and budget', async ({ page }) => {
+    await expect(
+      page.getByRole('heading', { name: 'Auto Refresh' })
+    ).toBeVisible();
+    await expect(
+      page.getByText(/market caps of tokens analyzed in the last 48h/i)
+    ).toBeVisible();
+    await expect(page.getByText(/balances of kol wallets/i)).toBeVisible();
+    await expect(page.getByTestId('scheduler-credits')).toContainText('/');
+  });
+
+  test('should persist the daily budget', async ({ page }) => {
+    const budget = page.getByLabel('Daily credit budget');
+    await budget.fill('123');
+    await budget.press('Enter');
+    await expect(page.getByTestId('scheduler-credits')).toContainText('123');
+
+    await page.reload();
+    await expect(page.getByTestId('scheduler-credits')).toContainText('123');
+  });
+
+  test('should add and remove a schedule', async ({ page }) => {
+    const schedules = page.getByTestId('refresh-schedule');
+    const before = await schedules.count();
+
+    await page.getByRole('button', { name: 'Wallet balances' }).click();
+    await expect(schedules).toHaveCount(before + 1);
+
+    await schedules
+      .last()
+      .getByRole('button', { name: 'Remove schedule' })
+      .click();
+    await expect(schedules).toHaveCount(before);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * E2E Tests: System Metrics
+ * Tests the system page backed by the Prometheus /metrics endpoint
+ *
+ * Coverage:
+ * - Health status display
+ * - Metrics charts rendering
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+test.describe('System Metrics', () => {
+  test.beforeEach(async () => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+  });
+
+  test('should display backend health status', async ({ page }) => {
+    await page.goto('/dashboard/system');
+
+    await expect(page.getByRole('heading', { name: 'System' })).toBeVisible({
+      timeout: 10000
+    });
+    await expect(page.locator('[data-testid="health-status"]')).toBeVisible();
+  });
+
+  test('should render metrics charts', async ({ page }) => {
+    await page.goto('/dashboard/system');
+
+    await expect(page.getByText('Request Rate')).toBeVisible({
+      timeout: 10000
+    });
+    await expect(page.getByText('Latency', { exact: true })).toBeVisible();
+    await expect(page.getByText('Job Counters')).toBeVisible();
+  });
+});
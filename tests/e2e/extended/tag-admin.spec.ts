@@ -0,0 +1,119 @@
+/**
+ * E2E Tests: Tag Admin
+ * Tests renaming, merging and deleting tags across all wallets
+ *
+ * Coverage:
+ * - Per-tag wallet counts
+ * - Dry-run preview before applying
+ * - Rename and delete with progress reporting
+ * - Tag category (taxonomy) editing
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+
+const TEST_WALLET = 'TagAdminTestWa11et1111111111111111111111111';
+
+test.describe('Tag Admin', () => {
+  test.beforeEach(async () => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+  });
+
+  test('should list tags with wallet counts', async ({ page }) => {
+    const tag = `e2e-count-${Date.now()}`;
+    await apiFixture.api.addTag(TEST_WALLET, tag);
+
+    await page.goto('/dashboard/tags');
+    await expect(page.getByRole('heading', { name: 'Tags' })).toBeVisible({
+      timeout: 10000
+    });
+
+    const row = page.locator(`[data-testid="tag-row"][data-tag="${tag}"]`);
+    await expect(row).toBeVisible();
+    await expect(row.getByTestId('tag-wallet-count')).toHaveText('1');
+  });
+
+  test('should preview, rename and delete a tag', async ({ page }) => {
+    const tag = `e2e-rename-${Date.now()}`;
+    const renamed = `${tag}-renamed`;
+    await apiFixture.api.addTag(TEST_WALLET, tag);
+
+    await page.goto('/dashboard/tags');
+    const row = page.locator(`[data-testid="tag-row"][data-tag="${tag}"]`);
+    await row.getByRole('button', { name: 'Rename' }).click();
+
+    const dialog = page.getByTestId('tag-operation-dialog');
+    await dialog.getByLabel('New name').fill(renamed);
+    await expect(dialog.getByTestId('tag-operation-preview')).toContainText(
+      '1 wallet(s) will change'
+    );
+    await expect(dialog.getByTestId('tag-operation-preview')).toContainText(
+      TEST_WALLET
+    );
+
+    await dialog.getByRole('button', { name: 'Apply' }).click();
+    await expect(dialog.getByTestId('tag-operation-progress')).toContainText(
+      '1 / 1'
+    );
+    await dialog.getByRole('button', { name: 'Close' }).click();
+
+    await expect(row).toHaveCount(0);
+    const renamedRow = page.locator(
+      `[data-testid="tag-row"][data-tag="${renamed}"]`
+    );
+    await expect(renamedRow).toBeVisible();
+
+    // Clean up through the delete operation
+    await renamedRow.getByRole('button', { name: 'Delete' }).click();
+    await expect(dialog.getByTestId('tag-operation-preview')).toContainText(
+      '1 wallet(s) will change'
+    );
+    await dialog.getByRole('button', { name: 'Apply' }).click();
+    await dialog.getByRole('button', { name: 'Close' }).click();
+    await expect(renamedRow).toHaveCount(0);
+  });
+
+  test('should refuse renaming onto an existing tag', async ({ page }) => {
+    const tag = `e2e-clash-${Date.now()}`;
+    const other = `${tag}-other`;
+    await apiFixture.api.addTag(TEST_WALLET, tag);
+    await apiFixture.api.addTag(TEST_WALLET, other);
+
+    await page.goto('/dashboard/tags');
+    await page
+      .locator(`[data-testid="tag-row"][data-tag="${tag}"]`)
+      .getByRole('button', { name: 'Rename' })
+      .click();
+
+    const dialog = page.getByTestId('tag-operation-dialog');
+    await dialog.getByLabel('New name').fill(other);
+    await expect(dialog).toContainText('merge into it instead');
+    await expect(dialog.getByRole('button', { name: 'Apply' })).toBeDisabled();
+  });
+
+  test('should add and remove a tag category', async ({ page }) => {
+    const tag = `E2E Category ${Date.now()}`;
+
+    await page.goto('/dashboard/tags');
+    const rows = page.getByTestId('tag-category-row');
+    await expect(rows.first()).toBeVisible({ timeout: 10000 });
+    const before = await rows.count();
+
+    await page.getByLabel('New category tag').fill(tag);
+    await page.getByRole('button', { name: 'Add Category' }).click();
+    await expect(rows).toHaveCount(before + 1);
+
+    // New categories go last
+    const row = rows.last();
+    await expect(row.getByTestId('tag-category-badge')).toHaveText(tag);
+
+    // Categories are saved per browser
+    await page.reload();
+    await expect(rows).toHaveCount(before + 1);
+
+    await row.getByTitle('Remove category').click();
+    await expect(rows).toHaveCount(before);
+  });
+});
@@ -82,12 +82,14 @@ test.describe('Trash View Operations', () => {
     await waitFor(2000);
 
     // Delete via API for faster setup
-    const tokensRes = await fetch('http://localhost:5003/api/tokens/history');
+    const tokensRes = await fetch(
+      `${apiFixture.api.baseUrl}/api/tokens/history`
+    );
     const tokensData = await tokensRes.json();
     const tokenId = tokensData.tokens?.[0]?.id;
 
     if (tokenId) {
-      await fetch(`http://localhost:5003/api/tokens/${tokenId}`, {
+      await fetch(`${apiFixture.api.baseUrl}/api/tokens/${tokenId}`, {
         method: 'DELETE'
       });
     }
@@ -143,12 +145,14 @@ test.describe('Trash View Operations', () => {
     await waitFor(2000);
 
     // Delete via API
-    const tokensRes = await fetch('http://localhost:5003/api/tokens/history');
+    const tokensRes = await fetch(
+      `${apiFixture.api.baseUrl}/api/tokens/history`
+    );
     const tokensData = await tokensRes.json();
     const tokenId = tokensData.tokens?.[0]?.id;
 
     if (tokenId) {
-      await fetch(`http://localhost:5003/api/tokens/${tokenId}`, {
+      await fetch(`${apiFixture.api.baseUrl}/api/tokens/${tokenId}`, {
         method: 'DELETE'
       });
     }
@@ -202,12 +206,14 @@ test.describe('Trash View Operations', () => {
     await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token1);
     await waitFor(2000);
 
-    const tokensRes = await fetch('http://localhost:5003/api/tokens/history');
+    const tokensRes = await fetch(
+      `${apiFixture.api.baseUrl}/api/tokens/history`
+    );
     const tokensData = await tokensRes.json();
     const tokenId = tokensData.tokens?.[0]?.id;
 
     if (tokenId) {
-      await fetch(`http://localhost:5003/api/tokens/${tokenId}`, {
+      await fetch(`${apiFixture.api.baseUrl}/api/tokens/${tokenId}`, {
         method: 'DELETE'
       });
     }
@@ -236,11 +242,13 @@ test.describe('Trash View Operations', () => {
     await waitFor(3000);
 
     // Delete both via API
-    const tokensRes = await fetch('http://localhost:5003/api/tokens/history');
+    const tokensRes = await fetch(
+      `${apiFixture.api.baseUrl}/api/tokens/history`
+    );
     const tokensData = await tokensRes.json();
 
     for (const token of tokensData.tokens || []) {
-      await fetch(`http://localhost:5003/api/tokens/${token.id}`, {
+      await fetch(`${apiFixture.api.baseUrl}/api/tokens/${token.id}`, {
         method: 'DELETE'
       });
     }
@@ -279,11 +287,13 @@ test.describe('Trash View Operations', () => {
     await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token2);
     await waitFor(3000);
 
-    const tokensRes = await fetch('http://localhost:5003/api/tokens/history');
+    const tokensRes = await fetch(
+      `${apiFixture.api.baseUrl}/api/tokens/history`
+    );
     const tokensData = await tokensRes.json();
 
     for (const token of tokensData.tokens || []) {
-      await fetch(`http://localhost:5003/api/tokens/${token.id}`, {
+      await fetch(`${apiFixture.api.baseUrl}/api/tokens/${token.id}`, {
         method: 'DELETE'
       });
     }
@@ -320,11 +330,13 @@ test.describe('Trash View Operations', () => {
     await apiFixture.api.seedToken(SAMPLE_ADDRESSES.token2);
     await waitFor(3000);
 
-    const tokensRes = await fetch('http://localhost:5003/api/tokens/history');
+    const tokensRes = await fetch(
+      `${apiFixture.api.baseUrl}/api/tokens/history`
+    );
     const tokensData = await tokensRes.json();
 
     for (const token of tokensData.tokens || []) {
-      await fetch(`http://localhost:5003/api/tokens/${token.id}`, {
+      await fetch(`${apiFixture.api.baseUrl}/api/tokens/${token.id}`, {
         method: 'DELETE'
       });
     }
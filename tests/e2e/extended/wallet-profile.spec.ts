@@ -0,0 +1,64 @@
+/**
+ * E2E Tests: Wallet Profile
+ * Tests the per-wallet page linked from token details and the Codex
+ *
+ * Coverage:
+ * - Profile header, tags and watchlist note
+ * - Analyzed tokens the wallet bought early
+ */
+
+import { test, expect } from '@playwright/test';
+import { apiFixture } from '../fixtures/api.fixture';
+import { SAMPLE_ADDRESSES } from '../helpers/test-data';
+
+const WALLET = SAMPLE_ADDRESSES.wallet1;
+
+test.describe('Wallet Profile', () => {
+  test.beforeEach(async () => {
+    // Ensure backend is healthy
+    const healthRes = await apiFixture.api.health();
+    expect(healthRes.ok).toBeTruthy();
+  });
+
+  test('should display wallet header and tags', async ({ page }) => {
+    await apiFixture.api.addTag(WALLET, 'E2E Profile');
+
+    await page.goto(`/dashboard/wallets/${WALLET}`);
+
+    await expect(page.getByRole('heading', { name: 'Wallet' })).toBeVisible({
+      timeout: 10000
+    });
+    await expect(page.getByTestId('wallet-address')).toHaveText(WALLET);
+    await expect(page.getByTestId('wallet-tags')).toContainText('E2E Profile');
+
+    await apiFixture.api.removeTag(WALLET, 'E2E Profile');
+  });
+
+  test('should show the watchlist note', async ({ page }) => {
+    await apiFixture.api.registerWatchlistAddress(WALLET, 'Profile note');
+
+    await page.goto(`/dashboard/wallets/${WALLET}`);
+
+    await expect(page.getByTestId('watchlist-note')).toHaveText(
+      'Profile note',
+      { timeout: 10000 }
+    );
+  });
+
+  test('should open a wallet from token details', async ({ page }) => {
+    await page.goto('/dashboard/tokens');
+    await page.waitForLoadState('networkidle');
+
+    const firstRow = page.locator('[data-testid="token-row"]').first();
+    if ((await firstRow.count()) === 0) return;
+
+    await firstRow.click();
+    const walletLink = page.locator('a[href^="/dashboard/wallets/"]').first();
+    await walletLink.click();
+
+    await expect(page.getByRole('heading', { name: 'Wallet' })).toBeVisible({
+      timeout: 10000
+    });
+    await expect(page.getByText('Analyzed Tokens')).toBeVisible();
+  });
+});
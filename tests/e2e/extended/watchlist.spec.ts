@@ -8,7 +8,7 @@
  * - View watchlist
  * - Remove address from watchlist
  * - Clear entire watchlist
- * - Label management
+ * - Note management
  */
 
 import { test, expect } from '@playwright/test';
@@ -28,33 +28,33 @@ test.describe('Watchlist Registration', () => {
     const healthRes = await apiFixture.api.health();
     expect(healthRes.ok).toBeTruthy();
 
-    // Navigate to dashboard
-    await page.goto('/dashboard/tokens');
+    // Navigate to watchlist page
+    await page.goto('/dashboard/watchlist');
     await page.waitForLoadState('networkidle');
   });
 
   test('should register a single wallet address', async ({ page }) => {
     // Find watchlist section or button
     const watchlistButton = page.getByRole('button', {
-      name: /watchlist|add to watchlist|register/i
+      name: /register address/i
     });
 
     if ((await watchlistButton.count()) > 0) {
       await watchlistButton.click();
 
       // Fill in address input
-      const addressInput = page.getByLabel(/address|wallet address/i);
+      const addressInput = page.getByLabel(/wallet address/i);
       await addressInput.fill(SAMPLE_ADDRESSES.wallet1);
 
-      // Fill in label
-      const labelInput = page.getByLabel(/label|name/i);
+      // Fill in note
+      const labelInput = page.getByLabel(/note/i);
       if ((await labelInput.count()) > 0) {
         await labelInput.fill(SAMPLE_WATCHLIST_LABELS[0]);
       }
 
       // Submit form
       const submitButton = page.getByRole('button', {
-        name: /register|add|save/i
+        name: /^register$/i
       });
       await submitButton.click();
 
@@ -75,13 +75,13 @@ test.describe('Watchlist Registration', () => {
 
   test('should import multiple addresses', async ({ page }) => {
     // Navigate to watchlist import
-    const importButton = page.getByRole('button', { name: /import|bulk add/i });
+    const importButton = page.getByRole('button', { name: /^import$/i });
 
     if ((await importButton.count()) > 0) {
       await importButton.click();
 
       // Fill in multiple addresses (CSV or line-separated format)
-      const importTextarea = page.getByLabel(/addresses|import/i);
+      const importTextarea = page.getByLabel(/^addresses$/i);
       const addressesToImport = [
         SAMPLE_ADDRESSES.wallet1,
         SAMPLE_ADDRESSES.wallet2,
@@ -92,7 +92,7 @@ test.describe('Watchlist Registration', () => {
 
       // Submit import
       const submitButton = page.getByRole('button', {
-        name: /import|submit|add/i
+        name: /import addresses/i
       });
       await submitButton.click();
 
@@ -126,12 +126,6 @@ test.describe('Watchlist Registration', () => {
     await page.reload();
     await page.waitForLoadState('networkidle');
 
-    // Navigate to watchlist view
-    const watchlistTab = page.getByRole('tab', { name: /watchlist/i });
-    if ((await watchlistTab.count()) > 0) {
-      await watchlistTab.click();
-    }
-
     // Verify addresses are displayed
     const watchlistItems = page.locator('[data-testid="watchlist-item"]');
     expect(await watchlistItems.count()).toBeGreaterThanOrEqual(2);
@@ -197,7 +191,7 @@ test.describe('Watchlist Registration', () => {
 
       // Confirm action
       const confirmButton = page.getByRole('button', {
-        name: /confirm|yes|clear/i
+        name: /continue/i
       });
       await confirmButton.click();
 
@@ -214,18 +208,18 @@ test.describe('Watchlist Registration', () => {
 
   test('should validate wallet address format', async ({ page }) => {
     const watchlistButton = page.getByRole('button', {
-      name: /watchlist|add to watchlist|register/i
+      name: /register address/i
     });
 
     if ((await watchlistButton.count()) > 0) {
       await watchlistButton.click();
 
       // Try to submit invalid address
-      const addressInput = page.getByLabel(/address|wallet address/i);
+      const addressInput = page.getByLabel(/wallet address/i);
       await addressInput.fill('invalid_address_123');
 
       const submitButton = page.getByRole('button', {
-        name: /register|add|save/i
+        name: /^register$/i
       });
       await submitButton.click();
 
@@ -235,7 +229,7 @@ test.describe('Watchlist Registration', () => {
     }
   });
 
-  test('should edit watchlist item label', async ({ page }) => {
+  test('should edit watchlist item note', async ({ page }) => {
     // Register address
     await apiFixture.api.registerWatchlistAddress(
       SAMPLE_ADDRESSES.wallet1,
@@ -256,13 +250,13 @@ test.describe('Watchlist Registration', () => {
       if ((await editButton.count()) > 0) {
         await editButton.click();
 
-        // Change label
-        const labelInput = page.getByLabel(/label|name/i);
+        // Change note
+        const labelInput = page.getByLabel(/^note$/i);
         await labelInput.clear();
         await labelInput.fill('Updated Label');
 
         // Save changes
-        const saveButton = page.getByRole('button', { name: /save|update/i });
+        const saveButton = page.getByRole('button', { name: /^save$/i });
         await saveButton.click();
 
         // Verify new label is displayed
@@ -281,17 +275,17 @@ test.describe('Watchlist Registration', () => {
 
     // Try to register same address again
     const watchlistButton = page.getByRole('button', {
-      name: /watchlist|add to watchlist|register/i
+      name: /register address/i
     });
 
     if ((await watchlistButton.count()) > 0) {
       await watchlistButton.click();
 
-      const addressInput = page.getByLabel(/address|wallet address/i);
+      const addressInput = page.getByLabel(/wallet address/i);
       await addressInput.fill(SAMPLE_ADDRESSES.wallet1);
 
       const submitButton = page.getByRole('button', {
-        name: /register|add|save/i
+        name: /^register$/i
       });
       await submitButton.click();
 
@@ -3,7 +3,8 @@
  * Provides helpers for interacting with the FastAPI backend
  */
 
-const API_BASE_URL = 'http://localhost:5003';
+// Same env var the frontend container reads at startup
+const API_BASE_URL = process.env.API_URL || 'http://localhost:5003';
 
 export interface ApiFixture {
   api: {
@@ -52,13 +53,13 @@ export const apiFixture: ApiFixture = {
       return response.json();
     },
 
-    async registerWatchlistAddress(address: string, label?: string) {
+    async registerWatchlistAddress(address: string, note?: string) {
       const response = await fetch(`${API_BASE_URL}/register`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           address,
-          label: label || `Test ${address.slice(0, 8)}`
+          note: note || `Test ${address.slice(0, 8)}`
         })
       });
       return response.json();
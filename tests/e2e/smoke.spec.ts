@@ -4,6 +4,7 @@
  */
 
 import { test, expect } from '@playwright/test';
+import { apiFixture } from './fixtures/api.fixture';
 
 test.describe('Smoke Tests', () => {
   test('dashboard tokens page loads', async ({ page }) => {
@@ -17,7 +18,7 @@ test.describe('Smoke Tests', () => {
   });
 
   test('health endpoint responds', async ({ request }) => {
-    const response = await request.get('http://localhost:5003/health');
+    const response = await request.get(`${apiFixture.api.baseUrl}/health`);
     expect(response.status()).toBe(200);
   });
 });